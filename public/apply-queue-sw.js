@@ -0,0 +1,18 @@
+/**
+ * Background Sync for the offline apply queue
+ *
+ * Imported into the generated service worker. When the browser regains a
+ * connection it fires the sync registered by the app; the queue lives in
+ * the app (it needs the Twitch session and profiles), so this only wakes
+ * the open tabs and asks them to send it.
+ */
+
+self.addEventListener('sync', (event) => {
+  if (event.tag !== 'flush-apply-queue') return
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      clients.forEach((client) => client.postMessage({ type: 'flush-apply-queue' }))
+    })
+  )
+})
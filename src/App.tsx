@@ -1,5 +1,5 @@
 import { useEffect } from 'react';
-import { Routes, Route } from 'react-router-dom';
+import { Routes, Route, useLocation } from 'react-router-dom';
 import Layout from './components/Layout';
 import Dashboard from './pages/Dashboard';
 import CreateProfile from './pages/CreateProfile';
@@ -7,17 +7,27 @@ import EditProfile from './pages/EditProfile';
 import AuthPage from './pages/AuthPage';
 import AuthCallback from './pages/AuthCallback';
 import SupportPage from './pages/SupportPage';
+import HistoryPage from './pages/HistoryPage';
+import SchedulePage from './pages/SchedulePage';
+import SettingsPage from './pages/SettingsPage';
+import BackupPage from './pages/BackupPage';
 import { initializeRepositories } from './repositories';
+import { getProfileScheduler } from './lib/scheduler/profileScheduler';
+import { getStreamStatusPoller } from './lib/stream/streamStatusPoller';
+import { getApplyQueue } from './lib/sync/applyQueue';
+import { getCategoryRevalidator } from './lib/categories/categoryRevalidator';
+import { applyTheme } from './lib/theme/theme';
+import { notifyScheduleRuns, notifyStreamEvent, notifyQueuedApplies } from './lib/notifications/notifications';
+import { usePreferences } from './hooks/usePreferences';
+import { ROUTES } from './types/constants';
 import './App.css';
 
-// Import test functions in development
-if (import.meta.env.DEV) {
-  import('./lib/test/repositoryTests');
-  import('./lib/test/authTests');
-  import('./lib/test/epic3Tests');
-}
-
 function App(): JSX.Element {
+  const { preferences } = usePreferences();
+  const location = useLocation();
+  // The sign-in popup only hands the token back to its opener, which runs the background services
+  const isAuthCallback = location.pathname === ROUTES.AUTH_CALLBACK;
+
   useEffect(() => {
     // Initialize repositories on app start
     initializeRepositories().then((status) => {
@@ -30,12 +40,67 @@ function App(): JSX.Element {
     });
   }, []);
 
+  useEffect(() => {
+    if (isAuthCallback) return;
+
+    // Apply scheduled profiles while the app is open
+    const scheduler = getProfileScheduler();
+    const unsubscribe = scheduler.subscribe(notifyScheduleRuns);
+    scheduler.start();
+    return () => {
+      unsubscribe();
+      scheduler.stop();
+    };
+  }, [isAuthCallback]);
+
+  useEffect(() => {
+    if (isAuthCallback) return;
+
+    // Watch for the stream going live to apply the scheduled or default profile
+    const poller = getStreamStatusPoller();
+    const unsubscribe = poller.subscribeEvents(notifyStreamEvent);
+    poller.start();
+    return () => {
+      unsubscribe();
+      poller.stop();
+    };
+  }, [isAuthCallback]);
+
+  useEffect(() => {
+    if (isAuthCallback) return;
+
+    // Send applies queued while Twitch was unreachable once it's back
+    const queue = getApplyQueue();
+    const unsubscribe = queue.subscribe(notifyQueuedApplies);
+    queue.start();
+    return () => {
+      unsubscribe();
+      queue.stop();
+    };
+  }, [isAuthCallback]);
+
+  useEffect(() => {
+    if (isAuthCallback) return;
+
+    // Catch categories Twitch renamed or removed since the profiles were saved
+    const revalidator = getCategoryRevalidator();
+    revalidator.start();
+    return () => revalidator.stop();
+  }, [isAuthCallback]);
+
+  // Follow the theme preference (and the OS setting when it's "system")
+  useEffect(() => applyTheme(preferences.theme), [preferences.theme]);
+
   return (
     <Routes>
       <Route path="/" element={<Layout />}>
         <Route index element={<Dashboard />} />
         <Route path="profile/new" element={<CreateProfile />} />
         <Route path="profile/:id/edit" element={<EditProfile />} />
+        <Route path="history" element={<HistoryPage />} />
+        <Route path="schedule" element={<SchedulePage />} />
+        <Route path="settings" element={<SettingsPage />} />
+        <Route path="backup" element={<BackupPage />} />
         <Route path="support" element={<SupportPage />} />
         <Route path="auth" element={<AuthPage />} />
       </Route>
@@ -0,0 +1,96 @@
+import { useState, type JSX } from 'react';
+import { useAccounts } from '@/hooks/useAccounts';
+
+interface AccountListProps {
+  /** Called once a choice has been made */
+  onDone?: () => void;
+}
+
+/**
+ * Linked accounts with the selected one checked, and linking another.
+ * Switching reloads the page so every view picks up the new account.
+ */
+export function AccountList({ onDone }: AccountListProps): JSX.Element {
+  const { accounts, activeAccountId, error, switchAccount, addAccount } = useAccounts();
+
+  const handleSwitch = async (accountId: string) => {
+    if (accountId === activeAccountId) {
+      onDone?.();
+      return;
+    }
+    if (await switchAccount(accountId)) {
+      window.location.reload();
+    }
+  };
+
+  return (
+    <div role="menu" aria-label="Twitch accounts" data-testid="account-list" className="py-1">
+      {accounts.map(account => {
+        const isActive = account.id === activeAccountId;
+        return (
+          <button
+            key={account.id}
+            type="button"
+            role="menuitemradio"
+            aria-checked={isActive}
+            onClick={() => handleSwitch(account.id)}
+            className={`w-full flex items-center space-x-3 px-4 py-2 text-left text-sm transition-colors ${isActive ? 'bg-primary/10 text-primary' : 'text-neutral-700 hover:bg-neutral-100'}`}
+            data-testid="linked-account"
+          >
+            {account.profileImageUrl ? (
+              <img src={account.profileImageUrl} alt="" className="w-6 h-6 rounded-full" />
+            ) : (
+              <span className="w-6 h-6 rounded-full bg-neutral-200" aria-hidden="true" />
+            )}
+            <span className="flex-1 truncate">{account.displayName}</span>
+            {!account.signedIn && <span className="text-xs text-neutral-500">Signed out</span>}
+            {isActive && <span aria-hidden="true">✓</span>}
+          </button>
+        );
+      })}
+      <button
+        type="button"
+        role="menuitem"
+        onClick={() => {
+          onDone?.();
+          addAccount();
+        }}
+        className="w-full flex items-center space-x-3 px-4 py-2 text-left text-sm text-neutral-600 hover:text-neutral-900 hover:bg-neutral-100 transition-colors"
+      >
+        <span aria-hidden="true">➕</span>
+        <span>Add account</span>
+      </button>
+      {error && <p className="px-4 py-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Navigation bar button opening the account list
+ */
+export function AccountSwitcher(): JSX.Element {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(open => !open)}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        title="Switch account"
+        className="p-1 rounded text-neutral-600 hover:text-neutral-900 hover:bg-neutral-100 transition-colors"
+        data-testid="account-switcher"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-64 bg-white border border-neutral-200 rounded-lg shadow-lg z-20">
+          <AccountList onDone={() => setIsOpen(false)} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+import { useEffect, useState, type JSX } from 'react';
+import type { StreamProfile } from '@/types/Profile';
+import type { ChannelField } from '@/types/History';
+import { useChannelDiff } from '@/hooks/useChannelDiff';
+import { getProfileFields, CHANNEL_FIELD_LABELS, type TagDiff } from '@/lib/diff/channelDiff';
+import { sendableTags } from '@/lib/tags/twitchTags';
+
+interface ApplyPreviewDialogProps {
+  profile: StreamProfile;
+  isApplying?: boolean;
+  /** Called with the fields to send, and whether to stop showing the preview */
+  onConfirm: (fields: ChannelField[], skipPreview: boolean) => void;
+  onCancel: () => void;
+}
+
+const TAG_CHIP = 'inline-block px-2 py-0.5 rounded-full text-xs mr-1 mb-1';
+
+/**
+ * Live tags, with tags the profile removes struck through
+ */
+function LiveTags({ tags, live }: { tags: TagDiff; live: string[] }): JSX.Element {
+  if (live.length === 0) {
+    return <span className="text-neutral-400">None</span>;
+  }
+
+  return (
+    <>
+      {live.map(tag => (
+        <span
+          key={tag}
+          className={`${TAG_CHIP} ${tags.removed.includes(tag) ? 'bg-red-50 text-red-700 line-through' : 'bg-neutral-100 text-neutral-600'}`}
+          data-tag-status={tags.removed.includes(tag) ? 'removed' : 'kept'}
+        >
+          {tag}
+        </span>
+      ))}
+    </>
+  );
+}
+
+/**
+ * Profile tags, highlighting added and re-capitalised tags
+ */
+function ProfileTags({ tags, next }: { tags: TagDiff; next: string[] }): JSX.Element {
+  if (next.length === 0) {
+    return <span className="text-neutral-400">None</span>;
+  }
+
+  return (
+    <>
+      {next.map(tag => {
+        const status = tags.added.includes(tag)
+          ? 'added'
+          : tags.changed.some(change => change.to === tag) ? 'changed' : 'unchanged';
+        const style = status === 'added'
+          ? 'bg-green-50 text-green-700'
+          : status === 'changed' ? 'bg-yellow-50 text-yellow-700' : 'bg-neutral-100 text-neutral-600';
+
+        return (
+          <span key={tag} className={`${TAG_CHIP} ${style}`} data-tag-status={status}>
+            {status === 'added' && '+ '}{tag}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+/**
+ * Side-by-side preview of the live channel against a profile,
+ * letting the user choose which fields to apply
+ */
+export function ApplyPreviewDialog({
+  profile,
+  isApplying = false,
+  onConfirm,
+  onCancel,
+}: ApplyPreviewDialogProps): JSX.Element {
+  const { current, diff, processedTitle, isLoading, error } = useChannelDiff(profile);
+  const [selected, setSelected] = useState<ChannelField[]>([]);
+  const [skipPreview, setSkipPreview] = useState(false);
+
+  // Preselect changed fields once the live channel is known, or every field if it couldn't be read
+  useEffect(() => {
+    if (diff) {
+      setSelected(diff.changedFields);
+    } else if (!isLoading) {
+      setSelected(getProfileFields(profile));
+    }
+  }, [diff, isLoading, profile]);
+
+  const toggleField = (field: ChannelField, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, field] : prev.filter(existing => existing !== field));
+  };
+
+  const rows = diff?.fields ?? getProfileFields(profile).map(field => ({
+    field,
+    label: CHANNEL_FIELD_LABELS[field],
+    current: '',
+    next: '',
+    changed: true
+  }));
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="apply-preview-title"
+    >
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-full overflow-y-auto p-6">
+        <h2 id="apply-preview-title" className="text-2xl font-medium text-neutral-900 mb-1">
+          Apply "{profile.name}"?
+        </h2>
+        <p className="text-sm text-neutral-600 mb-6">
+          Review what will change on your channel. Only checked fields are sent.
+        </p>
+
+        {isLoading ? (
+          <p className="text-neutral-600 py-8 text-center animate-pulse">Loading your live channel...</p>
+        ) : (
+          <>
+            {error && (
+              <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                Couldn't read your live channel ({error}). You can still apply, but changes can't be previewed.
+              </div>
+            )}
+
+            {diff && !diff.hasChanges && (
+              <div className="mb-4 p-3 bg-neutral-50 border border-neutral-200 rounded-lg text-sm text-neutral-700">
+                Your channel already matches this profile.
+              </div>
+            )}
+
+            <table className="w-full text-sm mb-6" data-testid="apply-diff">
+              <thead>
+                <tr className="text-left text-xs text-neutral-500 uppercase tracking-wide border-b border-neutral-200">
+                  <th className="py-2 w-8"><span className="sr-only">Apply</span></th>
+                  <th className="py-2 pr-4">Field</th>
+                  <th className="py-2 pr-4">Live now</th>
+                  <th className="py-2">After applying</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr
+                    key={row.field}
+                    className={`border-b border-neutral-100 align-top ${row.changed ? '' : 'text-neutral-400'}`}
+                    data-field={row.field}
+                    data-changed={row.changed}
+                  >
+                    <td className="py-3">
+                      <input
+                        type="checkbox"
+                        name={`apply-${row.field}`}
+                        checked={selected.includes(row.field)}
+                        onChange={(e) => toggleField(row.field, e.target.checked)}
+                        aria-label={`Apply ${row.label}`}
+                        disabled={isApplying}
+                      />
+                    </td>
+                    <td className="py-3 pr-4 font-medium text-neutral-700">{row.label}</td>
+                    <td className="py-3 pr-4 break-words">
+                      {!current ? (
+                        <span className="text-neutral-400">Unknown</span>
+                      ) : row.field === 'tags' && diff ? (
+                        <LiveTags tags={diff.tags} live={current.tags} />
+                      ) : (
+                        row.current
+                      )}
+                    </td>
+                    <td className={`py-3 break-words ${row.changed && current ? 'bg-primary/5' : ''}`}>
+                      {row.field === 'tags' && diff ? (
+                        <ProfileTags tags={diff.tags} next={sendableTags(profile.tags)} />
+                      ) : row.field === 'title' ? (
+                        processedTitle
+                      ) : row.field === 'tags' ? (
+                        profile.tags.join(', ') || 'None'
+                      ) : row.field === 'category' ? (
+                        profile.category.name
+                      ) : (
+                        row.next || 'Set by profile'
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </>
+        )}
+
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <label className="flex items-center space-x-2 text-sm text-neutral-600">
+            <input
+              type="checkbox"
+              name="skipPreview"
+              checked={skipPreview}
+              onChange={(e) => setSkipPreview(e.target.checked)}
+            />
+            <span>Apply without previewing next time</span>
+          </label>
+          <div className="flex items-center space-x-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="scandi-btn-secondary"
+              disabled={isApplying}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => onConfirm(selected, skipPreview)}
+              className="scandi-btn disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isLoading || isApplying || selected.length === 0}
+            >
+              {isApplying
+                ? 'Applying...'
+                : `Apply ${selected.length} field${selected.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
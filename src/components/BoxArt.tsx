@@ -0,0 +1,45 @@
+import { useState, type JSX } from 'react';
+import { boxArtSources, type BoxArtSize } from '@/lib/categories/boxArt';
+
+interface BoxArtProps {
+  /** Box art URL or template from Twitch */
+  url?: string;
+  size: BoxArtSize;
+  className?: string;
+}
+
+/**
+ * Category box art at a fixed size, with a placeholder when the category
+ * has no art or the image can't be loaded (e.g. offline and not cached)
+ */
+export function BoxArt({ url, size, className = '' }: BoxArtProps): JSX.Element {
+  const [failedUrl, setFailedUrl] = useState<string | null>(null);
+  const sources = boxArtSources(url, size);
+
+  if (!sources || failedUrl === sources.src) {
+    return (
+      <div
+        className={`bg-neutral-100 rounded flex items-center justify-center text-2xl shrink-0 ${className}`}
+        style={{ width: size.width, height: size.height }}
+        data-testid="box-art-placeholder"
+        aria-hidden="true"
+      >
+        🎮
+      </div>
+    );
+  }
+
+  return (
+    <img
+      src={sources.src}
+      srcSet={sources.srcSet}
+      width={size.width}
+      height={size.height}
+      alt=""
+      className={`object-cover rounded shrink-0 ${className}`}
+      loading="lazy"
+      onError={() => setFailedUrl(sources.src)}
+      data-testid="box-art"
+    />
+  );
+}
@@ -0,0 +1,72 @@
+import { useState, type JSX } from 'react';
+import type { StreamCategory, StreamProfile } from '@/types/Profile';
+import { CategorySearchDropdown } from './CategorySearchDropdown';
+
+interface CategoryReplacementDialogProps {
+  profile: StreamProfile;
+  /** Save the picked category; resolves to whether it was saved */
+  onReplace: (category: StreamCategory) => Promise<boolean>;
+  onClose: () => void;
+}
+
+/**
+ * Pick a new category for a profile whose category Twitch no longer has
+ */
+export function CategoryReplacementDialog({ profile, onReplace, onClose }: CategoryReplacementDialogProps): JSX.Element {
+  // Start from the category Twitch now lists under the old name, if one was found
+  const [category, setCategory] = useState<StreamCategory | null>(profile.categoryReplacement ?? null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    if (!category) {
+      return;
+    }
+    setIsSaving(true);
+    const saved = await onReplace(category);
+    setIsSaving(false);
+    if (saved) {
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="category-replacement-title"
+      data-testid="category-replacement-dialog"
+    >
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg p-6">
+        <h2 id="category-replacement-title" className="text-2xl font-medium text-neutral-900 mb-1">
+          Replace category
+        </h2>
+        <p className="text-sm text-neutral-600 mb-6">
+          Twitch no longer has "{profile.category.name}", which "{profile.name}" uses. It may have been
+          removed or merged into another category. Pick the category to use instead.
+        </p>
+        {profile.categoryReplacement && (
+          <p className="text-sm text-neutral-600 mb-4" data-testid="category-replacement-suggestion">
+            Twitch now has "{profile.categoryReplacement.name}" under the same name, so it's picked below.
+          </p>
+        )}
+
+        <CategorySearchDropdown value={category} onChange={setCategory} disabled={isSaving} />
+
+        <div className="flex justify-end space-x-3 mt-6">
+          <button type="button" onClick={onClose} className="scandi-btn-secondary" disabled={isSaving}>
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            className="scandi-btn disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={!category || isSaving}
+          >
+            {isSaving ? 'Saving...' : 'Use this category'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
 import { useState, useRef, useEffect } from 'react';
 import { useCategorySearch, useCategories } from '@/hooks/useCategories';
 import type { StreamCategory } from '@/types/Profile';
+import { BOX_ART_SIZES } from '@/lib/categories/boxArt';
+import { BoxArt } from './BoxArt';
 
 interface CategorySearchDropdownProps {
   value: StreamCategory | null;
@@ -39,6 +41,7 @@ export function CategorySearchDropdown({
     results,
     isSearching,
     hasResults,
+    markCategoryUsed,
   } = useCategorySearch(300);
 
   // Get all categories for showing popular/default options
@@ -76,6 +79,7 @@ export function CategorySearchDropdown({
   const handleSelectCategory = (category: StreamCategory) => {
     setInputValue(category.name);
     onChange(category);
+    markCategoryUsed(category.id);
     setIsOpen(false);
     setQuery('');
   };
@@ -199,19 +203,7 @@ export function CategorySearchDropdown({
                         role="option"
                         aria-selected={value?.id === category.id}
                       >
-                        {/* Category icon/artwork placeholder */}
-                        {category.boxArtUrl ? (
-                          <img
-                            src={category.boxArtUrl}
-                            alt=""
-                            className="w-10 h-14 object-cover rounded"
-                            loading="lazy"
-                          />
-                        ) : (
-                          <div className="w-10 h-14 bg-neutral-100 rounded flex items-center justify-center text-2xl">
-                            🎮
-                          </div>
-                        )}
+                        <BoxArt url={category.boxArtUrl} size={BOX_ART_SIZES.picker} />
 
                         <div className="flex-1 min-w-0">
                           <p className="font-medium text-neutral-900 truncate">
@@ -0,0 +1,144 @@
+import type { JSX } from 'react';
+import type { ContentClassificationLabel } from '@/types/Profile';
+import { CONTENT_CLASSIFICATION_LABELS } from '@/types/Profile';
+import { BROADCASTER_LANGUAGES } from '@/types/constants';
+
+/**
+ * Optional channel settings carried by a profile
+ */
+export interface ChannelSettingsValue {
+  language?: string;
+  contentClassificationLabels?: ContentClassificationLabel[];
+  isBrandedContent?: boolean;
+}
+
+interface ChannelSettingsFieldsProps {
+  value: ChannelSettingsValue;
+  onChange: (value: ChannelSettingsValue) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Form section for language, content classification labels and branded content
+ *
+ * Every field has a "don't change" state that maps to `undefined`,
+ * so applying the profile leaves that part of the channel untouched.
+ */
+export function ChannelSettingsFields({
+  value,
+  onChange,
+  error,
+  disabled = false,
+}: ChannelSettingsFieldsProps): JSX.Element {
+  const managesLabels = value.contentClassificationLabels !== undefined;
+
+  const handleLanguageChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    onChange({ ...value, language: e.target.value || undefined });
+  };
+
+  const handleBrandedChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const selected = e.target.value;
+    onChange({
+      ...value,
+      isBrandedContent: selected === '' ? undefined : selected === 'yes',
+    });
+  };
+
+  const handleManageLabelsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({
+      ...value,
+      contentClassificationLabels: e.target.checked ? [] : undefined,
+    });
+  };
+
+  const handleLabelToggle = (label: ContentClassificationLabel, enabled: boolean) => {
+    const current = value.contentClassificationLabels ?? [];
+    onChange({
+      ...value,
+      contentClassificationLabels: enabled
+        ? [...current, label]
+        : current.filter(existing => existing !== label),
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label htmlFor="language" className="block text-sm font-medium text-neutral-700 mb-2">
+          Stream Language
+        </label>
+        <select
+          id="language"
+          name="language"
+          value={value.language ?? ''}
+          onChange={handleLanguageChange}
+          className="scandi-input w-full"
+          disabled={disabled}
+        >
+          <option value="">Don't change</option>
+          {Object.entries(BROADCASTER_LANGUAGES).map(([code, name]) => (
+            <option key={code} value={code}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label className="flex items-center space-x-2 text-sm font-medium text-neutral-700 mb-2">
+          <input
+            type="checkbox"
+            name="manageContentClassificationLabels"
+            checked={managesLabels}
+            onChange={handleManageLabelsChange}
+            disabled={disabled}
+          />
+          <span>Set content classification labels</span>
+        </label>
+        {managesLabels ? (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 pl-6">
+            {(Object.entries(CONTENT_CLASSIFICATION_LABELS) as Array<[ContentClassificationLabel, string]>).map(([id, label]) => (
+              <label key={id} className="flex items-center space-x-2 text-sm text-neutral-700">
+                <input
+                  type="checkbox"
+                  name={`ccl-${id}`}
+                  checked={value.contentClassificationLabels?.includes(id) ?? false}
+                  onChange={(e) => handleLabelToggle(id, e.target.checked)}
+                  disabled={disabled}
+                />
+                <span>{label}</span>
+              </label>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-neutral-500 pl-6">
+            Labels currently set on Twitch are left as they are
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label htmlFor="isBrandedContent" className="block text-sm font-medium text-neutral-700 mb-2">
+          Branded Content
+        </label>
+        <select
+          id="isBrandedContent"
+          name="isBrandedContent"
+          value={value.isBrandedContent === undefined ? '' : value.isBrandedContent ? 'yes' : 'no'}
+          onChange={handleBrandedChange}
+          className="scandi-input w-full"
+          disabled={disabled}
+        >
+          <option value="">Don't change</option>
+          <option value="yes">Yes, this stream has branded content</option>
+          <option value="no">No branded content</option>
+        </select>
+      </div>
+
+      {error && (
+        <p className="text-red-600 text-xs mt-1">{error}</p>
+      )}
+    </div>
+  );
+}
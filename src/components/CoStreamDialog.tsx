@@ -0,0 +1,142 @@
+import { useState, type JSX } from 'react';
+import type { StreamProfile } from '@/types/Profile';
+import type { CoStreamTarget } from '@/types/CoStream';
+import { useAccounts } from '@/hooks/useAccounts';
+import { useCoStream } from '@/hooks/useCoStream';
+import { processProfileTitle } from '@/types/ProfileUtils';
+
+interface CoStreamDialogProps {
+  profile: StreamProfile;
+  onClose: () => void;
+}
+
+/**
+ * Apply a profile to several linked channels at once, with a title for
+ * each, then show how every channel went and retry the ones that failed
+ */
+export function CoStreamDialog({ profile, onClose }: CoStreamDialogProps): JSX.Element {
+  const { accounts } = useAccounts();
+  const { results, isApplying, error, hasFailures, applyToChannels, retryFailed } = useCoStream();
+  // Every signed-in account takes part until it is unchecked
+  const [excludedIds, setExcludedIds] = useState<string[]>([]);
+  const [titles, setTitles] = useState<Record<string, string>>({});
+
+  const targets: CoStreamTarget[] = accounts
+    .filter(account => account.signedIn && !excludedIds.includes(account.id))
+    .map(account => ({
+      broadcasterId: account.id,
+      name: account.displayName,
+      title: titles[account.id]
+    }));
+
+  const previewTitle = (target: CoStreamTarget) => processProfileTitle(
+    { ...profile, title: target.title?.trim() || profile.title },
+    { partners: targets.filter(other => other.broadcasterId !== target.broadcasterId).map(other => other.name) }
+  ).processed;
+
+  const toggleAccount = (accountId: string, checked: boolean) => {
+    setExcludedIds(prev => checked ? prev.filter(id => id !== accountId) : [...prev, accountId]);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="co-stream-title"
+      data-testid="co-stream-dialog"
+    >
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-full overflow-y-auto p-6">
+        <h2 id="co-stream-title" className="text-2xl font-medium text-neutral-900 mb-1">
+          Co-stream "{profile.name}"
+        </h2>
+        <p className="text-sm text-neutral-600 mb-6">
+          Every checked channel gets this profile's category and tags. Titles can differ per channel;
+          use {'{partner}'} for the other channels' names.
+        </p>
+
+        {results.length === 0 ? (
+          <ul className="space-y-4 mb-6">
+            {accounts.map(account => {
+              const target = targets.find(candidate => candidate.broadcasterId === account.id);
+              return (
+                <li key={account.id} className="border border-neutral-200 rounded-lg p-3" data-testid="co-stream-channel">
+                  <label className="flex items-center space-x-2 text-sm font-medium text-neutral-700">
+                    <input
+                      type="checkbox"
+                      checked={Boolean(target)}
+                      onChange={(e) => toggleAccount(account.id, e.target.checked)}
+                      disabled={isApplying || !account.signedIn}
+                    />
+                    <span>{account.displayName}</span>
+                    {!account.signedIn && <span className="text-xs text-neutral-500">Signed out</span>}
+                  </label>
+                  {target && (
+                    <>
+                      <input
+                        type="text"
+                        name={`title-${account.id}`}
+                        value={titles[account.id] ?? ''}
+                        onChange={(e) => setTitles(prev => ({ ...prev, [account.id]: e.target.value }))}
+                        placeholder={profile.title}
+                        aria-label={`Title for ${account.displayName}`}
+                        className="scandi-input w-full mt-2"
+                        disabled={isApplying}
+                      />
+                      <p className="text-xs text-neutral-500 mt-1" data-testid="co-stream-title-preview">
+                        {previewTitle(target)}
+                      </p>
+                    </>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <ul className="space-y-2 mb-6" data-testid="co-stream-results">
+            {results.map(result => (
+              <li
+                key={result.broadcasterId}
+                className={`p-3 rounded-lg border text-sm ${result.success ? 'bg-green-50 border-green-200 text-green-800' : 'bg-red-50 border-red-200 text-red-800'}`}
+                data-testid="co-stream-result"
+                data-status={result.success ? 'applied' : 'failed'}
+              >
+                <p className="font-medium">{result.success ? '✓' : '✗'} {result.name}</p>
+                <p className="text-xs mt-1">{result.success ? result.title : result.error?.message}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+        <div className="flex items-center justify-end space-x-3">
+          <button type="button" onClick={onClose} className="scandi-btn-secondary" disabled={isApplying}>
+            {results.length === 0 ? 'Cancel' : 'Done'}
+          </button>
+          {results.length === 0 ? (
+            <button
+              type="button"
+              onClick={() => applyToChannels(profile, targets)}
+              className="scandi-btn disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isApplying || targets.length === 0}
+            >
+              {isApplying
+                ? 'Applying...'
+                : `Apply to ${targets.length} channel${targets.length === 1 ? '' : 's'}`}
+            </button>
+          ) : hasFailures && (
+            <button
+              type="button"
+              onClick={() => retryFailed()}
+              className="scandi-btn disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isApplying}
+            >
+              {isApplying ? 'Retrying...' : 'Retry failed'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
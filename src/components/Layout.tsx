@@ -1,12 +1,24 @@
 import { Outlet, Link, useLocation } from 'react-router-dom'
 import { useState } from 'react'
 import { useAuthState } from '@/hooks/useAuth'
+import { useStreamStatus } from '@/hooks/useStreamStatus'
 import { getTwitchAuth } from '@/lib/auth/twitchAuth'
+import { SessionBanner, SessionCountdown } from './SessionBanner'
+import { AccountSwitcher, AccountList } from './AccountSwitcher'
 
 export default function Layout(): JSX.Element {
   const location = useLocation()
   const [isMenuOpen, setIsMenuOpen] = useState(false)
   const { isAuthenticated, user, isLoading } = useAuthState()
+  const { status: streamStatus, isLive } = useStreamStatus()
+
+  // Stream state shown under the user's name; "Connected" until the first check
+  const streamLabel = isLive
+    ? `Live · ${streamStatus.stream?.viewerCount ?? 0} viewers`
+    : streamStatus.state === 'offline' ? 'Offline' : 'Connected'
+  const streamTitle = isLive && streamStatus.stream
+    ? `${streamStatus.stream.title} (${streamStatus.stream.categoryName}), live since ${streamStatus.stream.startedAt.toLocaleTimeString()}`
+    : streamStatus.error ?? undefined
   
   const isActiveRoute = (path: string): boolean => {
     return location.pathname === path
@@ -24,6 +36,9 @@ export default function Layout(): JSX.Element {
   const navItems = [
     { path: '/', label: 'Profiles', icon: '📋' },
     { path: '/profile/new', label: 'New Profile', icon: '➕' },
+    { path: '/schedule', label: 'Schedule', icon: '📅' },
+    { path: '/history', label: 'History', icon: '🕰️' },
+    { path: '/settings', label: 'Settings', icon: '⚙️' },
     ...(isAuthenticated ? [] : [{ path: '/auth', label: 'Connect Twitch', icon: '🔗' }]),
   ]
 
@@ -79,8 +94,16 @@ export default function Layout(): JSX.Element {
                         />
                         <div className="text-right">
                           <p className="text-sm font-medium text-neutral-900">{user.display_name}</p>
-                          <p className="text-xs text-neutral-500">Connected</p>
+                          <p
+                            className={`text-xs ${isLive ? 'text-red-600 font-medium' : 'text-neutral-500'}`}
+                            title={streamTitle}
+                            data-testid="stream-status"
+                          >
+                            {isLive && <span aria-hidden="true">● </span>}{streamLabel}
+                          </p>
+                          <SessionCountdown />
                         </div>
+                        <AccountSwitcher />
                       </div>
                       <button 
                         onClick={handleSignOut}
@@ -149,9 +172,10 @@ export default function Layout(): JSX.Element {
                           />
                           <div>
                             <p className="text-sm font-medium text-neutral-900">{user.display_name}</p>
-                            <p className="text-xs text-neutral-500">@{user.login} • Connected</p>
+                            <p className={`text-xs ${isLive ? 'text-red-600' : 'text-neutral-500'}`}>@{user.login} • {streamLabel}</p>
                           </div>
                         </div>
+                        <AccountList onDone={() => setIsMenuOpen(false)} />
                         <button 
                           onClick={() => {
                             setIsMenuOpen(false);
@@ -182,6 +206,7 @@ export default function Layout(): JSX.Element {
 
       {/* Main Content */}
       <main className="container mx-auto px-5 py-8 max-w-6xl">
+        <SessionBanner isAuthenticated={isAuthenticated} />
         <Outlet />
       </main>
 
@@ -0,0 +1,216 @@
+import { useState, type JSX } from 'react';
+import { Link } from 'react-router-dom';
+import type { ObsProfileActions, ObsSourceToggle } from '@/types/Obs';
+import { usePreferences } from '@/hooks/usePreferences';
+import { getObsClient } from '@/lib/api/obsWebSocket';
+
+interface ObsActionsFieldsProps {
+  value: ObsProfileActions;
+  onChange: (value: ObsProfileActions) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Trim the form value, dropping blank fields and unnamed source rows
+ *
+ * @returns undefined when the profile shouldn't touch OBS at all
+ */
+export function cleanObsActions(value: ObsProfileActions): ObsProfileActions | undefined {
+  const sources = (value.sources ?? [])
+    .map(source => ({
+      sourceName: source.sourceName.trim(),
+      sceneName: source.sceneName?.trim() || undefined,
+      enabled: source.enabled,
+    }))
+    .filter(source => source.sourceName);
+
+  const actions: ObsProfileActions = {
+    sceneCollection: value.sceneCollection?.trim() || undefined,
+    scene: value.scene?.trim() || undefined,
+    sources: sources.length > 0 ? sources : undefined,
+  };
+
+  return actions.sceneCollection || actions.scene || actions.sources ? actions : undefined;
+}
+
+/**
+ * Form section for the OBS scene collection, scene and sources a profile switches to
+ *
+ * Names can be typed, or picked from OBS once it's connected.
+ */
+export function ObsActionsFields({
+  value,
+  onChange,
+  error,
+  disabled = false,
+}: ObsActionsFieldsProps): JSX.Element {
+  const { preferences } = usePreferences();
+  const [sceneCollections, setSceneCollections] = useState<string[]>([]);
+  const [scenes, setScenes] = useState<string[]>([]);
+  const [isLoadingObs, setIsLoadingObs] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const sources = value.sources ?? [];
+
+  const handleLoadFromObs = async () => {
+    setIsLoadingObs(true);
+    setLoadError(null);
+
+    const client = getObsClient();
+    const [collectionsResult, scenesResult] = await Promise.all([client.getSceneCollections(), client.getScenes()]);
+
+    if (collectionsResult.success && collectionsResult.data && scenesResult.success && scenesResult.data) {
+      setSceneCollections(collectionsResult.data.sceneCollections);
+      setScenes(scenesResult.data.scenes.map(scene => scene.sceneName));
+    } else {
+      setLoadError(collectionsResult.error?.message ?? scenesResult.error?.message ?? 'Could not load from OBS');
+    }
+    setIsLoadingObs(false);
+  };
+
+  const updateSource = (index: number, changes: Partial<ObsSourceToggle>) => {
+    onChange({
+      ...value,
+      sources: sources.map((source, i) => i === index ? { ...source, ...changes } : source),
+    });
+  };
+
+  const addSource = () => {
+    onChange({ ...value, sources: [...sources, { sourceName: '', enabled: true }] });
+  };
+
+  const removeSource = (index: number) => {
+    onChange({ ...value, sources: sources.filter((_, i) => i !== index) });
+  };
+
+  return (
+    <div className="space-y-4">
+      {!preferences.obsEnabled ? (
+        <p className="text-xs text-yellow-700">
+          OBS is turned off, so these actions won't run. Turn it on in <Link to="/settings" className="underline">Settings</Link>.
+        </p>
+      ) : (
+        <div className="flex items-center space-x-3">
+          <button
+            type="button"
+            onClick={handleLoadFromObs}
+            className="scandi-btn-secondary text-sm"
+            disabled={disabled || isLoadingObs}
+          >
+            {isLoadingObs ? 'Loading...' : 'Load from OBS'}
+          </button>
+          {scenes.length > 0 && !loadError && (
+            <span className="text-xs text-neutral-500">
+              {sceneCollections.length} collection{sceneCollections.length === 1 ? '' : 's'}, {scenes.length} scene{scenes.length === 1 ? '' : 's'} loaded
+            </span>
+          )}
+          {loadError && <span className="text-xs text-red-600">{loadError}</span>}
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="obsSceneCollection" className="block text-sm font-medium text-neutral-700 mb-2">
+          Scene Collection
+        </label>
+        <input
+          type="text"
+          id="obsSceneCollection"
+          name="obsSceneCollection"
+          list="obs-scene-collections"
+          value={value.sceneCollection ?? ''}
+          onChange={(e) => onChange({ ...value, sceneCollection: e.target.value })}
+          className="scandi-input w-full"
+          placeholder="Don't change"
+          disabled={disabled}
+        />
+        <datalist id="obs-scene-collections">
+          {sceneCollections.map(name => <option key={name} value={name} />)}
+        </datalist>
+      </div>
+
+      <div>
+        <label htmlFor="obsScene" className="block text-sm font-medium text-neutral-700 mb-2">
+          Scene
+        </label>
+        <input
+          type="text"
+          id="obsScene"
+          name="obsScene"
+          list="obs-scenes"
+          value={value.scene ?? ''}
+          onChange={(e) => onChange({ ...value, scene: e.target.value })}
+          className="scandi-input w-full"
+          placeholder="Don't change"
+          disabled={disabled}
+        />
+        <datalist id="obs-scenes">
+          {scenes.map(name => <option key={name} value={name} />)}
+        </datalist>
+      </div>
+
+      <div>
+        <span className="block text-sm font-medium text-neutral-700 mb-2">Sources</span>
+        {sources.length === 0 && (
+          <p className="text-xs text-neutral-500 mb-2">No sources are shown or hidden</p>
+        )}
+        <ul className="space-y-2 mb-2">
+          {sources.map((source, index) => (
+            <li key={index} className="flex items-center space-x-2" data-testid="obs-source">
+              <select
+                aria-label={`Source ${index + 1} visibility`}
+                value={source.enabled ? 'show' : 'hide'}
+                onChange={(e) => updateSource(index, { enabled: e.target.value === 'show' })}
+                className="scandi-input"
+                disabled={disabled}
+              >
+                <option value="show">Show</option>
+                <option value="hide">Hide</option>
+              </select>
+              <input
+                type="text"
+                aria-label={`Source ${index + 1} name`}
+                value={source.sourceName}
+                onChange={(e) => updateSource(index, { sourceName: e.target.value })}
+                className="scandi-input flex-1"
+                placeholder="Source name"
+                disabled={disabled}
+              />
+              <input
+                type="text"
+                aria-label={`Source ${index + 1} scene`}
+                list="obs-scenes"
+                value={source.sceneName ?? ''}
+                onChange={(e) => updateSource(index, { sceneName: e.target.value || undefined })}
+                className="scandi-input flex-1"
+                placeholder={value.scene ? `In ${value.scene}` : 'In scene'}
+                disabled={disabled}
+              />
+              <button
+                type="button"
+                onClick={() => removeSource(index)}
+                className="px-2 text-neutral-500 hover:text-red-600"
+                aria-label={`Remove source ${index + 1}`}
+                disabled={disabled}
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ul>
+        <button
+          type="button"
+          onClick={addSource}
+          className="text-sm text-neutral-600 hover:text-neutral-900 underline"
+          disabled={disabled}
+        >
+          + Add source
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-red-600 text-xs mt-1">{error}</p>
+      )}
+    </div>
+  );
+}
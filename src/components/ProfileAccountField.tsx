@@ -0,0 +1,48 @@
+import type { JSX } from 'react';
+import { useAccounts } from '@/hooks/useAccounts';
+
+interface ProfileAccountFieldProps {
+  value?: string;
+  onChange: (ownerId: string | undefined) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Form field for the linked account a profile belongs to, or shared by all.
+ * Hidden until an account is linked.
+ */
+export function ProfileAccountField({ value, onChange, disabled = false }: ProfileAccountFieldProps): JSX.Element | null {
+  const { accounts } = useAccounts();
+
+  if (accounts.length === 0) {
+    return null;
+  }
+
+  // An owner that is no longer linked is kept until another choice is made
+  const unlinkedOwner = value && !accounts.some(account => account.id === value) ? value : null;
+
+  return (
+    <div>
+      <label htmlFor="ownerId" className="block text-sm font-medium text-neutral-700 mb-2">
+        Account
+      </label>
+      <select
+        id="ownerId"
+        name="ownerId"
+        value={value ?? ''}
+        onChange={event => onChange(event.target.value || undefined)}
+        className="scandi-input w-full"
+        disabled={disabled}
+      >
+        <option value="">Shared by all accounts</option>
+        {accounts.map(account => (
+          <option key={account.id} value={account.id}>{account.displayName}</option>
+        ))}
+        {unlinkedOwner && <option value={unlinkedOwner}>Account no longer linked</option>}
+      </select>
+      <p className="text-xs text-neutral-500 mt-1">
+        Profiles that belong to an account are only listed while it is selected, and are always applied to its channel
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import type { JSX } from 'react';
+import { useProfileGroups } from '@/hooks/useProfileGroups';
+
+interface ProfileGroupFieldProps {
+  value?: string;
+  onChange: (groupId: string | undefined) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Form field for the group a profile is filed under on the dashboard
+ */
+export function ProfileGroupField({ value, onChange, disabled = false }: ProfileGroupFieldProps): JSX.Element {
+  const { groups } = useProfileGroups();
+
+  // A group deleted since the profile was loaded reads as no group
+  const selected = value && groups.some(group => group.id === value) ? value : '';
+
+  return (
+    <div>
+      <label htmlFor="groupId" className="block text-sm font-medium text-neutral-700 mb-2">
+        Group
+      </label>
+      <select
+        id="groupId"
+        value={selected}
+        onChange={event => onChange(event.target.value || undefined)}
+        className="scandi-input w-full"
+        disabled={disabled}
+      >
+        <option value="">No group</option>
+        {groups.map(group => (
+          <option key={group.id} value={group.id}>{group.name}</option>
+        ))}
+      </select>
+      <p className="text-xs text-neutral-500 mt-1">
+        {groups.length === 0
+          ? 'Create groups on the dashboard to organise your profiles'
+          : 'Groups are collapsible sections on the dashboard'}
+      </p>
+    </div>
+  );
+}
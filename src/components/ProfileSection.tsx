@@ -0,0 +1,96 @@
+import { useState, type JSX, type ReactNode, type DragEvent } from 'react';
+
+/** Drag data type carrying a profile ID */
+export const PROFILE_DRAG_TYPE = 'application/x-profile-id';
+
+interface ProfileSectionProps {
+  title: string;
+  icon?: string;
+  count: number;
+  collapsed: boolean;
+  onToggle: () => void;
+  /** Called with the dragged profile's ID when it is dropped on the section */
+  onDropProfile: (profileId: string) => void;
+  /** Extra header controls, such as rename and delete */
+  actions?: ReactNode;
+  /** Shown when the section has no profiles */
+  emptyMessage?: string;
+  children: ReactNode;
+}
+
+/**
+ * Read the dragged profile ID, if the drag carries one
+ */
+export function getDraggedProfileId(event: DragEvent): string | null {
+  return event.dataTransfer.getData(PROFILE_DRAG_TYPE) || null;
+}
+
+/**
+ * Collapsible dashboard section that profiles can be dragged into
+ */
+export function ProfileSection({
+  title,
+  icon,
+  count,
+  collapsed,
+  onToggle,
+  onDropProfile,
+  actions,
+  emptyMessage = 'Drag profiles here',
+  children,
+}: ProfileSectionProps): JSX.Element {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const handleDragOver = (event: DragEvent) => {
+    if (!event.dataTransfer.types.includes(PROFILE_DRAG_TYPE)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'move';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (event: DragEvent) => {
+    setIsDragOver(false);
+    const profileId = getDraggedProfileId(event);
+    if (!profileId) return;
+    event.preventDefault();
+    onDropProfile(profileId);
+  };
+
+  return (
+    <section
+      className={`mb-8 rounded-lg transition-colors ${isDragOver ? 'bg-neutral-100 ring-2 ring-neutral-300' : ''}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+      aria-label={title}
+      data-testid="profile-section"
+    >
+      <div className="flex items-center justify-between mb-4">
+        <button
+          type="button"
+          onClick={onToggle}
+          className="flex items-center space-x-2 text-left"
+          aria-expanded={!collapsed}
+        >
+          <span className="text-neutral-400 text-sm w-4">{collapsed ? '▶' : '▼'}</span>
+          {icon && <span>{icon}</span>}
+          <h2 className="text-lg font-medium text-neutral-900">{title}</h2>
+          <span className="text-sm text-neutral-500">({count})</span>
+        </button>
+        {actions && <div className="flex items-center space-x-3 text-sm">{actions}</div>}
+      </div>
+
+      {!collapsed && (
+        count > 0 ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {children}
+          </div>
+        ) : (
+          <p className="py-6 text-center text-sm text-neutral-500 border border-dashed border-neutral-300 rounded-lg">
+            {emptyMessage}
+          </p>
+        )
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,107 @@
+import { type JSX } from 'react';
+import { useReauth } from '@/hooks/useReauth';
+import { useSessionExpiry, formatTimeRemaining } from '@/hooks/useSessionExpiry';
+
+interface SessionBannerProps {
+  isAuthenticated: boolean;
+}
+
+/**
+ * Session warnings under the navigation: the expiry countdown once it passes
+ * a warning threshold, and the sign-in prompt for actions that failed on an
+ * expired session
+ */
+export function SessionBanner({ isAuthenticated }: SessionBannerProps): JSX.Element | null {
+  const { remainingMs, isExpired, warningThreshold } = useSessionExpiry({ isAuthenticated, notify: true });
+  const { pending, status, error, reauthenticate, discardPending } = useReauth();
+
+  const pendingLabels = pending.map(action => action.label).join(', ');
+
+  if (status === 'waiting') {
+    return (
+      <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg" role="status">
+        <p className="text-blue-800 text-sm">🔑 Finish signing in to Twitch in the popup window.</p>
+      </div>
+    );
+  }
+
+  if (status === 'replaying') {
+    return (
+      <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg" role="status">
+        <p className="text-blue-800 text-sm">⏳ Signed in. Finishing: {pendingLabels}</p>
+      </div>
+    );
+  }
+
+  if (pending.length > 0 || (isAuthenticated && isExpired)) {
+    return (
+      <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between gap-4" role="alert">
+        <p className="text-red-800 text-sm">
+          🔒 Your Twitch session has expired.{' '}
+          {pending.length > 0
+            ? `Sign in again to finish: ${pendingLabels}.`
+            : 'Sign in again to keep applying profiles.'}
+        </p>
+        <div className="flex items-center gap-3 shrink-0">
+          <button onClick={reauthenticate} className="scandi-btn text-sm">
+            Sign in again
+          </button>
+          {pending.length > 0 && (
+            <button onClick={discardPending} className="text-red-700 hover:text-red-900 text-sm underline">
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between" role="alert">
+        <p className="text-red-800 text-sm">{error}</p>
+        <button onClick={discardPending} className="text-red-700 hover:text-red-900 text-sm underline">
+          Dismiss
+        </button>
+      </div>
+    );
+  }
+
+  if (isAuthenticated && warningThreshold !== null && remainingMs !== null) {
+    return (
+      <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between gap-4" role="alert">
+        <p className="text-yellow-800 text-sm">
+          ⏰ Your Twitch session expires in{' '}
+          <span className="font-medium tabular-nums" data-testid="session-countdown">{formatTimeRemaining(remainingMs)}</span>.
+          Renew it now so nothing fails mid-stream.
+        </p>
+        <button onClick={reauthenticate} className="scandi-btn-secondary text-sm shrink-0">
+          Renew now
+        </button>
+      </div>
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Compact time left on the Twitch session, for the navigation
+ */
+export function SessionCountdown(): JSX.Element | null {
+  const { remainingMs, canRefresh, warningThreshold } = useSessionExpiry();
+
+  if (remainingMs === null) {
+    return null;
+  }
+
+  return (
+    <p
+      className={`text-xs tabular-nums ${warningThreshold !== null || remainingMs <= 0 ? 'text-yellow-700 font-medium' : 'text-neutral-500'}`}
+      title={canRefresh ? 'Renews automatically' : 'Time left before you need to sign in again'}
+      data-testid="session-remaining"
+    >
+      {remainingMs > 0 ? `Session ${formatTimeRemaining(remainingMs)}` : 'Session expired'}
+    </p>
+  );
+}
@@ -0,0 +1,171 @@
+import { useState, type JSX, type KeyboardEvent } from 'react';
+import { useTagSuggestions } from '@/hooks/useTagSuggestions';
+import { normalizeTags, parseTagInput, validateTag } from '@/lib/tags/twitchTags';
+import { VALIDATION_LIMITS } from '@/types/constants';
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  /** Form-level error shown under the field */
+  error?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Tag field showing each tag as a chip. Typing a comma or pressing Enter
+ * adds the tag; pasting a comma-separated list adds them all. Suggestions
+ * come from tags used on other profiles and on the live channel.
+ */
+export function TagInput({ value, onChange, error, disabled = false }: TagInputProps): JSX.Element {
+  const { suggest } = useTagSuggestions();
+  const [draft, setDraft] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = isFocused ? suggest(draft, value) : [];
+  const isFull = value.length >= VALIDATION_LIMITS.TAGS_MAX;
+
+  const addTags = (tags: string[]) => {
+    const next = normalizeTags([...value, ...tags]);
+    if (next.length !== value.length) {
+      onChange(next);
+    }
+  };
+
+  const commitDraft = () => {
+    addTags(parseTagInput(draft));
+    setDraft('');
+    setHighlighted(0);
+  };
+
+  const handleInput = (text: string) => {
+    // Everything before the last comma is finished
+    const lastComma = text.lastIndexOf(',');
+    if (lastComma >= 0) {
+      addTags(parseTagInput(text.slice(0, lastComma)));
+      text = text.slice(lastComma + 1);
+    }
+    setDraft(text);
+    setHighlighted(0);
+    setIsFocused(true);
+  };
+
+  const pickSuggestion = (tag: string) => {
+    addTags([tag]);
+    setDraft('');
+    setHighlighted(0);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      const suggestion = draft.trim() ? suggestions[highlighted] : undefined;
+      if (suggestion && suggestion.tag.toLowerCase().startsWith(draft.trim().toLowerCase())) {
+        pickSuggestion(suggestion.tag);
+      } else {
+        commitDraft();
+      }
+    } else if (event.key === 'Backspace' && draft === '' && value.length > 0) {
+      onChange(value.slice(0, -1));
+    } else if (event.key === 'ArrowDown' && suggestions.length > 0) {
+      event.preventDefault();
+      setHighlighted(index => (index + 1) % suggestions.length);
+    } else if (event.key === 'ArrowUp' && suggestions.length > 0) {
+      event.preventDefault();
+      setHighlighted(index => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (event.key === 'Escape') {
+      setIsFocused(false);
+    }
+  };
+
+  return (
+    <div>
+      <label htmlFor="tags" className="block text-sm font-medium text-neutral-700 mb-2">
+        Tags
+      </label>
+      <div className="relative">
+        <div
+          className={`scandi-input w-full flex flex-wrap items-center gap-1 ${error ? 'border-red-300 bg-red-50' : ''}`}
+          data-testid="tag-chips"
+        >
+          {value.map(tag => {
+            const problem = validateTag(tag);
+            return (
+              <span
+                key={tag}
+                className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs ${problem ? 'bg-red-100 text-red-700' : 'bg-primary/10 text-primary'}`}
+                title={problem?.message}
+                data-testid="tag-chip"
+                data-invalid={Boolean(problem)}
+              >
+                {tag}
+                <button
+                  type="button"
+                  onClick={() => onChange(value.filter(existing => existing !== tag))}
+                  className="ml-1 hover:text-red-600"
+                  aria-label={`Remove tag ${tag}`}
+                  disabled={disabled}
+                >
+                  ×
+                </button>
+              </span>
+            );
+          })}
+          <input
+            type="text"
+            id="tags"
+            name="tags"
+            value={draft}
+            onChange={(e) => handleInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onFocus={() => setIsFocused(true)}
+            onBlur={() => {
+              setIsFocused(false);
+              commitDraft();
+            }}
+            className="flex-1 min-w-[8rem] bg-transparent outline-none text-sm"
+            placeholder={value.length === 0 ? 'journal, morning, reflection' : isFull ? '' : 'Add a tag'}
+            role="combobox"
+            aria-expanded={suggestions.length > 0}
+            aria-controls="tag-suggestions"
+            aria-autocomplete="list"
+            disabled={disabled}
+          />
+        </div>
+
+        {suggestions.length > 0 && !isFull && (
+          <ul
+            id="tag-suggestions"
+            role="listbox"
+            aria-label="Suggested tags"
+            className="absolute z-10 mt-1 w-full bg-white border border-neutral-200 rounded-lg shadow-lg max-h-56 overflow-y-auto"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.tag}
+                role="option"
+                aria-selected={index === highlighted}
+                // Keep focus in the input so the draft isn't committed first
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => pickSuggestion(suggestion.tag)}
+                className={`flex items-center justify-between px-3 py-2 text-sm cursor-pointer ${index === highlighted ? 'bg-primary/10' : 'hover:bg-neutral-100'}`}
+                data-testid="tag-suggestion"
+              >
+                <span>{suggestion.tag}</span>
+                <span className="text-xs text-neutral-500">
+                  {suggestion.source === 'live' ? 'On your channel' : `${suggestion.count} profile${suggestion.count === 1 ? '' : 's'}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {error && (
+        <p className="text-red-600 text-xs mt-1">{error}</p>
+      )}
+      <p className="text-xs text-neutral-500 mt-1">
+        {value.length}/{VALIDATION_LIMITS.TAGS_MAX} tags. Letters and numbers only, no spaces; press Enter or type a comma to add one
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { useMemo, useState, type JSX } from 'react';
+import {
+  parseTitleTemplate,
+  getTemplateCounters,
+  getTemplateVariables,
+  TEMPLATE_CONDITIONS,
+  type TemplateDiagnostic
+} from '@/lib/templates/titleTemplate';
+import { processTitle, getAvailableTemplates } from '@/types/ProfileUtils';
+import { VALIDATION_LIMITS } from '@/types/constants';
+
+interface TitleTemplateFieldProps {
+  value: string;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  variables: Record<string, string>;
+  onVariablesChange: (variables: Record<string, string>) => void;
+  counters: Record<string, number>;
+  onCountersChange: (counters: Record<string, number>) => void;
+  error?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Split the template into plain and flagged segments for underlining
+ */
+function getHighlightSegments(template: string, diagnostics: TemplateDiagnostic[]) {
+  const segments: Array<{ text: string; severity?: TemplateDiagnostic['severity'] }> = [];
+  let cursor = 0;
+
+  for (const diagnostic of diagnostics) {
+    const start = Math.max(diagnostic.start, cursor);
+    const end = Math.min(Math.max(diagnostic.end, start), template.length);
+    if (end <= start) continue;
+
+    if (start > cursor) {
+      segments.push({ text: template.slice(cursor, start) });
+    }
+    segments.push({ text: template.slice(start, end), severity: diagnostic.severity });
+    cursor = end;
+  }
+
+  if (cursor < template.length) {
+    segments.push({ text: template.slice(cursor) });
+  }
+
+  return segments;
+}
+
+/**
+ * Stream title input with template diagnostics, live preview and
+ * inputs for the variables and counters the template uses
+ */
+export function TitleTemplateField({
+  value,
+  onChange,
+  variables,
+  onVariablesChange,
+  counters,
+  onCountersChange,
+  error,
+  disabled = false,
+}: TitleTemplateFieldProps): JSX.Element {
+  const [showHelp, setShowHelp] = useState(false);
+
+  const diagnostics = useMemo(() => parseTitleTemplate(value).diagnostics, [value]);
+  const variableNames = useMemo(() => getTemplateVariables(value), [value]);
+  const counterNames = useMemo(() => getTemplateCounters(value), [value]);
+  const preview = useMemo(() => processTitle(value, { variables, counters }), [value, variables, counters]);
+  const placeholders = useMemo(() => getAvailableTemplates(), []);
+
+  const hasErrors = diagnostics.some(diagnostic => diagnostic.severity === 'error');
+  const segments = getHighlightSegments(value, diagnostics);
+
+  return (
+    <div>
+      <input
+        type="text"
+        id="title"
+        name="title"
+        value={value}
+        onChange={onChange}
+        className={`scandi-input w-full ${error || hasErrors ? 'border-red-300 bg-red-50' : ''}`}
+        placeholder="e.g., Morning Pages - {DAY} Reflection"
+        disabled={disabled}
+        aria-invalid={hasErrors}
+        aria-describedby="title-diagnostics"
+        required
+      />
+
+      {diagnostics.length > 0 && (
+        <div id="title-diagnostics" className="mt-2 space-y-1">
+          <p className="text-sm font-mono whitespace-pre-wrap break-words text-neutral-700" data-testid="title-highlight">
+            {segments.map((segment, index) => (
+              segment.severity ? (
+                <span
+                  key={index}
+                  className={`underline decoration-wavy ${segment.severity === 'error' ? 'decoration-red-500' : 'decoration-yellow-500'}`}
+                >
+                  {segment.text}
+                </span>
+              ) : (
+                <span key={index}>{segment.text}</span>
+              )
+            ))}
+          </p>
+          <ul className="text-xs space-y-0.5">
+            {diagnostics.map((diagnostic, index) => (
+              <li
+                key={index}
+                className={diagnostic.severity === 'error' ? 'text-red-600' : 'text-yellow-700'}
+              >
+                Character {diagnostic.start + 1}: {diagnostic.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-red-600 text-xs mt-1">{error}</p>
+      )}
+
+      {value.trim() && (
+        <p className="text-xs text-neutral-600 mt-2">
+          <span className="text-neutral-500">Preview:</span>{' '}
+          <span data-testid="title-preview">{preview.processed}</span>{' '}
+          <span
+            data-testid="title-preview-length"
+            className={preview.processed.length > VALIDATION_LIMITS.STREAM_TITLE_MAX ? 'text-red-600' : 'text-neutral-500'}
+          >
+            ({preview.processed.length}/{VALIDATION_LIMITS.STREAM_TITLE_MAX} characters
+            {preview.processed.length > VALIDATION_LIMITS.STREAM_TITLE_MAX && ', Twitch will reject this'})
+          </span>
+        </p>
+      )}
+
+      {(variableNames.length > 0 || counterNames.length > 0) && (
+        <div className="mt-4 space-y-3 pl-4 border-l-2 border-neutral-100">
+          {variableNames.map(name => (
+            <div key={`var-${name}`}>
+              <label htmlFor={`var-${name}`} className="block text-xs font-medium text-neutral-600 mb-1">
+                Variable <code>{name}</code>
+              </label>
+              <input
+                type="text"
+                id={`var-${name}`}
+                name={`var-${name}`}
+                value={variables[name] ?? ''}
+                onChange={(e) => onVariablesChange({ ...variables, [name]: e.target.value })}
+                className="scandi-input w-full"
+                disabled={disabled}
+              />
+            </div>
+          ))}
+          {counterNames.map(name => (
+            <div key={`counter-${name}`}>
+              <label htmlFor={`counter-${name}`} className="block text-xs font-medium text-neutral-600 mb-1">
+                Next <code>{name}</code> number
+              </label>
+              <input
+                type="number"
+                id={`counter-${name}`}
+                name={`counter-${name}`}
+                min={0}
+                step={1}
+                value={counters[name] ?? 1}
+                onChange={(e) => onCountersChange({ ...counters, [name]: parseInt(e.target.value, 10) || 0 })}
+                className="scandi-input w-32"
+                disabled={disabled}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-1">
+        <button
+          type="button"
+          onClick={() => setShowHelp(!showHelp)}
+          className="text-xs text-neutral-500 hover:text-neutral-700 underline"
+        >
+          {showHelp ? 'Hide placeholders' : 'Show available placeholders'}
+        </button>
+        {showHelp && (
+          <ul className="mt-2 text-xs text-neutral-600 space-y-1">
+            {placeholders.map(placeholder => (
+              <li key={placeholder.placeholder}>
+                <code className="text-neutral-800">{placeholder.placeholder}</code>{' '}
+                {placeholder.description}{' '}
+                <span className="text-neutral-400">(e.g. {placeholder.example})</span>
+              </li>
+            ))}
+            <li>
+              <code className="text-neutral-800">{'{if weekend}...{else}...{/if}'}</code>{' '}
+              Conditional text, where the condition is one of{' '}
+              {TEMPLATE_CONDITIONS.map(condition => condition.argument === 'required' ? `${condition.name}:NAME` : condition.name).join(', ')}
+            </li>
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -14,6 +14,9 @@ export {
   useRepositoryHealth
 } from './useProfiles';
 
+// Profile Group Hooks
+export { useProfileGroups } from './useProfileGroups';
+
 // Category Management Hooks
 export { 
   useCategories, 
@@ -21,12 +24,40 @@ export {
   useCategoryValidation 
 } from './useCategories';
 
+// Channel Diff Hooks
+export { useChannelDiff } from './useChannelDiff';
+
+// Apply History Hooks
+export { useApplyHistory } from './useApplyHistory';
+
+// Schedule Hooks
+export { useSchedule } from './useSchedule';
+
+// Offline Apply Queue Hooks
+export { useApplyQueue } from './useApplyQueue';
+
+// Co-stream Hooks
+export { useCoStream } from './useCoStream';
+
+// Stream Status Hooks
+export { useStreamStatus } from './useStreamStatus';
+
+// Preferences Hooks
+export { usePreferences } from './usePreferences';
+
+// Backup Hooks
+export { useBackup } from './useBackup';
+export { useDatabaseBackups } from './useDatabaseBackups';
+
 // Authentication Hooks
 export {
   useAuth,
   useAuthState,
   withAuth
 } from './useAuth';
+export { useSessionExpiry } from './useSessionExpiry';
+export { useReauth } from './useReauth';
+export { useAccounts } from './useAccounts';
 
 // Convenience object for all hooks
 export const hooks = {
@@ -139,7 +139,21 @@ export const useAPIHealth = () => {
     checkHealth();
   }, [checkHealth]);
 
-  // Periodic health checks every 5 minutes
+  // Re-check as soon as the browser's connection drops or comes back
+  useEffect(() => {
+    const handleConnectionChange = () => {
+      checkHealth();
+    };
+    window.addEventListener('online', handleConnectionChange);
+    window.addEventListener('offline', handleConnectionChange);
+
+    return () => {
+      window.removeEventListener('online', handleConnectionChange);
+      window.removeEventListener('offline', handleConnectionChange);
+    };
+  }, [checkHealth]);
+
+    // Periodic health checks every 5 minutes
   useEffect(() => {
     const interval = setInterval(() => {
       checkHealth();
@@ -0,0 +1,114 @@
+/**
+ * Linked Account Hooks
+ *
+ * React hook listing the Twitch accounts signed in on this device, with
+ * actions to switch between them, link another and unlink one.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { getTwitchAuth } from '@/lib/auth/twitchAuth';
+import { subscribeToChanges } from '@/lib/sync/changeBus';
+import type { LinkedAccount } from '@/types/TwitchAPI';
+
+/**
+ * Linked accounts hook
+ */
+export const useAccounts = () => {
+  const [accounts, setAccounts] = useState<LinkedAccount[]>([]);
+  const [activeAccountId, setActiveAccountId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the linked accounts and the selected one
+   */
+  const loadAccounts = useCallback(async () => {
+    try {
+      const auth = getTwitchAuth();
+      const [linked, activeId] = await Promise.all([auth.getAccounts(), auth.getActiveAccountId()]);
+      setAccounts(linked);
+      setActiveAccountId(activeId);
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load accounts');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  // Accounts linked, switched or signed out in another tab
+  useEffect(() => {
+    getTwitchAuth();
+    return subscribeToChanges('auth', () => {
+      loadAccounts();
+    });
+  }, [loadAccounts]);
+
+  /**
+   * Select another linked account
+   */
+  const switchAccount = useCallback(async (accountId: string): Promise<boolean> => {
+    try {
+      await getTwitchAuth().switchAccount(accountId);
+      setError(null);
+      await loadAccounts();
+      return true;
+    } catch (switchError) {
+      setError(switchError instanceof Error ? switchError.message : 'Failed to switch account');
+      return false;
+    }
+  }, [loadAccounts]);
+
+  /**
+   * Sign in with another Twitch account; leaves the app for Twitch and
+   * comes back to the current page
+   */
+  const addAccount = useCallback(async (): Promise<void> => {
+    try {
+      await getTwitchAuth().startAuthFlow({
+        addAccount: true,
+        returnTo: `${window.location.pathname}${window.location.search}`
+      });
+    } catch (addError) {
+      setError(addError instanceof Error ? addError.message : 'Failed to start signing in');
+    }
+  }, []);
+
+  /**
+   * Unlink an account and revoke its token
+   */
+  const removeAccount = useCallback(async (accountId: string): Promise<boolean> => {
+    try {
+      await getTwitchAuth().removeAccount(accountId);
+      setError(null);
+      await loadAccounts();
+      return true;
+    } catch (removeError) {
+      setError(removeError instanceof Error ? removeError.message : 'Failed to remove account');
+      return false;
+    }
+  }, [loadAccounts]);
+
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  return {
+    // Data
+    accounts,
+    activeAccountId,
+    activeAccount: accounts.find(account => account.id === activeAccountId) ?? null,
+    isLoading,
+    error,
+
+    // Actions
+    switchAccount,
+    addAccount,
+    removeAccount,
+    clearError,
+    refreshAccounts: loadAccounts
+  };
+};
@@ -0,0 +1,150 @@
+/**
+ * Apply History Hooks
+ *
+ * React hook for listing recorded channel updates and reverting them.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ApplyHistoryEntry } from '@/types/History';
+import { getHistoryRepository } from '@/repositories/HistoryRepository';
+import { getTwitchAPI, isAuthError, isNetworkError } from '@/lib/api/twitchAPI';
+import { getReauthManager } from '@/lib/auth/reauth';
+import { subscribeToChanges } from '@/lib/sync/changeBus';
+
+/**
+ * Loading state interface
+ */
+interface LoadingState {
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Apply history hook
+ *
+ * Loads the apply log newest first and exposes a one-step revert
+ * that restores the channel state captured before an entry.
+ */
+export const useApplyHistory = () => {
+  const [entries, setEntries] = useState<ApplyHistoryEntry[]>([]);
+  const [revertingId, setRevertingId] = useState<string | null>(null);
+  const [loadingState, setLoadingState] = useState<LoadingState>({
+    isLoading: true,
+    error: null
+  });
+
+  const historyRepository = getHistoryRepository();
+
+  /**
+   * Load all history entries from the repository
+   */
+  const loadHistory = useCallback(async () => {
+    setLoadingState(prev => ({ ...prev, isLoading: true }));
+
+    try {
+      const result = await historyRepository.getAll();
+
+      if (result.success && result.data) {
+        setEntries(result.data);
+        setLoadingState({ isLoading: false, error: null });
+      } else {
+        setLoadingState({
+          isLoading: false,
+          error: result.error?.message || 'Failed to load apply history'
+        });
+      }
+    } catch (error) {
+      setLoadingState({
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      });
+    }
+  }, [historyRepository]);
+
+  /**
+   * Restore the channel state from before an entry, then reload the log
+   */
+  const revertEntry = useCallback(async (id: string): Promise<boolean> => {
+    setRevertingId(id);
+
+    try {
+      const result = await getTwitchAPI().revertHistoryEntry(id);
+
+      if (!result.success) {
+        let message = result.error?.message || 'Failed to revert stream information';
+        if (isAuthError(result.error)) {
+          message = 'Your Twitch session has expired. Sign in again to finish reverting.';
+          getReauthManager().enqueue('Revert change', async () => {
+            const retried = await getTwitchAPI().revertHistoryEntry(id);
+            await loadHistory();
+            if (!retried.success) {
+              throw new Error(retried.error?.message || 'Failed to revert stream information');
+            }
+            setLoadingState(prev => ({ ...prev, error: null }));
+          });
+        } else if (isNetworkError(result.error)) {
+          message = 'Network error. Please check your connection and try again.';
+        }
+        setLoadingState(prev => ({ ...prev, error: message }));
+      }
+
+      // Reload either way - failed reverts are recorded too
+      await loadHistory();
+      return result.success;
+    } catch (error) {
+      setLoadingState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      }));
+      return false;
+    } finally {
+      setRevertingId(null);
+    }
+  }, [loadHistory]);
+
+  /**
+   * Delete every history entry
+   */
+  const clearHistory = useCallback(async (): Promise<boolean> => {
+    const result = await historyRepository.clear();
+
+    if (result.success) {
+      setEntries([]);
+      setLoadingState({ isLoading: false, error: null });
+      return true;
+    }
+
+    setLoadingState(prev => ({
+      ...prev,
+      error: result.error?.message || 'Failed to clear apply history'
+    }));
+    return false;
+  }, [historyRepository]);
+
+  /**
+   * Clear any errors
+   */
+  const clearError = useCallback(() => {
+    setLoadingState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  // Show applies and reverts made in other tabs
+  useEffect(() => subscribeToChanges('history', () => {
+    loadHistory();
+  }), [loadHistory]);
+
+  return {
+    entries,
+    isLoading: loadingState.isLoading,
+    error: loadingState.error,
+    revertingId,
+    revertEntry,
+    clearHistory,
+    refreshHistory: loadHistory,
+    clearError
+  };
+};
@@ -0,0 +1,112 @@
+/**
+ * Apply Queue Hooks
+ *
+ * React hook listing applies queued while Twitch was unreachable, queueing
+ * new ones and sending them on demand.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { StreamProfile } from '@/types/Profile';
+import type { ChannelField } from '@/types/History';
+import type { ApplyIntent, ApplyIntentOutcome } from '@/types/ApplyQueue';
+import { getApplyQueueRepository } from '@/repositories/ApplyQueueRepository';
+import { getApplyQueue } from '@/lib/sync/applyQueue';
+import { subscribeToChanges } from '@/lib/sync/changeBus';
+
+/**
+ * Offline apply queue hook
+ */
+export const useApplyQueue = () => {
+  const queue = getApplyQueue();
+  const applyQueueRepository = getApplyQueueRepository();
+  const [intents, setIntents] = useState<ApplyIntent[]>([]);
+  const [lastOutcomes, setLastOutcomes] = useState<ApplyIntentOutcome[]>([]);
+  const [isFlushing, setIsFlushing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the queued applies
+   */
+  const loadIntents = useCallback(async () => {
+    const result = await applyQueueRepository.getAll();
+    if (result.success && result.data) {
+      setIntents(result.data);
+    }
+  }, [applyQueueRepository]);
+
+  /**
+   * Queue an apply to send once Twitch is reachable
+   */
+  const queueApply = useCallback(async (profile: StreamProfile, fields?: ChannelField[], accountId?: string): Promise<boolean> => {
+    const result = await queue.enqueue(profile, fields, accountId);
+    setError(result.success ? null : result.error?.message || 'Failed to queue apply');
+    return result.success;
+  }, [queue, loadIntents]);
+
+  /**
+   * Drop a queued apply
+   */
+  const removeIntent = useCallback(async (id: string): Promise<boolean> => {
+    const result = await applyQueueRepository.remove([id]);
+    if (!result.success) {
+      setError(result.error?.message || 'Failed to remove queued apply');
+    }
+    await loadIntents();
+    return result.success;
+  }, [applyQueueRepository, loadIntents]);
+
+  /**
+   * Try sending the queue now
+   */
+  const flushNow = useCallback(async () => {
+    setIsFlushing(true);
+    await queue.flush();
+    setIsFlushing(false);
+  }, [queue]);
+
+  /**
+   * Clear the error state
+   */
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  /**
+   * Hide the results of the last flush
+   */
+  const clearOutcomes = useCallback(() => {
+    setLastOutcomes([]);
+  }, []);
+
+  useEffect(() => {
+    loadIntents();
+  }, [loadIntents]);
+
+  // Show what each flush sent or dropped, including ones started by the online event
+  useEffect(() => queue.subscribe(setLastOutcomes), [queue]);
+
+  // Follow applies queued and sent in this tab, from any component
+  useEffect(() => queue.subscribeChanges(() => {
+    loadIntents();
+  }), [queue, loadIntents]);
+
+  // Follow applies queued and sent by other tabs
+  useEffect(() => subscribeToChanges('applyQueue', () => {
+    loadIntents();
+  }), [loadIntents]);
+
+  return {
+    // Data
+    intents,
+    lastOutcomes,
+    isFlushing,
+    error,
+
+    // Actions
+    queueApply,
+    removeIntent,
+    flushNow,
+    clearOutcomes,
+    clearError
+  };
+};
@@ -14,6 +14,7 @@ import {
   signOut, 
   validateToken 
 } from '@/lib/auth/twitchAuth';
+import { subscribeToChanges } from '@/lib/sync/changeBus';
 
 export interface AuthState {
   /** Whether user is authenticated */
@@ -185,6 +186,17 @@ export function useAuth(): AuthState & AuthActions {
     checkAuth();
   }, [checkAuth]);
 
+  /**
+   * Follow sign-ins and sign-outs made in other tabs
+   */
+  useEffect(() => {
+    // Create the auth manager first so it drops its cached session before we re-check
+    getTwitchAuth();
+    return subscribeToChanges('auth', () => {
+      checkAuth();
+    });
+  }, [checkAuth]);
+
   /**
    * Handle auth callback if we're on the callback route
    * Note: Implicit flow returns tokens in URL hash (access_token=), not query params (code=)
@@ -249,6 +261,11 @@ export function useAuthState(): Pick<AuthState, 'isAuthenticated' | 'user' | 'is
     };
 
     checkAuthState();
+
+    getTwitchAuth();
+    return subscribeToChanges('auth', () => {
+      checkAuthState();
+    });
   }, []);
 
   return state;
@@ -0,0 +1,231 @@
+/**
+ * Backup Hooks
+ *
+ * React hook for exporting profiles to a backup file and restoring them:
+ * read a backup, choose how to resolve conflicts, review the dry run, then import.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { StreamProfile } from '@/types/Profile';
+import type { ProfileGroup } from '@/types/ProfileGroup';
+import type { ParsedBackup, ConflictResolution, ImportPlan } from '@/types/Backup';
+import { getProfileRepository } from '@/repositories/ProfileRepository';
+import { getProfileGroupRepository } from '@/repositories/ProfileGroupRepository';
+import { exportProfiles, parseProfileBackup } from '@/types/ProfileUtils';
+import { findImportConflicts, planImport } from '@/lib/backup/importPlan';
+import { downloadBackup, readBackupFile } from '@/lib/backup/backupFile';
+import { subscribeToChanges } from '@/lib/sync/changeBus';
+
+/**
+ * Loading state interface
+ */
+interface LoadingState {
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Backup and restore hook
+ */
+export const useBackup = () => {
+  const [profiles, setProfiles] = useState<StreamProfile[]>([]);
+  const [groups, setGroups] = useState<ProfileGroup[]>([]);
+  const [backup, setBackup] = useState<ParsedBackup | null>(null);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [defaultResolution, setDefaultResolution] = useState<ConflictResolution>('skip');
+  const [isImporting, setIsImporting] = useState(false);
+  const [loadingState, setLoadingState] = useState<LoadingState>({
+    isLoading: true,
+    error: null
+  });
+
+  const profileRepository = getProfileRepository();
+  const groupRepository = getProfileGroupRepository();
+
+  /**
+   * Load the stored profiles that backups are exported from and compared against
+   */
+  const loadProfiles = useCallback(async () => {
+    const [result, groupsResult] = await Promise.all([profileRepository.getAll(), groupRepository.getAll()]);
+
+    if (result.success && result.data) {
+      setProfiles(result.data);
+      setGroups(groupsResult.data ?? []);
+      setLoadingState({ isLoading: false, error: null });
+    } else {
+      setLoadingState({
+        isLoading: false,
+        error: result.error?.message || 'Failed to load profiles'
+      });
+    }
+  }, [profileRepository, groupRepository]);
+
+  /**
+   * Download every profile, and the groups they are filed under, as a backup file
+   */
+  const exportBackup = useCallback((): boolean => {
+    if (profiles.length === 0) {
+      setLoadingState(prev => ({ ...prev, error: 'There are no profiles to back up' }));
+      return false;
+    }
+
+    downloadBackup(exportProfiles(profiles, groups));
+    return true;
+  }, [profiles, groups]);
+
+  /**
+   * Read a backup from pasted text, replacing any backup already loaded
+   */
+  const loadBackup = useCallback((json: string): boolean => {
+    setResolutions({});
+
+    try {
+      setBackup(parseProfileBackup(json));
+      setLoadingState(prev => ({ ...prev, error: null }));
+      return true;
+    } catch (error) {
+      setBackup(null);
+      setLoadingState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to read backup'
+      }));
+      return false;
+    }
+  }, []);
+
+  /**
+   * Read a backup from a file
+   */
+  const loadBackupFile = useCallback(async (file: File): Promise<boolean> => {
+    try {
+      return loadBackup(await readBackupFile(file));
+    } catch (error) {
+      setLoadingState(prev => ({
+        ...prev,
+        error: error instanceof Error ? error.message : 'Failed to read backup file'
+      }));
+      return false;
+    }
+  }, [loadBackup]);
+
+  /**
+   * Choose how to resolve one conflict
+   */
+  const setResolution = useCallback((incomingId: string, resolution: ConflictResolution) => {
+    setResolutions(prev => ({ ...prev, [incomingId]: resolution }));
+  }, []);
+
+  /**
+   * Apply one resolution to every conflict
+   */
+  const resolveAll = useCallback((resolution: ConflictResolution) => {
+    setDefaultResolution(resolution);
+    setResolutions({});
+  }, []);
+
+  const conflicts = useMemo(
+    () => backup ? findImportConflicts(backup.profiles, profiles) : [],
+    [backup, profiles]
+  );
+
+  // The dry run: recomputed as resolutions change, nothing is written until importBackup
+  const plan = useMemo<ImportPlan | null>(
+    () => backup ? planImport(backup.profiles, profiles, resolutions, defaultResolution, backup.invalid) : null,
+    [backup, profiles, resolutions, defaultResolution]
+  );
+
+  /**
+   * Write the planned profiles
+   *
+   * @returns The plan that was imported, or null on failure
+   */
+  const importBackup = useCallback(async (): Promise<ImportPlan | null> => {
+    if (!plan) return null;
+
+    setIsImporting(true);
+
+    try {
+      // Groups come first so restored profiles can be filed under them
+      const groupsResult = await groupRepository.restoreGroups(backup?.groups ?? []);
+      if (!groupsResult.success || !groupsResult.data) {
+        setLoadingState(prev => ({
+          ...prev,
+          error: groupsResult.error?.message || 'Failed to restore groups'
+        }));
+        return null;
+      }
+
+      // Backup group IDs map to local groups; merged profiles keep their local group
+      const groupIds = groupsResult.data;
+      const toLocalGroupId = (groupId?: string): string | undefined => {
+        if (!groupId) return undefined;
+        return groupIds[groupId] ?? (groups.some(group => group.id === groupId) ? groupId : undefined);
+      };
+
+      const result = await profileRepository.saveAll(
+        plan.writes.map(profile => ({ ...profile, groupId: toLocalGroupId(profile.groupId) }))
+      );
+
+      if (!result.success) {
+        setLoadingState(prev => ({
+          ...prev,
+          error: result.error?.message || 'Failed to import profiles'
+        }));
+        return null;
+      }
+
+      setBackup(null);
+      setResolutions({});
+      setDefaultResolution('skip');
+      await loadProfiles();
+      return plan;
+    } finally {
+      setIsImporting(false);
+    }
+  }, [plan, backup, groups, profileRepository, groupRepository, loadProfiles]);
+
+  /**
+   * Discard the loaded backup without importing
+   */
+  const cancelImport = useCallback(() => {
+    setBackup(null);
+    setResolutions({});
+    setDefaultResolution('skip');
+  }, []);
+
+  /**
+   * Clear any errors
+   */
+  const clearError = useCallback(() => {
+    setLoadingState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  useEffect(() => {
+    loadProfiles();
+  }, [loadProfiles]);
+
+  // Keep exports and conflict checks in step with edits made in other tabs
+  useEffect(() => subscribeToChanges(['profiles', 'profileGroups'], () => {
+    loadProfiles();
+  }), [loadProfiles]);
+
+  return {
+    profiles,
+    backup,
+    conflicts,
+    resolutions,
+    defaultResolution,
+    plan,
+    isLoading: loadingState.isLoading,
+    isImporting,
+    error: loadingState.error,
+    exportBackup,
+    loadBackup,
+    loadBackupFile,
+    setResolution,
+    resolveAll,
+    importBackup,
+    cancelImport,
+    clearError
+  };
+};
@@ -7,6 +7,8 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import type { StreamCategory } from '@/types/Profile';
 import { getCategoryRepository } from '@/repositories/CategoryRepository';
+import { getTwitchAPI, type APIResult } from '@/lib/api/twitchAPI';
+import { getCategoryRevalidator, type CategoryRevalidationResult } from '@/lib/categories/categoryRevalidator';
 
 /**
  * Loading state for categories
@@ -111,6 +113,13 @@ export const useCategories = () => {
     }
   }, [categoryRepository]);
 
+  /**
+   * Record that the user picked a category so the cache keeps it longer
+   */
+  const markCategoryUsed = useCallback(async (id: string): Promise<void> => {
+    await categoryRepository.markUsed(id);
+  }, [categoryRepository]);
+
   /**
    * Get cache statistics
    */
@@ -180,6 +189,7 @@ export const useCategories = () => {
     // Operations
     searchCategories,
     getCategoryById,
+    markCategoryUsed,
     getCacheStats,
     clearCache,
     refreshCategories: loadCategories,
@@ -199,7 +209,7 @@ export const useCategorySearch = (debounceMs: number = 300) => {
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<StreamCategory[]>([]);
   const [isSearching, setIsSearching] = useState(false);
-  const { searchCategories, categories } = useCategories();
+  const { searchCategories, categories, markCategoryUsed } = useCategories();
 
   // Debounced search effect
   useEffect(() => {
@@ -230,27 +240,61 @@ export const useCategorySearch = (debounceMs: number = 300) => {
     results,
     isSearching,
     hasResults: results.length > 0,
-    clearQuery: () => setQuery('')
+    clearQuery: () => setQuery(''),
+    markCategoryUsed
   };
 };
 
 /**
- * Hook for category validation
+ * Hook for category validation against Twitch
  */
 export const useCategoryValidation = () => {
   const { getCategoryById } = useCategories();
+  const [isRevalidating, setIsRevalidating] = useState(false);
+  const [lastResult, setLastResult] = useState<CategoryRevalidationResult | null>(null);
 
+  /**
+   * Whether Twitch still has the category. Offline or signed out, only the
+   * local cache can be checked.
+   */
   const validateCategory = useCallback(async (category: StreamCategory): Promise<boolean> => {
     if (!category.id || !category.name) {
       return false;
     }
 
-    // Check if category exists in cache or defaults
+    const result = await getTwitchAPI().getCategoriesByIds([category.id]);
+    if (result.success && result.data) {
+      return result.data.some(game => game.id === category.id);
+    }
+
     const existingCategory = await getCategoryById(category.id);
     return existingCategory !== null;
   }, [getCategoryById]);
 
+  /**
+   * Check every profile's category now, updating renamed ones and flagging
+   * missing ones
+   */
+  const revalidateProfiles = useCallback(async (): Promise<APIResult<CategoryRevalidationResult>> => {
+    setIsRevalidating(true);
+    try {
+      const result = await getCategoryRevalidator().revalidate();
+      if (result.success && result.data) {
+        setLastResult(result.data);
+      }
+      return result;
+    } finally {
+      setIsRevalidating(false);
+    }
+  }, []);
+
   return {
-    validateCategory
+    // Data
+    lastResult,
+    isRevalidating,
+
+    // Actions
+    validateCategory,
+    revalidateProfiles
   };
 };
@@ -0,0 +1,87 @@
+/**
+ * Channel Diff Hooks
+ *
+ * Loads the live channel and compares it with a profile before applying.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { StreamProfile } from '@/types/Profile';
+import type { ChannelSnapshot } from '@/types/History';
+import { processProfileTitle } from '@/types/ProfileUtils';
+import { getTwitchAPI } from '@/lib/api/twitchAPI';
+import { diffChannel, toChannelSnapshot } from '@/lib/diff/channelDiff';
+
+/**
+ * Loading state interface
+ */
+interface LoadingState {
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Diff between the live channel and a profile
+ *
+ * Pass null to skip loading (e.g. while no preview is open).
+ */
+export const useChannelDiff = (profile: StreamProfile | null) => {
+  const [current, setCurrent] = useState<ChannelSnapshot | null>(null);
+  const [loadingState, setLoadingState] = useState<LoadingState>({
+    isLoading: false,
+    error: null
+  });
+
+  const loadChannel = useCallback(async () => {
+    if (!profile) {
+      setCurrent(null);
+      setLoadingState({ isLoading: false, error: null });
+      return;
+    }
+
+    setLoadingState({ isLoading: true, error: null });
+
+    try {
+      const result = await getTwitchAPI().getCurrentChannelInfo();
+
+      if (result.success && result.data) {
+        setCurrent(toChannelSnapshot(result.data));
+        setLoadingState({ isLoading: false, error: null });
+      } else {
+        setCurrent(null);
+        setLoadingState({
+          isLoading: false,
+          error: result.error?.message || 'Failed to load your channel'
+        });
+      }
+    } catch (error) {
+      setCurrent(null);
+      setLoadingState({
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      });
+    }
+  }, [profile]);
+
+  const processedTitle = useMemo(
+    () => profile ? processProfileTitle(profile).processed : '',
+    [profile]
+  );
+
+  const diff = useMemo(
+    () => profile && current ? diffChannel(current, profile, processedTitle) : null,
+    [profile, current, processedTitle]
+  );
+
+  useEffect(() => {
+    loadChannel();
+  }, [loadChannel]);
+
+  return {
+    current,
+    diff,
+    processedTitle,
+    isLoading: loadingState.isLoading,
+    error: loadingState.error,
+    reload: loadChannel
+  };
+};
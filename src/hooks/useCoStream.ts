@@ -0,0 +1,102 @@
+/**
+ * Co-stream Hooks
+ *
+ * React hook applying a profile to several channels at once and retrying
+ * the channels that failed.
+ */
+
+import { useState, useCallback } from 'react';
+import type { StreamProfile } from '@/types/Profile';
+import type { ChannelField } from '@/types/History';
+import type { CoStreamTarget, CoStreamChannelResult } from '@/types/CoStream';
+import { getTwitchAPI } from '@/lib/api/twitchAPI';
+
+/**
+ * The batch behind the results on screen, kept so failed channels can be
+ * sent again with the same titles and partners
+ */
+interface CoStreamBatch {
+  profile: StreamProfile;
+  targets: CoStreamTarget[];
+  fields?: ChannelField[];
+  /** Counters were advanced by an earlier run of this batch */
+  countersAdvanced: boolean;
+}
+
+/**
+ * Co-stream apply hook
+ */
+export const useCoStream = () => {
+  const [batch, setBatch] = useState<CoStreamBatch | null>(null);
+  const [results, setResults] = useState<CoStreamChannelResult[]>([]);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (next: CoStreamBatch, broadcasterIds?: string[]): Promise<CoStreamChannelResult[]> => {
+    setIsApplying(true);
+    setError(null);
+
+    try {
+      const channelResults = await getTwitchAPI().applyProfileToChannels(next.profile, next.targets, {
+        fields: next.fields,
+        broadcasterIds,
+        advanceCounters: !next.countersAdvanced
+      });
+
+      // Retried channels replace their earlier result, in the original order
+      setResults(previous => next.targets
+        .map(target =>
+          channelResults.find(result => result.broadcasterId === target.broadcasterId) ??
+          previous.find(result => result.broadcasterId === target.broadcasterId))
+        .filter((result): result is CoStreamChannelResult => result !== undefined));
+      setBatch({ ...next, countersAdvanced: next.countersAdvanced || channelResults.some(result => result.success) });
+      return channelResults;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply to the channels');
+      return [];
+    } finally {
+      setIsApplying(false);
+    }
+  }, []);
+
+  /**
+   * Apply a profile to every target channel
+   */
+  const applyToChannels = useCallback((profile: StreamProfile, targets: CoStreamTarget[], fields?: ChannelField[]) => {
+    setResults([]);
+    return run({ profile, targets, fields, countersAdvanced: false });
+  }, [run]);
+
+  /**
+   * Send the last batch again to the channels that failed
+   */
+  const retryFailed = useCallback(async (): Promise<CoStreamChannelResult[]> => {
+    const failedIds = results.filter(result => !result.success).map(result => result.broadcasterId);
+    if (!batch || failedIds.length === 0) {
+      return [];
+    }
+    return run(batch, failedIds);
+  }, [batch, results, run]);
+
+  /**
+   * Forget the last batch and its results
+   */
+  const clearResults = useCallback(() => {
+    setBatch(null);
+    setResults([]);
+    setError(null);
+  }, []);
+
+  return {
+    // Data
+    results,
+    isApplying,
+    error,
+    hasFailures: results.some(result => !result.success),
+
+    // Actions
+    applyToChannels,
+    retryFailed,
+    clearResults
+  };
+};
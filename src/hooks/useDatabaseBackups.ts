@@ -0,0 +1,69 @@
+/**
+ * Database Backup Hooks
+ *
+ * React hook listing the copies of the database taken before schema
+ * upgrades, and restoring one of them.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { STORAGE_KEYS } from '@/types/constants';
+import { restoreDatabaseBackup } from '@/lib/db/indexedDB';
+import { listMigrationBackups, type MigrationBackupSummary } from '@/lib/db/migrationBackups';
+
+/**
+ * Pre-upgrade database backups hook
+ */
+export const useDatabaseBackups = () => {
+  const [backups, setBackups] = useState<MigrationBackupSummary[]>([]);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the backup list
+   */
+  const loadBackups = useCallback(async () => {
+    try {
+      setBackups(await listMigrationBackups());
+    } catch (loadError) {
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load database backups');
+    }
+  }, []);
+
+  /**
+   * Replace the database with a backup; it is upgraded again the next time it opens
+   */
+  const restoreBackup = useCallback(async (backupId: string): Promise<boolean> => {
+    setIsRestoring(true);
+    setError(null);
+
+    try {
+      await restoreDatabaseBackup(backupId);
+      return true;
+    } catch (restoreError) {
+      setError(restoreError instanceof Error ? restoreError.message : 'Failed to restore database backup');
+      return false;
+    } finally {
+      setIsRestoring(false);
+    }
+  }, []);
+
+  /**
+   * Clear any errors
+   */
+  const clearError = useCallback(() => {
+    setError(null);
+  }, []);
+
+  useEffect(() => {
+    loadBackups();
+  }, [loadBackups]);
+
+  return {
+    schemaVersion: STORAGE_KEYS.DB_VERSION,
+    backups,
+    isRestoring,
+    error,
+    restoreBackup,
+    clearError
+  };
+};
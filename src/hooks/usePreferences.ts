@@ -0,0 +1,102 @@
+/**
+ * Preferences Hooks
+ *
+ * React hook for reading and saving user preferences. Every mounted
+ * instance stays in sync through the repository's change listeners.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { UserPreferences } from '@/types';
+import { getPreferencesRepository } from '@/repositories/PreferencesRepository';
+
+/**
+ * Loading state interface
+ */
+interface LoadingState {
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * User preferences hook
+ */
+export const usePreferences = () => {
+  const preferencesRepository = getPreferencesRepository();
+  const [preferences, setPreferences] = useState<UserPreferences>(() => preferencesRepository.getCached());
+  const [loadingState, setLoadingState] = useState<LoadingState>({
+    isLoading: true,
+    error: null
+  });
+
+  /**
+   * Load preferences from the repository
+   */
+  const loadPreferences = useCallback(async () => {
+    setLoadingState(prev => ({ ...prev, isLoading: true }));
+
+    const result = await preferencesRepository.getAll();
+    setLoadingState({
+      isLoading: false,
+      error: result.success ? null : result.error?.message || 'Failed to load preferences'
+    });
+  }, [preferencesRepository]);
+
+  /**
+   * Save one or more preferences
+   */
+  const updatePreferences = useCallback(async (updates: Partial<UserPreferences>): Promise<boolean> => {
+    const result = await preferencesRepository.update(updates);
+
+    if (!result.success) {
+      setLoadingState(prev => ({
+        ...prev,
+        error: result.error?.message || 'Failed to save preferences'
+      }));
+      return false;
+    }
+
+    setLoadingState(prev => ({ ...prev, error: null }));
+    return true;
+  }, [preferencesRepository]);
+
+  /**
+   * Restore all preferences to their defaults
+   */
+  const resetPreferences = useCallback(async (): Promise<boolean> => {
+    const result = await preferencesRepository.reset();
+
+    if (!result.success) {
+      setLoadingState(prev => ({
+        ...prev,
+        error: result.error?.message || 'Failed to reset preferences'
+      }));
+      return false;
+    }
+
+    setLoadingState(prev => ({ ...prev, error: null }));
+    return true;
+  }, [preferencesRepository]);
+
+  /**
+   * Clear any errors
+   */
+  const clearError = useCallback(() => {
+    setLoadingState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = preferencesRepository.subscribe(setPreferences);
+    loadPreferences();
+    return unsubscribe;
+  }, [preferencesRepository, loadPreferences]);
+
+  return {
+    preferences,
+    isLoading: loadingState.isLoading,
+    error: loadingState.error,
+    updatePreferences,
+    resetPreferences,
+    refreshPreferences: loadPreferences,
+    clearError
+  };
+};
@@ -0,0 +1,129 @@
+/**
+ * Profile Group Hooks
+ *
+ * React hook for the groups (folders) profiles are filed under on the dashboard.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { ProfileGroup } from '@/types/ProfileGroup';
+import { getProfileGroupRepository } from '@/repositories/ProfileGroupRepository';
+import { subscribeToChanges } from '@/lib/sync/changeBus';
+
+/**
+ * Loading state interface
+ */
+interface LoadingState {
+  isLoading: boolean;
+  error: string | null;
+}
+
+/**
+ * Profile groups hook
+ */
+export const useProfileGroups = () => {
+  const [groups, setGroups] = useState<ProfileGroup[]>([]);
+  const [loadingState, setLoadingState] = useState<LoadingState>({
+    isLoading: true,
+    error: null
+  });
+
+  const groupRepository = getProfileGroupRepository();
+
+  /**
+   * Load all groups
+   */
+  const loadGroups = useCallback(async () => {
+    const result = await groupRepository.getAll();
+
+    if (result.success && result.data) {
+      setGroups(result.data);
+      setLoadingState({ isLoading: false, error: null });
+    } else {
+      setLoadingState({
+        isLoading: false,
+        error: result.error?.message || 'Failed to load groups'
+      });
+    }
+  }, [groupRepository]);
+
+  /**
+   * Create a group
+   */
+  const createGroup = useCallback(async (name: string): Promise<ProfileGroup | null> => {
+    const result = await groupRepository.create(name);
+
+    if (result.success && result.data) {
+      await loadGroups();
+      return result.data;
+    }
+
+    setLoadingState(prev => ({
+      ...prev,
+      error: result.error?.message || 'Failed to create group'
+    }));
+    return null;
+  }, [groupRepository, loadGroups]);
+
+  /**
+   * Rename a group
+   */
+  const renameGroup = useCallback(async (id: string, name: string): Promise<boolean> => {
+    const result = await groupRepository.rename(id, name);
+
+    if (result.success) {
+      await loadGroups();
+      return true;
+    }
+
+    setLoadingState(prev => ({
+      ...prev,
+      error: result.error?.message || 'Failed to rename group'
+    }));
+    return false;
+  }, [groupRepository, loadGroups]);
+
+  /**
+   * Delete a group; its profiles become ungrouped
+   */
+  const deleteGroup = useCallback(async (id: string): Promise<boolean> => {
+    const result = await groupRepository.delete(id);
+
+    if (result.success) {
+      setGroups(prev => prev.filter(group => group.id !== id));
+      return true;
+    }
+
+    setLoadingState(prev => ({
+      ...prev,
+      error: result.error?.message || 'Failed to delete group'
+    }));
+    return false;
+  }, [groupRepository]);
+
+  /**
+   * Clear any errors
+   */
+  const clearError = useCallback(() => {
+    setLoadingState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  useEffect(() => {
+    loadGroups();
+  }, [loadGroups]);
+
+  // Pick up groups created, renamed or deleted in other tabs
+  useEffect(() => subscribeToChanges('profileGroups', () => {
+    loadGroups();
+  }), [loadGroups]);
+
+  return {
+    groups,
+    isLoading: loadingState.isLoading,
+    error: loadingState.error,
+    createGroup,
+    renameGroup,
+    deleteGroup,
+    refreshGroups: loadGroups,
+    clearError
+  };
+};
@@ -6,10 +6,15 @@
  */
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import type { StreamProfile, CreateProfileInput, UpdateProfileInput } from '@/types/Profile';
+import type { StreamProfile, StreamCategory, CreateProfileInput, UpdateProfileInput } from '@/types/Profile';
 import { getProfileRepository, type RepositoryResult } from '@/repositories/ProfileRepository';
-import { processTitle } from '@/types/ProfileUtils';
-import { getTwitchAPI, isAuthError, isNetworkError } from '@/lib/api/twitchAPI';
+import { titleHasTemplates } from '@/types/ProfileUtils';
+import { getTwitchAPI, isAuthError, isNetworkError, type ApplyProfileOptions } from '@/lib/api/twitchAPI';
+import { applyProfileObsActions } from '@/lib/api/obsWebSocket';
+import { getReauthManager } from '@/lib/auth/reauth';
+import { getApplyQueue } from '@/lib/sync/applyQueue';
+import { subscribeToChanges } from '@/lib/sync/changeBus';
+import { getCategoryRevalidator } from '@/lib/categories/categoryRevalidator';
 
 /**
  * Loading state interface
@@ -31,6 +36,7 @@ export const useProfiles = () => {
     isLoading: true, // Start as loading
     error: null
   });
+  const [obsWarning, setObsWarning] = useState<string | null>(null);
 
   const profileRepository = getProfileRepository();
 
@@ -196,6 +202,65 @@ export const useProfiles = () => {
     }
   }, [profileRepository]);
 
+  /**
+   * Pin a profile to the top of the dashboard, or unpin it
+   */
+  const toggleFavorite = useCallback(async (id: string): Promise<boolean> => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return false;
+
+    const result = await profileRepository.setFavorite(id, !profile.favorite);
+    if (result.success && result.data) {
+      setProfiles(prev => prev.map(p => p.id === id ? result.data! : p));
+      return true;
+    }
+
+    setLoadingState(prev => ({
+      ...prev,
+      error: result.error?.message || 'Failed to update favorite'
+    }));
+    return false;
+  }, [profiles, profileRepository]);
+
+  /**
+   * Give a profile a new category in place of one Twitch no longer has
+   */
+  const replaceCategory = useCallback(async (id: string, category: StreamCategory): Promise<boolean> => {
+    const result = await profileRepository.update(id, { id, category });
+    if (result.success && result.data) {
+      setProfiles(prev => prev.map(p => p.id === id ? result.data! : p));
+      return true;
+    }
+
+    setLoadingState(prev => ({
+      ...prev,
+      error: result.error?.message || 'Failed to replace category'
+    }));
+    return false;
+  }, [profileRepository]);
+
+  /**
+   * Move a profile into a dashboard section (favorites, a group or
+   * ungrouped), before another profile or at the end
+   */
+  const moveProfile = useCallback(async (id: string, section: string, beforeId?: string): Promise<boolean> => {
+    const result = await profileRepository.moveToSection(id, section, beforeId);
+    if (!result.success) {
+      setLoadingState(prev => ({
+        ...prev,
+        error: result.error?.message || 'Failed to move profile'
+      }));
+      return false;
+    }
+
+    // Other profiles in the section were renumbered too
+    const refreshed = await profileRepository.getAll();
+    if (refreshed.success && refreshed.data) {
+      setProfiles(refreshed.data);
+    }
+    return true;
+  }, [profileRepository]);
+
   /**
    * Clear any errors
    */
@@ -203,6 +268,13 @@ export const useProfiles = () => {
     setLoadingState(prev => ({ ...prev, error: null }));
   }, []);
 
+  /**
+   * Clear the OBS warning from the last apply
+   */
+  const clearObsWarning = useCallback(() => {
+    setObsWarning(null);
+  }, []);
+
   /**
    * Refresh profiles (reload from database)
    */
@@ -211,15 +283,37 @@ export const useProfiles = () => {
   }, [loadProfiles]);
 
   /**
-   * Apply a profile to Twitch stream
+   * Follow-up once a profile is on Twitch: OBS actions and counters
+   */
+  const finishApply = useCallback(async (profile: StreamProfile): Promise<void> => {
+    console.log(`Successfully applied profile "${profile.name}" to Twitch stream`);
+
+    // The channel is already updated, so OBS problems are a warning rather than a failure
+    const obsResult = await applyProfileObsActions(profile);
+    if (obsResult && !obsResult.success) {
+      setObsWarning(`Applied to Twitch, but OBS wasn't fully updated: ${obsResult.error?.message}`);
+    }
+
+    // Pick up counters advanced by the apply
+    const refreshed = await profileRepository.getById(profile.id);
+    if (refreshed.success && refreshed.data) {
+      setProfiles(prev => prev.map(p => p.id === profile.id ? refreshed.data! : p));
+    }
+  }, [profileRepository]);
+
+  /**
+   * Apply a profile to Twitch stream, optionally only some of its fields.
+   * When the session has expired the apply waits for the user to sign in
+   * again and then runs.
    */
-  const applyProfile = useCallback(async (profile: StreamProfile): Promise<boolean> => {
+  const applyProfile = useCallback(async (profile: StreamProfile, options?: ApplyProfileOptions): Promise<boolean> => {
     try {
+      setObsWarning(null);
       const twitchAPI = getTwitchAPI();
-      const result = await twitchAPI.applyProfile(profile);
+      const result = await twitchAPI.applyProfile(profile, options);
       
       if (result.success) {
-        console.log(`Successfully applied profile "${profile.name}" to Twitch stream`);
+        await finishApply(profile);
         return true;
       } else {
         console.error('Failed to apply profile:', result.error);
@@ -228,13 +322,25 @@ export const useProfiles = () => {
         if (isAuthError(result.error)) {
           setLoadingState(prev => ({
             ...prev,
-            error: 'Authentication required. Please sign in to apply profiles to your stream.'
+            error: `Your Twitch session has expired. Sign in again to finish applying "${profile.name}".`
           }));
+          getReauthManager().enqueue(`Apply "${profile.name}"`, async () => {
+            const retried = await getTwitchAPI().applyProfile(profile, options);
+            if (!retried.success) {
+              throw new Error(retried.error?.message || 'Failed to apply profile to stream');
+            }
+            setLoadingState(prev => ({ ...prev, error: null }));
+            await finishApply(profile);
+          });
         } else if (isNetworkError(result.error)) {
-          setLoadingState(prev => ({
-            ...prev,
-            error: 'Network error. Please check your connection and try again.'
-          }));
+          // Send it once Twitch is reachable instead of failing
+          const queued = await getApplyQueue().enqueue(profile, options?.fields, options?.accountId);
+          if (!queued.success) {
+            setLoadingState(prev => ({
+              ...prev,
+              error: 'Network error. Please check your connection and try again.'
+            }));
+          }
         } else {
           setLoadingState(prev => ({
             ...prev,
@@ -252,7 +358,7 @@ export const useProfiles = () => {
       }));
       return false;
     }
-  }, []);
+  }, [finishApply]);
 
   // Computed values
   const computedValues = useMemo(() => ({
@@ -261,9 +367,7 @@ export const useProfiles = () => {
     isEmpty: profiles.length === 0,
     categories: [...new Set(profiles.map(p => p.category.name))],
     mostRecentProfile: profiles[0] || null,
-    profilesWithTemplates: profiles.filter(p => 
-      p.title.includes('{YYYY-MM-DD}') || p.title.includes('{DAY}')
-    ).length
+    profilesWithTemplates: profiles.filter(p => titleHasTemplates(p.title)).length
   }), [profiles]);
 
   // Load profiles on hook initialization
@@ -271,6 +375,22 @@ export const useProfiles = () => {
     loadProfiles();
   }, [loadProfiles]);
 
+  /**
+   * Reload profiles changed elsewhere without flashing the loading state
+   */
+  const reloadQuietly = useCallback(async () => {
+    const result = await profileRepository.getAll();
+    if (result.success && result.data) {
+      setProfiles(result.data);
+    }
+  }, [profileRepository]);
+
+  // Pick up changes made in other tabs
+  useEffect(() => subscribeToChanges('profiles', reloadQuietly), [reloadQuietly]);
+
+  // Pick up renamed or missing categories found in the background
+  useEffect(() => getCategoryRevalidator().subscribe(reloadQuietly), [reloadQuietly]);
+
   return {
     // Data
     profiles,
@@ -278,6 +398,7 @@ export const useProfiles = () => {
     // Loading state
     isLoading: loadingState.isLoading,
     error: loadingState.error,
+    obsWarning,
     
     // Operations
     createProfile,
@@ -287,9 +408,13 @@ export const useProfiles = () => {
     searchProfiles,
     refreshProfiles,
     applyProfile,
+    toggleFavorite,
+    replaceCategory,
+    moveProfile,
     
     // Utils
     clearError,
+    clearObsWarning,
     
     // Computed values
     ...computedValues
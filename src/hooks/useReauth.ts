@@ -0,0 +1,40 @@
+/**
+ * Re-authentication Hooks
+ *
+ * React hook exposing actions waiting for the user to sign in again, and
+ * starting the popup sign-in that replays them.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { getReauthManager, type ReauthState } from '@/lib/auth/reauth';
+
+/**
+ * Pending re-auth hook
+ */
+export const useReauth = () => {
+  const manager = getReauthManager();
+  const [state, setState] = useState<ReauthState>(() => manager.getState());
+
+  useEffect(() => manager.subscribe(setState), [manager]);
+
+  /**
+   * Sign in again in a popup; call from a click handler
+   */
+  const reauthenticate = useCallback(() => manager.reauthenticate(), [manager]);
+
+  /**
+   * Give up on the queued actions
+   */
+  const discardPending = useCallback(() => manager.discard(), [manager]);
+
+  return {
+    // Data
+    pending: state.pending,
+    status: state.status,
+    error: state.error,
+
+    // Actions
+    reauthenticate,
+    discardPending
+  };
+};
@@ -0,0 +1,218 @@
+/**
+ * Schedule Hooks
+ *
+ * React hook for editing the weekly stream schedule, the auto-apply
+ * switch, and reading the scheduler's run log.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type {
+  ScheduleSlot,
+  ScheduleRun,
+  CreateScheduleSlotInput,
+  UpdateScheduleSlotInput
+} from '@/types/Schedule';
+import { getScheduleRepository, type AutoApplySettings } from '@/repositories/ScheduleRepository';
+import { getProfileScheduler, getNextOccurrence } from '@/lib/scheduler/profileScheduler';
+import { subscribeToChanges } from '@/lib/sync/changeBus';
+
+/**
+ * Loading state interface
+ */
+interface LoadingState {
+  isLoading: boolean;
+  error: string | null;
+}
+
+/** Number of run log records shown */
+const RUN_LOG_LIMIT = 20;
+
+/**
+ * Weekly schedule management hook
+ */
+export const useSchedule = () => {
+  const [slots, setSlots] = useState<ScheduleSlot[]>([]);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+  const [settings, setSettings] = useState<AutoApplySettings>({ autoApply: false });
+  const [loadingState, setLoadingState] = useState<LoadingState>({
+    isLoading: true,
+    error: null
+  });
+
+  const scheduleRepository = getScheduleRepository();
+
+  /**
+   * Load slots, run log and settings
+   */
+  const loadSchedule = useCallback(async () => {
+    setLoadingState(prev => ({ ...prev, isLoading: true }));
+
+    try {
+      const [slotsResult, runsResult, settingsResult] = await Promise.all([
+        scheduleRepository.getAllSlots(),
+        scheduleRepository.getRuns(RUN_LOG_LIMIT),
+        scheduleRepository.getAutoApplySettings()
+      ]);
+
+      if (slotsResult.success && slotsResult.data) {
+        setSlots(slotsResult.data);
+      }
+      if (runsResult.success && runsResult.data) {
+        setRuns(runsResult.data);
+      }
+      if (settingsResult.success && settingsResult.data) {
+        setSettings(settingsResult.data);
+      }
+
+      const failed = [slotsResult, runsResult, settingsResult].find(result => !result.success);
+      setLoadingState({
+        isLoading: false,
+        error: failed ? failed.error?.message || 'Failed to load schedule' : null
+      });
+    } catch (error) {
+      setLoadingState({
+        isLoading: false,
+        error: error instanceof Error ? error.message : 'An unexpected error occurred'
+      });
+    }
+  }, [scheduleRepository]);
+
+  /**
+   * Add a slot to the schedule
+   */
+  const createSlot = useCallback(async (input: CreateScheduleSlotInput): Promise<ScheduleSlot | null> => {
+    const result = await scheduleRepository.createSlot(input);
+
+    if (result.success && result.data) {
+      await loadSchedule();
+      return result.data;
+    }
+
+    setLoadingState(prev => ({
+      ...prev,
+      error: result.error?.message || 'Failed to add schedule slot'
+    }));
+    return null;
+  }, [scheduleRepository, loadSchedule]);
+
+  /**
+   * Update a slot
+   */
+  const updateSlot = useCallback(async (id: string, updates: UpdateScheduleSlotInput): Promise<boolean> => {
+    const result = await scheduleRepository.updateSlot(id, updates);
+
+    if (result.success && result.data) {
+      setSlots(prev => prev.map(slot => slot.id === id ? result.data! : slot));
+      return true;
+    }
+
+    setLoadingState(prev => ({
+      ...prev,
+      error: result.error?.message || 'Failed to update schedule slot'
+    }));
+    return false;
+  }, [scheduleRepository]);
+
+  /**
+   * Remove a slot
+   */
+  const deleteSlot = useCallback(async (id: string): Promise<boolean> => {
+    const result = await scheduleRepository.deleteSlot(id);
+
+    if (result.success) {
+      setSlots(prev => prev.filter(slot => slot.id !== id));
+      return true;
+    }
+
+    setLoadingState(prev => ({
+      ...prev,
+      error: result.error?.message || 'Failed to delete schedule slot'
+    }));
+    return false;
+  }, [scheduleRepository]);
+
+  /**
+   * Update auto-apply preferences
+   */
+  const updateSettings = useCallback(async (updates: Partial<AutoApplySettings>): Promise<boolean> => {
+    const result = await scheduleRepository.saveAutoApplySettings(updates);
+
+    if (result.success) {
+      setSettings(prev => ({ ...prev, ...updates }));
+      return true;
+    }
+
+    setLoadingState(prev => ({
+      ...prev,
+      error: result.error?.message || 'Failed to save auto-apply settings'
+    }));
+    return false;
+  }, [scheduleRepository]);
+
+  /**
+   * Delete the run log
+   */
+  const clearRuns = useCallback(async (): Promise<boolean> => {
+    const result = await scheduleRepository.clearRuns();
+
+    if (result.success) {
+      setRuns([]);
+      return true;
+    }
+
+    setLoadingState(prev => ({
+      ...prev,
+      error: result.error?.message || 'Failed to clear schedule log'
+    }));
+    return false;
+  }, [scheduleRepository]);
+
+  /**
+   * Clear any errors
+   */
+  const clearError = useCallback(() => {
+    setLoadingState(prev => ({ ...prev, error: null }));
+  }, []);
+
+  // Slots grouped by day of week (index 0 = Sunday)
+  const slotsByDay = useMemo(() => {
+    const days: ScheduleSlot[][] = [[], [], [], [], [], [], []];
+    slots.forEach(slot => days[slot.dayOfWeek].push(slot));
+    return days;
+  }, [slots]);
+
+  const nextOccurrence = useMemo(() => getNextOccurrence(slots, new Date()), [slots]);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  // Reload the log whenever the scheduler handles a slot
+  useEffect(() => {
+    return getProfileScheduler().subscribe(() => {
+      loadSchedule();
+    });
+  }, [loadSchedule]);
+
+  // Reload when another tab edits the schedule or the auto-apply settings
+  useEffect(() => subscribeToChanges(['schedule', 'preferences'], () => {
+    loadSchedule();
+  }), [loadSchedule]);
+
+  return {
+    slots,
+    slotsByDay,
+    runs,
+    settings,
+    nextOccurrence,
+    isLoading: loadingState.isLoading,
+    error: loadingState.error,
+    createSlot,
+    updateSlot,
+    deleteSlot,
+    updateSettings,
+    clearRuns,
+    refreshSchedule: loadSchedule,
+    clearError
+  };
+};
@@ -0,0 +1,105 @@
+/**
+ * Session Expiry Hooks
+ *
+ * React hook counting down to the end of the Twitch session and raising
+ * warnings as it passes the thresholds set in preferences. Sessions that
+ * refresh themselves (PKCE) never warn.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { getTwitchAuth } from '@/lib/auth/twitchAuth';
+import { subscribeToChanges } from '@/lib/sync/changeBus';
+import { notifySessionExpiring } from '@/lib/notifications/notifications';
+import { usePreferences } from './usePreferences';
+
+/** How often to re-read the stored token, to follow refreshes and sign-ins in this tab */
+const SESSION_RELOAD_INTERVAL = 60 * 1000;
+
+interface SessionExpiry {
+  expiresAt: Date;
+  canRefresh: boolean;
+}
+
+/**
+ * Format a countdown: "2h 05m" above an hour, "4:59" below
+ */
+export const formatTimeRemaining = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  }
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+/**
+ * Session countdown hook
+ *
+ * @param options.isAuthenticated - Re-read the session when this changes
+ * @param options.notify - Show a desktop notification as each warning threshold passes
+ */
+export const useSessionExpiry = ({ isAuthenticated = true, notify = false } = {}) => {
+  const { preferences } = usePreferences();
+  const [session, setSession] = useState<SessionExpiry | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const notifiedThresholds = useRef(new Set<string>());
+
+  /**
+   * Read the stored token's expiry
+   */
+  const loadSession = useCallback(async () => {
+    setSession(await getTwitchAuth().getSessionExpiry());
+  }, []);
+
+  useEffect(() => {
+    loadSession();
+    const timer = window.setInterval(loadSession, SESSION_RELOAD_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [loadSession, isAuthenticated]);
+
+  // Follow sign-ins from other tabs and the re-auth popup
+  useEffect(() => subscribeToChanges('auth', () => {
+    loadSession();
+  }), [loadSession]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const remainingMs = session ? session.expiresAt.getTime() - now : null;
+  const canRefresh = session?.canRefresh ?? false;
+  const isExpired = remainingMs !== null && remainingMs <= 0 && !canRefresh;
+
+  // Most urgent threshold passed, in minutes
+  const warningThreshold = remainingMs !== null && remainingMs > 0 && !canRefresh
+    ? [...preferences.tokenExpiryWarnings]
+        .sort((a, b) => a - b)
+        .find(minutes => remainingMs <= minutes * 60 * 1000) ?? null
+    : null;
+
+  useEffect(() => {
+    if (!notify || !session || warningThreshold === null) return;
+
+    // Once per threshold per token
+    const key = `${session.expiresAt.getTime()}:${warningThreshold}`;
+    if (notifiedThresholds.current.has(key)) return;
+    notifiedThresholds.current.add(key);
+    notifySessionExpiring(warningThreshold);
+  }, [notify, session, warningThreshold]);
+
+  return {
+    // Data
+    expiresAt: session?.expiresAt ?? null,
+    remainingMs,
+    canRefresh,
+    isExpired,
+    warningThreshold,
+
+    // Actions
+    reload: loadSession
+  };
+};
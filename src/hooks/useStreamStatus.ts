@@ -0,0 +1,94 @@
+/**
+ * Stream Status Hooks
+ *
+ * React hook exposing whether the channel is live, as tracked by the
+ * stream status poller, and the log of detected stream starts and ends.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import type { StreamStatus, StreamEvent } from '@/types/StreamStatus';
+import { getStreamEventRepository } from '@/repositories/StreamEventRepository';
+import { getStreamStatusPoller } from '@/lib/stream/streamStatusPoller';
+import { subscribeToChanges } from '@/lib/sync/changeBus';
+
+/** Number of stream events shown */
+const EVENT_LOG_LIMIT = 20;
+
+/**
+ * Live status hook
+ */
+export const useStreamStatus = () => {
+  const poller = getStreamStatusPoller();
+  const [status, setStatus] = useState<StreamStatus>(() => poller.getStatus());
+  const [events, setEvents] = useState<StreamEvent[]>([]);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const streamEventRepository = getStreamEventRepository();
+
+  /**
+   * Load the event log
+   */
+  const loadEvents = useCallback(async () => {
+    const result = await streamEventRepository.getEvents(EVENT_LOG_LIMIT);
+    if (result.success && result.data) {
+      setEvents(result.data);
+    }
+  }, [streamEventRepository]);
+
+  /**
+   * Check Twitch now instead of waiting for the next poll
+   */
+  const refresh = useCallback(async () => {
+    setIsChecking(true);
+    await poller.check();
+    setIsChecking(false);
+  }, [poller]);
+
+  /**
+   * Delete the event log
+   */
+  const clearEvents = useCallback(async (): Promise<boolean> => {
+    const result = await streamEventRepository.clearEvents();
+    if (result.success) {
+      setEvents([]);
+    }
+    return result.success;
+  }, [streamEventRepository]);
+
+  // Follow the poller
+  useEffect(() => {
+    const unsubscribeStatus = poller.subscribe(setStatus);
+    const unsubscribeEvents = poller.subscribeEvents(() => {
+      loadEvents();
+    });
+    return () => {
+      unsubscribeStatus();
+      unsubscribeEvents();
+    };
+  }, [poller, loadEvents]);
+
+  useEffect(() => {
+    loadEvents();
+  }, [loadEvents]);
+
+  // Show events logged by the poller in other tabs
+  useEffect(() => subscribeToChanges('streamEvents', () => {
+    loadEvents();
+  }), [loadEvents]);
+
+  return {
+    // Data
+    status,
+    events,
+
+    // Derived
+    isLive: status.state === 'live',
+
+    // Loading state
+    isChecking,
+
+    // Operations
+    refresh,
+    clearEvents
+  };
+};
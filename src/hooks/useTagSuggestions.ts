@@ -0,0 +1,68 @@
+/**
+ * Tag Suggestion Hooks
+ *
+ * Offers tags while typing, drawn from the tags already used across
+ * profiles and the tags on the live channel.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { getProfileRepository } from '@/repositories/ProfileRepository';
+import { getTwitchAPI } from '@/lib/api/twitchAPI';
+import { subscribeToChanges } from '@/lib/sync/changeBus';
+import { countTagUsage, suggestTags, type TagSuggestion } from '@/lib/tags/twitchTags';
+
+/**
+ * Tag autocomplete hook
+ */
+export const useTagSuggestions = () => {
+  const [usedTags, setUsedTags] = useState<Array<{ tag: string; count: number }>>([]);
+  const [liveTags, setLiveTags] = useState<string[]>([]);
+
+  /**
+   * Count the tags used across profiles
+   */
+  const loadUsedTags = useCallback(async () => {
+    const result = await getProfileRepository().getAll();
+    if (result.success && result.data) {
+      setUsedTags(countTagUsage(result.data.map(profile => profile.tags)));
+    }
+  }, []);
+
+  /**
+   * Read the live channel's tags; suggestions go without them when signed out or offline
+   */
+  const loadLiveTags = useCallback(async () => {
+    try {
+      const result = await getTwitchAPI().getCurrentChannelInfo();
+      setLiveTags(result.success && result.data ? result.data.tags ?? [] : []);
+    } catch {
+      setLiveTags([]);
+    }
+  }, []);
+
+  /**
+   * Tags to offer for the text typed so far, leaving out the chosen ones
+   */
+  const suggest = useCallback((query: string, chosen: string[] = []): TagSuggestion[] =>
+    suggestTags(query, { used: usedTags, live: liveTags }, chosen), [usedTags, liveTags]);
+
+  useEffect(() => {
+    loadUsedTags();
+    loadLiveTags();
+  }, [loadUsedTags, loadLiveTags]);
+
+  // Follow profiles edited in other tabs
+  useEffect(() => subscribeToChanges('profiles', () => {
+    loadUsedTags();
+  }), [loadUsedTags]);
+
+  return {
+    // Data
+    usedTags,
+    liveTags,
+
+    // Actions
+    suggest,
+    refresh: loadUsedTags
+  };
+};
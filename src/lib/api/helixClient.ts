@@ -0,0 +1,362 @@
+/**
+ * Helix HTTP Client
+ *
+ * The one request layer for the Twitch Helix API. It adds the Client-Id and
+ * bearer headers and applies the configured timeout. Requests are paced with
+ * a token bucket sized by API_CONFIG.RATE_LIMIT_BUFFER, which stays under
+ * Twitch's per-minute limit. Network errors, timeouts and 5xx responses are
+ * retried with exponential backoff and jitter. A 429 waits until the
+ * Ratelimit-Reset time Twitch sends, then retries.
+ *
+ * Failures are thrown as HelixError, with a code from ERROR_CODES.
+ */
+
+import { TWITCH_ENDPOINTS, TWITCH_CONFIG, API_CONFIG, ERROR_CODES } from '@/types/constants';
+import { getPreference } from '@/repositories/PreferencesRepository';
+import type { TwitchRateLimit } from '@/types/TwitchAPI';
+
+/**
+ * Codes from the ERROR_CODES taxonomy
+ */
+export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
+
+/**
+ * Longest we wait for a rate limit to reset before giving up (milliseconds)
+ */
+const MAX_RATE_LIMIT_WAIT = 60 * 1000;
+
+/**
+ * Raised for every failed Helix request.
+ * status is missing for network errors and timeouts.
+ */
+export class HelixError extends Error {
+  constructor(
+    message: string,
+    readonly code: ErrorCode,
+    readonly status?: number,
+    readonly rateLimit?: TwitchRateLimit,
+    readonly details?: unknown
+  ) {
+    super(message);
+    this.name = 'HelixError';
+  }
+
+  /** Worth trying again later: the request never got a definitive answer */
+  get isRetryable(): boolean {
+    return this.code === ERROR_CODES.NETWORK_ERROR ||
+      this.code === ERROR_CODES.TIMEOUT_ERROR ||
+      this.code === ERROR_CODES.RATE_LIMITED ||
+      (this.status !== undefined && this.status >= 500);
+  }
+}
+
+/**
+ * A single Helix request
+ */
+export interface HelixRequest {
+  method?: 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+  /** Query parameters; arrays repeat the parameter, undefined values are left out */
+  query?: Record<string, string | number | boolean | Array<string | number> | undefined>;
+  /** Sent as JSON */
+  body?: unknown;
+  /** Access token for the Authorization header */
+  token?: string;
+  /** Timeout in milliseconds (defaults to the apiTimeout preference) */
+  timeout?: number;
+  /** Retries after the first attempt (defaults to the apiRetryAttempts preference) */
+  retries?: number;
+}
+
+/**
+ * A successful Helix response
+ */
+export interface HelixResponse<T> {
+  status: number;
+  /** Parsed JSON body (undefined for 204 No Content) */
+  data: T;
+  rateLimit?: TwitchRateLimit;
+}
+
+/**
+ * Client configuration and dependencies
+ */
+export interface HelixClientOptions {
+  /** fetch implementation (defaults to the global fetch) */
+  fetch?: typeof fetch;
+  /** Base URL that request paths are relative to */
+  baseUrl?: string;
+  clientId?: string;
+  /** Requests allowed per minute before pacing kicks in */
+  requestsPerMinute?: number;
+  /** Time source in milliseconds (defaults to Date.now) */
+  now?: () => number;
+  /** Waits the given milliseconds (defaults to setTimeout) */
+  sleep?: (ms: number) => Promise<void>;
+  /** Random number in [0, 1) for backoff jitter */
+  random?: () => number;
+}
+
+/**
+ * Token bucket that allows bursts up to its capacity and refills at a
+ * steady rate; take() waits when the bucket is empty
+ */
+class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+  private blockedUntil = 0;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerMs: number,
+    private readonly now: () => number,
+    private readonly sleep: (ms: number) => Promise<void>
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now();
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      const blockedFor = this.blockedUntil - this.now();
+
+      if (blockedFor <= 0 && this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await this.sleep(Math.max(blockedFor, Math.ceil((1 - this.tokens) / this.refillPerMs)));
+    }
+  }
+
+  /**
+   * Hold every request until the given time (Twitch said the window is used up)
+   */
+  blockUntil(time: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, time);
+    this.tokens = 0;
+    this.updatedAt = this.now();
+  }
+
+  private refill(): void {
+    const now = this.now();
+    this.tokens = Math.min(this.capacity, this.tokens + (now - this.updatedAt) * this.refillPerMs);
+    this.updatedAt = now;
+  }
+}
+
+/**
+ * Helix API client
+ */
+export class HelixClient {
+  private readonly fetchImpl: typeof fetch;
+  private readonly baseUrl: string;
+  private readonly clientId: string;
+  private readonly now: () => number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly random: () => number;
+  private readonly bucket: TokenBucket;
+
+  constructor(options: HelixClientOptions = {}) {
+    const requestsPerMinute = options.requestsPerMinute ?? API_CONFIG.RATE_LIMIT_BUFFER;
+
+    this.fetchImpl = options.fetch ?? ((...args) => fetch(...args));
+    this.baseUrl = options.baseUrl ?? TWITCH_ENDPOINTS.API_BASE;
+    this.clientId = options.clientId ?? TWITCH_CONFIG.CLIENT_ID;
+    this.now = options.now ?? (() => Date.now());
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.random = options.random ?? Math.random;
+    this.bucket = new TokenBucket(requestsPerMinute, requestsPerMinute / 60000, this.now, this.sleep);
+  }
+
+  /**
+   * GET a Helix endpoint
+   */
+  get<T>(path: string, request: Omit<HelixRequest, 'method' | 'body'> = {}): Promise<HelixResponse<T>> {
+    return this.request<T>(path, { ...request, method: 'GET' });
+  }
+
+  /**
+   * PATCH a Helix endpoint
+   */
+  patch<T>(path: string, body: unknown, request: Omit<HelixRequest, 'method' | 'body'> = {}): Promise<HelixResponse<T>> {
+    return this.request<T>(path, { ...request, method: 'PATCH', body });
+  }
+
+  /**
+   * Send a request, retrying failures that may be temporary
+   *
+   * @throws HelixError when the request fails for good
+   */
+  async request<T>(path: string, request: HelixRequest = {}): Promise<HelixResponse<T>> {
+    const url = this.buildUrl(path, request.query);
+    const retries = request.retries ?? getPreference('apiRetryAttempts');
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.send<T>(url, request);
+      } catch (error) {
+        const helixError = error instanceof HelixError ? error : toHelixError(error);
+        if (!helixError.isRetryable || attempt >= retries) {
+          throw helixError;
+        }
+
+        const delay = this.retryDelay(helixError, attempt);
+        if (delay === null) {
+          throw helixError;
+        }
+
+        this.log('Request failed, retrying', { url, code: helixError.code, status: helixError.status, attempt: attempt + 1, delay });
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * One attempt, paced by the token bucket
+   */
+  private async send<T>(url: string, request: HelixRequest): Promise<HelixResponse<T>> {
+    await this.bucket.take();
+
+    const headers: Record<string, string> = { 'Client-Id': this.clientId };
+    if (request.token) {
+      headers['Authorization'] = `Bearer ${request.token}`;
+    }
+    if (request.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+
+    const response = await this.fetchImpl(url, {
+      method: request.method ?? 'GET',
+      headers,
+      body: request.body !== undefined ? JSON.stringify(request.body) : undefined,
+      signal: AbortSignal.timeout(request.timeout ?? getPreference('apiTimeout'))
+    });
+
+    const rateLimit = readRateLimit(response);
+    if (rateLimit && (rateLimit.remaining <= 0 || response.status === 429)) {
+      this.bucket.blockUntil(Math.min(rateLimit.reset * 1000, this.now() + MAX_RATE_LIMIT_WAIT));
+    }
+
+    if (!response.ok) {
+      throw await readErrorResponse(response, rateLimit);
+    }
+
+    const data = response.status === 204 ? undefined : await response.json().catch(() => undefined);
+    return { status: response.status, data: data as T, rateLimit };
+  }
+
+  /**
+   * Milliseconds to wait before the next attempt, or null when it's too long to wait
+   */
+  private retryDelay(error: HelixError, attempt: number): number | null {
+    if (error.code === ERROR_CODES.RATE_LIMITED) {
+      const wait = error.rateLimit ? error.rateLimit.reset * 1000 - this.now() : getPreference('apiRetryDelay');
+      return wait > MAX_RATE_LIMIT_WAIT ? null : Math.max(wait, 0);
+    }
+
+    // Exponential backoff with jitter, so clients that failed together don't retry together
+    const backoff = getPreference('apiRetryDelay') * 2 ** attempt;
+    return Math.round(backoff / 2 + this.random() * backoff / 2);
+  }
+
+  private buildUrl(path: string, query: HelixRequest['query'] = {}): string {
+    const url = new URL(/^https?:\/\//.test(path) ? path : `${this.baseUrl}${path}`);
+
+    for (const [key, value] of Object.entries(query)) {
+      if (value === undefined) continue;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        url.searchParams.append(key, String(item));
+      }
+    }
+
+    return url.toString();
+  }
+
+  /**
+   * Log messages (respects debug settings)
+   */
+  private log(message: string, data?: any): void {
+    if (getPreference('debugLogging')) {
+      console.log(`[HelixClient] ${message}`, data || '');
+    }
+  }
+}
+
+/**
+ * Rate limit information from response headers
+ */
+export function readRateLimit(response: Response): TwitchRateLimit | undefined {
+  const limit = response.headers.get('ratelimit-limit');
+  const remaining = response.headers.get('ratelimit-remaining');
+  const reset = response.headers.get('ratelimit-reset');
+
+  if (limit && remaining && reset) {
+    return {
+      limit: parseInt(limit, 10),
+      remaining: parseInt(remaining, 10),
+      reset: parseInt(reset, 10)
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * ERROR_CODES entry for an HTTP error status
+ */
+export function errorCodeForStatus(status: number): ErrorCode {
+  switch (status) {
+    case 400:
+      return ERROR_CODES.VALIDATION_ERROR;
+    case 401:
+      return ERROR_CODES.AUTH_FAILED;
+    case 403:
+      return ERROR_CODES.INSUFFICIENT_SCOPES;
+    case 429:
+      return ERROR_CODES.RATE_LIMITED;
+    default:
+      return ERROR_CODES.API_ERROR;
+  }
+}
+
+/**
+ * Turn an error response into a HelixError, keeping Twitch's message
+ */
+async function readErrorResponse(response: Response, rateLimit?: TwitchRateLimit): Promise<HelixError> {
+  const body = await response.json().catch(() => null) as { error?: string; message?: string } | null;
+  const message = body?.message || `HTTP ${response.status}: ${response.statusText}`;
+
+  return new HelixError(message, errorCodeForStatus(response.status), response.status, rateLimit, body ?? undefined);
+}
+
+/**
+ * Turn a fetch failure into a HelixError
+ */
+function toHelixError(error: unknown): HelixError {
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return new HelixError('Request timed out. Please check your connection and try again.', ERROR_CODES.TIMEOUT_ERROR, undefined, undefined, error);
+  }
+
+  return new HelixError(error instanceof Error ? error.message : 'Network request failed', ERROR_CODES.NETWORK_ERROR, undefined, undefined, error);
+}
+
+// Singleton instance
+let helixClientInstance: HelixClient | null = null;
+
+/**
+ * Get the app-wide Helix client
+ */
+export const getHelixClient = (): HelixClient => {
+  if (!helixClientInstance) {
+    helixClientInstance = new HelixClient();
+  }
+  return helixClientInstance;
+};
+
+/**
+ * Reset the Helix client instance (useful for testing)
+ */
+export const resetHelixClient = (): void => {
+  helixClientInstance = null;
+};
@@ -0,0 +1,515 @@
+/**
+ * OBS WebSocket Client
+ *
+ * Talks to OBS Studio's built-in obs-websocket server (protocol v5) to switch
+ * scene collections and scenes and toggle sources when a profile is applied.
+ * Connection settings come from the user's preferences.
+ */
+
+import type { StreamProfile } from '@/types/Profile';
+import type {
+  ObsProfileActions,
+  ObsActionStep,
+  ObsActionsReport,
+  ObsMessage,
+  ObsHello,
+  ObsIdentify,
+  ObsRequestResponse,
+  ObsSceneCollectionList,
+  ObsSceneList,
+  ObsVersionInfo
+} from '@/types/Obs';
+import { OBS_OP_CODES, OBS_RPC_VERSION, OBS_CLOSE_CODES } from '@/types/Obs';
+import { getPreference } from '@/repositories/PreferencesRepository';
+import type { APIResult } from './twitchAPI';
+
+/**
+ * Connection options
+ */
+export interface ObsConnectionOptions {
+  /** Server address, e.g. ws://127.0.0.1:4455 */
+  url: string;
+  /** Server password, if authentication is enabled in OBS */
+  password?: string;
+  /** Handshake and request timeout in milliseconds */
+  timeout?: number;
+  /** WebSocket implementation (defaults to the browser's) */
+  WebSocketImpl?: typeof WebSocket;
+}
+
+/**
+ * Details of an established session
+ */
+export interface ObsConnectionInfo {
+  obsWebSocketVersion: string;
+  negotiatedRpcVersion: number;
+}
+
+export type ObsConnectionStatus = 'disconnected' | 'connecting' | 'connected';
+
+interface PendingRequest {
+  requestType: string;
+  settle: (result: APIResult<Record<string, unknown>>) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const DEFAULT_TIMEOUT = 5000;
+
+const failure = <T>(code: string, message: string, details?: unknown): APIResult<T> => ({
+  success: false,
+  error: { code, message, details }
+});
+
+/**
+ * Base64-encoded SHA-256 digest
+ */
+async function sha256Base64(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return btoa(String.fromCharCode(...new Uint8Array(digest)));
+}
+
+/**
+ * Build the Identify authentication string from the Hello challenge
+ *
+ * base64(sha256(base64(sha256(password + salt)) + challenge))
+ */
+export async function computeObsAuthentication(password: string, salt: string, challenge: string): Promise<string> {
+  const secret = await sha256Base64(password + salt);
+  return sha256Base64(secret + challenge);
+}
+
+/**
+ * Whether a profile's OBS actions would change anything
+ */
+export function hasObsActions(actions: ObsProfileActions | undefined): actions is ObsProfileActions {
+  return !!actions && !!(actions.sceneCollection || actions.scene || actions.sources?.length);
+}
+
+/**
+ * obs-websocket v5 client
+ */
+export class ObsWebSocketClient {
+  private socket: WebSocket | null = null;
+  private connecting: Promise<APIResult<ObsConnectionInfo>> | null = null;
+  private connectionInfo: ObsConnectionInfo | null = null;
+  private pending = new Map<string, PendingRequest>();
+  private requestCounter = 0;
+  private status: ObsConnectionStatus = 'disconnected';
+  private listeners = new Set<(status: ObsConnectionStatus) => void>();
+
+  constructor(private readonly options: ObsConnectionOptions) {}
+
+  /**
+   * Server address this client connects to
+   */
+  get url(): string {
+    return this.options.url;
+  }
+
+  /**
+   * Password this client authenticates with
+   */
+  get password(): string {
+    return this.options.password ?? '';
+  }
+
+  /**
+   * Current connection status
+   */
+  getStatus(): ObsConnectionStatus {
+    return this.status;
+  }
+
+  /**
+   * Subscribe to connection status changes
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (status: ObsConnectionStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Connect and identify, reusing the session if already connected
+   */
+  connect(): Promise<APIResult<ObsConnectionInfo>> {
+    if (this.status === 'connected' && this.connectionInfo) {
+      return Promise.resolve({ success: true, data: this.connectionInfo });
+    }
+
+    if (!this.connecting) {
+      this.connecting = this.openSession().finally(() => {
+        this.connecting = null;
+      });
+    }
+
+    return this.connecting;
+  }
+
+  /**
+   * Close the connection
+   */
+  disconnect(): void {
+    this.socket?.close(1000);
+    this.socket = null;
+    this.connectionInfo = null;
+    this.setStatus('disconnected');
+  }
+
+  /**
+   * Send a request, connecting first if needed
+   */
+  async call<T = Record<string, unknown>>(
+    requestType: string,
+    requestData?: Record<string, unknown>
+  ): Promise<APIResult<T>> {
+    const connection = await this.connect();
+    if (!connection.success || !this.socket) {
+      return failure(connection.error?.code ?? 'OBS_DISCONNECTED', connection.error?.message ?? 'Not connected to OBS');
+    }
+
+    const requestId = String(++this.requestCounter);
+    this.log('Request', { requestType, requestData });
+
+    return new Promise(resolve => {
+      const timer = setTimeout(() => {
+        this.pending.delete(requestId);
+        resolve(failure('OBS_TIMEOUT', `OBS did not answer the ${requestType} request`));
+      }, this.options.timeout ?? DEFAULT_TIMEOUT);
+
+      this.pending.set(requestId, {
+        requestType,
+        settle: result => resolve(result as APIResult<T>),
+        timer
+      });
+
+      this.send(OBS_OP_CODES.REQUEST, { requestType, requestId, requestData });
+    });
+  }
+
+  /**
+   * Get OBS and obs-websocket versions
+   */
+  getVersion(): Promise<APIResult<ObsVersionInfo>> {
+    return this.call<ObsVersionInfo>('GetVersion');
+  }
+
+  /**
+   * List scene collections
+   */
+  getSceneCollections(): Promise<APIResult<ObsSceneCollectionList>> {
+    return this.call<ObsSceneCollectionList>('GetSceneCollectionList');
+  }
+
+  /**
+   * List scenes in the current scene collection
+   */
+  getScenes(): Promise<APIResult<ObsSceneList>> {
+    return this.call<ObsSceneList>('GetSceneList');
+  }
+
+  /**
+   * Show or hide a source in a scene
+   */
+  async setSourceEnabled(sceneName: string, sourceName: string, enabled: boolean): Promise<APIResult<boolean>> {
+    const item = await this.call<{ sceneItemId: number }>('GetSceneItemId', { sceneName, sourceName });
+    if (!item.success || !item.data) {
+      return failure(item.error?.code ?? 'OBS_REQUEST_FAILED', item.error?.message ?? `Source "${sourceName}" not found`);
+    }
+
+    const result = await this.call('SetSceneItemEnabled', {
+      sceneName,
+      sceneItemId: item.data.sceneItemId,
+      sceneItemEnabled: enabled
+    });
+
+    return result.success ? { success: true, data: true } : failure(result.error!.code, result.error!.message);
+  }
+
+  /**
+   * Run a profile's OBS actions: scene collection, then scene, then sources.
+   * Stops after a failed scene collection switch, since later steps refer to its scenes.
+   */
+  async runActions(actions: ObsProfileActions): Promise<APIResult<ObsActionsReport>> {
+    const steps: ObsActionStep[] = [];
+    const record = (description: string, result: APIResult<unknown>): boolean => {
+      steps.push({ description, success: result.success, error: result.error?.message });
+      return result.success;
+    };
+
+    if (actions.sceneCollection) {
+      const description = `Switch to scene collection "${actions.sceneCollection}"`;
+      const collections = await this.getSceneCollections();
+
+      // Switching to the active collection reloads it in OBS, so skip that
+      const switched = collections.success && collections.data?.currentSceneCollectionName === actions.sceneCollection
+        ? collections
+        : collections.success
+          ? await this.call('SetCurrentSceneCollection', { sceneCollectionName: actions.sceneCollection })
+          : collections;
+
+      if (!record(description, switched)) {
+        return this.report(steps);
+      }
+    }
+
+    if (actions.scene) {
+      record(
+        `Switch to scene "${actions.scene}"`,
+        await this.call('SetCurrentProgramScene', { sceneName: actions.scene })
+      );
+    }
+
+    for (const source of actions.sources ?? []) {
+      const sceneName = source.sceneName || actions.scene!;
+      record(
+        `${source.enabled ? 'Show' : 'Hide'} "${source.sourceName}" in "${sceneName}"`,
+        await this.setSourceEnabled(sceneName, source.sourceName, source.enabled)
+      );
+    }
+
+    return this.report(steps);
+  }
+
+  /**
+   * Summarise steps, failing if any step failed
+   */
+  private report(steps: ObsActionStep[]): APIResult<ObsActionsReport> {
+    const failed = steps.filter(step => !step.success);
+    if (failed.length === 0) {
+      return { success: true, data: { steps } };
+    }
+
+    return {
+      success: false,
+      data: { steps },
+      error: {
+        code: 'OBS_ACTIONS_FAILED',
+        message: failed.map(step => `${step.description}: ${step.error}`).join('; ')
+      }
+    };
+  }
+
+  /**
+   * Open the socket and complete the Hello / Identify handshake
+   */
+  private openSession(): Promise<APIResult<ObsConnectionInfo>> {
+    const WebSocketImpl = this.options.WebSocketImpl ?? WebSocket;
+
+    return new Promise(resolve => {
+      let settled = false;
+      let socket: WebSocket;
+
+      const finish = (result: APIResult<ObsConnectionInfo>) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        if (!result.success) {
+          this.logError('Connection failed', result.error);
+        }
+        resolve(result);
+      };
+
+      const timer = setTimeout(() => {
+        socket?.close();
+        finish(failure('OBS_TIMEOUT', `OBS at ${this.options.url} did not respond`));
+      }, this.options.timeout ?? DEFAULT_TIMEOUT);
+
+      try {
+        socket = new WebSocketImpl(this.options.url);
+      } catch (error) {
+        finish(failure('OBS_CONNECTION_FAILED', error instanceof Error ? error.message : 'Invalid OBS address'));
+        return;
+      }
+
+      this.socket = socket;
+      this.setStatus('connecting');
+
+      socket.onmessage = async (event: MessageEvent) => {
+        try {
+          const message = JSON.parse(String(event.data)) as ObsMessage;
+
+          switch (message.op) {
+            case OBS_OP_CODES.HELLO: {
+              const hello = message.d as ObsHello;
+              const identify: ObsIdentify = { rpcVersion: OBS_RPC_VERSION, eventSubscriptions: 0 };
+
+              if (hello.authentication) {
+                if (!this.options.password) {
+                  socket.close(1000);
+                  finish(failure('OBS_AUTH_REQUIRED', 'OBS requires a password. Enter it in Settings.'));
+                  return;
+                }
+                identify.authentication = await computeObsAuthentication(
+                  this.options.password,
+                  hello.authentication.salt,
+                  hello.authentication.challenge
+                );
+              }
+
+              this.connectionInfo = { obsWebSocketVersion: hello.obsWebSocketVersion, negotiatedRpcVersion: 0 };
+              this.send(OBS_OP_CODES.IDENTIFY, identify);
+              break;
+            }
+
+            case OBS_OP_CODES.IDENTIFIED: {
+              const { negotiatedRpcVersion } = message.d as { negotiatedRpcVersion: number };
+              this.connectionInfo = {
+                obsWebSocketVersion: this.connectionInfo?.obsWebSocketVersion ?? '',
+                negotiatedRpcVersion
+              };
+              this.setStatus('connected');
+              this.log('Connected', this.connectionInfo);
+              finish({ success: true, data: this.connectionInfo });
+              break;
+            }
+
+            case OBS_OP_CODES.REQUEST_RESPONSE:
+              this.handleResponse(message.d as ObsRequestResponse);
+              break;
+          }
+        } catch (error) {
+          finish(failure('OBS_PROTOCOL_ERROR', error instanceof Error ? error.message : 'Unexpected message from OBS'));
+        }
+      };
+
+      socket.onclose = (event: CloseEvent) => {
+        if (this.socket === socket) {
+          this.socket = null;
+          this.connectionInfo = null;
+          this.setStatus('disconnected');
+        }
+        this.failPending(`Connection to OBS closed${event.reason ? `: ${event.reason}` : ''}`);
+
+        if (event.code === OBS_CLOSE_CODES.AUTHENTICATION_FAILED) {
+          finish(failure('OBS_AUTH_FAILED', 'OBS rejected the password'));
+        } else if (event.code === OBS_CLOSE_CODES.UNSUPPORTED_RPC_VERSION) {
+          finish(failure('OBS_UNSUPPORTED', 'This version of obs-websocket is not supported (version 5 is required)'));
+        } else {
+          finish(failure(
+            'OBS_CONNECTION_FAILED',
+            `Couldn't connect to OBS at ${this.options.url}. Check that OBS is running with its WebSocket server enabled.`
+          ));
+        }
+      };
+
+      // The close event that follows carries the details
+      socket.onerror = () => {};
+    });
+  }
+
+  /**
+   * Settle the pending request a response belongs to
+   */
+  private handleResponse(response: ObsRequestResponse): void {
+    const request = this.pending.get(response.requestId);
+    if (!request) return;
+
+    clearTimeout(request.timer);
+    this.pending.delete(response.requestId);
+    this.log('Response', response);
+
+    if (response.requestStatus.result) {
+      request.settle({ success: true, data: response.responseData ?? {} });
+    } else {
+      request.settle(failure(
+        'OBS_REQUEST_FAILED',
+        response.requestStatus.comment || `${request.requestType} failed (code ${response.requestStatus.code})`,
+        response.requestStatus
+      ));
+    }
+  }
+
+  /**
+   * Fail every request still waiting for a response
+   */
+  private failPending(message: string): void {
+    this.pending.forEach(request => {
+      clearTimeout(request.timer);
+      request.settle(failure('OBS_DISCONNECTED', message));
+    });
+    this.pending.clear();
+  }
+
+  private send(op: number, d: unknown): void {
+    this.socket?.send(JSON.stringify({ op, d }));
+  }
+
+  private setStatus(status: ObsConnectionStatus): void {
+    if (this.status === status) return;
+    this.status = status;
+    this.listeners.forEach(listener => listener(status));
+  }
+
+  /**
+   * Log messages (respects debug settings)
+   */
+  private log(message: string, data?: unknown): void {
+    if (getPreference('debugLogging')) {
+      console.log(`[OBS] ${message}`, data || '');
+    }
+  }
+
+  /**
+   * Log errors
+   */
+  private logError(message: string, error: unknown): void {
+    console.error(`[OBS] ${message}:`, error);
+  }
+}
+
+// Singleton instance, recreated when the connection settings change
+let obsClientInstance: ObsWebSocketClient | null = null;
+
+/**
+ * Get the OBS client for the address and password in preferences
+ */
+export const getObsClient = (): ObsWebSocketClient => {
+  const url = getPreference('obsUrl');
+  const password = getPreference('obsPassword');
+
+  if (!obsClientInstance || obsClientInstance.url !== url || obsClientInstance.password !== password) {
+    obsClientInstance?.disconnect();
+    obsClientInstance = new ObsWebSocketClient({ url, password });
+  }
+  return obsClientInstance;
+};
+
+/**
+ * Disconnect and drop the OBS client (useful for testing)
+ */
+export const resetObsClient = (): void => {
+  obsClientInstance?.disconnect();
+  obsClientInstance = null;
+};
+
+/**
+ * Convenience functions for OBS operations
+ */
+
+/**
+ * Run a profile's OBS actions, if OBS is enabled and the profile has any
+ *
+ * @returns null when there was nothing to do
+ */
+export const applyProfileObsActions = async (profile: StreamProfile): Promise<APIResult<ObsActionsReport> | null> => {
+  if (!getPreference('obsEnabled') || !hasObsActions(profile.obsActions)) {
+    return null;
+  }
+  return getObsClient().runActions(profile.obsActions);
+};
+
+/**
+ * Check that OBS can be reached with the given settings
+ */
+export const testObsConnection = async (url: string, password: string): Promise<APIResult<ObsVersionInfo>> => {
+  const client = new ObsWebSocketClient({ url, password });
+  try {
+    return await client.getVersion();
+  } finally {
+    client.disconnect();
+  }
+};
@@ -7,7 +7,12 @@
 
 import { getTwitchAuth } from '@/lib/auth/twitchAuth';
 import { getCategoryRepository } from '@/repositories/CategoryRepository';
-import { processTitle } from '@/types/ProfileUtils';
+import { getProfileRepository } from '@/repositories/ProfileRepository';
+import { getHistoryRepository } from '@/repositories/HistoryRepository';
+import { processProfileTitle } from '@/types/ProfileUtils';
+import { toChannelSnapshot } from '@/lib/diff/channelDiff';
+import { sendableTags } from '@/lib/tags/twitchTags';
+import { getHelixClient, HelixError } from './helixClient';
 import type { 
   TwitchAPIHealthCheck,
   TwitchGameResponse,
@@ -15,12 +20,16 @@ import type {
   TwitchChannelResponse,
   TwitchChannelInfoResponse,
   UpdateChannelRequest,
-  TwitchAPIError,
   TwitchRateLimit,
-  CachedCategory
+  TwitchStreamResponse,
+  TwitchStreamsResponse
 } from '@/types/TwitchAPI';
-import type { StreamProfile } from '@/types/Profile';
-import { TWITCH_ENDPOINTS, TWITCH_CONFIG, API_CONFIG, FEATURE_FLAGS } from '@/types/constants';
+import type { StreamProfile, StreamCategory, ContentClassificationLabel } from '@/types/Profile';
+import type { ChannelSnapshot, ChannelField, CreateApplyHistoryInput } from '@/types/History';
+import type { CoStreamTarget, CoStreamApplyOptions, CoStreamChannelResult } from '@/types/CoStream';
+import { CONTENT_CLASSIFICATION_LABELS } from '@/types/Profile';
+import { TWITCH_ENDPOINTS, ERROR_CODES, VALIDATION_LIMITS } from '@/types/constants';
+import { getPreference } from '@/repositories/PreferencesRepository';
 
 /**
  * Result wrapper for API operations
@@ -31,11 +40,30 @@ export interface APIResult<T> {
   error?: {
     code: string;
     message: string;
+    /** HTTP status of the failed request, when Twitch answered */
+    status?: number;
     details?: any;
   };
   rateLimit?: TwitchRateLimit;
 }
 
+/**
+ * Options for applying a profile
+ */
+export interface ApplyProfileOptions {
+  /** Only send these fields; defaults to every field the profile sets */
+  fields?: ChannelField[];
+  /**
+   * Linked account whose channel to update. Defaults to the profile's owner
+   * while that account is linked, otherwise the selected account.
+   */
+  accountId?: string;
+  /** Other channels in a co-stream apply, for {partner} */
+  partners?: string[];
+  /** Advance {episode}/{counter:NAME} after a successful apply (defaults to true) */
+  advanceCounters?: boolean;
+}
+
 /**
  * Stream update request based on profile
  */
@@ -51,8 +79,15 @@ export interface StreamUpdateRequest {
 export class TwitchAPIClient {
   private static instance: TwitchAPIClient | null = null;
   private auth = getTwitchAuth();
+  private helix = getHelixClient();
   private categoryRepo = getCategoryRepository();
 
+  /** Most result pages read for one category search */
+  private readonly maxSearchPages = 5;
+
+  /** Most IDs Helix accepts in one /games request */
+  private readonly maxIdsPerLookup = 100;
+
   private constructor() {}
 
   /**
@@ -66,17 +101,16 @@ export class TwitchAPIClient {
   }
 
   /**
-   * Apply a stream profile to update channel information
+   * Apply a stream profile to update channel information.
+   * Every attempt is recorded in the apply history along with the
+   * channel state read just before the update.
    */
-  async applyProfile(profile: StreamProfile): Promise<APIResult<boolean>> {
+  async applyProfile(profile: StreamProfile, options: ApplyProfileOptions = {}): Promise<APIResult<boolean>> {
     try {
-      // Get authenticated user and token
-      const [user, token] = await Promise.all([
-        this.auth.getCurrentUser(),
-        this.auth.getValidToken()
-      ]);
+      // The token names the broadcaster it belongs to
+      const token = await this.auth.getValidToken(await this.resolveAccountId(profile, options));
 
-      if (!user || !token) {
+      if (!token) {
         return {
           success: false,
           error: {
@@ -87,87 +121,261 @@ export class TwitchAPIClient {
       }
 
       // Process dynamic title templates
-      const processedTitle = processTitle(profile.title);
+      const processedTitle = processProfileTitle(profile, { partners: options.partners });
+
+      // Variables, counters and conditionals can take a short template past Twitch's limit
+      const sendsTitle = !options.fields || options.fields.includes('title');
+      if (sendsTitle && processedTitle.processed.length > VALIDATION_LIMITS.STREAM_TITLE_MAX) {
+        return {
+          success: false,
+          error: {
+            code: ERROR_CODES.VALIDATION_ERROR,
+            message: `The title is ${processedTitle.processed.length} characters once filled in; Twitch allows ${VALIDATION_LIMITS.STREAM_TITLE_MAX}`
+          }
+        };
+      }
 
       // Prepare update request
-      const updateRequest: UpdateChannelRequest = {
-        game_id: profile.category.id,
-        title: processedTitle.processed,
-        tags: profile.tags.slice(0, 10) // Ensure max 10 tags
-      };
+      const updateRequest = this.buildUpdateRequest(profile, processedTitle.processed, options.fields);
+
+      if (Object.keys(updateRequest).length === 0) {
+        return {
+          success: false,
+          error: {
+            code: 'NO_FIELDS_SELECTED',
+            message: 'Select at least one field to apply'
+          }
+        };
+      }
+
+      // Capture the current channel state so this apply can be reverted
+      const previousState = await this.captureChannelSnapshot(token.userId);
 
       this.log('Applying profile to Twitch', { 
         profileName: profile.name,
-        userId: user.id,
+        userId: token.userId,
         updateRequest 
       });
 
-      // Make API request to update channel
-      const response = await fetch(
-        `${TWITCH_ENDPOINTS.API_BASE}${TWITCH_ENDPOINTS.CHANNELS}?broadcaster_id=${user.id}`,
-        {
-          method: 'PATCH',
-          headers: {
-            'Authorization': `Bearer ${token.access_token}`,
-            'Client-Id': TWITCH_CONFIG.CLIENT_ID,
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify(updateRequest),
-          signal: AbortSignal.timeout(API_CONFIG.TIMEOUT)
+      const result = await this.patchChannel(token.userId, token.access_token, updateRequest);
+
+      await this.recordHistory({
+        action: 'apply',
+        accountId: token.userId,
+        profileId: profile.id,
+        profileName: profile.name,
+        category: updateRequest.game_id !== undefined ? profile.category : previousState?.category ?? profile.category,
+        title: updateRequest.title ?? previousState?.title ?? processedTitle.processed,
+        tags: updateRequest.tags ?? previousState?.tags ?? [],
+        request: updateRequest,
+        fields: options.fields,
+        previousState,
+        success: result.success,
+        error: result.error ? { code: result.error.code, message: result.error.message } : undefined,
+        rateLimit: result.rateLimit
+      });
+
+      if (!result.success) {
+        return result;
+      }
+
+      this.log('Stream updated successfully', { profileName: profile.name });
+
+      // Advance {episode}/{counter:NAME} for the next apply
+      if (options.advanceCounters !== false && updateRequest.title !== undefined && processedTitle.counters.length > 0) {
+        const counterResult = await getProfileRepository().incrementCounters(profile.id, processedTitle.counters);
+        if (!counterResult.success) {
+          this.logError('Error advancing title counters', counterResult.error);
+        }
+      }
+
+      return result;
+
+    } catch (error) {
+      this.logError('Error applying profile', error);
+
+      return {
+        success: false,
+        error: {
+          code: 'NETWORK_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to update stream information'
         }
-      );
+      };
+    }
+  }
 
-      const rateLimit = this.extractRateLimit(response);
+  /**
+   * Apply a profile to several channels at once, for co-streams.
+   * Channels are updated concurrently (the Helix client paces the requests)
+   * and one failing doesn't stop the others. Counters advance once for the
+   * whole batch, so every channel shows the same episode.
+   */
+  async applyProfileToChannels(
+    profile: StreamProfile,
+    targets: CoStreamTarget[],
+    options: CoStreamApplyOptions = {}
+  ): Promise<CoStreamChannelResult[]> {
+    const linkedIds = new Set((await this.auth.getAccounts()).map(account => account.id));
+    const selected = options.broadcasterIds
+      ? targets.filter(target => options.broadcasterIds!.includes(target.broadcasterId))
+      : targets;
+    const counters = new Set<string>();
+
+    const results = await Promise.all(selected.map(async (target): Promise<CoStreamChannelResult> => {
+      const partners = targets
+        .filter(other => other.broadcasterId !== target.broadcasterId)
+        .map(other => other.name);
+      const channelProfile: StreamProfile = {
+        ...profile,
+        title: target.title?.trim() || profile.title,
+        variables: { ...profile.variables, ...target.variables }
+      };
+      const processedTitle = processProfileTitle(channelProfile, { partners });
+      const outcome = { broadcasterId: target.broadcasterId, name: target.name, title: processedTitle.processed };
 
-      if (!response.ok) {
-        const errorData = await this.handleAPIError(response);
+      // Twitch only lets a broadcaster's own token change their channel
+      if (!linkedIds.has(target.broadcasterId)) {
         return {
+          ...outcome,
           success: false,
-          error: {
-            code: errorData.error || 'API_ERROR',
-            message: errorData.message || `Failed to update stream: ${response.status}`,
-            details: errorData
-          },
-          rateLimit
+          error: { code: ERROR_CODES.AUTH_FAILED, message: 'Link this account to update its channel' }
         };
       }
 
-      this.log('Stream updated successfully', { profileName: profile.name });
+      const result = await this.applyProfile(channelProfile, {
+        fields: options.fields,
+        accountId: target.broadcasterId,
+        partners,
+        advanceCounters: false
+      });
+      if (result.success) {
+        processedTitle.counters.forEach(counter => counters.add(counter));
+      }
 
       return {
-        success: true,
-        data: true,
-        rateLimit
+        ...outcome,
+        success: result.success,
+        error: result.error ? { code: result.error.code, message: result.error.message } : undefined
       };
+    }));
 
-    } catch (error) {
-      this.logError('Error applying profile', error);
-      
-      if (error instanceof Error && error.name === 'AbortError') {
+    const titleSent = !options.fields || options.fields.includes('title');
+    if (options.advanceCounters !== false && titleSent && counters.size > 0) {
+      const counterResult = await getProfileRepository().incrementCounters(profile.id, [...counters]);
+      if (!counterResult.success) {
+        this.logError('Error advancing title counters', counterResult.error);
+      }
+    }
+
+    this.log('Co-stream apply finished', {
+      profileName: profile.name,
+      succeeded: results.filter(result => result.success).length,
+      failed: results.filter(result => !result.success).length
+    });
+
+    return results;
+  }
+
+  /**
+   * Restore the channel state captured before a recorded apply.
+   * The revert is itself recorded, so it can be undone the same way.
+   */
+  async revertHistoryEntry(entryId: string): Promise<APIResult<boolean>> {
+    try {
+      const historyRepo = getHistoryRepository();
+      const entryResult = await historyRepo.getById(entryId);
+
+      if (!entryResult.success || !entryResult.data) {
+        return {
+          success: false,
+          error: {
+            code: entryResult.error?.code || 'HISTORY_ENTRY_NOT_FOUND',
+            message: entryResult.error?.message || 'History entry not found'
+          }
+        };
+      }
+
+      const entry = entryResult.data;
+      if (!entry.previousState) {
+        return {
+          success: false,
+          error: {
+            code: 'NO_PREVIOUS_STATE',
+            message: 'The channel state before this change was not captured, so it cannot be reverted'
+          }
+        };
+      }
+
+      // Revert on the channel that was changed (the selected one for older entries)
+      const token = await this.auth.getValidToken(entry.accountId);
+
+      if (!token) {
         return {
           success: false,
           error: {
-            code: 'TIMEOUT',
-            message: 'Request timed out. Please check your connection and try again.'
+            code: 'AUTH_REQUIRED',
+            message: 'Authentication required to update stream information'
           }
         };
       }
 
+      const updateRequest = this.buildRestoreRequest(entry.previousState);
+      const currentState = await this.captureChannelSnapshot(token.userId);
+
+      this.log('Reverting channel update', { entryId, updateRequest });
+
+      const result = await this.patchChannel(token.userId, token.access_token, updateRequest);
+
+      await this.recordHistory({
+        action: 'revert',
+        accountId: token.userId,
+        revertOf: entry.id,
+        profileName: entry.profileName,
+        category: entry.previousState.category,
+        title: entry.previousState.title,
+        tags: entry.previousState.tags,
+        request: updateRequest,
+        previousState: currentState,
+        success: result.success,
+        error: result.error ? { code: result.error.code, message: result.error.message } : undefined,
+        rateLimit: result.rateLimit
+      });
+
+      if (result.success) {
+        const markResult = await historyRepo.markReverted(entry.id);
+        if (!markResult.success) {
+          this.logError('Error marking history entry as reverted', markResult.error);
+        }
+      }
+
+      return result;
+
+    } catch (error) {
+      this.logError('Error reverting channel update', error);
+
       return {
         success: false,
         error: {
           code: 'NETWORK_ERROR',
-          message: error instanceof Error ? error.message : 'Failed to update stream information'
+          message: error instanceof Error ? error.message : 'Failed to revert stream information'
         }
       };
     }
   }
 
   /**
-   * Search for Twitch categories/games
+   * Search for Twitch categories/games by partial name, following the
+   * pagination cursor until `limit` results are in
    */
   async searchCategories(query: string, limit: number = 20): Promise<APIResult<TwitchGameResponse[]>> {
     try {
+      if (!query.trim()) {
+        return {
+          success: true,
+          data: []
+        };
+      }
+
       // First check cached categories for offline results
       const cachedResults = await this.searchCachedCategories(query, limit);
       
@@ -185,51 +393,24 @@ export class TwitchAPIClient {
         };
       }
 
-      // Search live API
-      const encodedQuery = encodeURIComponent(query.trim());
-      const url = `${TWITCH_ENDPOINTS.API_BASE}${TWITCH_ENDPOINTS.GAMES}?name=${encodedQuery}`;
-
       this.log('Searching categories', { query, limit });
 
-      const response = await fetch(url, {
-        headers: {
-          'Authorization': `Bearer ${token.access_token}`,
-          'Client-Id': TWITCH_CONFIG.CLIENT_ID
-        },
-        signal: AbortSignal.timeout(API_CONFIG.TIMEOUT)
-      });
-
-      const rateLimit = this.extractRateLimit(response);
-
-      if (!response.ok) {
-        const errorData = await this.handleAPIError(response);
-        
-        // Fallback to cached results on API error
-        if (cachedResults.length > 0) {
-          this.log('API search failed, returning cached results', { query, count: cachedResults.length });
-          return {
-            success: true,
-            data: cachedResults.map(cat => ({
-              id: cat.id,
-              name: cat.name,
-              box_art_url: cat.boxArtUrl || '',
-              igdb_id: ''
-            }))
-          };
-        }
+      const results: TwitchGameResponse[] = [];
+      let cursor: string | undefined;
+      let rateLimit: TwitchRateLimit | undefined;
+      let pages = 0;
 
-        return {
-          success: false,
-          error: {
-            code: errorData.error || 'SEARCH_ERROR',
-            message: errorData.message || 'Failed to search categories'
-          },
-          rateLimit
-        };
-      }
+      do {
+        const response = await this.helix.get<TwitchGamesSearchResponse>(TWITCH_ENDPOINTS.SEARCH_CATEGORIES, {
+          token: token.access_token,
+          query: { query: query.trim(), first: Math.min(limit - results.length, 100), after: cursor }
+        });
 
-      const searchData: TwitchGamesSearchResponse = await response.json();
-      const results = searchData.data || [];
+        results.push(...(response.data?.data || []));
+        cursor = response.data?.pagination?.cursor;
+        rateLimit = response.rateLimit;
+        pages++;
+      } while (cursor && results.length < limit && pages < this.maxSearchPages);
 
       // Cache successful results
       await this.cacheSearchResults(results);
@@ -248,6 +429,7 @@ export class TwitchAPIClient {
       // Try to return cached results on error
       const cachedResults = await this.searchCachedCategories(query, limit);
       if (cachedResults.length > 0) {
+        this.log('API search failed, returning cached results', { query, count: cachedResults.length });
         return {
           success: true,
           data: cachedResults.map(cat => ({
@@ -259,63 +441,78 @@ export class TwitchAPIClient {
         };
       }
 
-      return {
-        success: false,
-        error: {
-          code: 'NETWORK_ERROR',
-          message: error instanceof Error ? error.message : 'Failed to search categories'
-        }
-      };
+      return this.failure(error, 'Failed to search categories');
     }
   }
 
   /**
-   * Get current channel information
+   * Look categories up by ID, 100 per request. IDs Twitch no longer knows
+   * are simply left out of the result.
    */
-  async getCurrentChannelInfo(): Promise<APIResult<TwitchChannelResponse>> {
+  async getCategoriesByIds(ids: string[]): Promise<APIResult<TwitchGameResponse[]>> {
     try {
-      const [user, token] = await Promise.all([
-        this.auth.getCurrentUser(),
-        this.auth.getValidToken()
-      ]);
-
-      if (!user || !token) {
+      const token = await this.auth.getValidToken();
+      if (!token) {
         return {
           success: false,
           error: {
             code: 'AUTH_REQUIRED',
-            message: 'Authentication required to get channel information'
+            message: 'Authentication required to look up categories'
           }
         };
       }
 
-      const url = `${TWITCH_ENDPOINTS.API_BASE}${TWITCH_ENDPOINTS.CHANNELS}?broadcaster_id=${user.id}`;
+      const uniqueIds = [...new Set(ids)];
+      const results: TwitchGameResponse[] = [];
+      let rateLimit: TwitchRateLimit | undefined;
 
-      const response = await fetch(url, {
-        headers: {
-          'Authorization': `Bearer ${token.access_token}`,
-          'Client-Id': TWITCH_CONFIG.CLIENT_ID
-        },
-        signal: AbortSignal.timeout(API_CONFIG.TIMEOUT)
-      });
+      for (let start = 0; start < uniqueIds.length; start += this.maxIdsPerLookup) {
+        const response = await this.helix.get<TwitchGamesSearchResponse>(TWITCH_ENDPOINTS.GAMES, {
+          token: token.access_token,
+          query: { id: uniqueIds.slice(start, start + this.maxIdsPerLookup) }
+        });
+        results.push(...(response.data?.data || []));
+        rateLimit = response.rateLimit;
+      }
+
+      this.log('Category lookup completed', { requested: uniqueIds.length, found: results.length });
+
+      return {
+        success: true,
+        data: results,
+        rateLimit
+      };
+    } catch (error) {
+      this.logError('Error looking up categories', error);
+      return this.failure(error, 'Failed to look up categories');
+    }
+  }
 
-      const rateLimit = this.extractRateLimit(response);
+  /**
+   * Get current channel information
+   *
+   * @param accountId - Linked account whose channel to read (defaults to the selected account)
+   */
+  async getCurrentChannelInfo(accountId?: string): Promise<APIResult<TwitchChannelResponse>> {
+    try {
+      const token = await this.auth.getValidToken(accountId);
 
-      if (!response.ok) {
-        const errorData = await this.handleAPIError(response);
+      if (!token) {
         return {
           success: false,
           error: {
-            code: errorData.error || 'API_ERROR',
-            message: errorData.message || 'Failed to get channel information'
-          },
-          rateLimit
+            code: 'AUTH_REQUIRED',
+            message: 'Authentication required to get channel information'
+          }
         };
       }
 
-      const channelData: TwitchChannelInfoResponse = await response.json();
-      
-      if (!channelData.data || channelData.data.length === 0) {
+      const { data: channelData, rateLimit } = await this.helix.get<TwitchChannelInfoResponse>(TWITCH_ENDPOINTS.CHANNELS, {
+        token: token.access_token,
+        query: { broadcaster_id: token.userId }
+      });
+
+      if (!channelData?.data || channelData.data.length === 0) {
         return {
           success: false,
           error: {
@@ -333,13 +530,47 @@ export class TwitchAPIClient {
 
     } catch (error) {
       this.logError('Error getting channel info', error);
+      return this.failure(error, 'Failed to get channel information');
+    }
+  }
+
+  /**
+   * Get the authenticated user's live stream
+   *
+   * @returns The stream, or null when the channel is offline
+   */
+  async getStreamStatus(): Promise<APIResult<TwitchStreamResponse | null>> {
+    try {
+      const [user, token] = await Promise.all([
+        this.auth.getCurrentUser(),
+        this.auth.getValidToken()
+      ]);
+
+      if (!user || !token) {
+        return {
+          success: false,
+          error: {
+            code: 'AUTH_REQUIRED',
+            message: 'Authentication required to check stream status'
+          }
+        };
+      }
+
+      const { data: streamData, rateLimit } = await this.helix.get<TwitchStreamsResponse>(TWITCH_ENDPOINTS.STREAMS, {
+        token: token.access_token,
+        query: { user_id: user.id }
+      });
+      const stream = streamData?.data?.find(candidate => candidate.type === 'live');
+
       return {
-        success: false,
-        error: {
-          code: 'NETWORK_ERROR',
-          message: error instanceof Error ? error.message : 'Failed to get channel information'
-        }
+        success: true,
+        data: stream ?? null,
+        rateLimit
       };
+
+    } catch (error) {
+      this.logError('Error checking stream status', error);
+      return this.failure(error, 'Failed to check stream status');
     }
   }
 
@@ -364,41 +595,28 @@ export class TwitchAPIClient {
         };
       }
 
-      // Perform authenticated health check using games endpoint
-      const response = await fetch(
-        `${TWITCH_ENDPOINTS.API_BASE}${TWITCH_ENDPOINTS.GAMES}?name=Just%20Chatting`,
-        {
-          headers: {
-            'Authorization': `Bearer ${token.access_token}`,
-            'Client-Id': TWITCH_CONFIG.CLIENT_ID
-          },
-          signal: AbortSignal.timeout(5000) // 5 second timeout for health check
-        }
-      );
+      // Perform authenticated health check using games endpoint, once, with a short timeout
+      await this.helix.get(TWITCH_ENDPOINTS.GAMES, {
+        token: token.access_token,
+        query: { name: 'Just Chatting' },
+        timeout: 5000,
+        retries: 0
+      });
 
       const responseTime = Date.now() - startTime;
+      this.log('API health check passed', { responseTime });
 
-      if (response.ok) {
-        this.log('API health check passed', { responseTime });
-        return {
-          isAvailable: true,
-          responseTime,
-          checkedAt: new Date()
-        };
-      } else {
-        const error = `API returned ${response.status}: ${response.statusText}`;
-        this.logError('API health check failed', error);
-        return {
-          isAvailable: false,
-          responseTime,
-          error,
-          checkedAt: new Date()
-        };
-      }
+      return {
+        isAvailable: true,
+        responseTime,
+        checkedAt: new Date()
+      };
 
     } catch (error) {
       const responseTime = Date.now() - startTime;
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const errorMessage = error instanceof HelixError && error.status !== undefined
+        ? `API returned ${error.status}: ${error.message}`
+        : error instanceof Error ? error.message : 'Unknown error';
 
       this.logError('API health check error', error);
 
@@ -411,10 +629,151 @@ export class TwitchAPIClient {
     }
   }
 
+  /**
+   * Build the PATCH payload for a profile.
+   * Optional channel fields are only sent when the profile sets them,
+   * so an unset field leaves the current channel value untouched.
+   * When `fields` is given, everything else is left out as well.
+   */
+  private buildUpdateRequest(profile: StreamProfile, title: string, fields?: ChannelField[]): UpdateChannelRequest {
+    const includes = (field: ChannelField) => !fields || fields.includes(field);
+    const updateRequest: UpdateChannelRequest = {};
+
+    if (includes('category')) {
+      updateRequest.game_id = profile.category.id;
+    }
+
+    if (includes('title')) {
+      updateRequest.title = title;
+    }
+
+    if (includes('tags')) {
+      updateRequest.tags = sendableTags(profile.tags);
+    }
+
+    if (includes('language') && profile.language !== undefined) {
+      updateRequest.broadcaster_language = profile.language;
+    }
+
+    if (includes('contentClassificationLabels') && profile.contentClassificationLabels !== undefined) {
+      // Send every settable label so labels missing from the profile are switched off
+      const enabled = new Set(profile.contentClassificationLabels);
+      updateRequest.content_classification_labels = Object.keys(CONTENT_CLASSIFICATION_LABELS).map(id => ({
+        id,
+        is_enabled: enabled.has(id as ContentClassificationLabel)
+      }));
+    }
+
+    if (includes('isBrandedContent') && profile.isBrandedContent !== undefined) {
+      updateRequest.is_branded_content = profile.isBrandedContent;
+    }
+
+    return updateRequest;
+  }
+
+  /**
+   * Build a PATCH payload that restores a captured channel state
+   */
+  private buildRestoreRequest(snapshot: ChannelSnapshot): UpdateChannelRequest {
+    const enabled = new Set(snapshot.contentClassificationLabels);
+
+    return {
+      game_id: snapshot.category.id,
+      title: snapshot.title,
+      tags: snapshot.tags.slice(0, 10),
+      broadcaster_language: snapshot.language,
+      // Only user-settable labels can be sent; others (e.g. MatureGame) are managed by Twitch
+      content_classification_labels: Object.keys(CONTENT_CLASSIFICATION_LABELS).map(id => ({
+        id,
+        is_enabled: enabled.has(id)
+      })),
+      is_branded_content: snapshot.isBrandedContent
+    };
+  }
+
+  /**
+   * Send a channel update and normalise the outcome
+   */
+  private async patchChannel(
+    broadcasterId: string,
+    accessToken: string,
+    updateRequest: UpdateChannelRequest
+  ): Promise<APIResult<boolean>> {
+    try {
+      const { rateLimit } = await this.helix.patch(TWITCH_ENDPOINTS.CHANNELS, updateRequest, {
+        token: accessToken,
+        query: { broadcaster_id: broadcasterId }
+      });
+
+      return {
+        success: true,
+        data: true,
+        rateLimit
+      };
+
+    } catch (error) {
+      this.logError('Error updating channel', error);
+      return this.failure(error, 'Failed to update stream information');
+    }
+  }
+
+  /**
+   * Account an apply made now would go to, pinned down so it still goes
+   * there later (e.g. when queued): the one asked for, else the profile's
+   * owner while it is linked, else the selected account.
+   * Undefined when no account is linked.
+   */
+  async getApplyAccountId(profile: StreamProfile, accountId?: string): Promise<string | undefined> {
+    return await this.resolveAccountId(profile, { accountId }) ?? await this.auth.getActiveAccountId() ?? undefined;
+  }
+
+  /**
+   * Account an apply goes to: the one asked for, else the profile's owner
+   * while it is linked, else (undefined) the selected account
+   */
+  private async resolveAccountId(profile: StreamProfile, options: ApplyProfileOptions): Promise<string | undefined> {
+    if (options.accountId) {
+      return options.accountId;
+    }
+    if (profile.ownerId) {
+      const accounts = await this.auth.getAccounts();
+      if (accounts.some(account => account.id === profile.ownerId)) {
+        return profile.ownerId;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Read the current channel state for the apply history.
+   * Returns undefined when it can't be read, which only disables revert.
+   */
+  private async captureChannelSnapshot(accountId: string): Promise<ChannelSnapshot | undefined> {
+    const result = await this.getCurrentChannelInfo(accountId);
+
+    if (!result.success || !result.data) {
+      this.logError('Could not capture channel state before update', result.error);
+      return undefined;
+    }
+
+    return toChannelSnapshot(result.data);
+  }
+
+  /**
+   * Record a channel update in the apply history
+   */
+  private async recordHistory(input: CreateApplyHistoryInput): Promise<void> {
+    const result = await getHistoryRepository().record(input);
+    if (!result.success) {
+      // Don't fail the update - history is best effort
+      this.logError('Error recording apply history', result.error);
+    }
+  }
+
   /**
    * Search cached categories for offline functionality
    */
-  private async searchCachedCategories(query: string, limit: number): Promise<CachedCategory[]> {
+  private async searchCachedCategories(query: string, limit: number): Promise<StreamCategory[]> {
     try {
       const result = await this.categoryRepo.searchCached(query, limit);
       return result.success && result.data ? result.data : [];
@@ -429,13 +788,11 @@ export class TwitchAPIClient {
    */
   private async cacheSearchResults(results: TwitchGameResponse[]): Promise<void> {
     try {
-      for (const game of results) {
-        await this.categoryRepo.cache({
-          id: game.id,
-          name: game.name,
-          boxArtUrl: game.box_art_url
-        });
-      }
+      await this.categoryRepo.cacheCategories(results.map(game => ({
+        id: game.id,
+        name: game.name,
+        boxArtUrl: game.box_art_url
+      })));
     } catch (error) {
       this.logError('Error caching search results', error);
       // Don't throw - caching failure shouldn't break the search
@@ -443,49 +800,36 @@ export class TwitchAPIClient {
   }
 
   /**
-   * Extract rate limit information from response headers
+   * Failed result for an error thrown while talking to Twitch
    */
-  private extractRateLimit(response: Response): TwitchRateLimit | undefined {
-    const limit = response.headers.get('ratelimit-limit');
-    const remaining = response.headers.get('ratelimit-remaining');
-    const reset = response.headers.get('ratelimit-reset');
-
-    if (limit && remaining && reset) {
+  private failure<T>(error: unknown, fallbackMessage: string): APIResult<T> {
+    if (error instanceof HelixError) {
       return {
-        limit: parseInt(limit, 10),
-        remaining: parseInt(remaining, 10),
-        reset: parseInt(reset, 10)
+        success: false,
+        error: {
+          code: error.code,
+          message: error.message || fallbackMessage,
+          status: error.status,
+          details: error.details
+        },
+        rateLimit: error.rateLimit
       };
     }
 
-    return undefined;
-  }
-
-  /**
-   * Handle API error responses
-   */
-  private async handleAPIError(response: Response): Promise<TwitchAPIError> {
-    try {
-      const errorData = await response.json() as TwitchAPIError;
-      return {
-        error: errorData.error || 'unknown_error',
-        status: response.status,
-        message: errorData.message || response.statusText
-      };
-    } catch {
-      return {
-        error: 'parse_error',
-        status: response.status,
-        message: `HTTP ${response.status}: ${response.statusText}`
-      };
-    }
+    return {
+      success: false,
+      error: {
+        code: ERROR_CODES.NETWORK_ERROR,
+        message: error instanceof Error ? error.message : fallbackMessage
+      }
+    };
   }
 
   /**
    * Log messages (respects debug settings)
    */
   private log(message: string, data?: any): void {
-    if (FEATURE_FLAGS.DEBUG_LOGGING) {
+    if (getPreference('debugLogging')) {
       console.log(`[TwitchAPI] ${message}`, data || '');
     }
   }
@@ -510,8 +854,14 @@ export const getTwitchAPI = (): TwitchAPIClient => TwitchAPIClient.getInstance()
 /**
  * Apply a stream profile
  */
-export const applyStreamProfile = (profile: StreamProfile): Promise<APIResult<boolean>> => 
-  getTwitchAPI().applyProfile(profile);
+export const applyStreamProfile = (profile: StreamProfile, options?: ApplyProfileOptions): Promise<APIResult<boolean>> => 
+  getTwitchAPI().applyProfile(profile, options);
+
+/**
+ * Revert a recorded channel update
+ */
+export const revertChannelUpdate = (entryId: string): Promise<APIResult<boolean>> =>
+  getTwitchAPI().revertHistoryEntry(entryId);
 
 /**
  * Search for categories
@@ -525,6 +875,12 @@ export const searchStreamCategories = (query: string, limit?: number): Promise<A
 export const getCurrentChannel = (): Promise<APIResult<TwitchChannelResponse>> => 
   getTwitchAPI().getCurrentChannelInfo();
 
+/**
+ * Get the live stream, or null when offline
+ */
+export const getLiveStream = (): Promise<APIResult<TwitchStreamResponse | null>> =>
+  getTwitchAPI().getStreamStatus();
+
 /**
  * Check API health
  */
@@ -536,6 +892,7 @@ export const checkTwitchAPIHealth = (): Promise<TwitchAPIHealthCheck> =>
  */
 export const isRateLimitError = (error: any): boolean => {
   return error?.code === 'rate_limit_exceeded' || 
+         error?.code === ERROR_CODES.RATE_LIMITED ||
          error?.status === 429;
 };
 
@@ -543,7 +900,10 @@ export const isRateLimitError = (error: any): boolean => {
  * Utility function to check if error requires re-authentication
  */
 export const isAuthError = (error: any): boolean => {
-  return error?.code === 'AUTH_REQUIRED' || 
+  return error?.code === 'AUTH_REQUIRED' ||
+         error?.code === ERROR_CODES.AUTH_FAILED ||
+         error?.code === ERROR_CODES.TOKEN_EXPIRED ||
+         error?.code === ERROR_CODES.INSUFFICIENT_SCOPES ||
          error?.status === 401 || 
          error?.status === 403;
 };
@@ -552,6 +912,6 @@ export const isAuthError = (error: any): boolean => {
  * Utility function to check if error is network related
  */
 export const isNetworkError = (error: any): boolean => {
-  return error?.code === 'NETWORK_ERROR' || 
-         error?.code === 'TIMEOUT';
+  return error?.code === ERROR_CODES.NETWORK_ERROR ||
+         error?.code === ERROR_CODES.TIMEOUT_ERROR;
 };
\ No newline at end of file
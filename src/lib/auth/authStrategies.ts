@@ -0,0 +1,272 @@
+/**
+ * Twitch Sign-in Strategies
+ *
+ * The implicit grant returns an access token straight to the browser and
+ * can't be refreshed. The authorization code flow with PKCE returns a code
+ * that a token exchange server (a small self-hosted proxy holding the client
+ * secret) trades for an access and refresh token, so sessions can outlive a
+ * single token.
+ *
+ * A token exchange server accepts form-encoded POSTs with the standard OAuth
+ * parameters (grant_type authorization_code or refresh_token, client_id,
+ * code, code_verifier, redirect_uri, refresh_token) and answers with Twitch's
+ * token response.
+ */
+
+import { TWITCH_CONFIG } from '@/types/constants';
+import { getPreference } from '@/repositories/PreferencesRepository';
+import type {
+  AuthStrategyName,
+  OAuthState,
+  StoredAuthToken,
+  TwitchAuthToken
+} from '@/types/TwitchAPI';
+
+/**
+ * Where to send the user, and what to keep until they come back
+ */
+export interface AuthorizationRequest {
+  url: string;
+  /** PKCE code verifier to store with the OAuth state */
+  codeVerifier?: string;
+}
+
+/**
+ * Choices for a single sign-in
+ */
+export interface AuthorizationOptions {
+  /** Have Twitch ask which account to use even when already signed in there (for linking another account) */
+  forceVerify?: boolean;
+}
+
+/**
+ * A way of obtaining Twitch tokens
+ */
+export interface AuthStrategy {
+  readonly name: AuthStrategyName;
+  /** Whether the strategy's tokens come with refresh tokens */
+  readonly canRefresh: boolean;
+  /** Build the Twitch authorization URL */
+  createAuthorizationRequest(state: string, redirectUri: string, options?: AuthorizationOptions): Promise<AuthorizationRequest>;
+  /** Turn callback parameters into a token; the state has already been checked */
+  completeAuthorization(params: URLSearchParams, oauthState: OAuthState): Promise<TwitchAuthToken>;
+  /** Trade a refresh token for a new token */
+  refreshToken(token: StoredAuthToken): Promise<TwitchAuthToken>;
+}
+
+/**
+ * Raised when the token exchange server fails or turns a request down.
+ * status is missing for network errors.
+ */
+export class TokenExchangeError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'TokenExchangeError';
+  }
+
+  /** The grant itself was refused (expired or revoked), so retrying won't help */
+  get isRejected(): boolean {
+    return this.status === 400 || this.status === 401;
+  }
+}
+
+/**
+ * Read the parameters Twitch sent back, from the query (code flow) and the
+ * fragment (implicit grant)
+ */
+export function readCallbackParams(url: string | URL): URLSearchParams {
+  const urlObj = typeof url === 'string' ? new URL(url) : url;
+  const params = new URLSearchParams(urlObj.search);
+  new URLSearchParams(urlObj.hash.substring(1)).forEach((value, key) => params.set(key, value));
+  return params;
+}
+
+/**
+ * Scope from a token response; Twitch sends an array, the implicit grant a string
+ */
+const parseScope = (scope: unknown): string[] => {
+  if (Array.isArray(scope)) return scope.map(String);
+  if (typeof scope === 'string' && scope.length > 0) return scope.split(' ');
+  return [...TWITCH_CONFIG.REQUIRED_SCOPES];
+};
+
+/**
+ * Base64url without padding
+ */
+const base64Url = (bytes: Uint8Array): string =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const VERIFIER_CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-._~';
+
+/**
+ * Random PKCE code verifier (RFC 7636: 43-128 unreserved characters)
+ */
+export function createCodeVerifier(length = 64): string {
+  const bytes = new Uint8Array(length);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => VERIFIER_CHARACTERS[byte % VERIFIER_CHARACTERS.length]).join('');
+}
+
+/**
+ * S256 code challenge for a verifier
+ */
+export async function createCodeChallenge(verifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return base64Url(new Uint8Array(digest));
+}
+
+/**
+ * Implicit grant: the access token arrives in the callback URL fragment
+ */
+export class ImplicitGrantStrategy implements AuthStrategy {
+  readonly name = 'implicit';
+  readonly canRefresh = false;
+
+  async createAuthorizationRequest(state: string, redirectUri: string, options: AuthorizationOptions = {}): Promise<AuthorizationRequest> {
+    const params = new URLSearchParams({
+      client_id: TWITCH_CONFIG.CLIENT_ID,
+      redirect_uri: redirectUri,
+      response_type: TWITCH_CONFIG.RESPONSE_TYPE,
+      scope: TWITCH_CONFIG.REQUIRED_SCOPES.join(' '),
+      state
+    });
+    if (options.forceVerify) {
+      params.set('force_verify', 'true');
+    }
+
+    return { url: `${TWITCH_CONFIG.AUTH_URL}?${params.toString()}` };
+  }
+
+  async completeAuthorization(params: URLSearchParams): Promise<TwitchAuthToken> {
+    const accessToken = params.get('access_token');
+    if (!accessToken) {
+      throw new Error('Missing access token');
+    }
+
+    const expiresIn = params.get('expires_in');
+    return {
+      access_token: accessToken,
+      token_type: params.get('token_type') || 'bearer',
+      expires_in: expiresIn ? parseInt(expiresIn) : 3600,
+      scope: parseScope(params.get('scope'))
+    };
+  }
+
+  async refreshToken(): Promise<TwitchAuthToken> {
+    throw new TokenExchangeError('The implicit grant does not issue refresh tokens', 400);
+  }
+}
+
+/**
+ * Authorization code flow with PKCE through a token exchange server
+ */
+export class PkceStrategy implements AuthStrategy {
+  readonly name = 'pkce';
+  readonly canRefresh = true;
+
+  constructor(
+    private readonly tokenUrl: string,
+    private readonly fetchImpl: typeof fetch = (...args) => fetch(...args)
+  ) {}
+
+  async createAuthorizationRequest(state: string, redirectUri: string, options: AuthorizationOptions = {}): Promise<AuthorizationRequest> {
+    if (!this.tokenUrl) {
+      throw new TokenExchangeError('Set a token exchange server in Settings to sign in with PKCE');
+    }
+
+    const codeVerifier = createCodeVerifier();
+    const params = new URLSearchParams({
+      client_id: TWITCH_CONFIG.CLIENT_ID,
+      redirect_uri: redirectUri,
+      response_type: 'code',
+      scope: TWITCH_CONFIG.REQUIRED_SCOPES.join(' '),
+      state,
+      code_challenge: await createCodeChallenge(codeVerifier),
+      code_challenge_method: 'S256'
+    });
+    if (options.forceVerify) {
+      params.set('force_verify', 'true');
+    }
+
+    return { url: `${TWITCH_CONFIG.AUTH_URL}?${params.toString()}`, codeVerifier };
+  }
+
+  async completeAuthorization(params: URLSearchParams, oauthState: OAuthState): Promise<TwitchAuthToken> {
+    const code = params.get('code');
+    if (!code) {
+      throw new Error('Missing authorization code');
+    }
+    if (!oauthState.codeVerifier) {
+      throw new Error('Missing PKCE code verifier - start signing in again');
+    }
+
+    return this.requestToken({
+      grant_type: 'authorization_code',
+      code,
+      code_verifier: oauthState.codeVerifier,
+      redirect_uri: oauthState.redirectUri
+    });
+  }
+
+  async refreshToken(token: StoredAuthToken): Promise<TwitchAuthToken> {
+    if (!token.refresh_token) {
+      throw new TokenExchangeError('No refresh token stored', 400);
+    }
+
+    const refreshed = await this.requestToken({
+      grant_type: 'refresh_token',
+      refresh_token: token.refresh_token
+    });
+
+    // Servers may keep the refresh token and leave it out of the response
+    return { ...refreshed, refresh_token: refreshed.refresh_token ?? token.refresh_token };
+  }
+
+  /**
+   * POST to the token exchange server
+   */
+  private async requestToken(body: Record<string, string>): Promise<TwitchAuthToken> {
+    let response: Response;
+    try {
+      response = await this.fetchImpl(this.tokenUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ client_id: TWITCH_CONFIG.CLIENT_ID, ...body }),
+        signal: AbortSignal.timeout(getPreference('apiTimeout')),
+      });
+    } catch (error) {
+      throw new TokenExchangeError(
+        `Could not reach the token exchange server: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const reason = data.message || data.error_description || data.error || response.statusText;
+      throw new TokenExchangeError(`Token exchange failed: ${reason}`, response.status);
+    }
+    if (typeof data.access_token !== 'string') {
+      throw new TokenExchangeError('Token exchange server returned no access token', response.status);
+    }
+
+    return {
+      access_token: data.access_token,
+      token_type: data.token_type || 'bearer',
+      expires_in: typeof data.expires_in === 'number' ? data.expires_in : 3600,
+      refresh_token: typeof data.refresh_token === 'string' ? data.refresh_token : undefined,
+      scope: parseScope(data.scope)
+    };
+  }
+}
+
+/**
+ * Build a strategy by name
+ */
+export function createAuthStrategy(
+  name: AuthStrategyName = getPreference('authStrategy'),
+  tokenUrl: string = getPreference('tokenExchangeUrl')
+): AuthStrategy {
+  return name === 'pkce' ? new PkceStrategy(tokenUrl) : new ImplicitGrantStrategy();
+}
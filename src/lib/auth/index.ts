@@ -14,13 +14,37 @@ export {
   getCurrentUser,
   getValidToken,
   signOut,
-  validateToken
+  validateToken,
+  type CallbackDestination
 } from './twitchAuth';
 
+// Re-authentication without leaving the app
+export {
+  ReauthManager,
+  getReauthManager,
+  resetReauthManager,
+  type PendingAuthAction,
+  type ReauthState
+} from './reauth';
+
+// Sign-in strategies
+export {
+  ImplicitGrantStrategy,
+  PkceStrategy,
+  TokenExchangeError,
+  createAuthStrategy,
+  readCallbackParams,
+  type AuthStrategy,
+  type AuthorizationRequest,
+  type AuthorizationOptions
+} from './authStrategies';
+
 // Re-export types for convenience
 export type {
   TwitchAuthToken,
   StoredAuthToken,
   OAuthState,
-  TwitchUserResponse
+  AuthStrategyName,
+  TwitchUserResponse,
+  LinkedAccount
 } from '@/types/TwitchAPI';
@@ -0,0 +1,222 @@
+/**
+ * Re-authentication
+ *
+ * When a Twitch call fails because the session expired, the action is
+ * queued here instead of being lost. Signing in again happens in a popup so
+ * the app keeps its state; once the popup's sign-in lands (announced over the
+ * change bus) the queued actions are replayed in order.
+ *
+ * If the browser blocks the popup, sign-in falls back to leaving the app and
+ * returning to the current route. Queued actions can't survive that reload
+ * and are dropped.
+ */
+
+import { getTwitchAuth } from './twitchAuth';
+import { subscribeToChanges } from '@/lib/sync/changeBus';
+
+/** Window name of the sign-in popup, so repeat attempts reuse it */
+const REAUTH_POPUP_NAME = 'scratch-my-twitch-reauth';
+
+const POPUP_FEATURES = 'popup,width=500,height=720';
+
+/** How often to check whether the user closed the popup */
+const POPUP_CLOSED_POLL_INTERVAL = 500;
+
+/**
+ * Action waiting for the user to sign in again
+ */
+export interface PendingAuthAction {
+  id: number;
+  /** Shown to the user, e.g. Apply "Just Chatting" */
+  label: string;
+  queuedAt: Date;
+}
+
+/**
+ * What the re-auth prompt shows
+ */
+export interface ReauthState {
+  pending: PendingAuthAction[];
+  /** waiting: the popup is open; replaying: running the queued actions */
+  status: 'idle' | 'waiting' | 'replaying';
+  /** Why the last sign-in or replay didn't finish */
+  error: string | null;
+}
+
+interface QueuedAction extends PendingAuthAction {
+  run: () => Promise<unknown>;
+  settle: (completed: boolean) => void;
+}
+
+/**
+ * Re-authentication coordinator
+ */
+export class ReauthManager {
+  private queue: QueuedAction[] = [];
+  private nextId = 1;
+  private state: ReauthState = { pending: [], status: 'idle', error: null };
+  private listeners = new Set<(state: ReauthState) => void>();
+
+  /**
+   * Current prompt state
+   */
+  getState(): ReauthState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe to prompt state changes
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: (state: ReauthState) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue an action to run once the user has signed in again
+   *
+   * @returns Whether the action ran and succeeded (false when it failed or was discarded)
+   */
+  enqueue(label: string, run: () => Promise<unknown>): Promise<boolean> {
+    return new Promise(resolve => {
+      this.queue.push({ id: this.nextId++, label, queuedAt: new Date(), run, settle: resolve });
+      this.setState({ error: null });
+    });
+  }
+
+  /**
+   * Sign in again in a popup, then replay the queued actions.
+   * Call straight from a click handler so the popup isn't blocked.
+   *
+   * @returns Whether the user signed in
+   */
+  async reauthenticate(): Promise<boolean> {
+    if (this.state.status !== 'idle') return false;
+
+    const popup = window.open('', REAUTH_POPUP_NAME, POPUP_FEATURES);
+    if (!popup) {
+      // Popup blocked - sign in in this window and come back here
+      this.discard();
+      await getTwitchAuth().startAuthFlow({ returnTo: `${window.location.pathname}${window.location.search}` });
+      return false;
+    }
+
+    this.setState({ status: 'waiting', error: null });
+    const signedIn = this.waitForSignIn(popup);
+
+    try {
+      await getTwitchAuth().startAuthFlow({ popup });
+    } catch (error) {
+      popup.close();
+      this.setState({ status: 'idle', error: error instanceof Error ? error.message : 'Failed to start signing in' });
+      return false;
+    }
+
+    if (!await signedIn) {
+      this.setState({ status: 'idle', error: 'Sign-in window closed before signing in' });
+      return false;
+    }
+
+    await this.replay();
+    return true;
+  }
+
+  /**
+   * Drop every queued action
+   */
+  discard(): void {
+    const discarded = this.queue;
+    this.queue = [];
+    discarded.forEach(action => action.settle(false));
+    this.setState({ error: null });
+  }
+
+  /**
+   * Run the queued actions in order
+   */
+  private async replay(): Promise<void> {
+    this.setState({ status: 'replaying' });
+    const failures: string[] = [];
+
+    while (this.queue.length > 0) {
+      const action = this.queue.shift()!;
+      try {
+        await action.run();
+        action.settle(true);
+      } catch (error) {
+        failures.push(`${action.label}: ${error instanceof Error ? error.message : 'failed'}`);
+        action.settle(false);
+      }
+    }
+
+    this.setState({
+      status: 'idle',
+      error: failures.length > 0 ? `Couldn't finish ${failures.join('; ')}` : null
+    });
+  }
+
+  /**
+   * Resolve true once the popup's sign-in is stored, or false if it closes first
+   */
+  private waitForSignIn(popup: Window): Promise<boolean> {
+    const auth = getTwitchAuth();
+
+    return new Promise(resolve => {
+      let settled = false;
+      const finish = (signedIn: boolean) => {
+        if (settled) return;
+        settled = true;
+        unsubscribe();
+        window.clearInterval(closedPoll);
+        resolve(signedIn);
+      };
+
+      const unsubscribe = subscribeToChanges('auth', async () => {
+        if (await auth.isAuthenticated()) {
+          finish(true);
+        }
+      });
+
+      // Without cross-tab messages the closed popup is the only signal
+      const closedPoll = window.setInterval(async () => {
+        if (!popup.closed) return;
+        auth.invalidateCache();
+        finish(await auth.isAuthenticated());
+      }, POPUP_CLOSED_POLL_INTERVAL);
+    });
+  }
+
+  private setState(updates: Partial<ReauthState>): void {
+    this.state = {
+      ...this.state,
+      ...updates,
+      pending: this.queue.map(({ id, label, queuedAt }) => ({ id, label, queuedAt }))
+    };
+    this.listeners.forEach(listener => listener(this.state));
+  }
+}
+
+// Singleton instance
+let reauthManagerInstance: ReauthManager | null = null;
+
+/**
+ * Get the re-authentication coordinator
+ */
+export const getReauthManager = (): ReauthManager => {
+  if (!reauthManagerInstance) {
+    reauthManagerInstance = new ReauthManager();
+  }
+  return reauthManagerInstance;
+};
+
+/**
+ * Reset the re-authentication coordinator (useful for testing)
+ */
+export const resetReauthManager = (): void => {
+  reauthManagerInstance?.discard();
+  reauthManagerInstance = null;
+};
@@ -1,30 +1,116 @@
 /**
  * Twitch OAuth 2.0 Authentication
  *
- * Implements secure OAuth 2.0 implicit grant flow for Twitch API access.
- * Handles token storage, validation, and user authentication for browser-based apps.
- * Note: Implicit flow does not support token refresh - users must re-authenticate when tokens expire.
+ * Signs in with the implicit grant by default, or with the authorization code
+ * flow + PKCE through a token exchange server (see authStrategies.ts).
+ * Handles token storage, validation, refresh and user authentication for browser-based apps.
+ * Implicit grant tokens can't be refreshed - users must re-authenticate when they expire.
+ *
+ * Several Twitch accounts can be linked. Each keeps its own token in the auth
+ * store under "account:<user ID>", and one of them is selected; calls that
+ * don't name an account use the selected one.
  */
 
 import { getDB } from '@/lib/db/indexedDB';
-import { TWITCH_ENDPOINTS, TWITCH_CONFIG, STORAGE_KEYS, API_CONFIG, ERROR_CODES, FEATURE_FLAGS } from '@/types/constants';
+import { TWITCH_ENDPOINTS, TWITCH_CONFIG, STORAGE_KEYS, ERROR_CODES } from '@/types/constants';
+import { getPreference } from '@/repositories/PreferencesRepository';
+import { publishChange, subscribeToChanges } from '@/lib/sync/changeBus';
+import { getHelixClient } from '@/lib/api/helixClient';
+import {
+  createAuthStrategy,
+  readCallbackParams,
+  TokenExchangeError,
+  type AuthStrategy
+} from './authStrategies';
 import { 
   TwitchAuthToken, 
   StoredAuthToken, 
   OAuthState, 
+  AuthStrategyName,
   TwitchUserResponse,
-  TwitchUserInfoResponse
+  TwitchUserInfoResponse,
+  LinkedAccount
 } from '@/types/TwitchAPI';
 
+/** Auth store key holding the selected account's user ID */
+const ACTIVE_ACCOUNT_KEY = 'active_account';
+
+/** Auth store key of the single token kept before accounts could be linked */
+const LEGACY_TOKEN_KEY = 'token';
+
+const ACCOUNT_KEY_PREFIX = 'account:';
+
+const accountKey = (accountId: string): string => `${ACCOUNT_KEY_PREFIX}${accountId}`;
+
+/**
+ * A linked account as stored, with its token
+ */
+interface StoredAccount extends Omit<LinkedAccount, 'signedIn'> {
+  /** null once the session ended and couldn't be renewed */
+  token: StoredAuthToken | null;
+}
+
+/**
+ * Linked accounts and the selected one
+ */
+interface AccountState {
+  accounts: Map<string, StoredAccount>;
+  activeId: string | null;
+}
+
+/**
+ * Where to go once the callback has been handled
+ */
+export interface CallbackDestination {
+  /** Route the sign-in started from */
+  returnTo: string | null;
+  /** The callback is running in the re-auth popup, which should close */
+  popup: boolean;
+}
+
 /**
  * Authentication state manager for Twitch OAuth
  */
 export class TwitchAuth {
   private static instance: TwitchAuth | null = null;
-  private currentToken: StoredAuthToken | null = null;
+  private accountState: Promise<AccountState> | null = null;
   private currentUser: TwitchUserResponse | null = null;
+  private strategyOverride: AuthStrategy | null = null;
+  private refreshPromises = new Map<string, Promise<StoredAuthToken | null>>();
+  private callbackInFlight: { url: string; result: Promise<boolean> } | null = null;
+  private callbackDestination: CallbackDestination | null = null;
+
+  private constructor() {
+    // Signing in or out in another tab makes the cached token and user stale
+    subscribeToChanges('auth', () => {
+      this.invalidateCache();
+      this.log('Auth changed in another tab; cleared cached session');
+    });
+  }
 
-  private constructor() {}
+  /**
+   * Forget the in-memory accounts and user so the next read goes to storage
+   * (another window may have signed in)
+   */
+  invalidateCache(): void {
+    this.accountState = null;
+    this.currentUser = null;
+  }
+
+  /**
+   * When the app stops using the stored token (its expiry less the latency
+   * buffer) and whether it can be refreshed, without refreshing or clearing it
+   */
+  async getSessionExpiry(): Promise<{ expiresAt: Date; canRefresh: boolean } | null> {
+    const token = await this.getStoredToken();
+    if (!token) {
+      return null;
+    }
+    return {
+      expiresAt: new Date(new Date(token.expiresAt).getTime() - TWITCH_CONFIG.TOKEN_EXPIRY_BUFFER),
+      canRefresh: Boolean(token.refresh_token),
+    };
+  }
 
   /**
    * Get singleton instance
@@ -36,13 +122,29 @@ export class TwitchAuth {
     return TwitchAuth.instance;
   }
 
+  /**
+   * Use a specific sign-in strategy instead of the one chosen in Settings
+   * (pass null to go back to the setting)
+   */
+  setStrategy(strategy: AuthStrategy | null): void {
+    this.strategyOverride = strategy;
+  }
+
+  /**
+   * Strategy for a new sign-in, or for the token or flow that names one
+   */
+  private getStrategy(name?: AuthStrategyName): AuthStrategy {
+    return this.strategyOverride ?? createAuthStrategy(name);
+  }
+
   /**
    * Check if user is currently authenticated
    */
   async isAuthenticated(): Promise<boolean> {
     try {
-      const token = await this.getStoredToken();
-      return token !== null && this.isTokenValid(token);
+      // Refreshes a token that is about to expire
+      const token = await this.getValidToken();
+      return token !== null;
     } catch (error) {
       this.logError('Error checking authentication status', error);
       return false;
@@ -50,7 +152,7 @@ export class TwitchAuth {
   }
 
   /**
-   * Get current user information
+   * Get the selected account's user information
    */
   async getCurrentUser(): Promise<TwitchUserResponse | null> {
     if (this.currentUser) {
@@ -63,21 +165,13 @@ export class TwitchAuth {
         return null;
       }
 
-      const response = await fetch(`${TWITCH_ENDPOINTS.API_BASE}${TWITCH_ENDPOINTS.USERS}`, {
-        headers: {
-          'Authorization': `Bearer ${token.access_token}`,
-          'Client-Id': TWITCH_CONFIG.CLIENT_ID,
-        },
-        signal: AbortSignal.timeout(API_CONFIG.TIMEOUT),
+      const { data: userData } = await getHelixClient().get<TwitchUserInfoResponse>(TWITCH_ENDPOINTS.USERS, {
+        token: token.access_token
       });
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch user info: ${response.status}`);
-      }
-
-      const userData: TwitchUserInfoResponse = await response.json();
-      if (userData.data && userData.data.length > 0) {
+      if (userData?.data && userData.data.length > 0) {
         this.currentUser = userData.data[0];
+        await this.updateAccountDetails(this.currentUser);
         return this.currentUser;
       }
 
@@ -89,71 +183,149 @@ export class TwitchAuth {
   }
 
   /**
-   * Start OAuth 2.0 implicit grant flow
+   * Linked accounts, oldest first
    */
-  async startAuthFlow(): Promise<void> {
+  async getAccounts(): Promise<LinkedAccount[]> {
+    const { accounts } = await this.loadAccounts();
+
+    return [...accounts.values()]
+      .sort((a, b) => a.linkedAt.getTime() - b.linkedAt.getTime())
+      .map(({ token, ...account }) => ({ ...account, signedIn: token !== null }));
+  }
+
+  /**
+   * User ID of the selected account, or null when no account is linked
+   */
+  async getActiveAccountId(): Promise<string | null> {
+    return (await this.loadAccounts()).activeId;
+  }
+
+  /**
+   * Select another linked account
+   */
+  async switchAccount(accountId: string): Promise<void> {
+    const state = await this.loadAccounts();
+    if (!state.accounts.has(accountId)) {
+      throw new Error('That account is not linked');
+    }
+
+    await this.storeActiveAccount(state, accountId);
+    publishChange('auth');
+    this.log('Switched account', { accountId });
+  }
+
+  /**
+   * Unlink an account and revoke its token. When it was selected, the
+   * oldest remaining account is selected instead.
+   */
+  async removeAccount(accountId: string): Promise<void> {
+    const state = await this.loadAccounts();
+    const account = state.accounts.get(accountId);
+    if (!account) {
+      return;
+    }
+
+    if (account.token) {
+      await this.revokeToken(account.token);
+    }
+
+    const db = await getDB();
+    await db.delete(STORAGE_KEYS.AUTH_STORE, accountKey(accountId));
+    state.accounts.delete(accountId);
+
+    if (state.activeId === accountId) {
+      const [next] = await this.getAccounts();
+      await this.storeActiveAccount(state, next?.id ?? null);
+    }
+
+    publishChange('auth');
+    this.log('Account removed', { accountId });
+  }
+
+  /**
+   * Start the OAuth 2.0 flow of the chosen strategy
+   *
+   * @param options.popup - Window to sign in with instead of leaving the app
+   *   (open it synchronously in the click handler so it isn't blocked)
+   * @param options.returnTo - Route to come back to after signing in
+   * @param options.addAccount - Link another account; Twitch asks which account to use
+   */
+  async startAuthFlow(options: { popup?: Window | null; returnTo?: string; addAccount?: boolean } = {}): Promise<void> {
     if (!TWITCH_CONFIG.CLIENT_ID) {
       throw new Error('Twitch Client ID not configured. Check your environment variables.');
     }
 
     try {
+      const strategy = this.getStrategy();
+
       // Generate state for CSRF protection
       const state = this.generateRandomString(32);
+      const request = await strategy.createAuthorizationRequest(state, TWITCH_CONFIG.REDIRECT_URI, {
+        forceVerify: options.addAccount
+      });
 
       // Store OAuth state
       const oauthState: OAuthState = {
         state,
         redirectUri: TWITCH_CONFIG.REDIRECT_URI,
         createdAt: new Date(),
+        strategy: strategy.name,
+        codeVerifier: request.codeVerifier,
+        returnTo: options.returnTo,
+        popup: Boolean(options.popup),
       };
 
       await this.storeOAuthState(oauthState);
 
-      // Build authorization URL for implicit flow
-      const params = new URLSearchParams({
-        client_id: TWITCH_CONFIG.CLIENT_ID,
-        redirect_uri: TWITCH_CONFIG.REDIRECT_URI,
-        response_type: TWITCH_CONFIG.RESPONSE_TYPE,
-        scope: TWITCH_CONFIG.REQUIRED_SCOPES.join(' '),
-        state: state,
-      });
+      this.log('Starting OAuth flow', { strategy: strategy.name, authUrl: request.url, state });
 
-      const authUrl = `${TWITCH_CONFIG.AUTH_URL}?${params.toString()}`;
-
-      this.log('Starting OAuth flow', { authUrl, state });
-
-      // Redirect to Twitch authorization
-      window.location.href = authUrl;
+      // Send the popup, or this window, to Twitch authorization
+      (options.popup ?? window).location.href = request.url;
     } catch (error) {
       this.logError('Error starting auth flow', error);
-      throw new Error('Failed to start authentication flow');
+      // Keep the explanation when the token exchange server isn't set up
+      throw error instanceof TokenExchangeError ? error : new Error('Failed to start authentication flow');
     }
   }
 
   /**
-   * Handle OAuth callback from implicit grant flow
+   * Handle the OAuth callback. Repeated calls for the same URL share one
+   * attempt, since an authorization code can only be exchanged once.
    */
-  async handleAuthCallback(url: string): Promise<boolean> {
-    try {
-      // In implicit flow, tokens are in URL fragment (hash), not query params
-      const urlObj = new URL(url);
-      const hashParams = new URLSearchParams(urlObj.hash.substring(1)); // Remove '#' prefix
+  handleAuthCallback(url: string): Promise<boolean> {
+    if (this.callbackInFlight?.url !== url) {
+      this.callbackInFlight = { url, result: this.completeAuthCallback(url) };
+    }
+    return this.callbackInFlight.result;
+  }
 
-      const accessToken = hashParams.get('access_token');
-      const tokenType = hashParams.get('token_type');
-      const expiresIn = hashParams.get('expires_in');
-      const scope = hashParams.get('scope');
-      const state = hashParams.get('state');
-      const error = hashParams.get('error');
+  /**
+   * Where the last completed sign-in should end up; cleared once read
+   */
+  consumeCallbackDestination(): CallbackDestination {
+    const destination = this.callbackDestination ?? { returnTo: null, popup: false };
+    this.callbackDestination = null;
+    return destination;
+  }
+
+  /**
+   * Check the callback state and store the token the strategy obtains
+   */
+  private async completeAuthCallback(url: string): Promise<boolean> {
+    try {
+      // Implicit grant tokens arrive in the fragment, authorization codes in the query
+      const params = readCallbackParams(url);
+      const state = params.get('state');
+      const error = params.get('error');
 
       // Check for authorization errors
       if (error) {
-        const errorDescription = hashParams.get('error_description');
+        const errorDescription = params.get('error_description');
         throw new Error(`Authorization failed: ${error}${errorDescription ? ' - ' + errorDescription : ''}`);
       }
 
-      if (!accessToken || !state) {
-        throw new Error('Missing access token or state parameter');
+      if (!state) {
+        throw new Error('Missing state parameter');
       }
 
       // Retrieve and validate OAuth state
@@ -162,44 +334,24 @@ export class TwitchAuth {
         throw new Error('Invalid OAuth state - possible CSRF attack');
       }
 
-      // Get user ID for token storage
-      const userResponse = await fetch(`${TWITCH_ENDPOINTS.API_BASE}${TWITCH_ENDPOINTS.USERS}`, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Client-Id': TWITCH_CONFIG.CLIENT_ID,
-        },
-        signal: AbortSignal.timeout(API_CONFIG.TIMEOUT),
-      });
+      const strategy = this.getStrategy(oauthState.strategy);
+      const token = await strategy.completeAuthorization(params, oauthState);
 
-      if (!userResponse.ok) {
-        throw new Error('Failed to fetch user information');
-      }
-
-      const userData: TwitchUserInfoResponse = await userResponse.json();
-      const userId = userData.data[0]?.id;
+      // Find out which account signed in
+      const { data: userData } = await getHelixClient().get<TwitchUserInfoResponse>(TWITCH_ENDPOINTS.USERS, {
+        token: token.access_token
+      });
+      const user = userData?.data?.[0];
 
-      if (!userId) {
+      if (!user?.id) {
         throw new Error('Unable to determine user ID');
       }
 
-      // Build stored token
-      const now = new Date();
-      const storedToken: StoredAuthToken = {
-        access_token: accessToken,
-        token_type: tokenType || 'bearer',
-        expires_in: expiresIn ? parseInt(expiresIn) : 3600,
-        scope: scope ? scope.split(' ') : TWITCH_CONFIG.REQUIRED_SCOPES,
-        obtainedAt: now,
-        expiresAt: new Date(now.getTime() + (expiresIn ? parseInt(expiresIn) * 1000 : 3600000)),
-        userId,
-        // Implicit flow does not provide refresh tokens
-      };
-
-      // Store token securely
-      await this.storeToken(storedToken);
+      await this.linkAccount(user, this.toStoredToken(token, user.id, strategy.name));
 
       // Clean up OAuth state
       await this.clearOAuthState();
+      this.callbackDestination = { returnTo: oauthState.returnTo ?? null, popup: oauthState.popup ?? false };
 
       this.log('Authentication successful');
       return true;
@@ -212,24 +364,37 @@ export class TwitchAuth {
 
 
   /**
-   * Get valid access token
-   * Note: Implicit flow does not support refresh tokens - user must re-authenticate when token expires
+   * Get valid access token, refreshing it shortly before it expires when the
+   * strategy issued a refresh token
+   * Note: Implicit grant tokens can't be refreshed - user must re-authenticate when they expire
+   *
+   * @param accountId - Linked account to get the token of (defaults to the selected account)
    */
-  async getValidToken(): Promise<StoredAuthToken | null> {
+  async getValidToken(accountId?: string): Promise<StoredAuthToken | null> {
     try {
-      const token = await this.getStoredToken();
+      const token = await this.getStoredToken(accountId);
 
       if (!token) {
         return null;
       }
 
+      if (token.refresh_token && this.isRefreshDue(token)) {
+        const refreshed = await this.refreshToken(token.userId);
+        if (refreshed) {
+          return refreshed;
+        }
+        // Refresh failed; keep using the current token while it lasts
+      }
+
       if (this.isTokenValid(token)) {
         return token;
       }
 
-      // Token is expired - implicit flow does not provide refresh tokens
-      // User must re-authenticate
-      await this.clearStoredToken();
+      // Token is expired. Keep a refresh token for when the exchange server
+      // is reachable again; otherwise the user must re-authenticate
+      if (!token.refresh_token) {
+        await this.clearStoredToken(token.userId);
+      }
       return null;
     } catch (error) {
       this.logError('Error getting valid token', error);
@@ -237,6 +402,77 @@ export class TwitchAuth {
     }
   }
 
+  /**
+   * Refresh an account's stored token. Concurrent callers share one refresh,
+   * and tabs take turns so a refresh token is never spent twice.
+   */
+  private refreshToken(accountId: string): Promise<StoredAuthToken | null> {
+    let refreshPromise = this.refreshPromises.get(accountId);
+    if (!refreshPromise) {
+      const refresh = () => this.performRefresh(accountId);
+      refreshPromise = (typeof navigator !== 'undefined' && navigator.locks
+        ? navigator.locks.request(`twitch-token-refresh:${accountId}`, refresh)
+        : refresh()
+      ).finally(() => {
+        this.refreshPromises.delete(accountId);
+      });
+      this.refreshPromises.set(accountId, refreshPromise);
+    }
+    return refreshPromise;
+  }
+
+  /**
+   * Trade the stored refresh token for a new token
+   */
+  private async performRefresh(accountId: string): Promise<StoredAuthToken | null> {
+    // Another tab may have refreshed while we waited for the lock
+    this.accountState = null;
+    const token = await this.getStoredToken(accountId);
+    if (!token?.refresh_token) {
+      return null;
+    }
+    if (!this.isRefreshDue(token)) {
+      return token;
+    }
+
+    const strategy = this.getStrategy(token.strategy);
+    try {
+      const refreshed = await strategy.refreshToken(token);
+      const storedToken = this.toStoredToken(refreshed, token.userId, strategy.name);
+      await this.storeToken(storedToken);
+      this.log('Token refreshed', { expiresAt: storedToken.expiresAt });
+      return storedToken;
+    } catch (error) {
+      this.logError('Error refreshing token', error);
+      if (error instanceof TokenExchangeError && error.isRejected) {
+        // The refresh token was revoked or has expired - sign in again
+        await this.clearStoredToken(accountId);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Whether a token is close enough to expiry to refresh
+   */
+  private isRefreshDue(token: StoredAuthToken): boolean {
+    return Date.now() >= new Date(token.expiresAt).getTime() - TWITCH_CONFIG.TOKEN_REFRESH_WINDOW;
+  }
+
+  /**
+   * Add expiry and ownership details to a token response
+   */
+  private toStoredToken(token: TwitchAuthToken, userId: string, strategy: AuthStrategyName): StoredAuthToken {
+    const now = new Date();
+    return {
+      ...token,
+      obtainedAt: now,
+      expiresAt: new Date(now.getTime() + token.expires_in * 1000),
+      userId,
+      strategy,
+    };
+  }
+
 
   /**
    * Validate token expiration
@@ -244,9 +480,8 @@ export class TwitchAuth {
   private isTokenValid(token: StoredAuthToken): boolean {
     const now = new Date();
     const expiresAt = new Date(token.expiresAt);
-    // Add 5 minute buffer to account for network latency
-    const buffer = 5 * 60 * 1000;
-    return now.getTime() < (expiresAt.getTime() - buffer);
+    // Buffer to account for network latency
+    return now.getTime() < (expiresAt.getTime() - TWITCH_CONFIG.TOKEN_EXPIRY_BUFFER);
   }
 
   /**
@@ -263,7 +498,7 @@ export class TwitchAuth {
         headers: {
           'Authorization': `OAuth ${token.access_token}`,
         },
-        signal: AbortSignal.timeout(API_CONFIG.TIMEOUT),
+        signal: AbortSignal.timeout(getPreference('apiTimeout')),
       });
 
       if (response.ok) {
@@ -271,7 +506,7 @@ export class TwitchAuth {
       }
 
       // Token is invalid, clear it
-      await this.clearStoredToken();
+      await this.clearStoredToken(token.userId);
       return false;
     } catch (error) {
       this.logError('Error validating token', error);
@@ -280,38 +515,20 @@ export class TwitchAuth {
   }
 
   /**
-   * Sign out user and clear all authentication data
+   * Sign out of the selected account. Other linked accounts stay signed in,
+   * and the oldest of them is selected.
    */
   async signOut(): Promise<void> {
     try {
-      const token = await this.getStoredToken();
-      
-      if (token) {
-        // Revoke token with Twitch
-        try {
-          await fetch(TWITCH_ENDPOINTS.REVOKE, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/x-www-form-urlencoded',
-            },
-            body: new URLSearchParams({
-              client_id: TWITCH_CONFIG.CLIENT_ID,
-              token: token.access_token,
-            }),
-          });
-        } catch (error) {
-          // Continue with local cleanup even if revocation fails
-          this.logError('Error revoking token', error);
-        }
+      const accountId = await this.getActiveAccountId();
+      if (accountId) {
+        await this.removeAccount(accountId);
       }
 
-      // Clear local authentication data
-      await this.clearStoredToken();
       await this.clearOAuthState();
-      
+
       // Clear in-memory cache
-      this.currentToken = null;
-      this.currentUser = null;
+      this.invalidateCache();
 
       this.log('User signed out successfully');
     } catch (error) {
@@ -321,42 +538,194 @@ export class TwitchAuth {
   }
 
   /**
-   * Store authentication token in IndexedDB
+   * Revoke a token with Twitch; failures are only logged
    */
-  private async storeToken(token: StoredAuthToken): Promise<void> {
+  private async revokeToken(token: StoredAuthToken): Promise<void> {
+    try {
+      await fetch(TWITCH_ENDPOINTS.REVOKE, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({
+          client_id: TWITCH_CONFIG.CLIENT_ID,
+          token: token.access_token,
+        }),
+      });
+    } catch (error) {
+      // Continue with local cleanup even if revocation fails
+      this.logError('Error revoking token', error);
+    }
+  }
+
+  /**
+   * Linked accounts and the selected one, read from storage once and kept
+   * in memory until another tab changes them
+   */
+  private loadAccounts(): Promise<AccountState> {
+    if (!this.accountState) {
+      this.accountState = this.readAccounts();
+      this.accountState.catch(() => {
+        this.accountState = null;
+      });
+    }
+    return this.accountState;
+  }
+
+  private async readAccounts(): Promise<AccountState> {
+    const db = await getDB();
+    const records = await db.getAll<{ key: string; value: any }>(STORAGE_KEYS.AUTH_STORE);
+    const state: AccountState = { accounts: new Map(), activeId: null };
+    let legacyToken: StoredAuthToken | null = null;
+
+    for (const record of records) {
+      if (record.key.startsWith(ACCOUNT_KEY_PREFIX)) {
+        // Convert date strings back to Date objects
+        const account: StoredAccount = {
+          ...record.value,
+          linkedAt: new Date(record.value.linkedAt),
+          token: record.value.token ? this.reviveToken(record.value.token) : null,
+        };
+        state.accounts.set(account.id, account);
+      } else if (record.key === ACTIVE_ACCOUNT_KEY) {
+        state.activeId = record.value;
+      } else if (record.key === LEGACY_TOKEN_KEY && record.value) {
+        legacyToken = this.reviveToken(record.value);
+      }
+    }
+
+    if (state.activeId && !state.accounts.has(state.activeId)) {
+      state.activeId = null;
+    }
+
+    if (legacyToken) {
+      await this.adoptLegacyToken(state, legacyToken);
+    }
+
+    return state;
+  }
+
+  /**
+   * Turn a token stored before accounts could be linked into a linked,
+   * selected account. Its names are filled in once the user is loaded.
+   */
+  private async adoptLegacyToken(state: AccountState, token: StoredAuthToken): Promise<void> {
+    const existing = state.accounts.get(token.userId);
+    await this.writeAccount(state, {
+      id: token.userId,
+      login: existing?.login ?? '',
+      displayName: existing?.displayName ?? token.userId,
+      profileImageUrl: existing?.profileImageUrl ?? '',
+      linkedAt: existing?.linkedAt ?? token.obtainedAt,
+      token,
+    });
+    await this.storeActiveAccount(state, token.userId);
+
+    const db = await getDB();
+    await db.delete(STORAGE_KEYS.AUTH_STORE, LEGACY_TOKEN_KEY);
+    this.log('Moved the stored token to a linked account', { accountId: token.userId });
+  }
+
+  /**
+   * Store a sign-in and select its account. Signing in to an account that is
+   * already linked renews its token.
+   */
+  private async linkAccount(user: TwitchUserResponse, token: StoredAuthToken): Promise<void> {
+    const state = await this.loadAccounts();
+
+    await this.writeAccount(state, {
+      id: user.id,
+      login: user.login,
+      displayName: user.display_name,
+      profileImageUrl: user.profile_image_url,
+      linkedAt: state.accounts.get(user.id)?.linkedAt ?? new Date(),
+      token,
+    });
+    await this.storeActiveAccount(state, user.id);
+    this.currentUser = user;
+    publishChange('auth');
+  }
+
+  /**
+   * Keep the names shown in the account switcher in step with Twitch
+   */
+  private async updateAccountDetails(user: TwitchUserResponse): Promise<void> {
+    const state = await this.loadAccounts();
+    const account = state.accounts.get(user.id);
+
+    if (!account || (
+      account.login === user.login &&
+      account.displayName === user.display_name &&
+      account.profileImageUrl === user.profile_image_url
+    )) {
+      return;
+    }
+
+    await this.writeAccount(state, {
+      ...account,
+      login: user.login,
+      displayName: user.display_name,
+      profileImageUrl: user.profile_image_url,
+    });
+    publishChange('auth');
+  }
+
+  private async writeAccount(state: AccountState, account: StoredAccount): Promise<void> {
     const db = await getDB();
     await db.put(STORAGE_KEYS.AUTH_STORE, {
-      key: 'token',
-      value: token,
+      key: accountKey(account.id),
+      value: account,
       updatedAt: new Date(),
     });
-    this.currentToken = token;
+    state.accounts.set(account.id, account);
   }
 
   /**
-   * Get stored authentication token
+   * Select an account, or no account
    */
-  private async getStoredToken(): Promise<StoredAuthToken | null> {
-    if (this.currentToken) {
-      return this.currentToken;
+  private async storeActiveAccount(state: AccountState, accountId: string | null): Promise<void> {
+    const db = await getDB();
+    if (accountId) {
+      await db.put(STORAGE_KEYS.AUTH_STORE, {
+        key: ACTIVE_ACCOUNT_KEY,
+        value: accountId,
+        updatedAt: new Date(),
+      });
+    } else {
+      await db.delete(STORAGE_KEYS.AUTH_STORE, ACTIVE_ACCOUNT_KEY);
     }
 
+    if (state.activeId !== accountId) {
+      this.currentUser = null;
+    }
+    state.activeId = accountId;
+  }
+
+  /**
+   * Replace the token of the account it belongs to
+   */
+  private async storeToken(token: StoredAuthToken): Promise<void> {
+    const state = await this.loadAccounts();
+    const account = state.accounts.get(token.userId);
+    if (!account) {
+      // Unlinked while the token was being refreshed
+      return;
+    }
+
+    await this.writeAccount(state, { ...account, token });
+    publishChange('auth');
+  }
+
+  /**
+   * Get an account's stored token
+   *
+   * @param accountId - Defaults to the selected account
+   */
+  private async getStoredToken(accountId?: string): Promise<StoredAuthToken | null> {
     try {
-      const db = await getDB();
-      const result = await db.get(STORAGE_KEYS.AUTH_STORE, 'token');
-      
-      if (result?.value) {
-        // Convert date strings back to Date objects
-        const token = {
-          ...result.value,
-          obtainedAt: new Date(result.value.obtainedAt),
-          expiresAt: new Date(result.value.expiresAt),
-        };
-        this.currentToken = token;
-        return token;
-      }
-      
-      return null;
+      const state = await this.loadAccounts();
+      const id = accountId ?? state.activeId;
+      return id ? state.accounts.get(id)?.token ?? null : null;
     } catch (error) {
       this.logError('Error retrieving stored token', error);
       return null;
@@ -364,19 +733,38 @@ export class TwitchAuth {
   }
 
   /**
-   * Clear stored authentication token
+   * Forget an account's token; the account stays linked until it is
+   * signed in again or removed
    */
-  private async clearStoredToken(): Promise<void> {
+  private async clearStoredToken(accountId: string): Promise<void> {
     try {
-      const db = await getDB();
-      await db.delete(STORAGE_KEYS.AUTH_STORE, 'token');
-      this.currentToken = null;
-      this.currentUser = null;
+      const state = await this.loadAccounts();
+      const account = state.accounts.get(accountId);
+      if (!account) {
+        return;
+      }
+
+      await this.writeAccount(state, { ...account, token: null });
+      if (state.activeId === accountId) {
+        this.currentUser = null;
+      }
+      publishChange('auth');
     } catch (error) {
       this.logError('Error clearing stored token', error);
     }
   }
 
+  /**
+   * Convert a stored token's date strings back to Date objects
+   */
+  private reviveToken(token: StoredAuthToken): StoredAuthToken {
+    return {
+      ...token,
+      obtainedAt: new Date(token.obtainedAt),
+      expiresAt: new Date(token.expiresAt),
+    };
+  }
+
   /**
    * Store OAuth state for CSRF protection
    */
@@ -437,7 +825,7 @@ export class TwitchAuth {
    * Log messages (respects debug settings)
    */
   private log(message: string, data?: any): void {
-    if (FEATURE_FLAGS.DEBUG_LOGGING) {
+    if (getPreference('debugLogging')) {
       console.log(`[TwitchAuth] ${message}`, data || '');
     }
   }
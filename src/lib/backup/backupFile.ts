@@ -0,0 +1,39 @@
+/**
+ * Backup Files
+ *
+ * Reading and writing backup files in the browser.
+ */
+
+/**
+ * Suggested file name for a backup, e.g. "scratch-my-twitch-backup-2024-05-01.json"
+ */
+export function getBackupFileName(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `scratch-my-twitch-backup-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}.json`;
+}
+
+/**
+ * Offer a backup as a file download
+ */
+export function downloadBackup(json: string, fileName: string = getBackupFileName()): void {
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a backup file chosen by the user
+ */
+export function readBackupFile(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result ?? ''));
+    reader.onerror = () => reject(reader.error ?? new Error(`Failed to read ${file.name}`));
+    reader.readAsText(file);
+  });
+}
@@ -0,0 +1,144 @@
+/**
+ * Backup Migrations
+ *
+ * Brings backups written by older versions of the app up to the current
+ * format. Each migration moves a backup forward by one version; they run
+ * in sequence until the backup reaches CURRENT_BACKUP_VERSION.
+ */
+
+/**
+ * Version written by exportProfiles
+ */
+export const CURRENT_BACKUP_VERSION = '1.2';
+
+/**
+ * Backup as read from JSON, before validation
+ */
+export interface RawBackup {
+  version: string;
+  exportedAt?: unknown;
+  profiles: Array<Record<string, unknown>>;
+  groups?: Array<Record<string, unknown>>;
+}
+
+/**
+ * A single step in the migration chain
+ */
+export interface BackupMigration {
+  from: string;
+  to: string;
+  /** Shown to the user when the migration runs */
+  description: string;
+  migrate: (backup: RawBackup) => RawBackup;
+}
+
+const LEGACY_PLACEHOLDERS: Array<[RegExp, string]> = [
+  [/\{YYYY-MM-DD\}/g, '{date:YYYY-MM-DD}'],
+  [/\{DAY\}/g, '{date:dddd}']
+];
+
+/**
+ * Registered migrations, oldest first
+ */
+export const BACKUP_MIGRATIONS: BackupMigration[] = [
+  {
+    // 1.0 predates template variables, counters and channel settings. Its
+    // exporter wrote profiles as stored, so descriptions could be null and
+    // tags could contain blanks or duplicates.
+    from: '1.0',
+    to: '1.1',
+    description: 'Tidied tags and descriptions, and converted {YYYY-MM-DD} and {DAY} to {date:...} placeholders',
+    migrate: backup => ({
+      ...backup,
+      version: '1.1',
+      profiles: backup.profiles.map(migrateLegacyProfile)
+    })
+  },
+  {
+    // 1.2 adds the groups list and each profile's groupId, obsActions and
+    // ownerId, all optional. Some 1.1 backups already carry them (they were
+    // exported before the version was raised), so anything present is kept.
+    from: '1.1',
+    to: '1.2',
+    description: 'Added the profile group list; profiles without a group, OBS actions or account stay that way',
+    migrate: backup => ({
+      ...backup,
+      version: '1.2',
+      groups: backup.groups ?? []
+    })
+  }
+];
+
+/**
+ * Bring a profile record written by the first release up to date: tidy its
+ * tags and description, and convert legacy placeholders in its title.
+ * Also used by the database migration for profiles stored by that release.
+ */
+export function migrateLegacyProfile(profile: Record<string, unknown>): Record<string, unknown> {
+  const tags = Array.isArray(profile.tags)
+    ? profile.tags.map(tag => String(tag).trim()).filter(tag => tag.length > 0)
+    : [];
+  const title = typeof profile.title === 'string'
+    ? LEGACY_PLACEHOLDERS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), profile.title)
+    : profile.title;
+
+  return {
+    ...profile,
+    title,
+    description: profile.description ?? undefined,
+    tags: tags.filter((tag, index) =>
+      tags.findIndex(other => other.toLowerCase() === tag.toLowerCase()) === index
+    )
+  };
+}
+
+/**
+ * Compare two dotted version strings
+ */
+export function compareBackupVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(Number);
+  const partsB = b.split('.').map(Number);
+
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const difference = (partsA[i] ?? 0) - (partsB[i] ?? 0);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
+
+/**
+ * Migrate a backup to the current version
+ *
+ * @returns The migrated backup and the descriptions of the migrations applied
+ * @throws Error if the version is unknown or newer than this app supports
+ */
+export function migrateBackup(
+  backup: RawBackup,
+  migrations: BackupMigration[] = BACKUP_MIGRATIONS,
+  targetVersion: string = CURRENT_BACKUP_VERSION
+): { backup: RawBackup; applied: string[] } {
+  let current = backup;
+  const applied: string[] = [];
+
+  if (!/^\d+(\.\d+)*$/.test(current.version)) {
+    throw new Error(`Unrecognised backup version "${current.version}"`);
+  }
+
+  if (compareBackupVersions(current.version, targetVersion) > 0) {
+    throw new Error(
+      `This backup was made with a newer version of the app (format ${current.version}). Update the app to restore it.`
+    );
+  }
+
+  while (current.version !== targetVersion) {
+    const migration = migrations.find(candidate => candidate.from === current.version);
+    if (!migration) {
+      throw new Error(`No migration available from backup version ${current.version}`);
+    }
+
+    current = migration.migrate(current);
+    applied.push(`${migration.from} → ${migration.to}: ${migration.description}`);
+  }
+
+  return { backup: current, applied };
+}
@@ -0,0 +1,176 @@
+/**
+ * Import Plan
+ *
+ * Works out what restoring a backup will do before anything is written:
+ * which incoming profiles clash with existing ones, and the profile each
+ * conflict resolution produces. The resulting plan doubles as the dry run.
+ */
+
+import type { StreamProfile } from '@/types/Profile';
+import type {
+  ConflictResolution,
+  ImportConflict,
+  ImportAction,
+  ImportPlan,
+  ImportPlanItem,
+  InvalidImportedProfile
+} from '@/types/Backup';
+import { generateUUID } from '@/types/ProfileUtils';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_TAGS = 10;
+
+const nameKey = (name: string): string => name.trim().toLowerCase();
+
+/**
+ * Find incoming profiles that clash with existing ones, by ID first and then by name
+ */
+export function findImportConflicts(incoming: StreamProfile[], existing: StreamProfile[]): ImportConflict[] {
+  const conflicts: ImportConflict[] = [];
+
+  incoming.forEach(profile => {
+    const byId = existing.find(candidate => candidate.id === profile.id);
+    if (byId) {
+      conflicts.push({ incoming: profile, existing: byId, type: 'id' });
+      return;
+    }
+
+    const byName = existing.find(candidate => nameKey(candidate.name) === nameKey(profile.name));
+    if (byName) {
+      conflicts.push({ incoming: profile, existing: byName, type: 'name' });
+    }
+  });
+
+  return conflicts;
+}
+
+/**
+ * Pick a name not already taken, e.g. "Coding (imported 2)"
+ */
+export function getUniqueName(name: string, takenNames: Set<string>): string {
+  for (let attempt = 1; ; attempt++) {
+    const suffix = attempt === 1 ? ' (imported)' : ` (imported ${attempt})`;
+    const candidate = `${name.slice(0, MAX_NAME_LENGTH - suffix.length)}${suffix}`;
+    if (!takenNames.has(nameKey(candidate))) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Combine an existing profile with an incoming one
+ *
+ * The existing profile wins wherever both have a value; the incoming profile
+ * fills in anything missing and contributes extra tags, labels and variables.
+ * Counters keep the higher value so episode numbers never go backwards.
+ */
+export function mergeProfiles(existing: StreamProfile, incoming: StreamProfile): StreamProfile {
+  const tags = [...existing.tags];
+  incoming.tags.forEach(tag => {
+    if (!tags.some(other => nameKey(other) === nameKey(tag))) {
+      tags.push(tag);
+    }
+  });
+
+  const counters = { ...incoming.counters, ...existing.counters };
+  Object.entries(incoming.counters ?? {}).forEach(([name, value]) => {
+    counters[name] = Math.max(counters[name] ?? 0, value);
+  });
+
+  const labels = existing.contentClassificationLabels || incoming.contentClassificationLabels
+    ? Array.from(new Set([...(existing.contentClassificationLabels ?? []), ...(incoming.contentClassificationLabels ?? [])]))
+    : undefined;
+
+  return {
+    ...existing,
+    description: existing.description || incoming.description,
+    tags: tags.slice(0, MAX_TAGS),
+    variables: existing.variables || incoming.variables
+      ? { ...incoming.variables, ...existing.variables }
+      : undefined,
+    counters: Object.keys(counters).length > 0 ? counters : undefined,
+    language: existing.language ?? incoming.language,
+    contentClassificationLabels: labels,
+    isBrandedContent: existing.isBrandedContent ?? incoming.isBrandedContent,
+    obsActions: existing.obsActions ?? incoming.obsActions,
+    groupId: existing.groupId ?? incoming.groupId,
+    ownerId: existing.ownerId ?? incoming.ownerId,
+    updatedAt: new Date()
+  };
+}
+
+/**
+ * Build the plan for restoring a backup
+ *
+ * @param incoming - Valid profiles from the backup
+ * @param existing - Profiles currently stored
+ * @param resolutions - Chosen resolution per conflicting incoming profile ID
+ * @param defaultResolution - Resolution for conflicts without a choice
+ * @param invalid - Profiles the backup contained that failed validation
+ */
+export function planImport(
+  incoming: StreamProfile[],
+  existing: StreamProfile[],
+  resolutions: Record<string, ConflictResolution> = {},
+  defaultResolution: ConflictResolution = 'skip',
+  invalid: InvalidImportedProfile[] = []
+): ImportPlan {
+  const conflicts = new Map(findImportConflicts(incoming, existing).map(conflict => [conflict.incoming.id, conflict]));
+  const takenNames = new Set(existing.map(profile => nameKey(profile.name)));
+  const takenIds = new Set(existing.map(profile => profile.id));
+  const now = new Date();
+
+  // Names and IDs are reserved as each item is planned so later items can't reuse them
+  const reserve = (profile: StreamProfile): StreamProfile => {
+    takenNames.add(nameKey(profile.name));
+    takenIds.add(profile.id);
+    return profile;
+  };
+
+  const asNew = (profile: StreamProfile): StreamProfile => ({
+    ...profile,
+    id: takenIds.has(profile.id) ? generateUUID() : profile.id,
+    name: takenNames.has(nameKey(profile.name)) ? getUniqueName(profile.name, takenNames) : profile.name
+  });
+
+  const items: ImportPlanItem[] = incoming.map(profile => {
+    const conflict = conflicts.get(profile.id);
+
+    if (!conflict) {
+      return { action: 'create', incoming: profile, result: reserve(asNew(profile)) };
+    }
+
+    const action = resolutions[profile.id] ?? defaultResolution;
+    const { existing: current } = conflict;
+
+    switch (action) {
+      case 'skip':
+        return { action, incoming: profile, existing: current };
+      case 'rename':
+        return { action, incoming: profile, existing: current, result: reserve(asNew(profile)) };
+      case 'merge':
+        return { action, incoming: profile, existing: current, result: reserve(mergeProfiles(current, profile)) };
+      case 'overwrite': {
+        // Keep the existing ID so schedule slots and history still point at it
+        takenNames.delete(nameKey(current.name));
+        const name = takenNames.has(nameKey(profile.name)) ? getUniqueName(profile.name, takenNames) : profile.name;
+        return {
+          action,
+          incoming: profile,
+          existing: current,
+          result: reserve({ ...profile, id: current.id, name, createdAt: current.createdAt, updatedAt: now })
+        };
+      }
+    }
+  });
+
+  const counts: Record<ImportAction, number> = { create: 0, skip: 0, overwrite: 0, rename: 0, merge: 0 };
+  items.forEach(item => counts[item.action]++);
+
+  return {
+    items,
+    invalid,
+    counts,
+    writes: items.filter(item => item.result).map(item => item.result!)
+  };
+}
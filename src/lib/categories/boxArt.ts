@@ -0,0 +1,121 @@
+/**
+ * Category Box Art
+ *
+ * Twitch hands out box art as a URL template ("...-{width}x{height}.jpg")
+ * from /games, or already sized ("...-52x72.jpg") from /search/categories.
+ * These helpers size either form for the space it is shown in, with 2x and
+ * 3x versions for high-density screens.
+ *
+ * Box art for the categories profiles use is stored in Cache Storage under
+ * the cache the service worker serves box art from, so profile cards keep
+ * their pictures offline.
+ */
+
+import type { StreamCategory } from '@/types/Profile';
+
+/** Cache the service worker serves box art from (see vite.config.ts) */
+export const BOX_ART_CACHE = 'twitch-box-art';
+
+/** Pixel densities offered in srcset */
+const DENSITIES = [1, 2, 3] as const;
+
+/** The size placeholder, or a size Twitch already filled in, before the extension */
+const SIZE_PATTERN = /(\{width\}x\{height\}|\d+x\d+)(?=\.\w+(\?.*)?$)/;
+
+/**
+ * Display size of a box art image in CSS pixels
+ */
+export interface BoxArtSize {
+  width: number;
+  height: number;
+}
+
+/** Sizes used across the app */
+export const BOX_ART_SIZES = {
+  /** Category picker results */
+  picker: { width: 40, height: 56 },
+  /** Dashboard profile cards */
+  card: { width: 48, height: 64 }
+} as const;
+
+/**
+ * Fill a box art URL in at the given pixel size.
+ * Returns undefined for a missing URL or one that can't be sized.
+ */
+export const resolveBoxArtUrl = (template: string | undefined, width: number, height: number): string | undefined => {
+  if (!template || !SIZE_PATTERN.test(template)) {
+    return undefined;
+  }
+  return template.replace(SIZE_PATTERN, `${Math.round(width)}x${Math.round(height)}`);
+};
+
+/**
+ * src and srcset for showing box art at a CSS size
+ */
+export const boxArtSources = (
+  template: string | undefined,
+  size: BoxArtSize
+): { src: string; srcSet: string } | undefined => {
+  const src = resolveBoxArtUrl(template, size.width, size.height);
+  if (!src) {
+    return undefined;
+  }
+
+  const srcSet = DENSITIES
+    .map(density => `${resolveBoxArtUrl(template, size.width * density, size.height * density)} ${density}x`)
+    .join(', ');
+
+  return { src, srcSet };
+};
+
+/**
+ * URL the browser picks from the srcset on this screen
+ */
+export const boxArtUrlForScreen = (
+  template: string | undefined,
+  size: BoxArtSize,
+  devicePixelRatio: number = globalThis.devicePixelRatio ?? 1
+): string | undefined => {
+  const density = DENSITIES.find(candidate => candidate >= devicePixelRatio) ?? DENSITIES[DENSITIES.length - 1];
+  return resolveBoxArtUrl(template, size.width * density, size.height * density);
+};
+
+/**
+ * Store box art for these categories in Cache Storage so it shows offline.
+ * Images already stored are skipped; failures are ignored since the card
+ * falls back to a placeholder. Returns how many images were added.
+ */
+export const cacheBoxArt = async (categories: StreamCategory[], size: BoxArtSize): Promise<number> => {
+  if (typeof caches === 'undefined' || typeof fetch === 'undefined') {
+    return 0;
+  }
+
+  const urls = [...new Set(categories
+    .map(category => boxArtUrlForScreen(category.boxArtUrl, size))
+    .filter((url): url is string => Boolean(url)))];
+
+  let added = 0;
+  try {
+    const cache = await caches.open(BOX_ART_CACHE);
+
+    for (const url of urls) {
+      if (await cache.match(url)) {
+        continue;
+      }
+      try {
+        // The CDN's images are only shown, never read, so an opaque response will do
+        const response = await fetch(url, { mode: 'no-cors' });
+        if (response.ok || response.type === 'opaque') {
+          await cache.put(url, response);
+          added++;
+        }
+      } catch {
+        // Offline or blocked; try again next time
+      }
+    }
+  } catch (error) {
+    console.warn('[BoxArt] Failed to cache box art:', error);
+  }
+
+  return added;
+};
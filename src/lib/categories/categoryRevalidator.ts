@@ -0,0 +1,294 @@
+/**
+ * Category Revalidator
+ *
+ * Profiles keep a copy of their category's ID, name and box art, which goes
+ * stale when Twitch renames a category or merges it into another. The
+ * revalidator looks up every category profiles use with batched
+ * `GET /games?id=` requests, copies new names and box art into the profiles
+ * and the category cache, and flags the profiles whose category Twitch no
+ * longer has so the dashboard can ask for a replacement. A missing ID is
+ * often a category merged under a new ID, so its stored name is searched for
+ * and an exact match is offered as the replacement.
+ *
+ * Runs when the app starts and then once a day while it stays open. With
+ * several tabs open, a Web Lock lets only one of them revalidate at a time.
+ */
+
+import { getTwitchAPI, type APIResult } from '@/lib/api/twitchAPI';
+import { systemClock, type SchedulerClock } from '@/lib/scheduler/profileScheduler';
+import { getProfileRepository, type ProfileRepository } from '@/repositories/ProfileRepository';
+import { getCategoryRepository, type CategoryRepository } from '@/repositories/CategoryRepository';
+import { getPreference } from '@/repositories/PreferencesRepository';
+import { ERROR_CODES } from '@/types/constants';
+import type { StreamCategory, StreamProfile } from '@/types/Profile';
+import type { TwitchGameResponse } from '@/types/TwitchAPI';
+
+/**
+ * Outcome of a revalidation pass
+ */
+export interface CategoryRevalidationResult {
+  /** Number of category IDs looked up */
+  checked: number;
+  /** Categories whose name or box art changed on Twitch */
+  updated: StreamCategory[];
+  /** IDs Twitch no longer has */
+  missing: string[];
+  /** Categories found under the name of a missing ID, keyed by that ID */
+  replacements: Record<string, StreamCategory>;
+  /** Profiles that were changed or flagged */
+  profiles: StreamProfile[];
+}
+
+/**
+ * Revalidator configuration and dependencies
+ */
+export interface CategoryRevalidatorOptions {
+  /** Timers (defaults to the system clock) */
+  clock?: SchedulerClock;
+  /** Delay between passes while the app stays open, in milliseconds */
+  interval?: number;
+  /** Looks categories up by ID */
+  lookupCategories?: (ids: string[]) => Promise<APIResult<TwitchGameResponse[]>>;
+  /** Searches categories by name */
+  searchCategories?: (query: string) => Promise<APIResult<TwitchGameResponse[]>>;
+  profileRepository?: ProfileRepository;
+  categoryRepository?: CategoryRepository;
+}
+
+/** Web Lock held while revalidating, so open tabs don't repeat each other's lookups */
+const REVALIDATE_LOCK_NAME = 'category-revalidation';
+
+/** Twitch category IDs are numeric; anything else was typed in by hand */
+const TWITCH_CATEGORY_ID = /^\d+$/;
+
+/** Search results to look through for a missing category's name */
+const REPLACEMENT_SEARCH_LIMIT = 10;
+
+/**
+ * Shape a Twitch game as a stream category
+ */
+const toCategory = (game: TwitchGameResponse): StreamCategory => ({
+  id: game.id,
+  name: game.name,
+  boxArtUrl: game.box_art_url || undefined
+});
+
+/**
+ * Keeps the categories saved in profiles in line with Twitch
+ */
+export class CategoryRevalidator {
+  private readonly clock: SchedulerClock;
+  private readonly interval: number;
+  private readonly lookupCategories: (ids: string[]) => Promise<APIResult<TwitchGameResponse[]>>;
+  private readonly searchCategories: (query: string) => Promise<APIResult<TwitchGameResponse[]>>;
+  private readonly profileRepository: ProfileRepository;
+  private readonly categoryRepository: CategoryRepository;
+
+  private intervalHandle: unknown = null;
+  private activePass: Promise<APIResult<CategoryRevalidationResult>> | null = null;
+  private listeners = new Set<(result: CategoryRevalidationResult) => void>();
+
+  constructor(options: CategoryRevalidatorOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.interval = options.interval ?? 24 * 60 * 60 * 1000;
+    this.lookupCategories = options.lookupCategories ?? (ids => getTwitchAPI().getCategoriesByIds(ids));
+    this.searchCategories = options.searchCategories ?? (query => getTwitchAPI().searchCategories(query, REPLACEMENT_SEARCH_LIMIT));
+    this.profileRepository = options.profileRepository ?? getProfileRepository();
+    this.categoryRepository = options.categoryRepository ?? getCategoryRepository();
+  }
+
+  /**
+   * Revalidate now and then on every interval
+   */
+  start(): void {
+    if (this.intervalHandle !== null) {
+      return;
+    }
+
+    this.intervalHandle = this.clock.setInterval(() => {
+      void this.revalidate();
+    }, this.interval);
+
+    void this.revalidate();
+  }
+
+  /**
+   * Stop revalidating
+   */
+  stop(): void {
+    if (this.intervalHandle !== null) {
+      this.clock.clearInterval(this.intervalHandle);
+      this.intervalHandle = null;
+    }
+  }
+
+  /**
+   * Be notified when a pass changed or flagged profiles
+   */
+  subscribe(listener: (result: CategoryRevalidationResult) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Look up every category profiles use and bring the profiles in line.
+   * Overlapping calls share the pass already in progress.
+   */
+  async revalidate(): Promise<APIResult<CategoryRevalidationResult>> {
+    if (!this.activePass) {
+      this.activePass = this.revalidateWithLock().finally(() => {
+        this.activePass = null;
+      });
+    }
+    return this.activePass;
+  }
+
+  private async revalidateWithLock(): Promise<APIResult<CategoryRevalidationResult>> {
+    // Another tab already revalidating will bring every profile in line
+    const skipped: APIResult<CategoryRevalidationResult> = {
+      success: true,
+      data: { checked: 0, updated: [], missing: [], replacements: {}, profiles: [] }
+    };
+    return typeof navigator !== 'undefined' && navigator.locks
+      ? navigator.locks.request(REVALIDATE_LOCK_NAME, { ifAvailable: true }, lock => lock ? this.runPass() : skipped)
+      : this.runPass();
+  }
+
+  private async runPass(): Promise<APIResult<CategoryRevalidationResult>> {
+    const profilesResult = await this.profileRepository.getAll();
+    if (!profilesResult.success || !profilesResult.data) {
+      return {
+        success: false,
+        error: {
+          code: ERROR_CODES.STORAGE_ERROR,
+          message: profilesResult.error?.message ?? 'Failed to read profiles'
+        }
+      };
+    }
+
+    // Each ID with the name profiles stored for it
+    const storedNames = new Map(profilesResult.data
+      .filter(profile => TWITCH_CATEGORY_ID.test(profile.category.id))
+      .map(profile => [profile.category.id, profile.category.name]));
+    const ids = [...storedNames.keys()];
+    const result: CategoryRevalidationResult = { checked: ids.length, updated: [], missing: [], replacements: {}, profiles: [] };
+
+    if (ids.length === 0) {
+      return { success: true, data: result };
+    }
+
+    const lookup = await this.lookupCategories(ids);
+    if (!lookup.success || !lookup.data) {
+      // Signed out or offline; try again on the next pass
+      this.log('Category lookup failed', lookup.error);
+      return { success: false, error: lookup.error, rateLimit: lookup.rateLimit };
+    }
+
+    const found = new Map<string, StreamCategory>(lookup.data.map(game => [game.id, toCategory(game)]));
+    const missing = ids.filter(id => !found.has(id));
+    const replacements = new Map<string, StreamCategory>();
+
+    for (const id of missing) {
+      const replacement = await this.findReplacement(id, storedNames.get(id) ?? '');
+      if (replacement) {
+        replacements.set(id, replacement);
+      }
+    }
+
+    const cached = await this.categoryRepository.cacheCategories([...found.values(), ...replacements.values()]);
+    if (!cached.success) {
+      this.logError('Error caching revalidated categories', cached.error);
+    }
+
+    const synced = await this.profileRepository.syncCategories(new Map(ids.map(id => [id, found.get(id) ?? null])), replacements);
+    if (!synced.success || !synced.data) {
+      this.logError('Error updating profile categories', synced.error);
+      return {
+        success: false,
+        error: {
+          code: ERROR_CODES.STORAGE_ERROR,
+          message: synced.error?.message ?? 'Failed to update profiles'
+        }
+      };
+    }
+
+    const changedIds = new Set(synced.data.map(profile => profile.category.id));
+    result.missing = missing;
+    result.replacements = Object.fromEntries(replacements);
+    result.updated = [...found.values()].filter(category => changedIds.has(category.id));
+    result.profiles = synced.data;
+
+    this.log('Revalidated categories', {
+      checked: result.checked,
+      updated: result.updated.length,
+      missing: result.missing.length,
+      replaced: replacements.size
+    });
+
+    if (result.profiles.length > 0) {
+      this.listeners.forEach(listener => listener(result));
+    }
+
+    return { success: true, data: result, rateLimit: lookup.rateLimit };
+  }
+
+  /**
+   * Search for a missing category's stored name and return the category
+   * Twitch now has under exactly that name, if any
+   */
+  private async findReplacement(missingId: string, name: string): Promise<StreamCategory | null> {
+    if (!name.trim()) {
+      return null;
+    }
+
+    const search = await this.searchCategories(name);
+    if (!search.success || !search.data) {
+      // The profile is still flagged; the replacement can be picked by hand
+      this.log('Replacement search failed', { missingId, error: search.error });
+      return null;
+    }
+
+    const wanted = name.trim().toLowerCase();
+    const match = search.data.find(game => game.id !== missingId && game.name.trim().toLowerCase() === wanted);
+    return match ? toCategory(match) : null;
+  }
+
+  /**
+   * Log messages (respects debug settings)
+   */
+  private log(message: string, data?: unknown): void {
+    if (getPreference('debugLogging')) {
+      console.log(`[Categories] ${message}`, data || '');
+    }
+  }
+
+  /**
+   * Log errors
+   */
+  private logError(message: string, error: unknown): void {
+    console.error(`[Categories] ${message}:`, error);
+  }
+}
+
+// Singleton instance
+let revalidatorInstance: CategoryRevalidator | null = null;
+
+/**
+ * Get the app-wide category revalidator
+ */
+export const getCategoryRevalidator = (): CategoryRevalidator => {
+  if (!revalidatorInstance) {
+    revalidatorInstance = new CategoryRevalidator();
+  }
+  return revalidatorInstance;
+};
+
+/**
+ * Stop and discard the revalidator instance (useful for testing)
+ */
+export const resetCategoryRevalidator = (): void => {
+  revalidatorInstance?.stop();
+  revalidatorInstance = null;
+};
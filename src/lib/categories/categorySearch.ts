@@ -0,0 +1,265 @@
+/**
+ * Category Search
+ *
+ * A small fuzzy index for searching categories without Twitch: whole and
+ * partial names ("minecra"), word prefixes in any order ("leg lea"),
+ * initials and common nicknames ("GTA" finds Grand Theft Auto V) and a typo
+ * or two in longer words ("minecrfat").
+ *
+ * Matches are ranked by how well they match, then lifted by how often and
+ * how recently the user applied each category, so the games someone
+ * actually streams come first.
+ */
+
+import type { StreamCategory } from '@/types/Profile';
+
+/**
+ * Nicknames people type for popular categories, keyed by nickname
+ */
+export const CATEGORY_ALIASES: Record<string, string> = {
+  gta: 'Grand Theft Auto V',
+  gtav: 'Grand Theft Auto V',
+  gta5: 'Grand Theft Auto V',
+  lol: 'League of Legends',
+  wow: 'World of Warcraft',
+  cs: 'Counter-Strike',
+  csgo: 'Counter-Strike',
+  cs2: 'Counter-Strike',
+  ow: 'Overwatch 2',
+  ow2: 'Overwatch 2',
+  val: 'VALORANT',
+  pubg: 'PUBG: BATTLEGROUNDS',
+  rl: 'Rocket League',
+  dbd: 'Dead by Daylight',
+  ffxiv: 'Final Fantasy XIV Online',
+  ff14: 'Final Fantasy XIV Online',
+  tft: 'Teamfight Tactics',
+  hs: 'Hearthstone',
+  mc: 'Minecraft',
+  rdr2: 'Red Dead Redemption 2',
+  jc: 'Just Chatting',
+  scitech: 'Science & Technology'
+};
+
+/** How long a past apply keeps lifting a category */
+const RECENCY_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** Score given to results Twitch returned that don't match locally */
+const UNMATCHED_SCORE = 20;
+
+/**
+ * How often and how recently the user applied a category
+ */
+export interface CategoryUsage {
+  count: number;
+  lastUsedAt: Date;
+}
+
+/**
+ * A category prepared for searching
+ */
+interface IndexedCategory {
+  category: StreamCategory;
+  /** Name words, lowercased without accents */
+  tokens: string[];
+  /** Name with the separators removed */
+  compact: string;
+  /** First letter of each word ("gtav") */
+  initials: string;
+  /** Nicknames for this category */
+  aliases: string[];
+  /** Position when built, so otherwise equal matches keep the given order */
+  order: number;
+}
+
+/**
+ * Searchable set of categories
+ */
+export interface CategoryIndex {
+  entries: IndexedCategory[];
+}
+
+/**
+ * Options for searching an index
+ */
+export interface CategorySearchOptions {
+  /** Usage by category ID, lifting the categories the user applies */
+  usage?: Map<string, CategoryUsage>;
+  limit?: number;
+  /** IDs kept even when they don't match, e.g. results Twitch already matched */
+  keep?: Set<string>;
+  now?: number;
+}
+
+/**
+ * Lowercase words without accents or punctuation
+ */
+const tokenize = (text: string): string[] =>
+  text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+/**
+ * Edit distance counting a swap of neighbouring letters as one edit
+ */
+const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return rows[a.length][b.length];
+};
+
+/**
+ * Typos allowed in a word of this length
+ */
+const allowedTypos = (length: number): number => (length >= 8 ? 2 : length >= 4 ? 1 : 0);
+
+/**
+ * Smallest number of typos between a typed word and a name word, treating
+ * the typed word as possibly unfinished
+ */
+const typoDistance = (typed: string, token: string): number =>
+  Math.min(editDistance(typed, token), editDistance(typed, token.slice(0, typed.length)));
+
+/**
+ * How well a category matches the query, 0 when it doesn't
+ */
+const matchScore = (entry: IndexedCategory, queryTokens: string[]): number => {
+  const query = queryTokens.join('');
+  if (!query) {
+    return 0;
+  }
+
+  if (entry.compact === query) {
+    return 100;
+  }
+  if (entry.aliases.includes(query)) {
+    return 95;
+  }
+  if (entry.compact.startsWith(query)) {
+    return 85;
+  }
+  if (queryTokens.every(typed => entry.tokens.some(token => token.startsWith(typed)))) {
+    return 70;
+  }
+  if (query.length >= 2 && entry.aliases.some(alias => alias.startsWith(query))) {
+    return 65;
+  }
+  if (query.length >= 2 && entry.initials.startsWith(query)) {
+    return 60;
+  }
+  if (entry.compact.includes(query)) {
+    return 50;
+  }
+
+  // Every typed word close to some word of the name
+  let worst = 0;
+  for (const typed of queryTokens) {
+    const distance = Math.min(...entry.tokens.map(token => typoDistance(typed, token)));
+    if (distance > allowedTypos(typed.length)) {
+      return 0;
+    }
+    worst = Math.max(worst, distance);
+  }
+  return 40 - worst * 5;
+};
+
+/**
+ * Lift for categories the user applies often or applied lately
+ */
+const usageBoost = (usage: CategoryUsage | undefined, now: number): number => {
+  if (!usage) {
+    return 0;
+  }
+  const age = now - usage.lastUsedAt.getTime();
+  const recency = age < RECENCY_WINDOW_MS ? 15 * (1 - age / RECENCY_WINDOW_MS) : 0;
+  return Math.min(usage.count, 5) * 3 + recency;
+};
+
+/**
+ * Build a search index; for a category listed twice the first one wins
+ */
+export const buildCategoryIndex = (categories: StreamCategory[]): CategoryIndex => {
+  const aliasesByName = new Map<string, string[]>();
+  Object.entries(CATEGORY_ALIASES).forEach(([alias, name]) => {
+    const key = tokenize(name).join('');
+    aliasesByName.set(key, [...(aliasesByName.get(key) ?? []), alias]);
+  });
+
+  const seen = new Set<string>();
+  const entries: IndexedCategory[] = [];
+
+  categories.forEach(category => {
+    if (seen.has(category.id)) {
+      return;
+    }
+    seen.add(category.id);
+
+    const tokens = tokenize(category.name);
+    const compact = tokens.join('');
+    entries.push({
+      category,
+      tokens,
+      compact,
+      initials: tokens.map(token => token[0]).join(''),
+      aliases: aliasesByName.get(compact) ?? [],
+      order: entries.length
+    });
+  });
+
+  return { entries };
+};
+
+/**
+ * Search an index, best matches first
+ */
+export const searchCategoryIndex = (
+  index: CategoryIndex,
+  query: string,
+  options: CategorySearchOptions = {}
+): StreamCategory[] => {
+  const { usage, limit, keep, now = Date.now() } = options;
+  const queryTokens = tokenize(query);
+
+  const ranked = index.entries
+    .map(entry => {
+      const score = matchScore(entry, queryTokens) || (keep?.has(entry.category.id) ? UNMATCHED_SCORE : 0);
+      return { entry, score: score > 0 ? score + usageBoost(usage?.get(entry.category.id), now) : 0 };
+    })
+    .filter(({ score }) => score > 0)
+    // On a tie the shorter name is the closer match
+    .sort((a, b) => b.score - a.score || a.entry.compact.length - b.entry.compact.length || a.entry.order - b.entry.order)
+    .map(({ entry }) => entry.category);
+
+  return limit !== undefined && limit > 0 ? ranked.slice(0, limit) : ranked;
+};
+
+/**
+ * Tally category usage from past applies
+ */
+export const buildCategoryUsage = (
+  applies: Array<{ category: StreamCategory; appliedAt: Date }>
+): Map<string, CategoryUsage> => {
+  const usage = new Map<string, CategoryUsage>();
+
+  applies.forEach(({ category, appliedAt }) => {
+    const at = new Date(appliedAt);
+    const current = usage.get(category.id);
+    usage.set(category.id, {
+      count: (current?.count ?? 0) + 1,
+      lastUsedAt: current && current.lastUsedAt > at ? current.lastUsedAt : at
+    });
+  });
+
+  return usage;
+};
@@ -4,6 +4,8 @@
  */
 
 import { STORAGE_KEYS } from '@/types/constants';
+import { runMigrations, DatabaseMigrationError, DB_MIGRATIONS, type DBMigration } from './migrations';
+import { readDatabaseVersion, snapshotDatabase, restoreMigrationBackup, type MigrationBackup } from './migrationBackups';
 
 export class IndexedDBWrapper {
   private db: IDBDatabase | null = null
@@ -11,58 +13,75 @@ export class IndexedDBWrapper {
 
   constructor(
     private dbName: string = STORAGE_KEYS.DB_NAME,
-    private version: number = STORAGE_KEYS.DB_VERSION
+    private version: number = STORAGE_KEYS.DB_VERSION,
+    private migrations: DBMigration[] = DB_MIGRATIONS
   ) {}
 
   /**
-   * Initialize the database connection
+   * Initialize the database connection, upgrading the schema if it is behind
+   *
+   * A copy of the database is taken before any upgrade. If a migration step
+   * fails, the upgrade is rolled back and a DatabaseMigrationError is thrown.
    */
   async init(): Promise<void> {
     if (this.isInitialized && this.db) {
       return;
     }
 
+    const currentVersion = await readDatabaseVersion(this.dbName);
+    let backupId: string | undefined;
+
+    if (currentVersion > 0 && currentVersion < this.version) {
+      try {
+        backupId = (await snapshotDatabase(this.version, this.dbName)).id;
+      } catch (error) {
+        // Not being able to back up (for example when storage is full) shouldn't lock the user out
+        console.warn('[IndexedDB] Backup before upgrade failed, upgrading anyway:', error);
+      }
+    }
+
     return new Promise((resolve, reject) => {
       const request = indexedDB.open(this.dbName, this.version);
+      let failure: { version: number; error: unknown } | null = null;
 
       request.onerror = () => {
+        if (failure) {
+          const reason = failure.error instanceof Error ? failure.error.message : String(failure.error);
+          reject(new DatabaseMigrationError(
+            `Database upgrade to version ${failure.version} failed, so the database was left at version ${currentVersion}: ${reason}`,
+            currentVersion,
+            this.version,
+            failure.version,
+            backupId,
+            failure.error
+          ));
+          return;
+        }
         reject(new Error(`Failed to open database: ${request.error?.message}`));
       };
 
       request.onsuccess = () => {
         this.db = request.result;
         this.isInitialized = true;
+
+        // Let another tab running a newer version upgrade the schema
+        this.db.onversionchange = () => {
+          this.close();
+        };
         resolve();
       };
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Create profiles store with proper indexes
-        if (!db.objectStoreNames.contains(STORAGE_KEYS.PROFILES_STORE)) {
-          const profileStore = db.createObjectStore(STORAGE_KEYS.PROFILES_STORE, { keyPath: 'id' });
-          profileStore.createIndex('name', 'name', { unique: false });
-          profileStore.createIndex('createdAt', 'createdAt', { unique: false });
-          profileStore.createIndex('updatedAt', 'updatedAt', { unique: false });
-          profileStore.createIndex('category', 'category.name', { unique: false });
-        }
-
-        // Create categories cache store
-        if (!db.objectStoreNames.contains(STORAGE_KEYS.CATEGORIES_STORE)) {
-          const categoryStore = db.createObjectStore(STORAGE_KEYS.CATEGORIES_STORE, { keyPath: 'id' });
-          categoryStore.createIndex('name', 'name', { unique: false });
-          categoryStore.createIndex('cachedAt', 'cachedAt', { unique: false });
-        }
-
-        // Create auth store
-        if (!db.objectStoreNames.contains(STORAGE_KEYS.AUTH_STORE)) {
-          db.createObjectStore(STORAGE_KEYS.AUTH_STORE, { keyPath: 'key' });
-        }
-
-        // Create preferences store
-        if (!db.objectStoreNames.contains(STORAGE_KEYS.PREFERENCES_STORE)) {
-          db.createObjectStore(STORAGE_KEYS.PREFERENCES_STORE, { keyPath: 'key' });
-        }
+        runMigrations(
+          request.result,
+          request.transaction!,
+          event.oldVersion,
+          event.newVersion ?? this.version,
+          (version, error) => {
+            failure = { version, error };
+          },
+          this.migrations
+        );
       };
     });
   }
@@ -98,6 +117,20 @@ export class IndexedDBWrapper {
     })
   }
 
+  /**
+   * Get all records whose index matches a value
+   */
+  async getAllByIndex<T>(storeName: string, indexName: string, value: IDBValidKey): Promise<T[]> {
+    return new Promise((resolve, reject) => {
+      const transaction = this.getTransaction([storeName])
+      const store = transaction.objectStore(storeName)
+      const request = store.index(indexName).getAll(value)
+
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(request.result)
+    })
+  }
+
   /**
    * Get a record by key
    */
@@ -176,19 +209,21 @@ export class IndexedDBWrapper {
       this.db.close()
       this.db = null
     }
+    this.isInitialized = false
   }
 }
 
 // Singleton instance and initialization promise
 let dbInstance: IndexedDBWrapper | null = null;
 let initPromise: Promise<IndexedDBWrapper> | null = null;
+let restorePromise: Promise<MigrationBackup> | null = null;
 
 /**
  * Get the database instance
  */
 export const getDB = async (): Promise<IndexedDBWrapper> => {
-  // Return existing instance if already initialized
-  if (dbInstance) {
+  // Return existing instance if already initialized (and not closed by an upgrade elsewhere)
+  if (dbInstance?.isReady()) {
     return dbInstance;
   }
 
@@ -197,6 +232,12 @@ export const getDB = async (): Promise<IndexedDBWrapper> => {
     return initPromise;
   }
 
+  // Don't reopen (and so recreate) the database while a backup is being restored
+  if (restorePromise) {
+    await restorePromise.catch(() => undefined);
+    return getDB();
+  }
+
   // Start new initialization
   initPromise = (async () => {
     const instance = new IndexedDBWrapper();
@@ -220,3 +261,18 @@ export const resetDB = (): void => {
   }
   initPromise = null;
 };
+
+/**
+ * Replace the database with a copy taken before an upgrade. The connection
+ * is closed first; the next getDB() upgrades the restored copy again.
+ */
+export const restoreDatabaseBackup = async (backupId: string): Promise<MigrationBackup> => {
+  resetDB();
+  restorePromise = restoreMigrationBackup(backupId);
+
+  try {
+    return await restorePromise;
+  } finally {
+    restorePromise = null;
+  }
+};
@@ -0,0 +1,244 @@
+/**
+ * Migration Backups
+ *
+ * Before the database is upgraded, every store is copied into a separate
+ * backup database. A failed upgrade already leaves the database untouched,
+ * so the snapshots are for upgrades that succeeded but damaged data: the
+ * database can be rebuilt at the snapshot's version and upgraded again.
+ */
+
+import { STORAGE_KEYS } from '@/types/constants';
+import { runMigrations, type DBMigration, DB_MIGRATIONS } from './migrations';
+
+/**
+ * Copy of the database taken before an upgrade
+ */
+export interface MigrationBackup {
+  /** Unique identifier */
+  id: string;
+  /** Version the database was at */
+  version: number;
+  /** Version the upgrade was heading to */
+  targetVersion: number;
+  /** When the copy was taken */
+  takenAt: Date;
+  /** Every record, by store name */
+  stores: Record<string, unknown[]>;
+}
+
+/**
+ * Backup details without the records
+ */
+export type MigrationBackupSummary = Omit<MigrationBackup, 'stores'> & {
+  /** Records across all stores */
+  recordCount: number;
+};
+
+/** Backups kept; older ones are pruned when a new one is taken */
+const MAX_BACKUPS = 3;
+
+const BACKUP_STORE = 'backups';
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Open the backup database
+ */
+const openBackupDB = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(STORAGE_KEYS.MIGRATION_BACKUPS_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(BACKUP_STORE, { keyPath: 'id' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new Error(`Failed to open backup database: ${request.error?.message}`));
+  });
+
+/**
+ * Read a database's current version without creating or upgrading it
+ *
+ * @returns 0 when the database doesn't exist yet
+ */
+export function readDatabaseVersion(dbName: string = STORAGE_KEYS.DB_NAME): Promise<number> {
+  return new Promise((resolve, reject) => {
+    let isNew = false;
+    const request = indexedDB.open(dbName);
+
+    // Opening without a version only upgrades when the database is new;
+    // abort so the probe doesn't create an empty version 1
+    request.onupgradeneeded = () => {
+      isNew = true;
+      request.transaction?.abort();
+    };
+    request.onsuccess = () => {
+      const version = request.result.version;
+      request.result.close();
+      resolve(version);
+    };
+    request.onerror = () => {
+      if (isNew) {
+        resolve(0);
+      } else {
+        reject(new Error(`Failed to read database version: ${request.error?.message}`));
+      }
+    };
+  });
+}
+
+/**
+ * Copy every store of a database into the backup database
+ */
+export async function snapshotDatabase(
+  targetVersion: number,
+  dbName: string = STORAGE_KEYS.DB_NAME
+): Promise<MigrationBackup> {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(dbName);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new Error(`Failed to open database for backup: ${request.error?.message}`));
+  });
+
+  const backup: MigrationBackup = {
+    id: `v${db.version}-${Date.now()}`,
+    version: db.version,
+    targetVersion,
+    takenAt: new Date(),
+    stores: {}
+  };
+
+  try {
+    const storeNames = Array.from(db.objectStoreNames);
+    if (storeNames.length > 0) {
+      // Queue every read up front so the transaction can't commit between them
+      const transaction = db.transaction(storeNames, 'readonly');
+      const records = await Promise.all(
+        storeNames.map(storeName => requestToPromise(transaction.objectStore(storeName).getAll()))
+      );
+      storeNames.forEach((storeName, index) => {
+        backup.stores[storeName] = records[index];
+      });
+    }
+  } finally {
+    db.close();
+  }
+
+  const backupDB = await openBackupDB();
+  try {
+    const store = backupDB.transaction([BACKUP_STORE], 'readwrite').objectStore(BACKUP_STORE);
+    const [, existing] = await Promise.all([
+      requestToPromise(store.put(backup)),
+      requestToPromise(store.getAll()) as Promise<MigrationBackup[]>
+    ]);
+
+    const expired = existing
+      .sort((a, b) => new Date(b.takenAt).getTime() - new Date(a.takenAt).getTime())
+      .slice(MAX_BACKUPS);
+    if (expired.length > 0) {
+      const pruneStore = backupDB.transaction([BACKUP_STORE], 'readwrite').objectStore(BACKUP_STORE);
+      await Promise.all(expired.map(old => requestToPromise(pruneStore.delete(old.id))));
+    }
+  } finally {
+    backupDB.close();
+  }
+
+  return backup;
+}
+
+/**
+ * List the stored backups, newest first
+ */
+export async function listMigrationBackups(): Promise<MigrationBackupSummary[]> {
+  const backupDB = await openBackupDB();
+  try {
+    const backups = await requestToPromise(
+      backupDB.transaction([BACKUP_STORE]).objectStore(BACKUP_STORE).getAll()
+    ) as MigrationBackup[];
+
+    return backups
+      .map(({ stores, ...summary }) => ({
+        ...summary,
+        takenAt: new Date(summary.takenAt),
+        recordCount: Object.values(stores).reduce((total, records) => total + records.length, 0)
+      }))
+      .sort((a, b) => b.takenAt.getTime() - a.takenAt.getTime());
+  } finally {
+    backupDB.close();
+  }
+}
+
+/**
+ * Replace a database with a backup: delete it, rebuild the schema at the
+ * backup's version and write the records back. The next open upgrades it
+ * to the latest version again.
+ *
+ * Every connection to the database must be closed first.
+ */
+export async function restoreMigrationBackup(
+  backupId: string,
+  dbName: string = STORAGE_KEYS.DB_NAME,
+  migrations: DBMigration[] = DB_MIGRATIONS
+): Promise<MigrationBackup> {
+  const backupDB = await openBackupDB();
+  let backup: MigrationBackup | undefined;
+  try {
+    backup = await requestToPromise(
+      backupDB.transaction([BACKUP_STORE]).objectStore(BACKUP_STORE).get(backupId)
+    ) as MigrationBackup | undefined;
+  } finally {
+    backupDB.close();
+  }
+
+  if (!backup) {
+    throw new Error('Backup not found');
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(dbName);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(new Error(`Failed to delete database: ${request.error?.message}`));
+    request.onblocked = () => reject(new Error('Close the app in other tabs before restoring'));
+  });
+
+  const restored = backup;
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    let failure: unknown;
+    const request = indexedDB.open(dbName, restored.version);
+    request.onupgradeneeded = () => {
+      runMigrations(request.result, request.transaction!, 0, restored.version, (_version, error) => {
+        failure = error;
+      }, migrations);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(new Error(
+      `Failed to rebuild database: ${failure instanceof Error ? failure.message : request.error?.message}`
+    ));
+  });
+
+  try {
+    const storeNames = Object.keys(restored.stores).filter(name => db.objectStoreNames.contains(name));
+    if (storeNames.length > 0) {
+      const transaction = db.transaction(storeNames, 'readwrite');
+      const done = new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error ?? new Error('Restore was aborted'));
+      });
+      storeNames.forEach(storeName => {
+        const store = transaction.objectStore(storeName);
+        restored.stores[storeName].forEach(record => store.put(record));
+      });
+      await done;
+    }
+  } finally {
+    db.close();
+  }
+
+  return restored;
+}
@@ -0,0 +1,232 @@
+/**
+ * IndexedDB Schema Migrations
+ *
+ * Ordered, versioned steps that take the database from any earlier version
+ * to STORAGE_KEYS.DB_VERSION. Every step runs inside the upgrade transaction,
+ * so besides creating stores and indexes it can rewrite existing records.
+ * If a step fails the upgrade transaction is aborted and the browser leaves
+ * the database exactly as it was, at its previous version.
+ *
+ * To change the schema, append a step with the next version number and
+ * bump STORAGE_KEYS.DB_VERSION to match. Never edit a step that has shipped.
+ */
+
+import { STORAGE_KEYS, ERROR_CODES } from '@/types/constants';
+import { migrateLegacyProfile } from '@/lib/backup/backupMigrations';
+
+/**
+ * What a migration step can work with
+ */
+export interface MigrationContext {
+  db: IDBDatabase;
+  /** The upgrade transaction, covering every store */
+  transaction: IDBTransaction;
+  /** Version the database is being upgraded from (0 for a new database) */
+  oldVersion: number;
+  /**
+   * Rewrite every record in a store. Return the new record, or undefined
+   * to leave it unchanged. A throw aborts the whole upgrade.
+   */
+  transformRecords: (
+    storeName: string,
+    transform: (record: Record<string, unknown>) => Record<string, unknown> | undefined
+  ) => void;
+}
+
+/**
+ * A single schema version
+ */
+export interface DBMigration {
+  /** Database version this step upgrades to */
+  version: number;
+  /** Shown in logs and in the migration backup list */
+  description: string;
+  migrate: (context: MigrationContext) => void;
+}
+
+/**
+ * Raised when the database can't be upgraded. The database is left at
+ * fromVersion; backupId names the snapshot taken before the attempt.
+ */
+export class DatabaseMigrationError extends Error {
+  readonly code = ERROR_CODES.MIGRATION_FAILED;
+
+  constructor(
+    message: string,
+    readonly fromVersion: number,
+    readonly toVersion: number,
+    readonly failedVersion?: number,
+    readonly backupId?: string,
+    readonly cause?: unknown
+  ) {
+    super(message);
+    this.name = 'DatabaseMigrationError';
+  }
+}
+
+/**
+ * Create a store unless it already exists
+ */
+const ensureStore = (
+  db: IDBDatabase,
+  name: string,
+  indexes: Array<[name: string, keyPath: string]> = [],
+  keyPath = 'id'
+): void => {
+  if (db.objectStoreNames.contains(name)) return;
+
+  const store = db.createObjectStore(name, { keyPath });
+  indexes.forEach(([indexName, indexKeyPath]) => {
+    store.createIndex(indexName, indexKeyPath, { unique: false });
+  });
+};
+
+/**
+ * Registered migrations, oldest first
+ */
+export const DB_MIGRATIONS: DBMigration[] = [
+  {
+    version: 1,
+    description: 'Created profile, category cache, auth and preference stores',
+    migrate: ({ db }) => {
+      ensureStore(db, STORAGE_KEYS.PROFILES_STORE, [
+        ['name', 'name'],
+        ['createdAt', 'createdAt'],
+        ['updatedAt', 'updatedAt'],
+        ['category', 'category.name']
+      ]);
+      ensureStore(db, STORAGE_KEYS.CATEGORIES_STORE, [['name', 'name'], ['cachedAt', 'cachedAt']]);
+      ensureStore(db, STORAGE_KEYS.AUTH_STORE, [], 'key');
+      ensureStore(db, STORAGE_KEYS.PREFERENCES_STORE, [], 'key');
+    }
+  },
+  {
+    version: 2,
+    description: 'Added the apply history store',
+    migrate: ({ db }) => {
+      ensureStore(db, STORAGE_KEYS.HISTORY_STORE, [['appliedAt', 'appliedAt'], ['profileId', 'profileId']]);
+    }
+  },
+  {
+    version: 3,
+    description: 'Added the schedule and scheduler run log stores',
+    migrate: ({ db }) => {
+      ensureStore(db, STORAGE_KEYS.SCHEDULE_STORE, [['dayOfWeek', 'dayOfWeek'], ['profileId', 'profileId']]);
+      ensureStore(db, STORAGE_KEYS.SCHEDULE_RUNS_STORE, [['scheduledFor', 'scheduledFor'], ['slotId', 'slotId']]);
+    }
+  },
+  {
+    version: 4,
+    description: 'Added the stream event log store',
+    migrate: ({ db }) => {
+      ensureStore(db, STORAGE_KEYS.STREAM_EVENTS_STORE, [['detectedAt', 'detectedAt']]);
+    }
+  },
+  {
+    version: 5,
+    description: 'Added profile groups and indexed profiles by group',
+    migrate: ({ db, transaction }) => {
+      ensureStore(db, STORAGE_KEYS.PROFILE_GROUPS_STORE, [['name', 'name']]);
+
+      const profileStore = transaction.objectStore(STORAGE_KEYS.PROFILES_STORE);
+      if (!profileStore.indexNames.contains('groupId')) {
+        profileStore.createIndex('groupId', 'groupId', { unique: false });
+      }
+    }
+  },
+  {
+    // Profiles saved by the first release can still hold {YYYY-MM-DD} and
+    // {DAY}, blank or duplicate tags and null descriptions. Backups from that
+    // release are already cleaned up on import; this does the same in place.
+    version: 6,
+    description: 'Converted legacy title placeholders and tidied tags in stored profiles',
+    migrate: ({ oldVersion, transformRecords }) => {
+      if (oldVersion === 0) return;
+
+      transformRecords(STORAGE_KEYS.PROFILES_STORE, record => {
+        const migrated = migrateLegacyProfile(record);
+        return JSON.stringify(migrated) === JSON.stringify(record) ? undefined : migrated;
+      });
+    }
+  },
+  {
+    version: 7,
+    description: 'Added the offline apply queue store',
+    migrate: ({ db }) => {
+      ensureStore(db, STORAGE_KEYS.APPLY_QUEUE_STORE, [['queuedAt', 'queuedAt']]);
+    }
+  }
+];
+
+/**
+ * Latest version the registered migrations reach
+ */
+export const getLatestMigrationVersion = (migrations: DBMigration[] = DB_MIGRATIONS): number =>
+  migrations.reduce((latest, migration) => Math.max(latest, migration.version), 0);
+
+/**
+ * Run the steps between oldVersion and newVersion inside an upgrade transaction
+ *
+ * @param onFailure - Called once, with the failing step's version, before the transaction is aborted
+ * @returns Versions of the steps that were started, in order
+ */
+export function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number,
+  onFailure: (version: number, error: unknown) => void,
+  migrations: DBMigration[] = DB_MIGRATIONS
+): number[] {
+  const pending = migrations
+    .filter(migration => migration.version > oldVersion && migration.version <= newVersion)
+    .sort((a, b) => a.version - b.version);
+  const started: number[] = [];
+  let failed = false;
+
+  const fail = (version: number, error: unknown) => {
+    if (failed) return;
+    failed = true;
+    onFailure(version, error);
+    try {
+      transaction.abort();
+    } catch {
+      // Already aborted
+    }
+  };
+
+  for (const migration of pending) {
+    const context: MigrationContext = {
+      db,
+      transaction,
+      oldVersion,
+      transformRecords: (storeName, transform) => {
+        const request = transaction.objectStore(storeName).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor || failed) return;
+
+          try {
+            const updated = transform(cursor.value as Record<string, unknown>);
+            if (updated !== undefined) {
+              cursor.update(updated);
+            }
+            cursor.continue();
+          } catch (error) {
+            fail(migration.version, error);
+          }
+        };
+      }
+    };
+
+    try {
+      migration.migrate(context);
+      started.push(migration.version);
+    } catch (error) {
+      fail(migration.version, error);
+      break;
+    }
+  }
+
+  return started;
+}
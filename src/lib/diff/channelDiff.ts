@@ -0,0 +1,182 @@
+/**
+ * Channel Diff
+ *
+ * Compares the live channel state with what applying a profile would set,
+ * field by field, so the user can review (and pick) changes before applying.
+ */
+
+import type { StreamProfile } from '@/types/Profile';
+import { CONTENT_CLASSIFICATION_LABELS } from '@/types/Profile';
+import type { ChannelSnapshot, ChannelField } from '@/types/History';
+import type { TwitchChannelResponse } from '@/types/TwitchAPI';
+import { BROADCASTER_LANGUAGES } from '@/types/constants';
+import { sendableTags } from '@/lib/tags/twitchTags';
+
+/**
+ * Display names for channel fields, in display order
+ */
+export const CHANNEL_FIELD_LABELS: Record<ChannelField, string> = {
+  category: 'Category',
+  title: 'Title',
+  tags: 'Tags',
+  language: 'Language',
+  contentClassificationLabels: 'Content labels',
+  isBrandedContent: 'Branded content'
+};
+
+/**
+ * Tag-level comparison (Twitch treats tags case-insensitively)
+ */
+export interface TagDiff {
+  /** Tags the profile adds */
+  added: string[];
+  /** Live tags the profile drops */
+  removed: string[];
+  /** Tags kept but with different capitalisation */
+  changed: Array<{ from: string; to: string }>;
+  /** Tags identical on both sides */
+  unchanged: string[];
+}
+
+/**
+ * Comparison of a single field
+ */
+export interface ChannelFieldDiff {
+  field: ChannelField;
+  label: string;
+  /** Live value, formatted for display */
+  current: string;
+  /** Value the profile will set, formatted for display */
+  next: string;
+  changed: boolean;
+}
+
+/**
+ * Full comparison between the live channel and a profile
+ */
+export interface ChannelDiff {
+  /** Fields the profile sets; optional fields it leaves alone are omitted */
+  fields: ChannelFieldDiff[];
+  tags: TagDiff;
+  /** Fields whose value would change */
+  changedFields: ChannelField[];
+  hasChanges: boolean;
+}
+
+/**
+ * Convert a Helix channel response into a channel snapshot
+ */
+export function toChannelSnapshot(channel: TwitchChannelResponse): ChannelSnapshot {
+  return {
+    category: { id: channel.game_id, name: channel.game_name },
+    title: channel.title,
+    tags: channel.tags ?? [],
+    language: channel.broadcaster_language,
+    contentClassificationLabels: channel.content_classification_labels ?? [],
+    isBrandedContent: channel.is_branded_content
+  };
+}
+
+/**
+ * Fields a profile sets when applied
+ */
+export function getProfileFields(profile: StreamProfile): ChannelField[] {
+  const fields: ChannelField[] = ['category', 'title', 'tags'];
+
+  if (profile.language !== undefined) fields.push('language');
+  if (profile.contentClassificationLabels !== undefined) fields.push('contentClassificationLabels');
+  if (profile.isBrandedContent !== undefined) fields.push('isBrandedContent');
+
+  return fields;
+}
+
+/**
+ * Compare two tag lists
+ */
+export function diffTags(current: string[], next: string[]): TagDiff {
+  const currentByKey = new Map(current.map(tag => [tag.toLowerCase(), tag]));
+  const nextKeys = new Set(next.map(tag => tag.toLowerCase()));
+  const diff: TagDiff = { added: [], removed: [], changed: [], unchanged: [] };
+
+  next.forEach(tag => {
+    const existing = currentByKey.get(tag.toLowerCase());
+    if (existing === undefined) {
+      diff.added.push(tag);
+    } else if (existing !== tag) {
+      diff.changed.push({ from: existing, to: tag });
+    } else {
+      diff.unchanged.push(tag);
+    }
+  });
+
+  current.forEach(tag => {
+    if (!nextKeys.has(tag.toLowerCase())) {
+      diff.removed.push(tag);
+    }
+  });
+
+  return diff;
+}
+
+const formatLanguage = (code: string): string =>
+  BROADCASTER_LANGUAGES[code as keyof typeof BROADCASTER_LANGUAGES] ?? code;
+
+// Only user-settable labels are compared; Twitch manages the rest
+const formatLabels = (labels: string[]): string => {
+  const names = labels
+    .filter(label => Object.keys(CONTENT_CLASSIFICATION_LABELS).includes(label))
+    .map(label => CONTENT_CLASSIFICATION_LABELS[label as keyof typeof CONTENT_CLASSIFICATION_LABELS])
+    .sort();
+  return names.length > 0 ? names.join(', ') : 'None';
+};
+
+/**
+ * Compare the live channel with what applying the profile would set
+ *
+ * @param current - Live channel state
+ * @param profile - Profile about to be applied
+ * @param title - The profile's processed title
+ */
+export function diffChannel(current: ChannelSnapshot, profile: StreamProfile, title: string): ChannelDiff {
+  const nextTags = sendableTags(profile.tags);
+  const tags = diffTags(current.tags, nextTags);
+
+  const values: Record<ChannelField, { current: string; next: string }> = {
+    category: { current: current.category.name || 'None', next: profile.category.name },
+    title: { current: current.title, next: title },
+    tags: { current: current.tags.join(', ') || 'None', next: nextTags.join(', ') || 'None' },
+    language: { current: formatLanguage(current.language), next: formatLanguage(profile.language ?? '') },
+    contentClassificationLabels: {
+      current: formatLabels(current.contentClassificationLabels),
+      next: formatLabels(profile.contentClassificationLabels ?? [])
+    },
+    isBrandedContent: {
+      current: current.isBrandedContent ? 'Yes' : 'No',
+      next: profile.isBrandedContent ? 'Yes' : 'No'
+    }
+  };
+
+  const fields = getProfileFields(profile).map(field => {
+    const changed = field === 'category'
+      ? current.category.id !== profile.category.id
+      : field === 'tags'
+        ? tags.added.length > 0 || tags.removed.length > 0 || tags.changed.length > 0
+        : values[field].current !== values[field].next;
+
+    return {
+      field,
+      label: CHANNEL_FIELD_LABELS[field],
+      ...values[field],
+      changed
+    };
+  });
+
+  const changedFields = fields.filter(field => field.changed).map(field => field.field);
+
+  return {
+    fields,
+    tags,
+    changedFields,
+    hasChanges: changedFields.length > 0
+  };
+}
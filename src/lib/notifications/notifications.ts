@@ -0,0 +1,98 @@
+/**
+ * Notifications
+ *
+ * Desktop notifications for things that happen without the user clicking,
+ * such as scheduled and go-live profile applies. Only shown while the notifications
+ * preference is on and the browser has granted permission.
+ */
+
+import type { ScheduleRun } from '@/types/Schedule';
+import type { StreamEvent } from '@/types/StreamStatus';
+import type { ApplyIntentOutcome } from '@/types/ApplyQueue';
+import { getPreference } from '@/repositories/PreferencesRepository';
+
+/**
+ * Whether this browser supports desktop notifications
+ */
+export const notificationsSupported = (): boolean =>
+  typeof window !== 'undefined' && 'Notification' in window;
+
+/**
+ * Ask the browser for permission to show notifications
+ */
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (!notificationsSupported()) {
+    return 'unsupported';
+  }
+  if (Notification.permission !== 'default') {
+    return Notification.permission;
+  }
+  return Notification.requestPermission();
+}
+
+/**
+ * Show a notification if the user has them enabled
+ *
+ * @returns Whether a notification was shown
+ */
+export function notify(title: string, body: string): boolean {
+  if (!getPreference('notifications') || !notificationsSupported() || Notification.permission !== 'granted') {
+    return false;
+  }
+
+  new Notification(title, { body, tag: 'scratch-my-twitch' });
+  return true;
+}
+
+/**
+ * Notify about scheduler runs
+ */
+export function notifyScheduleRuns(runs: ScheduleRun[]): void {
+  runs.forEach(run => {
+    const name = run.profileName ?? 'Scheduled profile';
+
+    if (run.status === 'applied') {
+      notify('Profile applied', `"${name}" was applied to your stream`);
+    } else if (run.status === 'failed') {
+      notify('Scheduled apply failed', `"${name}" could not be applied: ${run.reason ?? 'unknown error'}`);
+    }
+  });
+}
+
+/**
+ * Notify about the profile applied when the stream went live
+ */
+export function notifyStreamEvent(event: StreamEvent): void {
+  if (event.type !== 'online') return;
+
+  const name = event.profileName ?? 'Profile';
+
+  if (event.applyStatus === 'applied') {
+    notify('You are live', `"${name}" was applied to your stream`);
+  } else if (event.applyStatus === 'failed') {
+    notify('Go-live apply failed', `"${name}" could not be applied: ${event.reason ?? 'unknown error'}`);
+  }
+}
+
+/**
+ * Notify about queued applies sent (or given up on) once the connection returned
+ */
+export function notifyQueuedApplies(outcomes: ApplyIntentOutcome[]): void {
+  outcomes.forEach(({ intent, status, reason }) => {
+    if (status === 'applied') {
+      notify('Queued apply sent', `"${intent.profileName}" was applied now that Twitch is reachable`);
+    } else {
+      notify('Queued apply dropped', `"${intent.profileName}" was not applied: ${reason ?? 'unknown error'}`);
+    }
+  });
+}
+
+/**
+ * Warn that the Twitch session is about to expire
+ */
+export function notifySessionExpiring(minutes: number): void {
+  notify(
+    'Twitch session expiring',
+    `Your Twitch session expires in ${minutes} minute${minutes === 1 ? '' : 's'}. Sign in again to keep applying profiles.`
+  );
+}
@@ -0,0 +1,370 @@
+/**
+ * Profile Scheduler
+ *
+ * Applies the profile for each weekly schedule slot when the slot starts,
+ * as long as the app is open and auto-apply is enabled. Slots that could
+ * not be applied on time (app closed, device asleep) are logged as missed.
+ * With several tabs open, a Web Lock lets only one of them check at a time.
+ *
+ * Time comes from an injectable clock so the scheduler can be driven
+ * deterministically in tests.
+ */
+
+import { getTwitchAPI, type APIResult, type ApplyProfileOptions } from '@/lib/api/twitchAPI';
+import { applyProfileObsActions } from '@/lib/api/obsWebSocket';
+import { getProfileRepository, type ProfileRepository } from '@/repositories/ProfileRepository';
+import { getScheduleRepository, type ScheduleRepository } from '@/repositories/ScheduleRepository';
+import type { StreamProfile } from '@/types/Profile';
+import type { ScheduleSlot, ScheduleRun } from '@/types/Schedule';
+import { getPreference } from '@/repositories/PreferencesRepository';
+
+/**
+ * Source of time and timers for the scheduler
+ */
+export interface SchedulerClock {
+  now(): Date;
+  setInterval(callback: () => void, ms: number): unknown;
+  clearInterval(handle: unknown): void;
+}
+
+/**
+ * Clock backed by the system time
+ */
+export const systemClock: SchedulerClock = {
+  now: () => new Date(),
+  setInterval: (callback, ms) => window.setInterval(callback, ms),
+  clearInterval: (handle) => window.clearInterval(handle as number)
+};
+
+/**
+ * Scheduler configuration and dependencies
+ */
+export interface ProfileSchedulerOptions {
+  /** Time source (defaults to the system clock) */
+  clock?: SchedulerClock;
+  /** How often to look for due slots, in milliseconds */
+  checkInterval?: number;
+  /** How late a slot may be handled and still be applied, in milliseconds */
+  gracePeriod?: number;
+  /** How far back slots missed while the app was closed are logged, in milliseconds */
+  maxLookback?: number;
+  /** Applies a profile to the channel */
+  applyProfile?: (profile: StreamProfile) => Promise<APIResult<boolean>>;
+  scheduleRepository?: ScheduleRepository;
+  profileRepository?: ProfileRepository;
+}
+
+/**
+ * A concrete start time for a recurring slot
+ */
+export interface SlotOccurrence {
+  slot: ScheduleSlot;
+  scheduledFor: Date;
+}
+
+/** Web Lock held while checking, so two tabs never apply the same slot */
+const CHECK_LOCK_NAME = 'profile-scheduler-check';
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+/**
+ * Update the channel, then run the profile's OBS actions.
+ * OBS failures are logged but don't fail the apply, since the channel was updated.
+ */
+export async function applyToChannelAndObs(
+  profile: StreamProfile,
+  options?: ApplyProfileOptions
+): Promise<APIResult<boolean>> {
+  const result = await getTwitchAPI().applyProfile(profile, options);
+  if (result.success) {
+    const obsResult = await applyProfileObsActions(profile);
+    if (obsResult && !obsResult.success) {
+      console.error(`OBS actions failed after applying "${profile.name}":`, obsResult.error);
+    }
+  }
+  return result;
+}
+
+/**
+ * Split an HH:mm start time into hours and minutes
+ */
+export function parseStartTime(startTime: string): { hours: number; minutes: number } {
+  const [hours, minutes] = startTime.split(':').map(part => parseInt(part, 10));
+  return { hours, minutes };
+}
+
+/**
+ * List slot start times in the window (from, to], oldest first.
+ * Times are local, so a slot keeps its wall-clock time across DST changes.
+ */
+export function getSlotOccurrences(slots: ScheduleSlot[], from: Date, to: Date): SlotOccurrence[] {
+  const occurrences: SlotOccurrence[] = [];
+  if (to <= from) {
+    return occurrences;
+  }
+
+  const day = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+  while (day <= to) {
+    for (const slot of slots) {
+      if (slot.dayOfWeek !== day.getDay()) continue;
+
+      const { hours, minutes } = parseStartTime(slot.startTime);
+      const scheduledFor = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+      if (scheduledFor > from && scheduledFor <= to) {
+        occurrences.push({ slot, scheduledFor });
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+
+  return occurrences.sort((a, b) => a.scheduledFor.getTime() - b.scheduledFor.getTime());
+}
+
+/**
+ * Find the next enabled slot starting after the given time
+ */
+export function getNextOccurrence(slots: ScheduleSlot[], after: Date): SlotOccurrence | null {
+  const enabled = slots.filter(slot => slot.enabled);
+  const upcoming = getSlotOccurrences(enabled, after, new Date(after.getTime() + 8 * DAY));
+  return upcoming[0] ?? null;
+}
+
+/**
+ * Scheduler that applies profiles for due schedule slots
+ */
+export class ProfileScheduler {
+  private readonly clock: SchedulerClock;
+  private readonly checkInterval: number;
+  private readonly gracePeriod: number;
+  private readonly maxLookback: number;
+  private readonly applyProfile: (profile: StreamProfile) => Promise<APIResult<boolean>>;
+  private readonly scheduleRepository: ScheduleRepository;
+  private readonly profileRepository: ProfileRepository;
+
+  private intervalHandle: unknown = null;
+  private activeCheck: Promise<ScheduleRun[]> | null = null;
+  private listeners = new Set<(runs: ScheduleRun[]) => void>();
+
+  constructor(options: ProfileSchedulerOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.checkInterval = options.checkInterval ?? 30 * 1000;
+    this.gracePeriod = options.gracePeriod ?? 5 * MINUTE;
+    this.maxLookback = options.maxLookback ?? 7 * DAY;
+    this.applyProfile = options.applyProfile ?? applyToChannelAndObs;
+    this.scheduleRepository = options.scheduleRepository ?? getScheduleRepository();
+    this.profileRepository = options.profileRepository ?? getProfileRepository();
+  }
+
+  /**
+   * Start checking for due slots
+   */
+  start(): void {
+    if (this.intervalHandle !== null) {
+      return;
+    }
+
+    this.intervalHandle = this.clock.setInterval(() => {
+      void this.check();
+    }, this.checkInterval);
+
+    // Handle anything missed while the app was closed
+    void this.check();
+  }
+
+  /**
+   * Stop checking for due slots
+   */
+  stop(): void {
+    if (this.intervalHandle !== null) {
+      this.clock.clearInterval(this.intervalHandle);
+      this.intervalHandle = null;
+    }
+  }
+
+  /**
+   * Whether the scheduler is started
+   */
+  isRunning(): boolean {
+    return this.intervalHandle !== null;
+  }
+
+  /**
+   * Be notified of run log records produced by a check
+   */
+  subscribe(listener: (runs: ScheduleRun[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Handle every slot that started since the last check.
+   * Overlapping calls share the check already in progress.
+   */
+  async check(): Promise<ScheduleRun[]> {
+    if (!this.activeCheck) {
+      this.activeCheck = this.checkWithLock().finally(() => {
+        this.activeCheck = null;
+      });
+    }
+    return this.activeCheck;
+  }
+
+  private async checkWithLock(): Promise<ScheduleRun[]> {
+    // Another tab already checking will apply the due slot and move the checkpoint along
+    return typeof navigator !== 'undefined' && navigator.locks
+      ? navigator.locks.request(CHECK_LOCK_NAME, { ifAvailable: true }, lock => lock ? this.runCheck() : [])
+      : this.runCheck();
+  }
+
+  private async runCheck(): Promise<ScheduleRun[]> {
+    const now = this.clock.now();
+    const runs: ScheduleRun[] = [];
+
+    try {
+      const [settingsResult, lastCheckedAt] = await Promise.all([
+        this.scheduleRepository.getAutoApplySettings(),
+        this.scheduleRepository.getLastCheckedAt()
+      ]);
+
+      if (!settingsResult.success || !settingsResult.data?.autoApply) {
+        // Nothing is due while auto-apply is off; move the checkpoint along
+        // so enabling it later doesn't report old slots as missed
+        await this.scheduleRepository.setLastCheckedAt(now);
+        return runs;
+      }
+
+      const from = this.getWindowStart(lastCheckedAt, now);
+      const slotsResult = await this.scheduleRepository.getAllSlots();
+      const slots = (slotsResult.data ?? []).filter(slot => slot.enabled);
+      const due = getSlotOccurrences(slots, from, now);
+
+      // Only the most recent slot inside the grace period is applied;
+      // anything older is stale and would be overwritten straight away
+      const onTime = due.filter(occurrence => now.getTime() - occurrence.scheduledFor.getTime() <= this.gracePeriod);
+      const toApply = onTime[onTime.length - 1];
+
+      for (const occurrence of due) {
+        const run = occurrence === toApply
+          ? await this.applyOccurrence(occurrence, now)
+          : await this.recordMissed(occurrence, now, onTime.includes(occurrence)
+            ? 'Superseded by a later slot'
+            : 'The app was closed or asleep when this slot started');
+        runs.push(run);
+      }
+
+      await this.scheduleRepository.setLastCheckedAt(now);
+    } catch (error) {
+      this.logError('Error checking schedule', error);
+    }
+
+    if (runs.length > 0) {
+      this.listeners.forEach(listener => listener(runs));
+    }
+    return runs;
+  }
+
+  /**
+   * Start of the window to check, capped at maxLookback
+   */
+  private getWindowStart(lastCheckedAt: Date | null, now: Date): Date {
+    if (!lastCheckedAt || lastCheckedAt > now) {
+      return now;
+    }
+
+    const earliest = new Date(now.getTime() - this.maxLookback);
+    return lastCheckedAt < earliest ? earliest : lastCheckedAt;
+  }
+
+  private async applyOccurrence(occurrence: SlotOccurrence, now: Date): Promise<ScheduleRun> {
+    const profileResult = await this.profileRepository.getById(occurrence.slot.profileId);
+
+    if (!profileResult.success || !profileResult.data) {
+      return this.saveRun({
+        slotId: occurrence.slot.id,
+        profileId: occurrence.slot.profileId,
+        scheduledFor: occurrence.scheduledFor,
+        handledAt: now,
+        status: 'failed',
+        reason: 'The profile for this slot no longer exists'
+      });
+    }
+
+    const profile = profileResult.data;
+    this.log('Applying scheduled profile', { profileName: profile.name, scheduledFor: occurrence.scheduledFor });
+
+    const result = await this.applyProfile(profile);
+
+    return this.saveRun({
+      slotId: occurrence.slot.id,
+      profileId: profile.id,
+      profileName: profile.name,
+      scheduledFor: occurrence.scheduledFor,
+      handledAt: now,
+      status: result.success ? 'applied' : 'failed',
+      reason: result.success ? undefined : result.error?.message || 'Failed to apply profile'
+    });
+  }
+
+  private async recordMissed(occurrence: SlotOccurrence, now: Date, reason: string): Promise<ScheduleRun> {
+    const profileResult = await this.profileRepository.getById(occurrence.slot.profileId);
+
+    return this.saveRun({
+      slotId: occurrence.slot.id,
+      profileId: occurrence.slot.profileId,
+      profileName: profileResult.data?.name,
+      scheduledFor: occurrence.scheduledFor,
+      handledAt: now,
+      status: 'missed',
+      reason
+    });
+  }
+
+  private async saveRun(run: Omit<ScheduleRun, 'id'>): Promise<ScheduleRun> {
+    const result = await this.scheduleRepository.recordRun(run);
+    if (!result.success || !result.data) {
+      this.logError('Error recording schedule run', result.error);
+      return { ...run, id: '' };
+    }
+    return result.data;
+  }
+
+  /**
+   * Log messages (respects debug settings)
+   */
+  private log(message: string, data?: any): void {
+    if (getPreference('debugLogging')) {
+      console.log(`[Scheduler] ${message}`, data || '');
+    }
+  }
+
+  /**
+   * Log errors
+   */
+  private logError(message: string, error: any): void {
+    console.error(`[Scheduler] ${message}:`, error);
+  }
+}
+
+// Singleton instance
+let schedulerInstance: ProfileScheduler | null = null;
+
+/**
+ * Get the app-wide scheduler instance
+ */
+export const getProfileScheduler = (): ProfileScheduler => {
+  if (!schedulerInstance) {
+    schedulerInstance = new ProfileScheduler();
+  }
+  return schedulerInstance;
+};
+
+/**
+ * Stop and discard the scheduler instance (useful for testing)
+ */
+export const resetProfileScheduler = (): void => {
+  schedulerInstance?.stop();
+  schedulerInstance = null;
+};
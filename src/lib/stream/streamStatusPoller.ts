@@ -0,0 +1,462 @@
+/**
+ * Stream Status Poller
+ *
+ * Polls Helix `GET /streams` to tell whether the channel is live. When a new
+ * stream starts and auto-apply is enabled, applies the profile of the schedule
+ * slot the stream started in, falling back to the default profile, and logs
+ * the event. Polling slows down as the Twitch rate limit bucket runs low and
+ * backs off exponentially while requests fail.
+ *
+ * Every open tab polls, but a Web Lock makes tabs take turns handling a new
+ * stream, so it is applied and logged once.
+ *
+ * Time comes from an injectable clock so the poller can be driven
+ * deterministically in tests.
+ */
+
+import { getTwitchAPI, isAuthError, type APIResult } from '@/lib/api/twitchAPI';
+import { applyToChannelAndObs, getSlotOccurrences, type SlotOccurrence } from '@/lib/scheduler/profileScheduler';
+import { getProfileRepository, type ProfileRepository } from '@/repositories/ProfileRepository';
+import { getScheduleRepository, type ScheduleRepository } from '@/repositories/ScheduleRepository';
+import { getStreamEventRepository, type StreamEventRepository } from '@/repositories/StreamEventRepository';
+import { getPreference } from '@/repositories/PreferencesRepository';
+import type { StreamProfile } from '@/types/Profile';
+import type { TwitchStreamResponse } from '@/types/TwitchAPI';
+import type { StreamStatus, StreamEvent, LiveStreamInfo } from '@/types/StreamStatus';
+
+/**
+ * Source of time and timers for the poller
+ */
+export interface PollerClock {
+  now(): Date;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Clock backed by the system time
+ */
+export const systemPollerClock: PollerClock = {
+  now: () => new Date(),
+  setTimeout: (callback, ms) => window.setTimeout(callback, ms),
+  clearTimeout: (handle) => window.clearTimeout(handle as number)
+};
+
+/**
+ * Poller configuration and dependencies
+ */
+export interface StreamStatusPollerOptions {
+  /** Time source (defaults to the system clock) */
+  clock?: PollerClock;
+  /** Delay between checks while all is well, in milliseconds */
+  pollInterval?: number;
+  /** Longest delay between checks when backing off, in milliseconds */
+  maxBackoff?: number;
+  /** Wait for the rate limit reset once this few requests remain */
+  rateLimitReserve?: number;
+  /** How soon after a stream starts it must be seen to count as going live, in milliseconds */
+  goLiveWindow?: number;
+  /** How long after a slot starts going live still picks that slot, in milliseconds */
+  scheduleLookback?: number;
+  /** How long before a slot starts going live already picks that slot, in milliseconds */
+  scheduleLookahead?: number;
+  /** Reads the live stream (null when offline) */
+  getStream?: () => Promise<APIResult<TwitchStreamResponse | null>>;
+  /** Applies a profile to the channel */
+  applyProfile?: (profile: StreamProfile) => Promise<APIResult<boolean>>;
+  profileRepository?: ProfileRepository;
+  scheduleRepository?: ScheduleRepository;
+  streamEventRepository?: StreamEventRepository;
+}
+
+/** Web Lock held while handling a new stream, so two tabs never both apply for it */
+const GO_LIVE_LOCK_NAME = 'stream-go-live';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Convert a Helix stream to the app's stream info
+ */
+function toLiveStreamInfo(stream: TwitchStreamResponse): LiveStreamInfo {
+  return {
+    id: stream.id,
+    title: stream.title,
+    categoryName: stream.game_name,
+    viewerCount: stream.viewer_count,
+    startedAt: new Date(stream.started_at)
+  };
+}
+
+/**
+ * Poller that tracks whether the channel is live
+ */
+export class StreamStatusPoller {
+  private readonly clock: PollerClock;
+  private readonly pollInterval: number;
+  private readonly maxBackoff: number;
+  private readonly rateLimitReserve: number;
+  private readonly goLiveWindow: number;
+  private readonly scheduleLookback: number;
+  private readonly scheduleLookahead: number;
+  private readonly getStream: () => Promise<APIResult<TwitchStreamResponse | null>>;
+  private readonly applyProfile: (profile: StreamProfile) => Promise<APIResult<boolean>>;
+  private readonly profileRepository: ProfileRepository;
+  private readonly scheduleRepository: ScheduleRepository;
+  private readonly streamEventRepository: StreamEventRepository;
+
+  private running = false;
+  private timeoutHandle: unknown = null;
+  private activeCheck: Promise<StreamStatus> | null = null;
+  private consecutiveFailures = 0;
+  private status: StreamStatus = { state: 'unknown' };
+  private statusListeners = new Set<(status: StreamStatus) => void>();
+  private eventListeners = new Set<(event: StreamEvent) => void>();
+
+  constructor(options: StreamStatusPollerOptions = {}) {
+    this.clock = options.clock ?? systemPollerClock;
+    this.pollInterval = options.pollInterval ?? MINUTE;
+    this.maxBackoff = options.maxBackoff ?? 15 * MINUTE;
+    this.rateLimitReserve = options.rateLimitReserve ?? 10;
+    this.goLiveWindow = options.goLiveWindow ?? 15 * MINUTE;
+    this.scheduleLookback = options.scheduleLookback ?? 2 * HOUR;
+    this.scheduleLookahead = options.scheduleLookahead ?? 15 * MINUTE;
+    this.getStream = options.getStream ?? (() => getTwitchAPI().getStreamStatus());
+    this.applyProfile = options.applyProfile ?? applyToChannelAndObs;
+    this.profileRepository = options.profileRepository ?? getProfileRepository();
+    this.scheduleRepository = options.scheduleRepository ?? getScheduleRepository();
+    this.streamEventRepository = options.streamEventRepository ?? getStreamEventRepository();
+  }
+
+  /**
+   * Start polling
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    void this.check();
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    this.running = false;
+    this.clearTimer();
+  }
+
+  /**
+   * Whether the poller is started
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Latest stream status
+   */
+  getStatus(): StreamStatus {
+    return this.status;
+  }
+
+  /**
+   * Be notified whenever the status changes
+   */
+  subscribe(listener: (status: StreamStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    return () => {
+      this.statusListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Be notified of stream starts and ends as they are logged
+   */
+  subscribeEvents(listener: (event: StreamEvent) => void): () => void {
+    this.eventListeners.add(listener);
+    return () => {
+      this.eventListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Check now, then carry on polling from here.
+   * Overlapping calls share the check already in progress.
+   */
+  async check(): Promise<StreamStatus> {
+    if (!this.activeCheck) {
+      this.activeCheck = this.runCheck().finally(() => {
+        this.activeCheck = null;
+      });
+    }
+    return this.activeCheck;
+  }
+
+  private async runCheck(): Promise<StreamStatus> {
+    this.clearTimer();
+
+    let result: APIResult<TwitchStreamResponse | null>;
+    try {
+      result = await this.getStream();
+    } catch (error) {
+      result = {
+        success: false,
+        error: {
+          code: 'NETWORK_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to check stream status'
+        }
+      };
+    }
+
+    const now = this.clock.now();
+    let status: StreamStatus;
+
+    if (result.success) {
+      const stream = result.data ? toLiveStreamInfo(result.data) : undefined;
+
+      try {
+        if (stream) {
+          await this.handleLive(stream, now);
+        } else if (this.status.state === 'live') {
+          await this.recordEvent({
+            type: 'offline',
+            streamId: this.status.stream?.id,
+            startedAt: this.status.stream?.startedAt,
+            detectedAt: now
+          });
+        }
+      } catch (error) {
+        this.logError('Error handling stream change', error);
+      }
+
+      status = { state: stream ? 'live' : 'offline', stream, lastCheckedAt: now };
+    } else {
+      // Keep the last known state through transient failures
+      status = {
+        ...this.status,
+        state: isAuthError(result.error) ? 'unknown' : this.status.state,
+        lastCheckedAt: now,
+        error: result.error?.message
+      };
+    }
+
+    const delay = this.getNextDelay(result, now);
+    status.nextCheckAt = new Date(now.getTime() + delay);
+    this.setStatus(status);
+
+    if (this.running) {
+      this.timeoutHandle = this.clock.setTimeout(() => {
+        this.timeoutHandle = null;
+        void this.check();
+      }, delay);
+    }
+
+    return status;
+  }
+
+  /**
+   * Work out whether a live stream is a new one, and handle going live if so
+   */
+  private async handleLive(stream: LiveStreamInfo, now: Date): Promise<void> {
+    if (this.status.state === 'live' && this.status.stream?.id === stream.id) {
+      return;
+    }
+
+    // Wait for any tab handling the stream, then see whether it already did
+    if (typeof navigator !== 'undefined' && navigator.locks) {
+      await navigator.locks.request(GO_LIVE_LOCK_NAME, () => this.handleNewStream(stream, now));
+    } else {
+      await this.handleNewStream(stream, now);
+    }
+  }
+
+  private async handleNewStream(stream: LiveStreamInfo, now: Date): Promise<void> {
+    // Already handled, e.g. by another tab or before the app was reloaded
+    const lastOnline = await this.streamEventRepository.getLastOnlineEvent();
+    if (lastOnline.data?.streamId === stream.id) {
+      return;
+    }
+
+    // A stream that has been running a while started before the app was watching
+    if (now.getTime() - stream.startedAt.getTime() > this.goLiveWindow) {
+      this.log('Stream started before polling began; not treating it as going live', { streamId: stream.id });
+      return;
+    }
+
+    await this.handleGoLive(stream, now);
+  }
+
+  /**
+   * Apply the scheduled or default profile for a new stream and log the event
+   */
+  private async handleGoLive(stream: LiveStreamInfo, now: Date): Promise<void> {
+    const event: Omit<StreamEvent, 'id'> = {
+      type: 'online',
+      streamId: stream.id,
+      startedAt: stream.startedAt,
+      detectedAt: now
+    };
+
+    // Read from storage; the cached preferences may still be the defaults this early on
+    const settingsResult = await this.scheduleRepository.getAutoApplySettings();
+    if (!settingsResult.success || !settingsResult.data) {
+      await this.recordEvent({ ...event, applyStatus: 'failed', reason: 'Failed to load auto-apply settings' });
+      return;
+    }
+
+    const settings = settingsResult.data;
+    if (!settings.autoApply) {
+      await this.recordEvent({ ...event, applyStatus: 'skipped', reason: 'Auto-apply is off' });
+      return;
+    }
+
+    const occurrence = await this.findScheduledOccurrence(stream.startedAt);
+    const profileId = occurrence?.slot.profileId ?? settings.defaultProfileId;
+    if (!profileId) {
+      await this.recordEvent({ ...event, applyStatus: 'skipped', reason: 'No scheduled slot or default profile' });
+      return;
+    }
+
+    const profileResult = await this.profileRepository.getById(profileId);
+    const picked: Omit<StreamEvent, 'id'> = {
+      ...event,
+      profileId,
+      profileName: profileResult.data?.name,
+      profileSource: occurrence ? 'schedule' : 'default'
+    };
+
+    if (!profileResult.success || !profileResult.data) {
+      await this.recordEvent({ ...picked, applyStatus: 'failed', reason: 'The profile no longer exists' });
+      return;
+    }
+
+    // The scheduler applies slots as they start; don't apply (and advance counters) twice
+    if (occurrence && await this.wasAppliedBySchedule(occurrence)) {
+      await this.recordEvent({ ...picked, applyStatus: 'skipped', reason: 'Already applied by the schedule' });
+      return;
+    }
+
+    this.log('Stream went live, applying profile', { profileName: profileResult.data.name, source: picked.profileSource });
+    const result = await this.applyProfile(profileResult.data);
+
+    await this.recordEvent({
+      ...picked,
+      applyStatus: result.success ? 'applied' : 'failed',
+      reason: result.success ? undefined : result.error?.message || 'Failed to apply profile'
+    });
+  }
+
+  /**
+   * Find the enabled slot starting closest to the given time, within the lookback/lookahead window
+   */
+  private async findScheduledOccurrence(at: Date): Promise<SlotOccurrence | null> {
+    const slotsResult = await this.scheduleRepository.getAllSlots();
+    const slots = (slotsResult.data ?? []).filter(slot => slot.enabled);
+
+    const candidates = getSlotOccurrences(
+      slots,
+      new Date(at.getTime() - this.scheduleLookback),
+      new Date(at.getTime() + this.scheduleLookahead)
+    );
+    const distance = (occurrence: SlotOccurrence) => Math.abs(occurrence.scheduledFor.getTime() - at.getTime());
+
+    return candidates.sort((a, b) => distance(a) - distance(b))[0] ?? null;
+  }
+
+  private async wasAppliedBySchedule(occurrence: SlotOccurrence): Promise<boolean> {
+    const runsResult = await this.scheduleRepository.getRuns(50);
+    return (runsResult.data ?? []).some(run =>
+      run.slotId === occurrence.slot.id &&
+      run.scheduledFor.getTime() === occurrence.scheduledFor.getTime() &&
+      run.status === 'applied'
+    );
+  }
+
+  /**
+   * Delay before the next check.
+   * Failures back off exponentially; a nearly empty rate limit bucket waits for its reset.
+   */
+  private getNextDelay(result: APIResult<unknown>, now: Date): number {
+    let delay = this.pollInterval;
+
+    // Signed out is not a failure worth backing off for
+    if (result.success || isAuthError(result.error)) {
+      this.consecutiveFailures = 0;
+    } else {
+      this.consecutiveFailures++;
+      delay = this.pollInterval * 2 ** this.consecutiveFailures;
+    }
+
+    const { rateLimit } = result;
+    if (rateLimit && rateLimit.remaining <= this.rateLimitReserve) {
+      // Leave what's left of the bucket for the user's own requests
+      delay = Math.max(delay, rateLimit.reset * 1000 - now.getTime());
+      this.log('Rate limit nearly used up, waiting for reset', rateLimit);
+    }
+
+    return Math.min(delay, this.maxBackoff);
+  }
+
+  private async recordEvent(event: Omit<StreamEvent, 'id'>): Promise<void> {
+    const result = await this.streamEventRepository.recordEvent(event);
+    if (!result.success || !result.data) {
+      this.logError('Error recording stream event', result.error);
+      return;
+    }
+
+    const recorded = result.data;
+    this.eventListeners.forEach(listener => listener(recorded));
+  }
+
+  private setStatus(status: StreamStatus): void {
+    this.status = status;
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  private clearTimer(): void {
+    if (this.timeoutHandle !== null) {
+      this.clock.clearTimeout(this.timeoutHandle);
+      this.timeoutHandle = null;
+    }
+  }
+
+  /**
+   * Log messages (respects debug settings)
+   */
+  private log(message: string, data?: any): void {
+    if (getPreference('debugLogging')) {
+      console.log(`[StreamStatus] ${message}`, data || '');
+    }
+  }
+
+  /**
+   * Log errors
+   */
+  private logError(message: string, error: any): void {
+    console.error(`[StreamStatus] ${message}:`, error);
+  }
+}
+
+// Singleton instance
+let pollerInstance: StreamStatusPoller | null = null;
+
+/**
+ * Get the app-wide stream status poller
+ */
+export const getStreamStatusPoller = (): StreamStatusPoller => {
+  if (!pollerInstance) {
+    pollerInstance = new StreamStatusPoller();
+  }
+  return pollerInstance;
+};
+
+/**
+ * Stop and discard the poller instance (useful for testing)
+ */
+export const resetStreamStatusPoller = (): void => {
+  pollerInstance?.stop();
+  pollerInstance = null;
+};
@@ -0,0 +1,319 @@
+/**
+ * Offline Apply Queue
+ *
+ * Applies requested while Twitch can't be reached are stored instead of
+ * dropped, and sent once the connection is back. The service worker asks
+ * for a flush through Background Sync where the browser supports it; the
+ * window's online event, a slow retry timer and app start cover the rest.
+ *
+ * Applies older than the applyQueueMaxAge preference are dropped rather
+ * than sent, since an hours-old title is rarely still wanted. When an apply
+ * is queued while others for the same account are waiting, the
+ * applyQueueConflictRule preference decides which survive ("last wins" by
+ * default). Applies for other accounts are left alone.
+ */
+
+import { getTwitchAPI, isAuthError, isNetworkError, type APIResult, type ApplyProfileOptions } from '@/lib/api/twitchAPI';
+import { applyToChannelAndObs } from '@/lib/scheduler/profileScheduler';
+import { getApplyQueueRepository, type ApplyQueueRepository } from '@/repositories/ApplyQueueRepository';
+import { getProfileRepository, type ProfileRepository } from '@/repositories/ProfileRepository';
+import { getPreference } from '@/repositories/PreferencesRepository';
+import type { RepositoryResult } from '@/repositories/ProfileRepository';
+import type { StreamProfile } from '@/types/Profile';
+import type { ChannelField } from '@/types/History';
+import type { ApplyIntent, ApplyIntentOutcome } from '@/types/ApplyQueue';
+
+/** Background Sync tag, and the message the service worker posts for it */
+export const APPLY_QUEUE_SYNC_TAG = 'flush-apply-queue';
+
+/** Web Lock held while flushing, so two tabs never send the same apply */
+const FLUSH_LOCK_NAME = 'apply-queue-flush';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Background Sync isn't in the DOM typings yet
+ */
+type SyncRegistration = ServiceWorkerRegistration & {
+  sync?: { register(tag: string): Promise<void> };
+};
+
+/**
+ * Queue configuration and dependencies
+ */
+export interface ApplyQueueOptions {
+  /** Time source (defaults to the system time) */
+  now?: () => Date;
+  /** How often to retry while applies are waiting, in milliseconds */
+  retryInterval?: number;
+  /** Applies a profile to the channel and OBS, like manual and scheduled applies (defaults to applyToChannelAndObs) */
+  applyProfile?: (profile: StreamProfile, options?: ApplyProfileOptions) => Promise<APIResult<boolean>>;
+  /** Works out the account an apply queued now is for */
+  resolveAccountId?: (profile: StreamProfile, accountId?: string) => Promise<string | undefined>;
+  repository?: ApplyQueueRepository;
+  profileRepository?: ProfileRepository;
+}
+
+/**
+ * Queue of applies waiting for Twitch to be reachable
+ */
+export class ApplyQueue {
+  private readonly now: () => Date;
+  private readonly retryInterval: number;
+  private readonly applyProfile: (profile: StreamProfile, options?: ApplyProfileOptions) => Promise<APIResult<boolean>>;
+  private readonly resolveAccountId: (profile: StreamProfile, accountId?: string) => Promise<string | undefined>;
+  private readonly repository: ApplyQueueRepository;
+  private readonly profileRepository: ProfileRepository;
+
+  private retryHandle: number | null = null;
+  private activeFlush: Promise<ApplyIntentOutcome[]> | null = null;
+  private listeners = new Set<(outcomes: ApplyIntentOutcome[]) => void>();
+  private changeListeners = new Set<() => void>();
+
+  constructor(options: ApplyQueueOptions = {}) {
+    this.now = options.now ?? (() => new Date());
+    this.retryInterval = options.retryInterval ?? MINUTE;
+    this.applyProfile = options.applyProfile ?? applyToChannelAndObs;
+    this.resolveAccountId = options.resolveAccountId ?? ((profile, accountId) => getTwitchAPI().getApplyAccountId(profile, accountId));
+    this.repository = options.repository ?? getApplyQueueRepository();
+    this.profileRepository = options.profileRepository ?? getProfileRepository();
+  }
+
+  /**
+   * Start flushing whenever the connection may be back
+   */
+  start(): void {
+    if (this.retryHandle !== null) {
+      return;
+    }
+
+    window.addEventListener('online', this.handleOnline);
+    navigator.serviceWorker?.addEventListener('message', this.handleWorkerMessage);
+    this.retryHandle = window.setInterval(() => {
+      void this.flush();
+    }, this.retryInterval);
+
+    // Send anything queued before the app was closed
+    void this.flush();
+  }
+
+  /**
+   * Stop flushing
+   */
+  stop(): void {
+    if (this.retryHandle === null) {
+      return;
+    }
+
+    window.removeEventListener('online', this.handleOnline);
+    navigator.serviceWorker?.removeEventListener('message', this.handleWorkerMessage);
+    window.clearInterval(this.retryHandle);
+    this.retryHandle = null;
+  }
+
+  /**
+   * Be notified of applies that leave the queue
+   */
+  subscribe(listener: (outcomes: ApplyIntentOutcome[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Be notified whenever this tab changes the queue
+   */
+  subscribeChanges(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Queue an apply, resolving conflicts with applies already waiting for
+   * the same account
+   *
+   * @param accountId - Linked account to apply to once sent; when omitted,
+   *   the account the apply would go to now is stored, so switching
+   *   accounts before the queue is sent doesn't redirect it
+   */
+  async enqueue(profile: StreamProfile, fields?: ChannelField[], accountId?: string): Promise<RepositoryResult<ApplyIntent>> {
+    const pendingResult = await this.repository.getAll();
+    if (!pendingResult.success) {
+      return { success: false, error: pendingResult.error };
+    }
+
+    const targetAccountId = await this.resolveAccountId(profile, accountId);
+    const pending = (pendingResult.data ?? []).filter(intent => intent.accountId === targetAccountId);
+    const rule = getPreference('applyQueueConflictRule');
+
+    if (rule === 'first-wins' && pending.length > 0) {
+      return {
+        success: false,
+        error: {
+          message: `"${pending[0].profileName}" is already waiting to be applied`,
+          code: 'APPLY_ALREADY_QUEUED'
+        }
+      };
+    }
+
+    if (rule === 'last-wins' && pending.length > 0) {
+      const removed = await this.repository.remove(pending.map(intent => intent.id));
+      if (!removed.success) {
+        return { success: false, error: removed.error };
+      }
+    }
+
+    const result = await this.repository.add({
+      profileId: profile.id,
+      profileName: profile.name,
+      fields,
+      accountId: targetAccountId
+    }, this.now());
+    if (result.success) {
+      this.log('Queued apply', { profileName: profile.name, rule, replaced: rule === 'last-wins' ? pending.length : 0 });
+      this.changeListeners.forEach(listener => listener());
+      void this.requestBackgroundSync();
+    }
+    return result;
+  }
+
+  /**
+   * Send every queued apply that hasn't expired.
+   * Overlapping calls share the flush already in progress.
+   */
+  async flush(): Promise<ApplyIntentOutcome[]> {
+    if (!this.activeFlush) {
+      this.activeFlush = this.flushWithLock().finally(() => {
+        this.activeFlush = null;
+      });
+    }
+    return this.activeFlush;
+  }
+
+  private async flushWithLock(): Promise<ApplyIntentOutcome[]> {
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+      return [];
+    }
+
+    // Another tab already flushing will send everything
+    const outcomes = typeof navigator !== 'undefined' && navigator.locks
+      ? await navigator.locks.request(FLUSH_LOCK_NAME, { ifAvailable: true }, lock => lock ? this.runFlush() : [])
+      : await this.runFlush();
+
+    if (outcomes.length > 0) {
+      this.listeners.forEach(listener => listener(outcomes));
+    }
+    this.changeListeners.forEach(listener => listener());
+    return outcomes;
+  }
+
+  private async runFlush(): Promise<ApplyIntentOutcome[]> {
+    const outcomes: ApplyIntentOutcome[] = [];
+
+    try {
+      const pendingResult = await this.repository.getAll();
+      const maxAge = getPreference('applyQueueMaxAge') * MINUTE;
+
+      for (const intent of pendingResult.data ?? []) {
+        if (this.now().getTime() - intent.queuedAt.getTime() > maxAge) {
+          await this.repository.remove([intent.id]);
+          outcomes.push({
+            intent,
+            status: 'expired',
+            reason: `Waited more than ${getPreference('applyQueueMaxAge')} minutes for a connection`
+          });
+          continue;
+        }
+
+        const profileResult = await this.profileRepository.getById(intent.profileId);
+        if (!profileResult.success || !profileResult.data) {
+          await this.repository.remove([intent.id]);
+          outcomes.push({ intent, status: 'failed', reason: 'The profile no longer exists' });
+          continue;
+        }
+
+        this.log('Sending queued apply', { profileName: intent.profileName, queuedAt: intent.queuedAt });
+        const result = await this.applyProfile(profileResult.data, { fields: intent.fields, accountId: intent.accountId });
+
+        if (result.success) {
+          await this.repository.remove([intent.id]);
+          outcomes.push({ intent, status: 'applied' });
+        } else if (isNetworkError(result.error) || isAuthError(result.error)) {
+          // Still unreachable (or signed out); keep this and everything after it for the next flush
+          await this.repository.recordAttempt(intent, result.error?.message || 'Twitch is unreachable');
+          break;
+        } else {
+          await this.repository.remove([intent.id]);
+          outcomes.push({ intent, status: 'failed', reason: result.error?.message || 'Failed to apply profile' });
+        }
+      }
+    } catch (error) {
+      this.logError('Error flushing apply queue', error);
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Ask the service worker to wake the app once the connection is back
+   */
+  private async requestBackgroundSync(): Promise<void> {
+    try {
+      const registration = await navigator.serviceWorker?.getRegistration() as SyncRegistration | undefined;
+      await registration?.sync?.register(APPLY_QUEUE_SYNC_TAG);
+    } catch (error) {
+      // Not supported or not allowed; the online event still flushes
+      this.log('Background Sync unavailable', error);
+    }
+  }
+
+  private handleOnline = (): void => {
+    void this.flush();
+  };
+
+  private handleWorkerMessage = (event: MessageEvent): void => {
+    if (event.data?.type === APPLY_QUEUE_SYNC_TAG) {
+      void this.flush();
+    }
+  };
+
+  /**
+   * Log messages (respects debug settings)
+   */
+  private log(message: string, data?: any): void {
+    if (getPreference('debugLogging')) {
+      console.log(`[ApplyQueue] ${message}`, data || '');
+    }
+  }
+
+  /**
+   * Log errors
+   */
+  private logError(message: string, error: any): void {
+    console.error(`[ApplyQueue] ${message}:`, error);
+  }
+}
+
+// Singleton instance
+let applyQueueInstance: ApplyQueue | null = null;
+
+/**
+ * Get the app-wide apply queue
+ */
+export const getApplyQueue = (): ApplyQueue => {
+  if (!applyQueueInstance) {
+    applyQueueInstance = new ApplyQueue();
+  }
+  return applyQueueInstance;
+};
+
+/**
+ * Stop and discard the apply queue (useful for testing)
+ */
+export const resetApplyQueue = (): void => {
+  applyQueueInstance?.stop();
+  applyQueueInstance = null;
+};
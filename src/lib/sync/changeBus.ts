@@ -0,0 +1,179 @@
+/**
+ * Cross-tab Change Bus
+ *
+ * Repositories announce their writes on a BroadcastChannel so other tabs
+ * (or the installed app alongside a browser tab) can reload what changed.
+ * Messages are only delivered to other tabs; the writing tab already has
+ * the new data. Where BroadcastChannel isn't available the bus does nothing.
+ */
+
+/**
+ * Kind of data that changed
+ */
+export type ChangeTopic =
+  | 'profiles'
+  | 'profileGroups'
+  | 'preferences'
+  | 'schedule'
+  | 'history'
+  | 'streamEvents'
+  | 'auth'
+  | 'applyQueue';
+
+/**
+ * Change announcement sent to other tabs
+ */
+export interface ChangeMessage {
+  topic: ChangeTopic;
+  /** IDs of the records that changed, when known */
+  ids?: string[];
+  /** Tab that made the change */
+  source: string;
+  /** When the change was announced */
+  sentAt: number;
+}
+
+/**
+ * Listener notified when another tab announces a change
+ */
+export type ChangeListener = (message: ChangeMessage) => void;
+
+/** BroadcastChannel name shared by every tab of the app */
+export const CHANGE_CHANNEL_NAME = 'scratch-my-twitch-changes';
+
+const CHANGE_TOPICS: ChangeTopic[] = ['profiles', 'profileGroups', 'preferences', 'schedule', 'history', 'streamEvents', 'auth', 'applyQueue'];
+
+/**
+ * Change bus implementation
+ */
+export class ChangeBus {
+  /** Identifies this tab in the messages it sends */
+  readonly tabId = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+  private channel: BroadcastChannel | null = null;
+  private listeners = new Map<ChangeTopic, Set<ChangeListener>>();
+
+  constructor(
+    channelName: string = CHANGE_CHANNEL_NAME,
+    ChannelImpl: typeof BroadcastChannel | undefined = typeof BroadcastChannel !== 'undefined' ? BroadcastChannel : undefined
+  ) {
+    if (!ChannelImpl) return;
+
+    this.channel = new ChannelImpl(channelName);
+    this.channel.onmessage = (event: MessageEvent) => this.handleMessage(event.data);
+  }
+
+  /**
+   * Whether changes reach other tabs
+   */
+  isAvailable(): boolean {
+    return this.channel !== null;
+  }
+
+  /**
+   * Tell other tabs that data changed
+   */
+  publish(topic: ChangeTopic, ids?: string[]): void {
+    if (!this.channel) return;
+
+    const message: ChangeMessage = {
+      topic,
+      ids,
+      source: this.tabId,
+      sentAt: Date.now()
+    };
+
+    try {
+      this.channel.postMessage(message);
+    } catch (error) {
+      // A closed channel or unclonable payload shouldn't fail the write that triggered it
+      console.warn('[ChangeBus] Failed to publish change:', error);
+    }
+  }
+
+  /**
+   * Listen for changes made in other tabs
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(topics: ChangeTopic | ChangeTopic[], listener: ChangeListener): () => void {
+    const topicList = Array.isArray(topics) ? topics : [topics];
+
+    topicList.forEach(topic => {
+      if (!this.listeners.has(topic)) {
+        this.listeners.set(topic, new Set());
+      }
+      this.listeners.get(topic)!.add(listener);
+    });
+
+    return () => {
+      topicList.forEach(topic => this.listeners.get(topic)?.delete(listener));
+    };
+  }
+
+  /**
+   * Stop sending and receiving changes
+   */
+  close(): void {
+    this.channel?.close();
+    this.channel = null;
+    this.listeners.clear();
+  }
+
+  /**
+   * Pass a message from another tab to the topic's listeners
+   */
+  private handleMessage(data: unknown): void {
+    const message = data as Partial<ChangeMessage> | null;
+    if (
+      !message ||
+      typeof message !== 'object' ||
+      !CHANGE_TOPICS.includes(message.topic as ChangeTopic) ||
+      message.source === this.tabId
+    ) {
+      return;
+    }
+
+    this.listeners.get(message.topic as ChangeTopic)?.forEach(listener => {
+      try {
+        listener(message as ChangeMessage);
+      } catch (error) {
+        console.error('[ChangeBus] Change listener failed:', error);
+      }
+    });
+  }
+}
+
+// Singleton instance
+let changeBusInstance: ChangeBus | null = null;
+
+/**
+ * Get the change bus instance
+ */
+export const getChangeBus = (): ChangeBus => {
+  if (!changeBusInstance) {
+    changeBusInstance = new ChangeBus();
+  }
+  return changeBusInstance;
+};
+
+/**
+ * Close and reset the change bus instance (useful for testing)
+ */
+export const resetChangeBus = (): void => {
+  changeBusInstance?.close();
+  changeBusInstance = null;
+};
+
+/**
+ * Tell other tabs that data changed
+ */
+export const publishChange = (topic: ChangeTopic, ids?: string[]): void => {
+  getChangeBus().publish(topic, ids);
+};
+
+/**
+ * Listen for changes made in other tabs
+ */
+export const subscribeToChanges = (topics: ChangeTopic | ChangeTopic[], listener: ChangeListener): (() => void) =>
+  getChangeBus().subscribe(topics, listener);
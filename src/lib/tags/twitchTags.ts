@@ -0,0 +1,209 @@
+/**
+ * Twitch Tag Rules
+ *
+ * Mirrors how Twitch accepts channel tags: at most 10 per channel, each up
+ * to 25 letters and numbers from any script (accents, Cyrillic, CJK...),
+ * with no spaces or punctuation. Twitch treats tags that differ only in
+ * case as the same tag.
+ *
+ * normalizeTag() cleans up what people type (and what older versions
+ * stored) before the rules are checked: a leading "#" is dropped, and
+ * spaces, hyphens and underscores are removed, so "speed run" becomes
+ * "speedrun".
+ */
+
+import { VALIDATION_LIMITS } from '@/types/constants';
+import { PROFILE_VALIDATION_ERRORS } from '@/types/Profile';
+
+/** Letters, combining marks and numbers from any script */
+const TAG_PATTERN = /^[\p{L}\p{M}\p{N}]+$/u;
+
+/** Separators people use between words, which Twitch doesn't allow */
+const SEPARATOR_PATTERN = /[\s\-_]+/gu;
+
+/**
+ * A tag that breaks one of Twitch's rules
+ */
+export interface TagProblem {
+  code: typeof PROFILE_VALIDATION_ERRORS[keyof typeof PROFILE_VALIDATION_ERRORS];
+  message: string;
+  /** The offending tag; missing when the list as a whole is the problem */
+  tag?: string;
+}
+
+/**
+ * Where a suggested tag comes from
+ */
+export type TagSuggestionSource = 'live' | 'profiles';
+
+/**
+ * A tag offered while typing
+ */
+export interface TagSuggestion {
+  tag: string;
+  source: TagSuggestionSource;
+  /** Profiles using the tag (0 for tags only seen on the live channel) */
+  count: number;
+}
+
+/**
+ * Key two tags share when Twitch considers them the same
+ */
+export function tagKey(tag: string): string {
+  return tag.toLowerCase();
+}
+
+/**
+ * Clean up a typed or stored tag. The result may still break a rule
+ * (e.g. "c++"), which validateTag() reports.
+ */
+export function normalizeTag(tag: string): string {
+  return tag.normalize('NFC').trim().replace(/^#+/, '').replace(SEPARATOR_PATTERN, '');
+}
+
+/**
+ * Normalize every tag, dropping blanks and later duplicates
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+
+  return tags.map(normalizeTag).filter(tag => {
+    const key = tagKey(tag);
+    if (!tag || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Tags as they can be sent to Twitch: normalized, without the ones that
+ * still break a rule, and no more than Twitch allows. Covers tags saved
+ * before the rules were checked and tags restored from backups.
+ */
+export function sendableTags(tags: string[]): string[] {
+  return normalizeTags(tags)
+    .filter(tag => !validateTag(tag))
+    .slice(0, VALIDATION_LIMITS.TAGS_MAX);
+}
+
+/**
+ * Split comma-separated input into tags, normalized
+ */
+export function parseTagInput(text: string): string[] {
+  return normalizeTags(text.split(','));
+}
+
+/**
+ * Check one tag against Twitch's rules
+ */
+export function validateTag(tag: string): TagProblem | null {
+  if ([...tag].length > VALIDATION_LIMITS.TAG_MAX) {
+    return {
+      code: PROFILE_VALIDATION_ERRORS.TAG_TOO_LONG,
+      message: `Tag "${tag}" must be ${VALIDATION_LIMITS.TAG_MAX} characters or less`,
+      tag
+    };
+  }
+  if (!TAG_PATTERN.test(tag)) {
+    return {
+      code: PROFILE_VALIDATION_ERRORS.TAG_INVALID_CHARS,
+      message: `Tag "${tag}" contains invalid characters; use only letters and numbers, without spaces`,
+      tag
+    };
+  }
+  return null;
+}
+
+/**
+ * Check a channel's tags: how many there are, each tag, and duplicates
+ */
+export function validateTags(tags: string[]): TagProblem[] {
+  const problems: TagProblem[] = [];
+
+  if (tags.length > VALIDATION_LIMITS.TAGS_MAX) {
+    problems.push({
+      code: PROFILE_VALIDATION_ERRORS.TAGS_TOO_MANY,
+      message: `Maximum ${VALIDATION_LIMITS.TAGS_MAX} tags allowed`
+    });
+  }
+
+  const seen = new Set<string>();
+  tags.forEach(tag => {
+    const problem = validateTag(tag);
+    if (problem) {
+      problems.push(problem);
+    }
+
+    const key = tagKey(tag);
+    if (seen.has(key)) {
+      problems.push({
+        code: PROFILE_VALIDATION_ERRORS.TAG_DUPLICATE,
+        message: `Tag "${tag}" is listed more than once`,
+        tag
+      });
+    }
+    seen.add(key);
+  });
+
+  return problems;
+}
+
+/**
+ * How many tag lists use each tag, most used first. Tags that differ only
+ * in case are counted together under the first spelling seen.
+ */
+export function countTagUsage(tagLists: string[][]): Array<{ tag: string; count: number }> {
+  const counts = new Map<string, { tag: string; count: number }>();
+
+  tagLists.forEach(tags => {
+    new Set(tags.map(tagKey)).forEach(key => {
+      const entry = counts.get(key);
+      if (entry) {
+        entry.count++;
+      } else {
+        counts.set(key, { tag: tags.find(tag => tagKey(tag) === key)!, count: 1 });
+      }
+    });
+  });
+
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+}
+
+/**
+ * Tags to offer for what has been typed so far. Tags starting with the
+ * query come before tags that only contain it; within each, tags on the
+ * live channel come first, then the most used. Tags already chosen are
+ * left out. An empty query offers the live and most used tags.
+ */
+export function suggestTags(
+  query: string,
+  sources: { used: Array<{ tag: string; count: number }>; live: string[] },
+  chosen: string[] = [],
+  limit = 8
+): TagSuggestion[] {
+  const needle = tagKey(normalizeTag(query));
+  const excluded = new Set(chosen.map(tagKey));
+  const candidates = new Map<string, TagSuggestion>();
+
+  sources.live.forEach(tag => {
+    const normalized = normalizeTag(tag);
+    const key = tagKey(normalized);
+    const count = sources.used.find(entry => tagKey(entry.tag) === key)?.count ?? 0;
+    candidates.set(key, { tag: normalized, source: 'live', count });
+  });
+  sources.used.forEach(({ tag, count }) => {
+    const key = tagKey(tag);
+    if (!candidates.has(key)) {
+      candidates.set(key, { tag, source: 'profiles', count });
+    }
+  });
+
+  const rank = (suggestion: TagSuggestion) =>
+    (tagKey(suggestion.tag).startsWith(needle) ? 0 : 2) + (suggestion.source === 'live' ? 0 : 1);
+
+  return [...candidates.entries()]
+    .filter(([key, suggestion]) => !excluded.has(key) && key.includes(needle) && !validateTag(suggestion.tag))
+    .map(([, suggestion]) => suggestion)
+    .sort((a, b) => rank(a) - rank(b) || b.count - a.count || a.tag.localeCompare(b.tag))
+    .slice(0, limit);
+}
@@ -0,0 +1,762 @@
+/**
+ * Title Template Engine
+ *
+ * Parses and renders stream title templates. Supports dates with arbitrary
+ * formats and time zones, per-profile counters, user-defined variables and
+ * conditional sections. The parser reports problems by character position
+ * so the editor can underline the offending placeholder.
+ *
+ * Syntax overview:
+ * - {date}, {date:dddd MMM D}, {date:HH:mm@America/New_York}
+ * - {episode}, {counter:name}
+ * - {var:name}
+ * - {partner} (co-stream applies)
+ * - {if weekend}...{else}...{/if}, {if !morning}...{/if}
+ * - {YYYY-MM-DD} and {DAY} (legacy shorthands)
+ * - {{ and }} for literal braces
+ */
+
+/**
+ * Values available while rendering a template
+ */
+export interface TemplateContext {
+  /** Point in time to render dates for (defaults to now) */
+  now?: Date;
+  /** IANA time zone used when a placeholder does not name one (defaults to the browser's zone) */
+  timeZone?: string;
+  /** User-defined variables for {var:name} */
+  variables?: Record<string, string>;
+  /** Counter values for {episode} and {counter:name} */
+  counters?: Record<string, number>;
+  /** Other channels in a co-stream apply, for {partner} */
+  partners?: string[];
+}
+
+/**
+ * Parser or render problem, located by character offsets into the template
+ */
+export interface TemplateDiagnostic {
+  /** 'error' blocks saving; 'warning' is rendered literally */
+  severity: 'error' | 'warning';
+  message: string;
+  /** Start offset (inclusive) */
+  start: number;
+  /** End offset (exclusive) */
+  end: number;
+}
+
+/**
+ * Parsed template node
+ */
+export type TemplateNode =
+  | { type: 'text'; value: string; start: number; end: number }
+  | { type: 'placeholder'; name: string; argument?: string; raw: string; start: number; end: number }
+  | {
+      type: 'conditional';
+      condition: string;
+      argument?: string;
+      negate: boolean;
+      then: TemplateNode[];
+      otherwise: TemplateNode[];
+      start: number;
+      end: number;
+    };
+
+/**
+ * Result of parsing a template
+ */
+export interface ParsedTemplate {
+  nodes: TemplateNode[];
+  diagnostics: TemplateDiagnostic[];
+}
+
+/**
+ * Result of rendering a template
+ */
+export interface RenderedTemplate {
+  /** Rendered text */
+  text: string;
+  /** Raw placeholder → rendered value */
+  replacements: Record<string, string>;
+  /** Counter names referenced by the template */
+  counters: string[];
+  diagnostics: TemplateDiagnostic[];
+}
+
+/**
+ * Placeholder definition in the registry
+ */
+interface PlaceholderDefinition {
+  /** Name as written before the optional ":" */
+  name: string;
+  /** Human-readable syntax shown in the editor */
+  syntax: string;
+  description: string;
+  argument: 'none' | 'optional' | 'required';
+  /** Returns an error message for an invalid argument */
+  validate?: (argument: string | undefined) => { message: string; offset: number; length: number } | null;
+  /** Returns undefined when the value cannot be resolved */
+  resolve: (argument: string | undefined, context: Required<Pick<TemplateContext, 'now' | 'timeZone'>> & TemplateContext) => string | undefined;
+  /** Argument used to render the example */
+  exampleArgument?: string;
+  /** Shown in help when the example can't be rendered without an argument */
+  fallbackExample?: string;
+}
+
+/**
+ * Condition definition for {if ...} blocks
+ */
+interface ConditionDefinition {
+  name: string;
+  description: string;
+  argument: 'none' | 'required';
+  test: (argument: string | undefined, parts: DateParts, context: TemplateContext) => boolean;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+
+/** Default format for {date} */
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+/** Counter used by {episode} */
+export const EPISODE_COUNTER = 'episode';
+
+/** Names allowed for variables and counters */
+const IDENTIFIER_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Calendar fields of a date in a specific time zone
+ */
+interface DateParts {
+  year: number;
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+/**
+ * Check whether a time zone name is understood by Intl
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Browser's time zone, used when none is configured
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Read calendar fields of a date as seen in a time zone
+ */
+function getDateParts(date: Date, timeZone: string): DateParts {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'long',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23'
+  });
+
+  const values: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    values[part.type] = part.value;
+  }
+
+  return {
+    year: parseInt(values.year, 10),
+    month: parseInt(values.month, 10),
+    day: parseInt(values.day, 10),
+    weekday: WEEKDAYS.indexOf(values.weekday),
+    hour: parseInt(values.hour, 10) % 24,
+    minute: parseInt(values.minute, 10),
+    second: parseInt(values.second, 10)
+  };
+}
+
+const pad = (value: number, length: number = 2): string => String(value).padStart(length, '0');
+
+const ordinal = (value: number): string => {
+  const remainder = value % 100;
+  if (remainder >= 11 && remainder <= 13) return `${value}th`;
+  switch (value % 10) {
+    case 1: return `${value}st`;
+    case 2: return `${value}nd`;
+    case 3: return `${value}rd`;
+    default: return `${value}th`;
+  }
+};
+
+/**
+ * Date format tokens, longest first so "MMMM" wins over "MM"
+ */
+const DATE_TOKENS: Array<[string, (parts: DateParts) => string]> = [
+  ['YYYY', p => String(p.year)],
+  ['YY', p => pad(p.year % 100)],
+  ['MMMM', p => MONTHS[p.month - 1]],
+  ['MMM', p => MONTHS[p.month - 1].slice(0, 3)],
+  ['MM', p => pad(p.month)],
+  ['M', p => String(p.month)],
+  ['dddd', p => WEEKDAYS[p.weekday]],
+  ['ddd', p => WEEKDAYS[p.weekday].slice(0, 3)],
+  ['Do', p => ordinal(p.day)],
+  ['DD', p => pad(p.day)],
+  ['D', p => String(p.day)],
+  ['HH', p => pad(p.hour)],
+  ['H', p => String(p.hour)],
+  ['hh', p => pad(p.hour % 12 || 12)],
+  ['h', p => String(p.hour % 12 || 12)],
+  ['mm', p => pad(p.minute)],
+  ['ss', p => pad(p.second)],
+  ['A', p => (p.hour < 12 ? 'AM' : 'PM')],
+  ['a', p => (p.hour < 12 ? 'am' : 'pm')]
+];
+
+/**
+ * Format a date with moment-style tokens. Text in [brackets] is kept literally.
+ */
+export function formatTemplateDate(date: Date, format: string, timeZone: string): string {
+  const parts = getDateParts(date, timeZone);
+  let output = '';
+  let index = 0;
+
+  while (index < format.length) {
+    if (format[index] === '[') {
+      const close = format.indexOf(']', index + 1);
+      if (close !== -1) {
+        output += format.slice(index + 1, close);
+        index = close + 1;
+        continue;
+      }
+    }
+
+    const token = DATE_TOKENS.find(([pattern]) => format.startsWith(pattern, index));
+    if (token) {
+      output += token[1](parts);
+      index += token[0].length;
+    } else {
+      output += format[index];
+      index++;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Split a {date:...} argument into format and time zone
+ */
+function splitDateArgument(argument: string | undefined): { format: string; timeZone?: string } {
+  if (!argument) {
+    return { format: DEFAULT_DATE_FORMAT };
+  }
+  const at = argument.lastIndexOf('@');
+  if (at === -1) {
+    return { format: argument };
+  }
+  return {
+    format: argument.slice(0, at) || DEFAULT_DATE_FORMAT,
+    timeZone: argument.slice(at + 1)
+  };
+}
+
+const validateIdentifier = (kind: string) => (argument: string | undefined) => {
+  if (!argument || !IDENTIFIER_PATTERN.test(argument)) {
+    return {
+      message: `${kind} name must use letters, numbers, "-" or "_"`,
+      offset: 0,
+      length: argument?.length ?? 0
+    };
+  }
+  return null;
+};
+
+/**
+ * Placeholder registry. Everything that lists, validates or renders
+ * placeholders is driven from this table.
+ */
+export const TEMPLATE_PLACEHOLDERS: readonly PlaceholderDefinition[] = [
+  {
+    name: 'date',
+    syntax: '{date:FORMAT@TIME_ZONE}',
+    description: 'Date/time with an optional format (e.g. "dddd MMM D", "HH:mm") and IANA time zone',
+    argument: 'optional',
+    exampleArgument: 'ddd, MMM D',
+    validate: argument => {
+      const { timeZone } = splitDateArgument(argument);
+      if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+        const offset = argument!.lastIndexOf('@') + 1;
+        return { message: `Unknown time zone "${timeZone}"`, offset, length: timeZone.length };
+      }
+      return null;
+    },
+    resolve: (argument, context) => {
+      const { format, timeZone } = splitDateArgument(argument);
+      if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+        return undefined;
+      }
+      return formatTemplateDate(context.now, format, timeZone ?? context.timeZone);
+    }
+  },
+  {
+    name: 'episode',
+    syntax: '{episode}',
+    description: 'Episode number, increased after each successful apply',
+    argument: 'none',
+    resolve: (_argument, context) => String(context.counters?.[EPISODE_COUNTER] ?? 1)
+  },
+  {
+    name: 'counter',
+    syntax: '{counter:NAME}',
+    description: 'Named counter, increased after each successful apply',
+    argument: 'required',
+    exampleArgument: 'session',
+    validate: validateIdentifier('Counter'),
+    resolve: (argument, context) => String(context.counters?.[argument!] ?? 1)
+  },
+  {
+    name: 'var',
+    syntax: '{var:NAME}',
+    description: 'Variable defined on the profile',
+    argument: 'required',
+    exampleArgument: 'project',
+    validate: validateIdentifier('Variable'),
+    resolve: (argument, context) => context.variables?.[argument!]
+  },
+  {
+    name: 'partner',
+    syntax: '{partner}',
+    description: 'The other channels in a co-stream apply, joined with "&"',
+    argument: 'none',
+    fallbackExample: '(co-stream applies only)',
+    resolve: (_argument, context) => context.partners?.length ? context.partners.join(' & ') : undefined
+  },
+  {
+    name: 'YYYY-MM-DD',
+    syntax: '{YYYY-MM-DD}',
+    description: 'Current date',
+    argument: 'none',
+    resolve: (_argument, context) => formatTemplateDate(context.now, DEFAULT_DATE_FORMAT, context.timeZone)
+  },
+  {
+    name: 'DAY',
+    syntax: '{DAY}',
+    description: 'Current day of week',
+    argument: 'none',
+    resolve: (_argument, context) => formatTemplateDate(context.now, 'dddd', context.timeZone)
+  }
+];
+
+/**
+ * Condition registry for {if ...} blocks
+ */
+export const TEMPLATE_CONDITIONS: readonly ConditionDefinition[] = [
+  {
+    name: 'weekend',
+    description: 'Saturday or Sunday',
+    argument: 'none',
+    test: (_argument, parts) => parts.weekday === 0 || parts.weekday === 6
+  },
+  {
+    name: 'weekday',
+    description: 'Monday to Friday',
+    argument: 'none',
+    test: (_argument, parts) => parts.weekday >= 1 && parts.weekday <= 5
+  },
+  {
+    name: 'morning',
+    description: 'Before 12:00',
+    argument: 'none',
+    test: (_argument, parts) => parts.hour < 12
+  },
+  {
+    name: 'afternoon',
+    description: '12:00 to 17:59',
+    argument: 'none',
+    test: (_argument, parts) => parts.hour >= 12 && parts.hour < 18
+  },
+  {
+    name: 'evening',
+    description: '18:00 or later',
+    argument: 'none',
+    test: (_argument, parts) => parts.hour >= 18
+  },
+  ...WEEKDAYS.map((day, index): ConditionDefinition => ({
+    name: day.toLowerCase(),
+    description: `On ${day}s`,
+    argument: 'none',
+    test: (_argument, parts) => parts.weekday === index
+  })),
+  {
+    name: 'var',
+    description: 'Variable is set and not empty',
+    argument: 'required',
+    test: (argument, _parts, context) => Boolean(context.variables?.[argument!]?.trim())
+  }
+];
+
+/**
+ * Split "name:argument" at the first colon
+ */
+function splitName(content: string): { name: string; argument?: string } {
+  const colon = content.indexOf(':');
+  if (colon === -1) {
+    return { name: content };
+  }
+  return { name: content.slice(0, colon), argument: content.slice(colon + 1) };
+}
+
+interface OpenConditional {
+  node: Extract<TemplateNode, { type: 'conditional' }>;
+  inElse: boolean;
+  /** Offset of the "{if" for unclosed-block errors */
+  openEnd: number;
+}
+
+/**
+ * Parse a template into nodes, collecting diagnostics with character offsets
+ */
+export function parseTitleTemplate(template: string): ParsedTemplate {
+  const root: TemplateNode[] = [];
+  const diagnostics: TemplateDiagnostic[] = [];
+  const stack: OpenConditional[] = [];
+
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.node.otherwise : top.node.then;
+  };
+
+  const pushText = (value: string, start: number, end: number) => {
+    const nodes = current();
+    const last = nodes[nodes.length - 1];
+    if (last && last.type === 'text' && last.end === start) {
+      last.value += value;
+      last.end = end;
+    } else {
+      nodes.push({ type: 'text', value, start, end });
+    }
+  };
+
+  let index = 0;
+  while (index < template.length) {
+    const char = template[index];
+
+    // Escaped braces
+    if ((char === '{' || char === '}') && template[index + 1] === char) {
+      pushText(char, index, index + 2);
+      index += 2;
+      continue;
+    }
+
+    if (char !== '{') {
+      pushText(char, index, index + 1);
+      index++;
+      continue;
+    }
+
+    const close = template.indexOf('}', index + 1);
+    const nextOpen = template.indexOf('{', index + 1);
+    if (close === -1 || (nextOpen !== -1 && nextOpen < close)) {
+      const end = close === -1 ? template.length : nextOpen;
+      diagnostics.push({
+        severity: 'error',
+        message: 'Placeholder is missing a closing "}"',
+        start: index,
+        end
+      });
+      pushText(template.slice(index, end), index, end);
+      index = end;
+      continue;
+    }
+
+    const start = index;
+    const end = close + 1;
+    const raw = template.slice(start, end);
+    const content = template.slice(start + 1, close);
+    index = end;
+
+    // {if condition}
+    const ifMatch = /^if(?:\s+|$)(!?)\s*(.*)$/.exec(content);
+    if (ifMatch) {
+      const negate = ifMatch[1] === '!';
+      const { name, argument } = splitName(ifMatch[2].trim());
+      const definition = TEMPLATE_CONDITIONS.find(condition => condition.name === name);
+      // Underline the condition itself, or the whole tag when it is missing
+      const conditionStart = ifMatch[2] ? start + 1 + content.length - ifMatch[2].length : start;
+      const conditionEnd = ifMatch[2] ? conditionStart + ifMatch[2].length : end;
+
+      if (!definition) {
+        diagnostics.push({
+          severity: 'error',
+          message: name === ''
+            ? '{if} needs a condition, e.g. {if weekend}'
+            : `Unknown condition "${name}". Available: ${TEMPLATE_CONDITIONS.map(c => c.name).join(', ')}`,
+          start: conditionStart,
+          end: conditionEnd
+        });
+      } else if (definition.argument === 'required' && !argument) {
+        diagnostics.push({
+          severity: 'error',
+          message: `Condition "${name}" needs a name, e.g. {if ${name}:NAME}`,
+          start: conditionStart,
+          end: conditionEnd
+        });
+      } else if (definition.argument === 'none' && argument !== undefined) {
+        diagnostics.push({
+          severity: 'error',
+          message: `Condition "${name}" does not take an argument`,
+          start: conditionStart,
+          end: conditionEnd
+        });
+      }
+
+      const node: Extract<TemplateNode, { type: 'conditional' }> = {
+        type: 'conditional',
+        condition: name,
+        argument,
+        negate,
+        then: [],
+        otherwise: [],
+        start,
+        end
+      };
+      current().push(node);
+      stack.push({ node, inElse: false, openEnd: end });
+      continue;
+    }
+
+    if (content === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top) {
+        diagnostics.push({ severity: 'error', message: '{else} without a matching {if}', start, end });
+        pushText(raw, start, end);
+      } else if (top.inElse) {
+        diagnostics.push({ severity: 'error', message: 'Only one {else} is allowed per {if}', start, end });
+      } else {
+        top.inElse = true;
+      }
+      continue;
+    }
+
+    if (content === '/if') {
+      const top = stack.pop();
+      if (!top) {
+        diagnostics.push({ severity: 'error', message: '{/if} without a matching {if}', start, end });
+        pushText(raw, start, end);
+      } else {
+        top.node.end = end;
+      }
+      continue;
+    }
+
+    const { name, argument } = splitName(content);
+    const definition = TEMPLATE_PLACEHOLDERS.find(placeholder => placeholder.name === name);
+
+    if (!definition) {
+      diagnostics.push({
+        severity: 'warning',
+        message: `Unknown placeholder "${raw}" will be left as-is`,
+        start,
+        end
+      });
+      pushText(raw, start, end);
+      continue;
+    }
+
+    const argumentStart = start + 1 + name.length + 1;
+    if (definition.argument === 'none' && argument !== undefined) {
+      diagnostics.push({
+        severity: 'error',
+        message: `${definition.syntax} does not take an argument`,
+        start,
+        end
+      });
+    } else if (definition.argument === 'required' && !argument) {
+      diagnostics.push({
+        severity: 'error',
+        message: `${definition.syntax} needs a name`,
+        start,
+        end
+      });
+    } else {
+      const problem = definition.validate?.(argument);
+      if (problem) {
+        diagnostics.push({
+          severity: 'error',
+          message: problem.message,
+          start: argumentStart + problem.offset,
+          end: argumentStart + problem.offset + Math.max(problem.length, 1)
+        });
+      }
+    }
+
+    current().push({ type: 'placeholder', name, argument, raw, start, end });
+  }
+
+  for (const open of stack) {
+    diagnostics.push({
+      severity: 'error',
+      message: '{if} is missing its closing {/if}',
+      start: open.node.start,
+      end: open.openEnd
+    });
+  }
+
+  diagnostics.sort((a, b) => a.start - b.start);
+  return { nodes: root, diagnostics };
+}
+
+/**
+ * Render a template with the given context
+ */
+export function renderTitleTemplate(template: string, context: TemplateContext = {}): RenderedTemplate {
+  const { nodes, diagnostics } = parseTitleTemplate(template);
+  const resolvedContext = {
+    ...context,
+    now: context.now ?? new Date(),
+    timeZone: context.timeZone && isValidTimeZone(context.timeZone) ? context.timeZone : getLocalTimeZone()
+  };
+  const parts = getDateParts(resolvedContext.now, resolvedContext.timeZone);
+  const replacements: Record<string, string> = {};
+  const counters = new Set<string>();
+
+  const renderNodes = (list: TemplateNode[]): string => list.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.value;
+      case 'conditional': {
+        const definition = TEMPLATE_CONDITIONS.find(condition => condition.name === node.condition);
+        if (!definition) {
+          return '';
+        }
+        const result = definition.test(node.argument, parts, resolvedContext) !== node.negate;
+        return renderNodes(result ? node.then : node.otherwise);
+      }
+      case 'placeholder': {
+        const definition = TEMPLATE_PLACEHOLDERS.find(placeholder => placeholder.name === node.name)!;
+        if (node.name === 'episode') counters.add(EPISODE_COUNTER);
+        if (node.name === 'counter' && node.argument) counters.add(node.argument);
+
+        const value = definition.resolve(node.argument, resolvedContext);
+        if (value === undefined) {
+          diagnostics.push({
+            severity: 'warning',
+            message: `${node.raw} has no value and will be left as-is`,
+            start: node.start,
+            end: node.end
+          });
+          return node.raw;
+        }
+        replacements[node.raw] = value;
+        return value;
+      }
+    }
+  }).join('');
+
+  const text = renderNodes(nodes);
+  diagnostics.sort((a, b) => a.start - b.start);
+
+  return {
+    text,
+    replacements,
+    counters: [...counters],
+    diagnostics
+  };
+}
+
+/**
+ * Whether the template contains any placeholder or conditional
+ */
+export function templateHasPlaceholders(template: string): boolean {
+  const hasDynamic = (nodes: TemplateNode[]): boolean =>
+    nodes.some(node => node.type !== 'text');
+  return hasDynamic(parseTitleTemplate(template).nodes);
+}
+
+/**
+ * Counter names referenced anywhere in the template, including both branches of conditionals
+ */
+export function getTemplateCounters(template: string): string[] {
+  const names = new Set<string>();
+  const visit = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'placeholder') {
+        if (node.name === 'episode') names.add(EPISODE_COUNTER);
+        if (node.name === 'counter' && node.argument) names.add(node.argument);
+      } else if (node.type === 'conditional') {
+        visit(node.then);
+        visit(node.otherwise);
+      }
+    }
+  };
+  visit(parseTitleTemplate(template).nodes);
+  return [...names];
+}
+
+/**
+ * Variable names referenced anywhere in the template
+ */
+export function getTemplateVariables(template: string): string[] {
+  const names = new Set<string>();
+  const visit = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'placeholder' && node.name === 'var' && node.argument) {
+        names.add(node.argument);
+      } else if (node.type === 'conditional') {
+        if (node.condition === 'var' && node.argument) names.add(node.argument);
+        visit(node.then);
+        visit(node.otherwise);
+      }
+    }
+  };
+  visit(parseTitleTemplate(template).nodes);
+  return [...names];
+}
+
+/**
+ * Placeholder list for help text, with examples rendered against the context
+ */
+export function describeTemplatePlaceholders(context: TemplateContext = {}): Array<{
+  placeholder: string;
+  description: string;
+  example: string;
+}> {
+  const resolvedContext = {
+    ...context,
+    now: context.now ?? new Date(),
+    timeZone: context.timeZone && isValidTimeZone(context.timeZone) ? context.timeZone : getLocalTimeZone()
+  };
+
+  return TEMPLATE_PLACEHOLDERS.map(definition => ({
+    placeholder: definition.syntax,
+    description: definition.description,
+    example: definition.resolve(definition.exampleArgument, resolvedContext) ??
+      definition.fallbackExample ?? `(set ${definition.exampleArgument})`
+  }));
+}
+
+/**
+ * Check whether a variable or counter name is allowed
+ */
+export function isValidTemplateIdentifier(name: string): boolean {
+  return IDENTIFIER_PATTERN.test(name);
+}
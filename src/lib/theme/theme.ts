@@ -0,0 +1,48 @@
+/**
+ * Theme
+ *
+ * Applies the theme preference to the document. Dark mode is driven by a
+ * `dark` class on <html>, which index.css uses to swap the colour palette.
+ */
+
+import type { UserPreferences } from '@/types';
+
+export type ThemePreference = UserPreferences['theme'];
+
+const DARK_QUERY = '(prefers-color-scheme: dark)';
+
+/**
+ * Resolve a theme preference to the theme that should be shown
+ */
+export function resolveTheme(theme: ThemePreference): 'light' | 'dark' {
+  if (theme !== 'system') {
+    return theme;
+  }
+  return window.matchMedia?.(DARK_QUERY).matches ? 'dark' : 'light';
+}
+
+/**
+ * Apply a theme preference to the document
+ *
+ * For 'system' the document follows OS changes until the returned cleanup runs.
+ */
+export function applyTheme(theme: ThemePreference): () => void {
+  const root = document.documentElement;
+
+  const update = () => {
+    const resolved = resolveTheme(theme);
+    root.classList.toggle('dark', resolved === 'dark');
+    root.style.colorScheme = resolved;
+    root.dataset.theme = resolved;
+  };
+
+  update();
+
+  if (theme !== 'system' || !window.matchMedia) {
+    return () => {};
+  }
+
+  const query = window.matchMedia(DARK_QUERY);
+  query.addEventListener('change', update);
+  return () => query.removeEventListener('change', update);
+}
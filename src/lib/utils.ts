@@ -1,4 +1,6 @@
 import type { AppConfig } from '@/types'
+import { processTitle } from '@/types/ProfileUtils'
+import { parseTitleTemplate } from '@/lib/templates/titleTemplate'
 
 /**
  * Application configuration
@@ -23,22 +25,15 @@ export const config: AppConfig = {
  * Dynamic title placeholder resolver
  */
 export const resolveTitlePlaceholders = (title: string): string => {
-  const now = new Date()
-  
-  return title
-    .replace('{YYYY-MM-DD}', now.toISOString().split('T')[0])
-    .replace('{DAY}', now.toLocaleDateString('en-US', { weekday: 'long' }))
+  return processTitle(title).processed
 }
 
 /**
  * Validate if a string contains valid title placeholders
+ * Unknown placeholders are only warnings and are sent as written, so they don't count
  */
 export const isValidTitleTemplate = (title: string): boolean => {
-  const validPlaceholders = ['{YYYY-MM-DD}', '{DAY}']
-  const placeholderRegex = /{[^}]+}/g
-  const matches = title.match(placeholderRegex) || []
-  
-  return matches.every(match => validPlaceholders.includes(match))
+  return parseTitleTemplate(title).diagnostics.every(diagnostic => diagnostic.severity !== 'error')
 }
 
 /**
@@ -1,37 +1,39 @@
 /**
  * Auth Callback Component
  *
- * Handles the OAuth callback from Twitch using implicit grant flow (access token in URL hash)
+ * Handles the OAuth callback from Twitch: an access token in the URL hash (implicit grant)
+ * or an authorization code in the query (PKCE)
  */
 
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { readCallbackParams } from '@/lib/auth/authStrategies';
+import { getTwitchAuth } from '@/lib/auth/twitchAuth';
 
 export default function AuthCallback(): JSX.Element {
   const navigate = useNavigate();
   const { isAuthenticated, error } = useAuth();
   const [isProcessing, setIsProcessing] = useState(true);
   const [callbackError, setCallbackError] = useState<string | null>(null);
+  const [isPopupDone, setIsPopupDone] = useState(false);
 
   useEffect(() => {
     const processCallback = async () => {
       try {
-        // In implicit flow, tokens are in the URL hash, not query params
-        const hashParams = new URLSearchParams(window.location.hash.substring(1));
+        const params = readCallbackParams(window.location.href);
 
         // Check for error parameter
-        const errorParam = hashParams.get('error');
+        const errorParam = params.get('error');
         if (errorParam) {
-          const errorDescription = hashParams.get('error_description');
+          const errorDescription = params.get('error_description');
           setCallbackError(`Authentication failed: ${errorParam}${errorDescription ? ' - ' + errorDescription : ''}`);
           setIsProcessing(false);
           return;
         }
 
-        // Check for access token (implicit flow)
-        const accessToken = hashParams.get('access_token');
-        if (!accessToken) {
+        // Check for an access token (implicit grant) or authorization code (PKCE)
+        if (!params.get('access_token') && !params.get('code')) {
           setCallbackError('No access token received from Twitch');
           setIsProcessing(false);
           return;
@@ -54,15 +56,46 @@ export default function AuthCallback(): JSX.Element {
     processCallback();
   }, []);
 
-  // Redirect to dashboard if authentication successful
+  // Redirect to where signing in started (or close the re-auth popup) if authentication successful
   useEffect(() => {
     if (!isProcessing && isAuthenticated) {
+      const { returnTo, popup } = getTwitchAuth().consumeCallbackDestination();
+
+      // The opening tab picks up the new token over the change bus
+      if (popup && window.opener) {
+        window.close();
+        setIsPopupDone(true);
+        return;
+      }
+
       // Clear URL parameters and redirect
-      window.history.replaceState({}, document.title, '/');
-      navigate('/', { replace: true });
+      const destination = returnTo ?? '/';
+      window.history.replaceState({}, document.title, destination);
+      navigate(destination, { replace: true });
     }
   }, [isProcessing, isAuthenticated, navigate]);
 
+  // Shown if the browser keeps the popup open
+  if (isPopupDone) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-neutral-50">
+        <div className="max-w-md w-full mx-4">
+          <div className="scandi-card text-center">
+            <div className="text-6xl mb-6">✅</div>
+
+            <h1 className="text-2xl font-medium text-neutral-900 mb-4">
+              Signed In
+            </h1>
+
+            <p className="text-neutral-600">
+              You can close this window and return to Scratch My Twitch.
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Show error state
   if (callbackError || (!isProcessing && error)) {
     return (
@@ -0,0 +1,323 @@
+import { useState, type JSX } from 'react'
+import { Link } from 'react-router-dom'
+import { useBackup } from '@/hooks/useBackup'
+import type { ConflictResolution, ImportAction } from '@/types/Backup'
+
+const RESOLUTION_OPTIONS: Array<{ value: ConflictResolution; label: string; help: string }> = [
+  { value: 'skip', label: 'Skip', help: 'Keep your existing profile' },
+  { value: 'overwrite', label: 'Overwrite', help: 'Replace your profile with the backup' },
+  { value: 'rename', label: 'Keep both', help: 'Import the backup under a new name' },
+  { value: 'merge', label: 'Merge', help: 'Keep your profile, adding tags, variables and missing fields from the backup' },
+]
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'New',
+  overwrite: 'Overwrite',
+  rename: 'Keep both',
+  merge: 'Merge',
+  skip: 'Skip',
+}
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  create: 'bg-green-50 text-green-700',
+  overwrite: 'bg-yellow-50 text-yellow-700',
+  rename: 'bg-blue-50 text-blue-700',
+  merge: 'bg-blue-50 text-blue-700',
+  skip: 'bg-neutral-100 text-neutral-600',
+}
+
+export default function BackupPage(): JSX.Element {
+  const {
+    profiles,
+    backup,
+    conflicts,
+    resolutions,
+    defaultResolution,
+    plan,
+    isLoading,
+    isImporting,
+    error,
+    exportBackup,
+    loadBackup,
+    loadBackupFile,
+    setResolution,
+    resolveAll,
+    importBackup,
+    cancelImport,
+    clearError
+  } = useBackup()
+
+  const [pastedBackup, setPastedBackup] = useState('')
+  const [importedMessage, setImportedMessage] = useState<string | null>(null)
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setImportedMessage(null)
+    await loadBackupFile(file)
+  }
+
+  const handleCheckPasted = (e: React.FormEvent) => {
+    e.preventDefault()
+    setImportedMessage(null)
+    loadBackup(pastedBackup)
+  }
+
+  const handleImport = async () => {
+    const imported = await importBackup()
+    if (imported) {
+      setPastedBackup('')
+      setImportedMessage(`Imported ${imported.writes.length} profile${imported.writes.length === 1 ? '' : 's'} from the backup`)
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="text-center">
+          <div className="text-4xl mb-4 animate-pulse">⏳</div>
+          <p className="text-lg text-neutral-600">Loading profiles...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-4xl font-medium text-neutral-900 mb-3">
+          Backup &amp; Restore
+        </h1>
+        <p className="text-lg text-neutral-600">
+          Save your profiles to a file, or bring them back from one
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+          <p className="text-red-800 text-sm">{error}</p>
+          <button onClick={clearError} className="text-red-700 hover:text-red-900 text-sm underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {importedMessage && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between" role="status">
+          <p className="text-green-800 text-sm">
+            ✅ {importedMessage}. <Link to="/" className="underline">View profiles</Link>
+          </p>
+          <button onClick={() => setImportedMessage(null)} className="text-green-700 hover:text-green-900 text-sm underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Export */}
+      <section className="scandi-card mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-medium text-neutral-900 mb-1">Back Up</h2>
+          <p className="text-sm text-neutral-600">
+            {profiles.length === 0
+              ? 'You have no profiles to back up yet'
+              : `Download all ${profiles.length} profile${profiles.length === 1 ? '' : 's'} as a JSON file`}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={exportBackup}
+          className="scandi-btn disabled:opacity-50 disabled:cursor-not-allowed"
+          disabled={profiles.length === 0}
+        >
+          Download Backup
+        </button>
+      </section>
+
+      {/* Restore */}
+      {!backup || !plan ? (
+        <section className="scandi-card">
+          <h2 className="text-lg font-medium text-neutral-900 mb-4">Restore</h2>
+          <div className="mb-6">
+            <label htmlFor="backupFile" className="block text-sm font-medium text-neutral-700 mb-2">
+              Backup file
+            </label>
+            <input
+              type="file"
+              id="backupFile"
+              name="backupFile"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              className="block text-sm text-neutral-600"
+            />
+          </div>
+          <form onSubmit={handleCheckPasted}>
+            <label htmlFor="backupText" className="block text-sm font-medium text-neutral-700 mb-2">
+              Or paste a backup
+            </label>
+            <textarea
+              id="backupText"
+              name="backupText"
+              value={pastedBackup}
+              onChange={(e) => setPastedBackup(e.target.value)}
+              rows={6}
+              className="scandi-input w-full h-auto py-2 font-mono text-xs mb-4"
+              placeholder='{ "version": "1.2", "profiles": [...] }'
+            />
+            <button
+              type="submit"
+              className="scandi-btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={pastedBackup.trim().length === 0}
+            >
+              Check Backup
+            </button>
+          </form>
+        </section>
+      ) : (
+        <>
+          {/* Backup details */}
+          <section className="scandi-card mb-6">
+            <h2 className="text-lg font-medium text-neutral-900 mb-1">Backup Contents</h2>
+            <p className="text-sm text-neutral-600">
+              {backup.profiles.length + backup.invalid.length} profile{backup.profiles.length + backup.invalid.length === 1 ? '' : 's'}
+              {backup.exportedAt && <> saved {backup.exportedAt.toLocaleString()}</>}
+              {' '}· format {backup.version}
+            </p>
+
+            {backup.migrations.length > 0 && (
+              <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800" data-testid="backup-migrations">
+                <p className="font-medium mb-1">Upgraded from an older backup format</p>
+                <ul className="list-disc list-inside text-xs">
+                  {backup.migrations.map(migration => <li key={migration}>{migration}</li>)}
+                </ul>
+              </div>
+            )}
+
+            {backup.invalid.length > 0 && (
+              <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800" data-testid="invalid-profiles">
+                <p className="font-medium mb-1">
+                  {backup.invalid.length} profile{backup.invalid.length === 1 ? '' : 's'} can't be imported
+                </p>
+                <ul className="list-disc list-inside text-xs">
+                  {backup.invalid.map(profile => (
+                    <li key={profile.index}>
+                      {profile.name || `Profile #${profile.index + 1}`}: {profile.errors.map(e => e.message).join(', ')}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </section>
+
+          {/* Conflicts */}
+          {conflicts.length > 0 && (
+            <section className="scandi-card mb-6" data-testid="import-conflicts">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 mb-4">
+                <h2 className="text-lg font-medium text-neutral-900">
+                  {conflicts.length} Conflict{conflicts.length === 1 ? '' : 's'}
+                </h2>
+                <label className="flex items-center space-x-2 text-sm text-neutral-600">
+                  <span>For all:</span>
+                  <select
+                    name="resolveAll"
+                    value={defaultResolution}
+                    onChange={(e) => resolveAll(e.target.value as ConflictResolution)}
+                    className="scandi-input"
+                  >
+                    {RESOLUTION_OPTIONS.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <ul className="divide-y divide-neutral-100">
+                {conflicts.map(conflict => (
+                  <li
+                    key={conflict.incoming.id}
+                    className="py-3 flex flex-col md:flex-row md:items-center md:justify-between gap-2"
+                    data-testid="import-conflict"
+                  >
+                    <div>
+                      <p className="text-sm font-medium text-neutral-900">{conflict.incoming.name}</p>
+                      <p className="text-xs text-neutral-500">
+                        {conflict.type === 'id'
+                          ? `Same profile as "${conflict.existing.name}"`
+                          : `Same name as an existing profile`}
+                      </p>
+                    </div>
+                    <select
+                      name={`resolution-${conflict.incoming.id}`}
+                      aria-label={`Resolve ${conflict.incoming.name}`}
+                      value={resolutions[conflict.incoming.id] ?? defaultResolution}
+                      onChange={(e) => setResolution(conflict.incoming.id, e.target.value as ConflictResolution)}
+                      className="scandi-input"
+                    >
+                      {RESOLUTION_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value} title={option.help}>{option.label}</option>
+                      ))}
+                    </select>
+                  </li>
+                ))}
+              </ul>
+              <dl className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-xs text-neutral-500">
+                {RESOLUTION_OPTIONS.map(option => (
+                  <div key={option.value}>
+                    <dt className="inline font-medium text-neutral-700">{option.label}:</dt> <dd className="inline">{option.help}</dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          )}
+
+          {/* Dry run */}
+          <section className="scandi-card mb-6" data-testid="import-summary">
+            <h2 className="text-lg font-medium text-neutral-900 mb-1">What Will Happen</h2>
+            <p className="text-sm text-neutral-600 mb-4">
+              Nothing has been changed yet. Review the result below, then import.
+            </p>
+            <p className="text-sm text-neutral-900 mb-4" data-testid="import-counts">
+              {[
+                `${plan.counts.create} new`,
+                `${plan.counts.overwrite} overwritten`,
+                `${plan.counts.merge} merged`,
+                `${plan.counts.rename} kept as copies`,
+                `${plan.counts.skip} skipped`,
+                `${plan.invalid.length} invalid`,
+              ].join(' · ')}
+            </p>
+            <ul className="space-y-2">
+              {plan.items.map(item => (
+                <li key={item.incoming.id} className="flex items-center space-x-3 text-sm" data-action={item.action}>
+                  <span className={`px-2 py-0.5 rounded-full text-xs ${ACTION_STYLES[item.action]}`}>
+                    {ACTION_LABELS[item.action]}
+                  </span>
+                  <span className="text-neutral-900">{item.result?.name ?? item.incoming.name}</span>
+                  {item.result && item.result.name !== item.incoming.name && (
+                    <span className="text-xs text-neutral-500">(from "{item.incoming.name}")</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+
+          <div className="flex items-center justify-end space-x-3">
+            <button type="button" onClick={cancelImport} className="scandi-btn-secondary" disabled={isImporting}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleImport}
+              className="scandi-btn disabled:opacity-50 disabled:cursor-not-allowed"
+              disabled={isImporting || plan.writes.length === 0}
+            >
+              {isImporting
+                ? 'Importing...'
+                : `Import ${plan.writes.length} profile${plan.writes.length === 1 ? '' : 's'}`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -2,7 +2,17 @@ import { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { useProfiles } from '@/hooks/useProfiles'
 import { CategorySearchDropdown } from '@/components/CategorySearchDropdown'
+import { TitleTemplateField } from '@/components/TitleTemplateField'
+import { ChannelSettingsFields, type ChannelSettingsValue } from '@/components/ChannelSettingsFields'
+import { ObsActionsFields, cleanObsActions } from '@/components/ObsActionsFields'
+import { ProfileGroupField } from '@/components/ProfileGroupField'
+import { ProfileAccountField } from '@/components/ProfileAccountField'
+import { TagInput } from '@/components/TagInput'
+import { parseTitleTemplate, getTemplateVariables, getTemplateCounters } from '@/lib/templates/titleTemplate'
+import { validateTags } from '@/lib/tags/twitchTags'
+import { pickTemplateValues } from '@/types/ProfileUtils'
 import type { CreateProfileInput, StreamCategory } from '@/types/Profile'
+import type { ObsProfileActions } from '@/types/Obs'
 
 export default function CreateProfile(): JSX.Element {
   const navigate = useNavigate()
@@ -11,11 +21,17 @@ export default function CreateProfile(): JSX.Element {
   const [formData, setFormData] = useState({
     name: '',
     description: '',
-    title: '',
-    tags: ''
+    title: ''
   })
 
   const [selectedCategory, setSelectedCategory] = useState<StreamCategory | null>(null)
+  const [channelSettings, setChannelSettings] = useState<ChannelSettingsValue>({})
+  const [obsActions, setObsActions] = useState<ObsProfileActions>({})
+  const [tags, setTags] = useState<string[]>([])
+  const [groupId, setGroupId] = useState<string | undefined>(undefined)
+  const [ownerId, setOwnerId] = useState<string | undefined>(undefined)
+  const [templateVariables, setTemplateVariables] = useState<Record<string, string>>({})
+  const [templateCounters, setTemplateCounters] = useState<Record<string, number>>({})
   
   const [formErrors, setFormErrors] = useState<Record<string, string>>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -40,19 +56,20 @@ export default function CreateProfile(): JSX.Element {
       errors.title = 'Stream title is required'
     } else if (formData.title.length > 140) {
       errors.title = 'Stream title must be 140 characters or less'
+    } else if (parseTitleTemplate(formData.title).diagnostics.some(d => d.severity === 'error')) {
+      errors.title = 'Fix the highlighted template errors'
     }
     
     // Tags validation
-    if (formData.tags) {
-      const tagArray = formData.tags.split(',').map(tag => tag.trim()).filter(Boolean)
-      if (tagArray.length > 10) {
-        errors.tags = 'Maximum 10 tags allowed'
-      }
-      
-      const invalidTags = tagArray.filter(tag => tag.length > 25)
-      if (invalidTags.length > 0) {
-        errors.tags = 'Each tag must be 25 characters or less'
-      }
+    const tagProblems = validateTags(tags)
+    if (tagProblems.length > 0) {
+      errors.tags = tagProblems.map(problem => problem.message).join('. ')
+    }
+    
+    // OBS validation
+    const cleanedObsActions = cleanObsActions(obsActions)
+    if (cleanedObsActions?.sources?.some(source => !source.sceneName) && !cleanedObsActions.scene) {
+      errors.obs = 'Choose a scene for each source, or set the profile scene'
     }
     
     setFormErrors(errors)
@@ -75,9 +92,15 @@ export default function CreateProfile(): JSX.Element {
         description: formData.description.trim() || undefined,
         category: selectedCategory!,
         title: formData.title.trim(),
-        tags: formData.tags
-          ? formData.tags.split(',').map(tag => tag.trim()).filter(Boolean)
-          : []
+        tags,
+        variables: pickTemplateValues(templateVariables, getTemplateVariables(formData.title)),
+        counters: pickTemplateValues(templateCounters, getTemplateCounters(formData.title)),
+        language: channelSettings.language,
+        contentClassificationLabels: channelSettings.contentClassificationLabels,
+        isBrandedContent: channelSettings.isBrandedContent,
+        obsActions: cleanObsActions(obsActions),
+        groupId,
+        ownerId
       }
       
       const newProfile = await createProfile(profileInput)
@@ -184,6 +207,9 @@ export default function CreateProfile(): JSX.Element {
                 />
               </div>
 
+              <ProfileGroupField value={groupId} onChange={setGroupId} disabled={isFormDisabled} />
+              <ProfileAccountField value={ownerId} onChange={setOwnerId} disabled={isFormDisabled} />
+
               <div>
                 <label htmlFor="category" className="block text-sm font-medium text-neutral-700 mb-2">
                   Twitch Category *
@@ -210,49 +236,61 @@ export default function CreateProfile(): JSX.Element {
                 <label htmlFor="title" className="block text-sm font-medium text-neutral-700 mb-2">
                   Stream Title Template *
                 </label>
-                <input
-                  type="text"
-                  id="title"
-                  name="title"
+                <TitleTemplateField
                   value={formData.title}
                   onChange={handleChange}
-                  className={`scandi-input w-full ${formErrors.title ? 'border-red-300 bg-red-50' : ''}`}
-                  placeholder="e.g., Morning Pages - {DAY} Reflection"
+                  variables={templateVariables}
+                  onVariablesChange={setTemplateVariables}
+                  counters={templateCounters}
+                  onCountersChange={setTemplateCounters}
+                  error={formErrors.title}
                   disabled={isFormDisabled}
-                  required
                 />
-                {formErrors.title && (
-                  <p className="text-red-600 text-xs mt-1">{formErrors.title}</p>
-                )}
-                <p className="text-xs text-neutral-500 mt-1">
-                  Use {`{DAY}`} for day of week, {`{YYYY-MM-DD}`} for date
-                </p>
               </div>
 
-              <div>
-                <label htmlFor="tags" className="block text-sm font-medium text-neutral-700 mb-2">
-                  Tags
-                </label>
-                <input
-                  type="text"
-                  id="tags"
-                  name="tags"
-                  value={formData.tags}
-                  onChange={handleChange}
-                  className={`scandi-input w-full ${formErrors.tags ? 'border-red-300 bg-red-50' : ''}`}
-                  placeholder="journal, morning, reflection (comma separated)"
-                  disabled={isFormDisabled}
-                />
-                {formErrors.tags && (
-                  <p className="text-red-600 text-xs mt-1">{formErrors.tags}</p>
-                )}
-                <p className="text-xs text-neutral-500 mt-1">
-                  Separate tags with commas, max 10 tags
-                </p>
-              </div>
+              <TagInput
+                value={tags}
+                onChange={(next) => {
+                  setTags(next)
+                  setFormErrors(prev => ({ ...prev, tags: '' }))
+                }}
+                error={formErrors.tags}
+                disabled={isFormDisabled}
+              />
             </div>
           </div>
 
+          <div className="scandi-card">
+            <h2 className="text-xl font-medium text-neutral-900 mb-2">
+              Channel Settings
+            </h2>
+            <p className="text-sm text-neutral-600 mb-6">
+              Optional. Anything left as "Don't change" keeps its current value on Twitch.
+            </p>
+
+            <ChannelSettingsFields
+              value={channelSettings}
+              onChange={setChannelSettings}
+              disabled={isFormDisabled}
+            />
+          </div>
+
+          <div className="scandi-card">
+            <h2 className="text-xl font-medium text-neutral-900 mb-2">
+              OBS
+            </h2>
+            <p className="text-sm text-neutral-600 mb-6">
+              Optional. Switch OBS to these scenes and sources after the profile is applied.
+            </p>
+
+            <ObsActionsFields
+              value={obsActions}
+              onChange={setObsActions}
+              error={formErrors.obs}
+              disabled={isFormDisabled}
+            />
+          </div>
+
           <div className="flex items-center justify-between">
             <button
               type="button"
@@ -1,17 +1,39 @@
-import { Link } from 'react-router-dom'
+import { useState, useMemo, useEffect, type FormEvent, type DragEvent } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
 import { useProfiles } from '@/hooks/useProfiles'
+import { useProfileGroups } from '@/hooks/useProfileGroups'
 import { useAPIHealth } from '@/hooks/useAPIHealth'
-import { processTitle } from '@/types/ProfileUtils'
+import { useApplyQueue } from '@/hooks/useApplyQueue'
+import { usePreferences } from '@/hooks/usePreferences'
+import { useAccounts } from '@/hooks/useAccounts'
+import { processProfileTitle, sortProfilesByPosition, isProfileForAccount } from '@/types/ProfileUtils'
+import { PROFILE_SECTIONS } from '@/types/ProfileGroup'
 import { APIStatusIndicator } from '@/components/APIStatus'
+import { ProfileSection, PROFILE_DRAG_TYPE, getDraggedProfileId } from '@/components/ProfileSection'
+import { ApplyPreviewDialog } from '@/components/ApplyPreviewDialog'
+import { CoStreamDialog } from '@/components/CoStreamDialog'
+import { CategoryReplacementDialog } from '@/components/CategoryReplacementDialog'
+import { BoxArt } from '@/components/BoxArt'
+import { CONTENT_CLASSIFICATION_LABELS, type StreamProfile } from '@/types/Profile'
+import type { ChannelField } from '@/types/History'
+import { BROADCASTER_LANGUAGES } from '@/types/constants'
+import { hasObsActions } from '@/lib/api/obsWebSocket'
+import { BOX_ART_SIZES, cacheBoxArt } from '@/lib/categories/boxArt'
 
 export default function Dashboard(): JSX.Element {
   const { 
     profiles, 
     isLoading, 
     error, 
+    obsWarning,
     deleteProfile, 
     applyProfile,
+    toggleFavorite,
+    replaceCategory,
+    moveProfile,
+    refreshProfiles,
     clearError,
+    clearObsWarning,
     isEmpty,
     profileCount 
   } = useProfiles()
@@ -32,17 +54,348 @@ export default function Dashboard(): JSX.Element {
     }
   }
 
-  const handleApplyProfile = async (profile: any) => {
+  const {
+    intents: queuedApplies,
+    lastOutcomes: queueOutcomes,
+    isFlushing,
+    error: queueError,
+    queueApply,
+    removeIntent,
+    flushNow,
+    clearOutcomes,
+    clearError: clearQueueError
+  } = useApplyQueue()
+
+  const { preferences, updatePreferences } = usePreferences()
+  const { accounts, activeAccountId } = useAccounts()
+  const {
+    groups,
+    error: groupError,
+    createGroup,
+    renameGroup,
+    deleteGroup,
+    clearError: clearGroupError
+  } = useProfileGroups()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const groupFilter = searchParams.get('group') ?? ''
+  const [newGroupName, setNewGroupName] = useState('')
+  const [isAddingGroup, setIsAddingGroup] = useState(false)
+  const [previewProfile, setPreviewProfile] = useState<StreamProfile | null>(null)
+  const [coStreamProfile, setCoStreamProfile] = useState<StreamProfile | null>(null)
+  const [replacingProfile, setReplacingProfile] = useState<StreamProfile | null>(null)
+  const [isApplying, setIsApplying] = useState(false)
+  const [appliedMessage, setAppliedMessage] = useState<string | null>(null)
+
+  // Keep box art for the profiles' categories available offline
+  useEffect(() => {
+    cacheBoxArt(profiles.map(profile => profile.category), BOX_ART_SIZES.card)
+  }, [profiles])
+
+  const runApply = async (profile: StreamProfile, fields?: ChannelField[]) => {
     // Clear any previous errors before applying
     clearError()
-    
-    const success = await applyProfile(profile)
+    setAppliedMessage(null)
+    setIsApplying(true)
+
+    // Twitch is unreachable; send it once it's back
+    if (shouldDisableActions()) {
+      await queueApply(profile, fields, activeAccountId ?? undefined)
+      setIsApplying(false)
+      setPreviewProfile(null)
+      return
+    }
+
+    const processedTitle = processProfileTitle(profile)
+    const success = await applyProfile(profile, { fields, accountId: activeAccountId ?? undefined })
+
+    setIsApplying(false)
+    setPreviewProfile(null)
+
     if (success) {
-      const processedTitle = processTitle(profile.title)
-      // Show success notification
-      alert(`✅ Successfully applied profile "${profile.name}" to your Twitch stream!\n\nTitle: ${processedTitle.processed}\nCategory: ${profile.category.name}\nTags: ${profile.tags.join(', ')}`)
+      setAppliedMessage(`Applied "${profile.name}" to your stream: ${processedTitle.processed}`)
+    }
+    // Error handling is managed by the useProfiles hook
+  }
+
+  const handleApplyProfile = (profile: StreamProfile) => {
+    if (preferences.confirmActions) {
+      setPreviewProfile(profile)
+    } else {
+      runApply(profile)
     }
-    // Error handling is now managed by the useProfiles hook
+  }
+
+  const handleConfirmPreview = async (fields: ChannelField[], skipPreview: boolean) => {
+    if (!previewProfile) return
+
+    if (skipPreview) {
+      await updatePreferences({ confirmActions: false })
+    }
+    await runApply(previewProfile, fields)
+  }
+
+  // Favorites are listed only in their own section; profiles whose group
+  // no longer exists are listed as ungrouped. Profiles owned by another
+  // linked account are left out.
+  const sections = useMemo(() => {
+    const linkedAccountIds = accounts.map(account => account.id)
+    const accountProfiles = profiles.filter(profile => isProfileForAccount(profile, activeAccountId, linkedAccountIds))
+    const groupIds = new Set(groups.map(group => group.id))
+    const inGroup = (profile: StreamProfile, key: string) =>
+      key === PROFILE_SECTIONS.UNGROUPED
+        ? !profile.groupId || !groupIds.has(profile.groupId)
+        : profile.groupId === key
+    const visible = (key: string) =>
+      !groupFilter || groupFilter === key || (key === PROFILE_SECTIONS.FAVORITES && groupFilter !== PROFILE_SECTIONS.FAVORITES)
+
+    const favorites = sortProfilesByPosition(accountProfiles.filter(profile =>
+      profile.favorite && (!groupFilter || groupFilter === PROFILE_SECTIONS.FAVORITES || inGroup(profile, groupFilter))
+    ))
+    const others = accountProfiles.filter(profile => !profile.favorite)
+
+    return [
+      { key: PROFILE_SECTIONS.FAVORITES as string, title: 'Favorites', icon: '⭐', profiles: favorites },
+      ...groups.map(group => ({
+        key: group.id,
+        title: group.name,
+        icon: '📁',
+        profiles: sortProfilesByPosition(others.filter(profile => inGroup(profile, group.id)))
+      })),
+      {
+        key: PROFILE_SECTIONS.UNGROUPED as string,
+        title: groups.length > 0 ? 'Ungrouped' : 'All profiles',
+        icon: undefined,
+        profiles: sortProfilesByPosition(others.filter(profile => inGroup(profile, PROFILE_SECTIONS.UNGROUPED)))
+      }
+    ].filter(section => visible(section.key))
+      // Hide an empty favorites section until a group filter or the first favorite needs it
+      .filter(section => section.key !== PROFILE_SECTIONS.FAVORITES || section.profiles.length > 0 || groupFilter === PROFILE_SECTIONS.FAVORITES)
+  }, [profiles, groups, groupFilter, accounts, activeAccountId])
+
+  const collapsedSections = preferences.collapsedSections ?? []
+
+  const toggleSection = (key: string) => {
+    updatePreferences({
+      collapsedSections: collapsedSections.includes(key)
+        ? collapsedSections.filter(section => section !== key)
+        : [...collapsedSections, key]
+    })
+  }
+
+  const handleGroupFilterChange = (value: string) => {
+    setSearchParams(value ? { group: value } : {})
+  }
+
+  const handleCreateGroup = async (event: FormEvent) => {
+    event.preventDefault()
+    const group = await createGroup(newGroupName)
+    if (group) {
+      setNewGroupName('')
+      setIsAddingGroup(false)
+    }
+  }
+
+  const handleRenameGroup = async (id: string, currentName: string) => {
+    const name = window.prompt('Rename group', currentName)
+    if (name !== null && name.trim() !== currentName) {
+      await renameGroup(id, name)
+    }
+  }
+
+  const handleDeleteGroup = async (id: string, name: string) => {
+    if (window.confirm(`Delete the group "${name}"? Its profiles will be kept as ungrouped.`)) {
+      if (await deleteGroup(id)) {
+        if (groupFilter === id) {
+          handleGroupFilterChange('')
+        }
+        refreshProfiles()
+      }
+    }
+  }
+
+  const handleDragStart = (event: DragEvent, profile: StreamProfile) => {
+    event.dataTransfer.setData(PROFILE_DRAG_TYPE, profile.id)
+    event.dataTransfer.effectAllowed = 'move'
+  }
+
+  // Dropping on a card places the dragged profile before it
+  const handleDropOnCard = (event: DragEvent, sectionKey: string, target: StreamProfile) => {
+    const profileId = getDraggedProfileId(event)
+    if (!profileId) return
+    event.preventDefault()
+    event.stopPropagation()
+    if (profileId !== target.id) {
+      moveProfile(profileId, sectionKey, target.id)
+    }
+  }
+
+  const renderProfileCard = (profile: StreamProfile, sectionKey: string) => {
+    const processedTitle = processProfileTitle(profile)
+    
+    return (
+      <article
+        key={profile.id}
+        className="scandi-card group"
+        draggable
+        onDragStart={event => handleDragStart(event, profile)}
+        onDragOver={event => {
+          if (event.dataTransfer.types.includes(PROFILE_DRAG_TYPE)) event.preventDefault()
+        }}
+        onDrop={event => handleDropOnCard(event, sectionKey, profile)}
+        data-testid="profile-card"
+      >
+        <div className="flex items-start justify-between mb-4">
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => toggleFavorite(profile.id)}
+              className={profile.favorite ? 'text-yellow-500' : 'text-neutral-300 hover:text-yellow-500 transition-colors'}
+              title={profile.favorite ? 'Remove from favorites' : 'Add to favorites'}
+              aria-label={profile.favorite ? 'Remove from favorites' : 'Add to favorites'}
+              aria-pressed={profile.favorite === true}
+            >
+              {profile.favorite ? '★' : '☆'}
+            </button>
+            <h2 className="text-xl font-medium text-neutral-900">
+              {profile.name}
+            </h2>
+          </div>
+          <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+            <Link
+              to={`/profile/${profile.id}/edit`}
+              className="text-neutral-400 hover:text-neutral-600 transition-colors"
+              title="Edit profile"
+            >
+              ✏️
+            </Link>
+            <button
+              onClick={() => handleDeleteProfile(profile.id, profile.name)}
+              className="text-neutral-400 hover:text-red-600 transition-colors"
+              title="Delete profile"
+            >
+              🗑️
+            </button>
+          </div>
+        </div>
+        
+        {profile.description && (
+          <p className="text-neutral-600 mb-4">
+            {profile.description}
+          </p>
+        )}
+        
+        <div className="space-y-2 mb-6 text-sm">
+          <div className="flex items-center space-x-3">
+            <BoxArt url={profile.category.boxArtUrl} size={BOX_ART_SIZES.card} />
+            <div>
+              <span className="text-neutral-500">Category:</span>{' '}
+              <span className="text-neutral-700">{profile.category.name}</span>
+            </div>
+          </div>
+          {profile.categoryMissing && (
+            <div
+              className="flex items-center justify-between p-2 bg-amber-50 border border-amber-200 rounded text-amber-800"
+              role="alert"
+              data-testid="category-missing"
+            >
+              <span>
+                Twitch no longer has this category
+                {profile.categoryReplacement && `; it may now be "${profile.categoryReplacement.name}"`}
+              </span>
+              <button
+                onClick={() => setReplacingProfile(profile)}
+                className="font-medium underline hover:no-underline"
+              >
+                {profile.categoryReplacement ? 'Review replacement' : 'Pick replacement'}
+              </button>
+            </div>
+          )}
+          <div>
+            <span className="text-neutral-500">Title:</span>{' '}
+            <span className="text-neutral-700" title={`Original: ${profile.title}`}>
+              {processedTitle.processed}
+            </span>
+          </div>
+          {profile.tags.length > 0 && (
+            <div>
+              <span className="text-neutral-500">Tags:</span>{' '}
+              <span className="text-neutral-700">{profile.tags.join(', ')}</span>
+            </div>
+          )}
+          {profile.language && (
+            <div>
+              <span className="text-neutral-500">Language:</span>{' '}
+              <span className="text-neutral-700">
+                {BROADCASTER_LANGUAGES[profile.language as keyof typeof BROADCASTER_LANGUAGES] ?? profile.language}
+              </span>
+            </div>
+          )}
+          {profile.contentClassificationLabels !== undefined && (
+            <div>
+              <span className="text-neutral-500">Content labels:</span>{' '}
+              <span className="text-neutral-700">
+                {profile.contentClassificationLabels.length > 0
+                  ? profile.contentClassificationLabels.map(label => CONTENT_CLASSIFICATION_LABELS[label]).join(', ')
+                  : 'None'}
+              </span>
+            </div>
+          )}
+          {profile.isBrandedContent !== undefined && (
+            <div>
+              <span className="text-neutral-500">Branded content:</span>{' '}
+              <span className="text-neutral-700">{profile.isBrandedContent ? 'Yes' : 'No'}</span>
+            </div>
+          )}
+          {hasObsActions(profile.obsActions) && (
+            <div>
+              <span className="text-neutral-500">OBS:</span>{' '}
+              <span className="text-neutral-700">
+                {[
+                  profile.obsActions.sceneCollection && `Collection "${profile.obsActions.sceneCollection}"`,
+                  profile.obsActions.scene && `Scene "${profile.obsActions.scene}"`,
+                  profile.obsActions.sources?.length &&
+                    `${profile.obsActions.sources.length} source${profile.obsActions.sources.length === 1 ? '' : 's'}`,
+                ].filter(Boolean).join(' · ')}
+              </span>
+            </div>
+          )}
+        </div>
+        
+        <div className="space-y-2">
+          <button 
+            onClick={() => handleApplyProfile(profile)}
+            disabled={isApplying}
+            className={`w-full transition-all ${
+              shouldDisableActions() 
+                ? 'scandi-btn-secondary' 
+                : 'scandi-btn'
+            }`}
+            title={shouldDisableActions()
+              ? `${getStatusMessage()}. The apply will be queued and sent once Twitch is reachable.`
+              : 'Apply this profile to your Twitch stream'}
+          >
+            <div className="flex items-center justify-center space-x-2">
+              <span>Apply Profile</span>
+              <APIStatusIndicator className="text-xs" />
+            </div>
+          </button>
+
+          {accounts.length > 1 && (
+            <button
+              onClick={() => setCoStreamProfile(profile)}
+              disabled={isApplying || shouldDisableActions()}
+              className="w-full scandi-btn-secondary disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Apply this profile to several linked channels at once"
+            >
+              Co-stream
+            </button>
+          )}
+          
+          <div className="text-xs text-neutral-400 text-center">
+            Updated {profile.updatedAt.toLocaleDateString()}
+          </div>
+        </div>
+      </article>
+    )
   }
 
   // Loading state
@@ -90,7 +443,7 @@ export default function Dashboard(): JSX.Element {
                 Unable to connect to Twitch services
               </p>
               <p className="text-red-700 text-sm">
-                Profile actions are temporarily disabled. Check your connection or visit{' '}
+                Applies are queued and sent once the connection is back. Check your connection or visit{' '}
                 <a 
                   href="https://status.twitch.tv/" 
                   target="_blank" 
@@ -106,6 +459,112 @@ export default function Dashboard(): JSX.Element {
         </div>
       )}
       
+      {queuedApplies.length > 0 && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg" role="status" data-testid="apply-queue">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-yellow-800 font-medium">⏳ Waiting for Twitch</p>
+            <button
+              onClick={flushNow}
+              disabled={isFlushing}
+              className="text-yellow-700 hover:text-yellow-900 text-sm underline"
+            >
+              {isFlushing ? 'Sending...' : 'Send now'}
+            </button>
+          </div>
+          <ul className="space-y-1">
+            {queuedApplies.map(intent => (
+              <li key={intent.id} className="flex items-center justify-between text-sm text-yellow-800" data-testid="queued-apply">
+                <span>
+                  Apply "{intent.profileName}" · queued {intent.queuedAt.toLocaleTimeString()} · expires{' '}
+                  {new Date(intent.queuedAt.getTime() + preferences.applyQueueMaxAge * 60 * 1000).toLocaleTimeString()}
+                  {intent.lastError && <span className="text-yellow-700"> · {intent.lastError}</span>}
+                </span>
+                <button
+                  onClick={() => removeIntent(intent.id)}
+                  className="text-yellow-700 hover:text-yellow-900 text-sm underline"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {queueOutcomes.length > 0 && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between" role="status">
+          <ul className="text-green-800 text-sm space-y-1">
+            {queueOutcomes.map(({ intent, status, reason }) => (
+              <li key={intent.id}>
+                {status === 'applied'
+                  ? `✅ Sent queued apply "${intent.profileName}"`
+                  : `⚠️ Dropped queued apply "${intent.profileName}": ${reason}`}
+              </li>
+            ))}
+          </ul>
+          <button onClick={clearOutcomes} className="text-green-700 hover:text-green-900 text-sm underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {queueError && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between" role="alert">
+          <p className="text-red-800 text-sm">{queueError}</p>
+          <button onClick={clearQueueError} className="text-red-700 hover:text-red-900 text-sm underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {appliedMessage && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between" role="status">
+          <p className="text-green-800 text-sm">✅ {appliedMessage}</p>
+          <button onClick={() => setAppliedMessage(null)} className="text-green-700 hover:text-green-900 text-sm underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {obsWarning && (
+        <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-center justify-between" role="alert">
+          <p className="text-yellow-800 text-sm">🎬 {obsWarning}</p>
+          <button onClick={clearObsWarning} className="text-yellow-700 hover:text-yellow-900 text-sm underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {groupError && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between" role="alert">
+          <p className="text-red-800 text-sm">{groupError}</p>
+          <button onClick={clearGroupError} className="text-red-700 hover:text-red-900 text-sm underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {previewProfile && (
+        <ApplyPreviewDialog
+          profile={previewProfile}
+          isApplying={isApplying}
+          onConfirm={handleConfirmPreview}
+          onCancel={() => setPreviewProfile(null)}
+        />
+      )}
+
+      {coStreamProfile && (
+        <CoStreamDialog profile={coStreamProfile} onClose={() => setCoStreamProfile(null)} />
+      )}
+
+      {replacingProfile && (
+        <CategoryReplacementDialog
+          profile={replacingProfile}
+          onReplace={category => replaceCategory(replacingProfile.id, category)}
+          onClose={() => setReplacingProfile(null)}
+        />
+      )}
+
       <div className="flex items-center justify-between mb-8">
         <div>
           <div className="flex items-center space-x-3 mb-3">
@@ -143,86 +602,99 @@ export default function Dashboard(): JSX.Element {
           <Link to="/profile/new" className="scandi-btn">
             Create Profile
           </Link>
+          <p className="text-sm text-neutral-500 mt-4">
+            Have a backup? <Link to="/backup" className="underline hover:text-neutral-700">Restore your profiles</Link>
+          </p>
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {profiles.map((profile) => {
-            const processedTitle = processTitle(profile.title)
-            
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div className="flex items-center space-x-2">
+              <label htmlFor="group-filter" className="text-sm text-neutral-600">Show</label>
+              <select
+                id="group-filter"
+                value={groupFilter}
+                onChange={event => handleGroupFilterChange(event.target.value)}
+                className="scandi-input py-1"
+              >
+                <option value="">All groups</option>
+                <option value={PROFILE_SECTIONS.FAVORITES}>Favorites</option>
+                {groups.map(group => (
+                  <option key={group.id} value={group.id}>{group.name}</option>
+                ))}
+                <option value={PROFILE_SECTIONS.UNGROUPED}>Ungrouped</option>
+              </select>
+            </div>
+
+            {isAddingGroup ? (
+              <form onSubmit={handleCreateGroup} className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={newGroupName}
+                  onChange={event => setNewGroupName(event.target.value)}
+                  placeholder="Group name"
+                  aria-label="Group name"
+                  className="scandi-input py-1"
+                  autoFocus
+                />
+                <button type="submit" className="scandi-btn" disabled={!newGroupName.trim()}>
+                  Create Group
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setIsAddingGroup(false)
+                    setNewGroupName('')
+                  }}
+                  className="scandi-btn-secondary"
+                >
+                  Cancel
+                </button>
+              </form>
+            ) : (
+              <button onClick={() => setIsAddingGroup(true)} className="scandi-btn-secondary">
+                📁 New Group
+              </button>
+            )}
+          </div>
+
+          {sections.map(section => {
+            const group = groups.find(candidate => candidate.id === section.key)
+
             return (
-              <article key={profile.id} className="scandi-card group">
-                <div className="flex items-start justify-between mb-4">
-                  <h2 className="text-xl font-medium text-neutral-900">
-                    {profile.name}
-                  </h2>
-                  <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                    <Link
-                      to={`/profile/${profile.id}/edit`}
-                      className="text-neutral-400 hover:text-neutral-600 transition-colors"
-                      title="Edit profile"
+              <ProfileSection
+                key={section.key}
+                title={section.title}
+                icon={section.icon}
+                count={section.profiles.length}
+                collapsed={collapsedSections.includes(section.key)}
+                onToggle={() => toggleSection(section.key)}
+                onDropProfile={profileId => moveProfile(profileId, section.key)}
+                emptyMessage={section.key === PROFILE_SECTIONS.FAVORITES
+                  ? 'Star a profile, or drag one here, to pin it to the top'
+                  : 'Drag profiles here'}
+                actions={group && (
+                  <>
+                    <button
+                      onClick={() => handleRenameGroup(group.id, group.name)}
+                      className="text-neutral-500 hover:text-neutral-700 underline"
                     >
-                      ✏️
-                    </Link>
+                      Rename
+                    </button>
                     <button
-                      onClick={() => handleDeleteProfile(profile.id, profile.name)}
-                      className="text-neutral-400 hover:text-red-600 transition-colors"
-                      title="Delete profile"
+                      onClick={() => handleDeleteGroup(group.id, group.name)}
+                      className="text-neutral-500 hover:text-red-600 underline"
                     >
-                      🗑️
+                      Delete
                     </button>
-                  </div>
-                </div>
-                
-                {profile.description && (
-                  <p className="text-neutral-600 mb-4">
-                    {profile.description}
-                  </p>
+                  </>
                 )}
-                
-                <div className="space-y-2 mb-6 text-sm">
-                  <div>
-                    <span className="text-neutral-500">Category:</span>{' '}
-                    <span className="text-neutral-700">{profile.category.name}</span>
-                  </div>
-                  <div>
-                    <span className="text-neutral-500">Title:</span>{' '}
-                    <span className="text-neutral-700" title={`Original: ${profile.title}`}>
-                      {processedTitle.processed}
-                    </span>
-                  </div>
-                  {profile.tags.length > 0 && (
-                    <div>
-                      <span className="text-neutral-500">Tags:</span>{' '}
-                      <span className="text-neutral-700">{profile.tags.join(', ')}</span>
-                    </div>
-                  )}
-                </div>
-                
-                <div className="space-y-2">
-                  <button 
-                    onClick={() => handleApplyProfile(profile)}
-                    disabled={shouldDisableActions()}
-                    className={`w-full transition-all ${
-                      shouldDisableActions() 
-                        ? 'scandi-btn-disabled cursor-not-allowed opacity-50' 
-                        : 'scandi-btn'
-                    }`}
-                    title={shouldDisableActions() ? getStatusMessage() : 'Apply this profile to your Twitch stream'}
-                  >
-                    <div className="flex items-center justify-center space-x-2">
-                      <span>Apply Profile</span>
-                      <APIStatusIndicator className="text-xs" />
-                    </div>
-                  </button>
-                  
-                  <div className="text-xs text-neutral-400 text-center">
-                    Updated {profile.updatedAt.toLocaleDateString()}
-                  </div>
-                </div>
-              </article>
+              >
+                {section.profiles.map(profile => renderProfileCard(profile, section.key))}
+              </ProfileSection>
             )
           })}
-        </div>
+        </>
       )}
     </div>
   )
@@ -3,7 +3,17 @@ import { useNavigate, useParams } from 'react-router-dom'
 import { useProfile } from '@/hooks/useProfiles'
 import { useProfiles } from '@/hooks/useProfiles'
 import { CategorySearchDropdown } from '@/components/CategorySearchDropdown'
+import { TitleTemplateField } from '@/components/TitleTemplateField'
+import { ChannelSettingsFields, type ChannelSettingsValue } from '@/components/ChannelSettingsFields'
+import { ObsActionsFields, cleanObsActions } from '@/components/ObsActionsFields'
+import { ProfileGroupField } from '@/components/ProfileGroupField'
+import { ProfileAccountField } from '@/components/ProfileAccountField'
+import { TagInput } from '@/components/TagInput'
+import { parseTitleTemplate, getTemplateVariables, getTemplateCounters } from '@/lib/templates/titleTemplate'
+import { normalizeTags, validateTags } from '@/lib/tags/twitchTags'
+import { pickTemplateValues } from '@/types/ProfileUtils'
 import type { UpdateProfileInput, StreamCategory } from '@/types/Profile'
+import type { ObsProfileActions } from '@/types/Obs'
 
 export default function EditProfile(): JSX.Element {
   const navigate = useNavigate()
@@ -14,11 +24,17 @@ export default function EditProfile(): JSX.Element {
   const [formData, setFormData] = useState({
     name: '',
     description: '',
-    title: '',
-    tags: ''
+    title: ''
   })
 
   const [selectedCategory, setSelectedCategory] = useState<StreamCategory | null>(null)
+  const [channelSettings, setChannelSettings] = useState<ChannelSettingsValue>({})
+  const [obsActions, setObsActions] = useState<ObsProfileActions>({})
+  const [tags, setTags] = useState<string[]>([])
+  const [groupId, setGroupId] = useState<string | undefined>(undefined)
+  const [ownerId, setOwnerId] = useState<string | undefined>(undefined)
+  const [templateVariables, setTemplateVariables] = useState<Record<string, string>>({})
+  const [templateCounters, setTemplateCounters] = useState<Record<string, number>>({})
 
   const [formErrors, setFormErrors] = useState<Record<string, string>>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
@@ -30,10 +46,20 @@ export default function EditProfile(): JSX.Element {
       setFormData({
         name: profile.name,
         description: profile.description || '',
-        title: profile.title,
-        tags: profile.tags.join(', ')
+        title: profile.title
       })
+      setTags(normalizeTags(profile.tags))
       setSelectedCategory(profile.category)
+      setTemplateVariables(profile.variables ?? {})
+      setTemplateCounters(profile.counters ?? {})
+      setChannelSettings({
+        language: profile.language,
+        contentClassificationLabels: profile.contentClassificationLabels,
+        isBrandedContent: profile.isBrandedContent
+      })
+      setObsActions(profile.obsActions ?? {})
+      setGroupId(profile.groupId)
+      setOwnerId(profile.ownerId)
     }
   }, [profile])
 
@@ -57,19 +83,20 @@ export default function EditProfile(): JSX.Element {
       errors.title = 'Stream title is required'
     } else if (formData.title.length > 140) {
       errors.title = 'Stream title must be 140 characters or less'
+    } else if (parseTitleTemplate(formData.title).diagnostics.some(d => d.severity === 'error')) {
+      errors.title = 'Fix the highlighted template errors'
     }
     
     // Tags validation
-    if (formData.tags) {
-      const tagArray = formData.tags.split(',').map(tag => tag.trim()).filter(Boolean)
-      if (tagArray.length > 10) {
-        errors.tags = 'Maximum 10 tags allowed'
-      }
-      
-      const invalidTags = tagArray.filter(tag => tag.length > 25)
-      if (invalidTags.length > 0) {
-        errors.tags = 'Each tag must be 25 characters or less'
-      }
+    const tagProblems = validateTags(tags)
+    if (tagProblems.length > 0) {
+      errors.tags = tagProblems.map(problem => problem.message).join('. ')
+    }
+    
+    // OBS validation
+    const cleanedObsActions = cleanObsActions(obsActions)
+    if (cleanedObsActions?.sources?.some(source => !source.sceneName) && !cleanedObsActions.scene) {
+      errors.obs = 'Choose a scene for each source, or set the profile scene'
     }
     
     setFormErrors(errors)
@@ -98,9 +125,22 @@ export default function EditProfile(): JSX.Element {
         description: formData.description.trim() || undefined,
         category: selectedCategory!,
         title: formData.title.trim(),
-        tags: formData.tags
-          ? formData.tags.split(',').map(tag => tag.trim()).filter(Boolean)
-          : []
+        tags,
+        variables: pickTemplateValues(templateVariables, getTemplateVariables(formData.title)),
+        language: channelSettings.language,
+        contentClassificationLabels: channelSettings.contentClassificationLabels,
+        isBrandedContent: channelSettings.isBrandedContent,
+        obsActions: cleanObsActions(obsActions),
+        groupId,
+        ownerId
+      }
+
+      // Counters advance with every apply, possibly in another tab, so only
+      // send them when they were edited here
+      const counterNames = getTemplateCounters(formData.title)
+      const counters = pickTemplateValues(templateCounters, counterNames)
+      if (JSON.stringify(counters) !== JSON.stringify(pickTemplateValues(profile.counters ?? {}, counterNames))) {
+        updateInput.counters = counters
       }
       
       const updatedProfile = await updateProfile(id, updateInput)
@@ -268,6 +308,9 @@ export default function EditProfile(): JSX.Element {
                 />
               </div>
 
+              <ProfileGroupField value={groupId} onChange={setGroupId} disabled={isFormDisabled} />
+              <ProfileAccountField value={ownerId} onChange={setOwnerId} disabled={isFormDisabled} />
+
               <div>
                 <label htmlFor="category" className="block text-sm font-medium text-neutral-700 mb-2">
                   Twitch Category *
@@ -294,49 +337,61 @@ export default function EditProfile(): JSX.Element {
                 <label htmlFor="title" className="block text-sm font-medium text-neutral-700 mb-2">
                   Stream Title Template *
                 </label>
-                <input
-                  type="text"
-                  id="title"
-                  name="title"
+                <TitleTemplateField
                   value={formData.title}
                   onChange={handleChange}
-                  className={`scandi-input w-full ${formErrors.title ? 'border-red-300 bg-red-50' : ''}`}
-                  placeholder="e.g., Morning Pages - {DAY} Reflection"
+                  variables={templateVariables}
+                  onVariablesChange={setTemplateVariables}
+                  counters={templateCounters}
+                  onCountersChange={setTemplateCounters}
+                  error={formErrors.title}
                   disabled={isFormDisabled}
-                  required
                 />
-                {formErrors.title && (
-                  <p className="text-red-600 text-xs mt-1">{formErrors.title}</p>
-                )}
-                <p className="text-xs text-neutral-500 mt-1">
-                  Use {`{DAY}`} for day of week, {`{YYYY-MM-DD}`} for date
-                </p>
               </div>
 
-              <div>
-                <label htmlFor="tags" className="block text-sm font-medium text-neutral-700 mb-2">
-                  Tags
-                </label>
-                <input
-                  type="text"
-                  id="tags"
-                  name="tags"
-                  value={formData.tags}
-                  onChange={handleChange}
-                  className={`scandi-input w-full ${formErrors.tags ? 'border-red-300 bg-red-50' : ''}`}
-                  placeholder="journal, morning, reflection (comma separated)"
-                  disabled={isFormDisabled}
-                />
-                {formErrors.tags && (
-                  <p className="text-red-600 text-xs mt-1">{formErrors.tags}</p>
-                )}
-                <p className="text-xs text-neutral-500 mt-1">
-                  Separate tags with commas, max 10 tags
-                </p>
-              </div>
+              <TagInput
+                value={tags}
+                onChange={(next) => {
+                  setTags(next)
+                  setFormErrors(prev => ({ ...prev, tags: '' }))
+                }}
+                error={formErrors.tags}
+                disabled={isFormDisabled}
+              />
             </div>
           </div>
 
+          <div className="scandi-card">
+            <h2 className="text-xl font-medium text-neutral-900 mb-2">
+              Channel Settings
+            </h2>
+            <p className="text-sm text-neutral-600 mb-6">
+              Optional. Anything left as "Don't change" keeps its current value on Twitch.
+            </p>
+
+            <ChannelSettingsFields
+              value={channelSettings}
+              onChange={setChannelSettings}
+              disabled={isFormDisabled}
+            />
+          </div>
+
+          <div className="scandi-card">
+            <h2 className="text-xl font-medium text-neutral-900 mb-2">
+              OBS
+            </h2>
+            <p className="text-sm text-neutral-600 mb-6">
+              Optional. Switch OBS to these scenes and sources after the profile is applied.
+            </p>
+
+            <ObsActionsFields
+              value={obsActions}
+              onChange={setObsActions}
+              error={formErrors.obs}
+              disabled={isFormDisabled}
+            />
+          </div>
+
           <div className="flex items-center justify-between">
             <button
               type="button"
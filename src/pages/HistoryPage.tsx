@@ -0,0 +1,185 @@
+import type { JSX } from 'react'
+import { Link } from 'react-router-dom'
+import { useApplyHistory } from '@/hooks/useApplyHistory'
+import { useAPIHealth } from '@/hooks/useAPIHealth'
+import type { ApplyHistoryEntry, ChannelSnapshot } from '@/types/History'
+import { CHANNEL_FIELD_LABELS } from '@/lib/diff/channelDiff'
+
+function ChannelStateSummary({ label, state }: { label: string; state: Pick<ChannelSnapshot, 'title' | 'category' | 'tags'> }): JSX.Element {
+  return (
+    <div>
+      <p className="text-xs font-medium text-neutral-500 uppercase tracking-wide mb-1">{label}</p>
+      <p className="text-sm text-neutral-900 break-words">{state.title || <span className="text-neutral-400">No title</span>}</p>
+      <p className="text-xs text-neutral-600">{state.category.name || 'No category'}</p>
+      {state.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {state.tags.map(tag => (
+            <span key={tag} className="px-2 py-0.5 bg-neutral-100 text-neutral-600 rounded-full text-xs">
+              {tag}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function HistoryPage(): JSX.Element {
+  const {
+    entries,
+    isLoading,
+    error,
+    revertingId,
+    revertEntry,
+    clearHistory,
+    clearError
+  } = useApplyHistory()
+
+  const { shouldDisableActions, getStatusMessage } = useAPIHealth()
+
+  const handleRevert = async (entry: ApplyHistoryEntry) => {
+    clearError()
+    const confirmMessage = `Restore your channel to how it was before "${entry.profileName}" was ${entry.action === 'revert' ? 'reverted' : 'applied'}?\n\nTitle: ${entry.previousState?.title}\nCategory: ${entry.previousState?.category.name}`
+
+    if (window.confirm(confirmMessage)) {
+      const success = await revertEntry(entry.id)
+      if (success) {
+        alert('✅ Your channel has been restored.')
+      }
+    }
+  }
+
+  const handleClearHistory = async () => {
+    if (window.confirm('Delete the entire apply history? Cleared entries can no longer be reverted.')) {
+      await clearHistory()
+    }
+  }
+
+  if (isLoading && entries.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="text-center">
+          <div className="text-4xl mb-4 animate-pulse">⏳</div>
+          <p className="text-lg text-neutral-600">Loading history...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h1 className="text-4xl font-medium text-neutral-900 mb-3">
+            Apply History
+          </h1>
+          <p className="text-lg text-neutral-600">
+            Every change sent to your channel, with one-click revert
+          </p>
+        </div>
+
+        {entries.length > 0 && (
+          <button
+            onClick={handleClearHistory}
+            className="scandi-btn-secondary"
+          >
+            Clear History
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+          <p className="text-red-800 text-sm">{error}</p>
+          <button onClick={clearError} className="text-red-700 hover:text-red-900 text-sm underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {entries.length === 0 ? (
+        <div className="text-center py-16">
+          <div className="text-6xl mb-4">🕰️</div>
+          <h3 className="text-xl font-medium text-neutral-900 mb-2">
+            No changes yet
+          </h3>
+          <p className="text-neutral-600 mb-6">
+            Profiles you apply to your stream will show up here
+          </p>
+          <Link to="/" className="scandi-btn">
+            View Profiles
+          </Link>
+        </div>
+      ) : (
+        <ol className="space-y-4">
+          {entries.map(entry => (
+            <li key={entry.id}>
+              <article className="scandi-card" data-testid="history-entry">
+                <div className="flex items-start justify-between mb-4">
+                  <div>
+                    <h3 className="text-lg font-medium text-neutral-900">
+                      {entry.action === 'revert' ? `Reverted "${entry.profileName}"` : entry.profileName}
+                    </h3>
+                    <p className="text-xs text-neutral-500">
+                      {entry.appliedAt.toLocaleString()}
+                      {entry.rateLimit && (
+                        <> • {entry.rateLimit.remaining}/{entry.rateLimit.limit} API requests left</>
+                      )}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    {entry.revertedAt && (
+                      <span className="px-2 py-1 bg-neutral-100 text-neutral-600 rounded-full text-xs">
+                        Reverted {entry.revertedAt.toLocaleTimeString()}
+                      </span>
+                    )}
+                    <span className={`px-2 py-1 rounded-full text-xs ${entry.success ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'}`}>
+                      {entry.success ? 'Applied' : 'Failed'}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {entry.previousState ? (
+                    <ChannelStateSummary label="Before" state={entry.previousState} />
+                  ) : (
+                    <div>
+                      <p className="text-xs font-medium text-neutral-500 uppercase tracking-wide mb-1">Before</p>
+                      <p className="text-sm text-neutral-400">Channel state could not be read</p>
+                    </div>
+                  )}
+                  <ChannelStateSummary label={entry.success ? 'After' : 'Attempted'} state={entry} />
+                </div>
+
+                {entry.fields && (
+                  <p className="mt-3 text-xs text-neutral-500">
+                    Only applied: {entry.fields.map(field => CHANNEL_FIELD_LABELS[field]).join(', ')}
+                  </p>
+                )}
+
+                {entry.error && (
+                  <p className="mt-3 text-sm text-red-600">
+                    {entry.error.message}
+                  </p>
+                )}
+
+                {entry.success && entry.previousState && (
+                  <div className="mt-4 flex justify-end">
+                    <button
+                      onClick={() => handleRevert(entry)}
+                      className="scandi-btn-secondary text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                      disabled={revertingId !== null || shouldDisableActions()}
+                      title={shouldDisableActions() ? getStatusMessage() : 'Restore the channel state from before this change'}
+                    >
+                      {revertingId === entry.id ? 'Reverting...' : 'Revert'}
+                    </button>
+                  </div>
+                )}
+              </article>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
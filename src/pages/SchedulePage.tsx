@@ -0,0 +1,328 @@
+import { useState, useEffect, type JSX } from 'react'
+import { Link } from 'react-router-dom'
+import { useSchedule } from '@/hooks/useSchedule'
+import { useStreamStatus } from '@/hooks/useStreamStatus'
+import { useProfiles } from '@/hooks/useProfiles'
+import { DAYS_OF_WEEK, type DayOfWeek, type ScheduleRunStatus } from '@/types/Schedule'
+import type { StreamEventApplyStatus } from '@/types/StreamStatus'
+
+// Calendar columns start on Monday
+const CALENDAR_DAYS: DayOfWeek[] = [1, 2, 3, 4, 5, 6, 0]
+
+const RUN_STATUS_STYLES: Record<ScheduleRunStatus, string> = {
+  applied: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-700',
+  missed: 'bg-yellow-50 text-yellow-700',
+}
+
+const APPLY_STATUS_STYLES: Record<StreamEventApplyStatus, string> = {
+  applied: 'bg-green-50 text-green-700',
+  failed: 'bg-red-50 text-red-700',
+  skipped: 'bg-neutral-100 text-neutral-600',
+}
+
+export default function SchedulePage(): JSX.Element {
+  const {
+    slotsByDay,
+    runs,
+    settings,
+    nextOccurrence,
+    isLoading,
+    error,
+    createSlot,
+    updateSlot,
+    deleteSlot,
+    updateSettings,
+    clearRuns,
+    clearError
+  } = useSchedule()
+  const { profiles, isLoading: profilesLoading } = useProfiles()
+  const { events: streamEvents, clearEvents: clearStreamEvents } = useStreamStatus()
+
+  const [newSlot, setNewSlot] = useState<{ dayOfWeek: DayOfWeek; startTime: string; profileId: string }>({
+    dayOfWeek: 1,
+    startTime: '18:00',
+    profileId: '',
+  })
+
+  // Preselect the default profile once preferences have loaded
+  useEffect(() => {
+    if (settings.defaultProfileId) {
+      setNewSlot(prev => prev.profileId ? prev : { ...prev, profileId: settings.defaultProfileId! })
+    }
+  }, [settings.defaultProfileId])
+
+  const profileName = (id: string): string =>
+    profiles.find(profile => profile.id === id)?.name ?? 'Deleted profile'
+
+  const handleAddSlot = async (e: React.FormEvent) => {
+    e.preventDefault()
+    clearError()
+    await createSlot(newSlot)
+  }
+
+  const handleDeleteSlot = async (id: string) => {
+    if (window.confirm('Remove this slot from the schedule?')) {
+      await deleteSlot(id)
+    }
+  }
+
+  if (isLoading && profilesLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="text-center">
+          <div className="text-4xl mb-4 animate-pulse">⏳</div>
+          <p className="text-lg text-neutral-600">Loading schedule...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-4xl font-medium text-neutral-900 mb-3">
+          Stream Schedule
+        </h1>
+        <p className="text-lg text-neutral-600">
+          Apply profiles automatically when your weekly slots start
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+          <p className="text-red-800 text-sm">{error}</p>
+          <button onClick={clearError} className="text-red-700 hover:text-red-900 text-sm underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Auto-apply settings */}
+      <div className="scandi-card mb-6 space-y-4">
+        <label className="flex items-start space-x-3">
+          <input
+            type="checkbox"
+            name="autoApply"
+            checked={settings.autoApply}
+            onChange={(e) => updateSettings({ autoApply: e.target.checked })}
+            className="mt-1"
+          />
+          <span>
+            <span className="block text-sm font-medium text-neutral-900">Auto-apply scheduled profiles</span>
+            <span className="block text-xs text-neutral-500">
+              Profiles are applied while this app is open. Slots that start while it's closed are logged as missed.
+              Going live applies the slot you went live in, or the default profile.
+            </span>
+          </span>
+        </label>
+
+        <div>
+          <label htmlFor="defaultProfileId" className="block text-sm font-medium text-neutral-700 mb-2">
+            Default profile
+          </label>
+          <select
+            id="defaultProfileId"
+            name="defaultProfileId"
+            value={settings.defaultProfileId ?? ''}
+            onChange={(e) => updateSettings({ defaultProfileId: e.target.value || undefined })}
+            className="scandi-input w-full md:w-1/2"
+          >
+            <option value="">None</option>
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+          <p className="text-xs text-neutral-500 mt-1">
+            Applied when you go live outside a scheduled slot, and preselected for new slots
+          </p>
+        </div>
+
+        {nextOccurrence && (
+          <p className="text-sm text-neutral-600" data-testid="next-slot">
+            Next up: <span className="font-medium text-neutral-900">{profileName(nextOccurrence.slot.profileId)}</span>{' '}
+            on {DAYS_OF_WEEK[nextOccurrence.scheduledFor.getDay()]} at {nextOccurrence.slot.startTime}
+          </p>
+        )}
+      </div>
+
+      {/* Add slot */}
+      {profiles.length === 0 ? (
+        <div className="scandi-card mb-6 text-center">
+          <p className="text-neutral-600 mb-4">Create a profile before adding it to your schedule</p>
+          <Link to="/profile/new" className="scandi-btn">
+            Create Profile
+          </Link>
+        </div>
+      ) : (
+        <form onSubmit={handleAddSlot} className="scandi-card mb-6">
+          <h2 className="text-lg font-medium text-neutral-900 mb-4">Add Slot</h2>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div>
+              <label htmlFor="slotDay" className="block text-sm font-medium text-neutral-700 mb-2">Day</label>
+              <select
+                id="slotDay"
+                name="dayOfWeek"
+                value={newSlot.dayOfWeek}
+                onChange={(e) => setNewSlot(prev => ({ ...prev, dayOfWeek: Number(e.target.value) as DayOfWeek }))}
+                className="scandi-input w-full"
+              >
+                {CALENDAR_DAYS.map(day => (
+                  <option key={day} value={day}>{DAYS_OF_WEEK[day]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="slotTime" className="block text-sm font-medium text-neutral-700 mb-2">Start time</label>
+              <input
+                type="time"
+                id="slotTime"
+                name="startTime"
+                value={newSlot.startTime}
+                onChange={(e) => setNewSlot(prev => ({ ...prev, startTime: e.target.value }))}
+                className="scandi-input w-full"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="slotProfile" className="block text-sm font-medium text-neutral-700 mb-2">Profile</label>
+              <select
+                id="slotProfile"
+                name="profileId"
+                value={newSlot.profileId}
+                onChange={(e) => setNewSlot(prev => ({ ...prev, profileId: e.target.value }))}
+                className="scandi-input w-full"
+                required
+              >
+                <option value="">Choose a profile</option>
+                {profiles.map(profile => (
+                  <option key={profile.id} value={profile.id}>{profile.name}</option>
+                ))}
+              </select>
+            </div>
+            <button type="submit" className="scandi-btn">
+              Add Slot
+            </button>
+          </div>
+        </form>
+      )}
+
+      {/* Weekly calendar */}
+      <div className="grid grid-cols-1 md:grid-cols-7 gap-3 mb-8" data-testid="schedule-calendar">
+        {CALENDAR_DAYS.map(day => (
+          <section key={day} className="bg-white border border-neutral-200 rounded-lg p-3 min-h-32" data-testid={`schedule-day-${day}`}>
+            <h3 className="text-sm font-medium text-neutral-900 mb-3">{DAYS_OF_WEEK[day]}</h3>
+            {slotsByDay[day].length === 0 ? (
+              <p className="text-xs text-neutral-400">No streams</p>
+            ) : (
+              <ul className="space-y-2">
+                {slotsByDay[day].map(slot => (
+                  <li
+                    key={slot.id}
+                    className={`p-2 rounded border text-xs ${slot.enabled ? 'border-primary/30 bg-primary/5' : 'border-neutral-200 bg-neutral-50 text-neutral-400'}`}
+                    data-testid="schedule-slot"
+                  >
+                    <p className="font-medium">{slot.startTime}</p>
+                    <p className="truncate" title={profileName(slot.profileId)}>{profileName(slot.profileId)}</p>
+                    <div className="flex items-center justify-between mt-2">
+                      <label className="flex items-center space-x-1">
+                        <input
+                          type="checkbox"
+                          checked={slot.enabled}
+                          onChange={(e) => updateSlot(slot.id, { enabled: e.target.checked })}
+                          aria-label={`Enable ${DAYS_OF_WEEK[day]} ${slot.startTime} slot`}
+                        />
+                        <span>On</span>
+                      </label>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteSlot(slot.id)}
+                        className="text-neutral-500 hover:text-red-600"
+                        title="Remove slot"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        ))}
+      </div>
+
+      {/* Run log */}
+      <div className="scandi-card">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium text-neutral-900">Recent Runs</h2>
+          {runs.length > 0 && (
+            <button onClick={clearRuns} className="text-sm text-neutral-500 hover:text-neutral-700 underline">
+              Clear log
+            </button>
+          )}
+        </div>
+        {runs.length === 0 ? (
+          <p className="text-sm text-neutral-500">No scheduled slots have run yet</p>
+        ) : (
+          <ul className="divide-y divide-neutral-100">
+            {runs.map(run => (
+              <li key={run.id} className="py-2 flex items-start justify-between text-sm" data-testid="schedule-run">
+                <div>
+                  <p className="text-neutral-900">{run.profileName ?? profileName(run.profileId)}</p>
+                  <p className="text-xs text-neutral-500">
+                    {DAYS_OF_WEEK[run.scheduledFor.getDay()]} {run.scheduledFor.toLocaleString()}
+                    {run.reason && <> • {run.reason}</>}
+                  </p>
+                </div>
+                <span className={`px-2 py-1 rounded-full text-xs capitalize ${RUN_STATUS_STYLES[run.status]}`}>
+                  {run.status}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Go-live log */}
+      <div className="scandi-card mt-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-medium text-neutral-900">Stream Starts</h2>
+          {streamEvents.length > 0 && (
+            <button onClick={clearStreamEvents} className="text-sm text-neutral-500 hover:text-neutral-700 underline">
+              Clear log
+            </button>
+          )}
+        </div>
+        {streamEvents.length === 0 ? (
+          <p className="text-sm text-neutral-500">No stream starts have been seen yet</p>
+        ) : (
+          <ul className="divide-y divide-neutral-100">
+            {streamEvents.map(event => (
+              <li key={event.id} className="py-2 flex items-start justify-between text-sm" data-testid="stream-event">
+                <div>
+                  <p className="text-neutral-900">
+                    {event.type === 'online' ? 'Went live' : 'Went offline'}
+                    {event.profileId && (
+                      <> • {event.profileName ?? profileName(event.profileId)}{' '}
+                        <span className="text-neutral-500">({event.profileSource === 'schedule' ? 'scheduled' : 'default'})</span>
+                      </>
+                    )}
+                  </p>
+                  <p className="text-xs text-neutral-500">
+                    {(event.startedAt ?? event.detectedAt).toLocaleString()}
+                    {event.reason && <> • {event.reason}</>}
+                  </p>
+                </div>
+                {event.applyStatus && (
+                  <span className={`px-2 py-1 rounded-full text-xs capitalize ${APPLY_STATUS_STYLES[event.applyStatus]}`}>
+                    {event.applyStatus}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,626 @@
+import { useState, useEffect, type JSX } from 'react'
+import { Link } from 'react-router-dom'
+import { usePreferences } from '@/hooks/usePreferences'
+import { useProfiles } from '@/hooks/useProfiles'
+import { useDatabaseBackups } from '@/hooks/useDatabaseBackups'
+import { PREFERENCE_LIMITS, EXPIRY_WARNING_LIMITS } from '@/repositories/PreferencesRepository'
+import { notificationsSupported, requestNotificationPermission } from '@/lib/notifications/notifications'
+import { testObsConnection } from '@/lib/api/obsWebSocket'
+import type { UserPreferences } from '@/types'
+import { APPLY_QUEUE_CONFLICT_RULES } from '@/types/ApplyQueue'
+
+const THEME_OPTIONS: Array<{ value: UserPreferences['theme']; label: string; icon: string }> = [
+  { value: 'light', label: 'Light', icon: '☀️' },
+  { value: 'dark', label: 'Dark', icon: '🌙' },
+  { value: 'system', label: 'System', icon: '💻' },
+]
+
+type APISettings = Pick<UserPreferences, 'apiTimeout' | 'apiRetryAttempts' | 'apiRetryDelay'>
+type OBSSettings = Pick<UserPreferences, 'obsUrl' | 'obsPassword'>
+type SignInSettings = Pick<UserPreferences, 'authStrategy' | 'tokenExchangeUrl'>
+type QueueSettings = Pick<UserPreferences, 'applyQueueMaxAge' | 'applyQueueConflictRule'>
+
+const SIGN_IN_OPTIONS: Array<{ value: UserPreferences['authStrategy']; label: string; description: string }> = [
+  { value: 'implicit', label: 'Standard', description: 'Sign in again whenever the Twitch token expires' },
+  { value: 'pkce', label: 'PKCE with refresh', description: 'Stay signed in; needs your own token exchange server' },
+]
+
+interface ToggleProps {
+  name: keyof UserPreferences
+  label: string
+  description: string
+  checked: boolean
+  onChange: (checked: boolean) => void
+}
+
+function Toggle({ name, label, description, checked, onChange }: ToggleProps): JSX.Element {
+  return (
+    <label className="flex items-start space-x-3">
+      <input
+        type="checkbox"
+        name={name}
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="mt-1"
+      />
+      <span>
+        <span className="block text-sm font-medium text-neutral-900">{label}</span>
+        <span className="block text-xs text-neutral-500">{description}</span>
+      </span>
+    </label>
+  )
+}
+
+export default function SettingsPage(): JSX.Element {
+  const {
+    preferences,
+    isLoading,
+    error,
+    updatePreferences,
+    resetPreferences,
+    clearError
+  } = usePreferences()
+  const { profiles } = useProfiles()
+  const {
+    schemaVersion,
+    backups: databaseBackups,
+    isRestoring,
+    error: databaseError,
+    restoreBackup,
+    clearError: clearDatabaseError
+  } = useDatabaseBackups()
+
+  const [apiSettings, setApiSettings] = useState<APISettings>({
+    apiTimeout: preferences.apiTimeout,
+    apiRetryAttempts: preferences.apiRetryAttempts,
+    apiRetryDelay: preferences.apiRetryDelay,
+  })
+  const [obsSettings, setObsSettings] = useState<OBSSettings>({
+    obsUrl: preferences.obsUrl,
+    obsPassword: preferences.obsPassword,
+  })
+  const [signInSettings, setSignInSettings] = useState<SignInSettings>({
+    authStrategy: preferences.authStrategy,
+    tokenExchangeUrl: preferences.tokenExchangeUrl,
+  })
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>({
+    applyQueueMaxAge: preferences.applyQueueMaxAge,
+    applyQueueConflictRule: preferences.applyQueueConflictRule,
+  })
+  const [expiryWarnings, setExpiryWarnings] = useState(preferences.tokenExpiryWarnings.join(', '))
+  const [obsTest, setObsTest] = useState<{ status: 'testing' | 'ok' | 'failed'; message: string } | null>(null)
+  const [savedMessage, setSavedMessage] = useState<string | null>(null)
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    notificationsSupported() ? Notification.permission : 'unsupported'
+  )
+
+  // Refill the API form whenever the saved values change
+  useEffect(() => {
+    setApiSettings({
+      apiTimeout: preferences.apiTimeout,
+      apiRetryAttempts: preferences.apiRetryAttempts,
+      apiRetryDelay: preferences.apiRetryDelay,
+    })
+  }, [preferences.apiTimeout, preferences.apiRetryAttempts, preferences.apiRetryDelay])
+
+  useEffect(() => {
+    setObsSettings({ obsUrl: preferences.obsUrl, obsPassword: preferences.obsPassword })
+  }, [preferences.obsUrl, preferences.obsPassword])
+
+  useEffect(() => {
+    setSignInSettings({ authStrategy: preferences.authStrategy, tokenExchangeUrl: preferences.tokenExchangeUrl })
+  }, [preferences.authStrategy, preferences.tokenExchangeUrl])
+
+  useEffect(() => {
+    setQueueSettings({
+      applyQueueMaxAge: preferences.applyQueueMaxAge,
+      applyQueueConflictRule: preferences.applyQueueConflictRule,
+    })
+  }, [preferences.applyQueueMaxAge, preferences.applyQueueConflictRule])
+
+  useEffect(() => {
+    setExpiryWarnings(preferences.tokenExpiryWarnings.join(', '))
+  }, [preferences.tokenExpiryWarnings])
+
+  const save = async (updates: Partial<UserPreferences>, message = 'Settings saved') => {
+    setSavedMessage(null)
+    if (await updatePreferences(updates)) {
+      setSavedMessage(message)
+    }
+  }
+
+  const handleNotificationsChange = async (enabled: boolean) => {
+    if (enabled) {
+      setPermission(await requestNotificationPermission())
+    }
+    await save({ notifications: enabled })
+  }
+
+  const handleSaveAPISettings = async (e: React.FormEvent) => {
+    e.preventDefault()
+    clearError()
+    await save(apiSettings, 'API settings saved')
+  }
+
+  const handleSaveQueueSettings = async (e: React.FormEvent) => {
+    e.preventDefault()
+    clearError()
+    await save(queueSettings, 'Offline apply settings saved')
+  }
+
+  const handleSaveSignInSettings = async (e: React.FormEvent) => {
+    e.preventDefault()
+    clearError()
+    // Comma-separated minutes; anything unparseable fails validation
+    const tokenExpiryWarnings = expiryWarnings
+      .split(',')
+      .map(value => value.trim())
+      .filter(value => value.length > 0)
+      .map(Number)
+    await save(
+      { ...signInSettings, tokenExchangeUrl: signInSettings.tokenExchangeUrl.trim(), tokenExpiryWarnings },
+      'Sign-in settings saved'
+    )
+  }
+
+  const handleSaveOBSSettings = async (e: React.FormEvent) => {
+    e.preventDefault()
+    clearError()
+    await save(obsSettings, 'OBS settings saved')
+  }
+
+  const handleTestOBS = async () => {
+    setObsTest({ status: 'testing', message: 'Connecting to OBS...' })
+    const result = await testObsConnection(obsSettings.obsUrl, obsSettings.obsPassword)
+    setObsTest(result.success && result.data
+      ? { status: 'ok', message: `Connected to OBS ${result.data.obsVersion} (obs-websocket ${result.data.obsWebSocketVersion})` }
+      : { status: 'failed', message: result.error?.message ?? 'Could not connect to OBS' })
+  }
+
+  const handleRestoreDatabase = async (backupId: string, version: number) => {
+    if (!window.confirm(
+      `Replace all data with the copy taken at database version ${version}? Changes made since then will be lost.`
+    )) return
+
+    if (await restoreBackup(backupId)) {
+      // Reopen everything from the restored copy, which is upgraded again on load
+      window.location.reload()
+    }
+  }
+
+  const handleReset = async () => {
+    if (!window.confirm('Restore every setting to its default?')) return
+
+    setSavedMessage(null)
+    if (await resetPreferences()) {
+      setSavedMessage('Settings restored to defaults')
+    }
+  }
+
+  const apiFields: Array<{ key: keyof APISettings; label: string; unit: string; help: string }> = [
+    { key: 'apiTimeout', label: 'Request timeout', unit: 'ms', help: 'How long to wait for Twitch before giving up' },
+    { key: 'apiRetryAttempts', label: 'Retry attempts', unit: 'times', help: 'Retries after network errors, rate limiting or Twitch server errors' },
+    { key: 'apiRetryDelay', label: 'Retry delay', unit: 'ms', help: 'Wait before the first retry; each further retry waits longer' },
+  ]
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="text-center">
+          <div className="text-4xl mb-4 animate-pulse">⏳</div>
+          <p className="text-lg text-neutral-600">Loading settings...</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div>
+      <div className="mb-8">
+        <h1 className="text-4xl font-medium text-neutral-900 mb-3">
+          Settings
+        </h1>
+        <p className="text-lg text-neutral-600">
+          Choose how Scratch My Twitch looks and behaves
+        </p>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between">
+          <p className="text-red-800 text-sm">{error}</p>
+          <button onClick={clearError} className="text-red-700 hover:text-red-900 text-sm underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {savedMessage && !error && (
+        <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center justify-between" role="status">
+          <p className="text-green-800 text-sm">{savedMessage}</p>
+          <button onClick={() => setSavedMessage(null)} className="text-green-700 hover:text-green-900 text-sm underline">
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {/* Appearance */}
+      <section className="scandi-card mb-6">
+        <h2 className="text-lg font-medium text-neutral-900 mb-4">Appearance</h2>
+        <fieldset>
+          <legend className="block text-sm font-medium text-neutral-700 mb-2">Theme</legend>
+          <div className="flex flex-wrap gap-3">
+            {THEME_OPTIONS.map(option => (
+              <label
+                key={option.value}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-lg border cursor-pointer text-sm ${
+                  preferences.theme === option.value
+                    ? 'border-primary bg-primary/10 text-neutral-900'
+                    : 'border-neutral-200 text-neutral-600 hover:bg-neutral-100'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="theme"
+                  value={option.value}
+                  checked={preferences.theme === option.value}
+                  onChange={() => save({ theme: option.value })}
+                  className="sr-only"
+                />
+                <span>{option.icon}</span>
+                <span>{option.label}</span>
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-neutral-500 mt-2">System follows your operating system's light or dark mode</p>
+        </fieldset>
+      </section>
+
+      {/* Behaviour */}
+      <section className="scandi-card mb-6 space-y-4">
+        <h2 className="text-lg font-medium text-neutral-900">Behaviour</h2>
+        <Toggle
+          name="confirmActions"
+          label="Preview changes before applying"
+          description="Show what will change on your channel and let you pick fields before a profile is applied"
+          checked={preferences.confirmActions}
+          onChange={(checked) => save({ confirmActions: checked })}
+        />
+        <Toggle
+          name="notifications"
+          label="Desktop notifications"
+          description="Notify you when a scheduled profile is applied or fails"
+          checked={preferences.notifications}
+          onChange={handleNotificationsChange}
+        />
+        {preferences.notifications && permission === 'denied' && (
+          <p className="text-xs text-yellow-700 ml-7">
+            Your browser is blocking notifications for this site. Allow them in your browser settings.
+          </p>
+        )}
+        {preferences.notifications && permission === 'unsupported' && (
+          <p className="text-xs text-yellow-700 ml-7">This browser doesn't support desktop notifications.</p>
+        )}
+        <Toggle
+          name="autoApply"
+          label="Auto-apply profiles"
+          description="Apply profiles from your schedule when their slot starts, and when you go live, while this app is open"
+          checked={preferences.autoApply}
+          onChange={(checked) => save({ autoApply: checked })}
+        />
+        <div>
+          <label htmlFor="defaultProfileId" className="block text-sm font-medium text-neutral-700 mb-2">
+            Default profile
+          </label>
+          <select
+            id="defaultProfileId"
+            name="defaultProfileId"
+            value={preferences.defaultProfileId ?? ''}
+            onChange={(e) => save({ defaultProfileId: e.target.value || undefined })}
+            className="scandi-input w-full md:w-1/2"
+          >
+            <option value="">None</option>
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+          <p className="text-xs text-neutral-500 mt-1">
+            Applied when you go live outside a scheduled slot, and preselected when adding a slot to your{' '}
+            <Link to="/schedule" className="underline">schedule</Link>
+          </p>
+        </div>
+      </section>
+
+      {/* Twitch API */}
+      <form onSubmit={handleSaveAPISettings} className="scandi-card mb-6">
+        <h2 className="text-lg font-medium text-neutral-900 mb-4">Twitch API</h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+          {apiFields.map(field => (
+            <div key={field.key}>
+              <label htmlFor={field.key} className="block text-sm font-medium text-neutral-700 mb-2">
+                {field.label} <span className="text-neutral-400 font-normal">({field.unit})</span>
+              </label>
+              <input
+                type="number"
+                id={field.key}
+                name={field.key}
+                min={PREFERENCE_LIMITS[field.key].min}
+                max={PREFERENCE_LIMITS[field.key].max}
+                step={1}
+                value={apiSettings[field.key]}
+                onChange={(e) => setApiSettings(prev => ({ ...prev, [field.key]: e.target.valueAsNumber }))}
+                className="scandi-input w-full"
+                required
+              />
+              <p className="text-xs text-neutral-500 mt-1">{field.help}</p>
+            </div>
+          ))}
+        </div>
+        <button type="submit" className="scandi-btn">
+          Save API Settings
+        </button>
+      </form>
+
+      {/* Offline applies */}
+      <form onSubmit={handleSaveQueueSettings} className="scandi-card mb-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-medium text-neutral-900">Offline Applies</h2>
+          <p className="text-sm text-neutral-500">
+            Applies made while Twitch can't be reached are queued and sent once the connection is back
+          </p>
+        </div>
+        <fieldset>
+          <legend className="block text-sm font-medium text-neutral-700 mb-2">When several applies are queued</legend>
+          <div className="space-y-2">
+            {APPLY_QUEUE_CONFLICT_RULES.map(rule => (
+              <label key={rule.value} className="flex items-start space-x-3">
+                <input
+                  type="radio"
+                  name="applyQueueConflictRule"
+                  value={rule.value}
+                  checked={queueSettings.applyQueueConflictRule === rule.value}
+                  onChange={() => setQueueSettings(prev => ({ ...prev, applyQueueConflictRule: rule.value }))}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-neutral-900">{rule.label}</span>
+                  <span className="block text-xs text-neutral-500">{rule.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        <div>
+          <label htmlFor="applyQueueMaxAge" className="block text-sm font-medium text-neutral-700 mb-2">
+            Drop queued applies after <span className="text-neutral-400 font-normal">(minutes)</span>
+          </label>
+          <input
+            type="number"
+            id="applyQueueMaxAge"
+            name="applyQueueMaxAge"
+            min={PREFERENCE_LIMITS.applyQueueMaxAge.min}
+            max={PREFERENCE_LIMITS.applyQueueMaxAge.max}
+            step={1}
+            value={queueSettings.applyQueueMaxAge}
+            onChange={(e) => setQueueSettings(prev => ({ ...prev, applyQueueMaxAge: e.target.valueAsNumber }))}
+            className="scandi-input w-full md:w-1/3"
+            required
+          />
+          <p className="text-xs text-neutral-500 mt-1">Older applies are dropped instead of changing your stream long after you asked</p>
+        </div>
+        <button type="submit" className="scandi-btn">
+          Save Offline Apply Settings
+        </button>
+      </form>
+
+      {/* Twitch sign-in */}
+      <form onSubmit={handleSaveSignInSettings} className="scandi-card mb-6 space-y-4">
+        <h2 className="text-lg font-medium text-neutral-900">Twitch Sign-in</h2>
+        <fieldset>
+          <legend className="block text-sm font-medium text-neutral-700 mb-2">Sign-in method</legend>
+          <div className="space-y-2">
+            {SIGN_IN_OPTIONS.map(option => (
+              <label key={option.value} className="flex items-start space-x-3">
+                <input
+                  type="radio"
+                  name="authStrategy"
+                  value={option.value}
+                  checked={signInSettings.authStrategy === option.value}
+                  onChange={() => setSignInSettings(prev => ({ ...prev, authStrategy: option.value }))}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-neutral-900">{option.label}</span>
+                  <span className="block text-xs text-neutral-500">{option.description}</span>
+                </span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+        {signInSettings.authStrategy === 'pkce' && (
+          <div>
+            <label htmlFor="tokenExchangeUrl" className="block text-sm font-medium text-neutral-700 mb-2">
+              Token exchange server
+            </label>
+            <input
+              type="url"
+              id="tokenExchangeUrl"
+              name="tokenExchangeUrl"
+              value={signInSettings.tokenExchangeUrl}
+              onChange={(e) => setSignInSettings(prev => ({ ...prev, tokenExchangeUrl: e.target.value }))}
+              className="scandi-input w-full"
+              placeholder="https://auth.example.com/token"
+              required
+            />
+            <p className="text-xs text-neutral-500 mt-1">
+              Trades sign-in codes and refresh tokens with Twitch using your app's client secret
+            </p>
+          </div>
+        )}
+        <p className="text-xs text-neutral-500">The sign-in method takes effect the next time you connect your Twitch account</p>
+        <div>
+          <label htmlFor="tokenExpiryWarnings" className="block text-sm font-medium text-neutral-700 mb-2">
+            Expiry warnings (minutes before)
+          </label>
+          <input
+            type="text"
+            id="tokenExpiryWarnings"
+            name="tokenExpiryWarnings"
+            value={expiryWarnings}
+            onChange={(e) => setExpiryWarnings(e.target.value)}
+            className="scandi-input w-full"
+            placeholder="15, 5"
+          />
+          <p className="text-xs text-neutral-500 mt-1">
+            Warn this many minutes before the Twitch session expires, separated by commas
+            (up to {EXPIRY_WARNING_LIMITS.count}, {EXPIRY_WARNING_LIMITS.min}-{EXPIRY_WARNING_LIMITS.max}).
+            Sessions that renew themselves don't warn.
+          </p>
+        </div>
+        <button type="submit" className="scandi-btn">
+          Save Sign-in Settings
+        </button>
+      </form>
+
+      {/* OBS */}
+      <form onSubmit={handleSaveOBSSettings} className="scandi-card mb-6 space-y-4">
+        <h2 className="text-lg font-medium text-neutral-900">OBS Studio</h2>
+        <Toggle
+          name="obsEnabled"
+          label="Control OBS"
+          description="Switch scenes and sources in OBS when a profile with OBS actions is applied"
+          checked={preferences.obsEnabled}
+          onChange={(checked) => save({ obsEnabled: checked })}
+        />
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="obsUrl" className="block text-sm font-medium text-neutral-700 mb-2">
+              WebSocket address
+            </label>
+            <input
+              type="text"
+              id="obsUrl"
+              name="obsUrl"
+              value={obsSettings.obsUrl}
+              onChange={(e) => setObsSettings(prev => ({ ...prev, obsUrl: e.target.value }))}
+              className="scandi-input w-full"
+              placeholder="ws://127.0.0.1:4455"
+              required
+            />
+            <p className="text-xs text-neutral-500 mt-1">In OBS: Tools → WebSocket Server Settings</p>
+          </div>
+          <div>
+            <label htmlFor="obsPassword" className="block text-sm font-medium text-neutral-700 mb-2">
+              Password
+            </label>
+            <input
+              type="password"
+              id="obsPassword"
+              name="obsPassword"
+              value={obsSettings.obsPassword}
+              onChange={(e) => setObsSettings(prev => ({ ...prev, obsPassword: e.target.value }))}
+              className="scandi-input w-full"
+              autoComplete="off"
+            />
+            <p className="text-xs text-neutral-500 mt-1">Leave empty if authentication is off in OBS</p>
+          </div>
+        </div>
+        {obsTest && (
+          <p
+            className={`text-sm ${
+              obsTest.status === 'ok' ? 'text-green-700' : obsTest.status === 'failed' ? 'text-red-700' : 'text-neutral-600'
+            }`}
+            data-testid="obs-test-result"
+          >
+            {obsTest.message}
+          </p>
+        )}
+        <div className="flex items-center space-x-3">
+          <button type="submit" className="scandi-btn">
+            Save OBS Settings
+          </button>
+          <button
+            type="button"
+            onClick={handleTestOBS}
+            className="scandi-btn-secondary"
+            disabled={obsTest?.status === 'testing'}
+          >
+            Test Connection
+          </button>
+        </div>
+      </form>
+
+      {/* Developer */}
+      <section className="scandi-card mb-6">
+        <h2 className="text-lg font-medium text-neutral-900 mb-4">Developer</h2>
+        <Toggle
+          name="debugLogging"
+          label="Debug logging"
+          description="Log Twitch API, OBS, sign-in and scheduler activity to the browser console"
+          checked={preferences.debugLogging}
+          onChange={(checked) => save({ debugLogging: checked })}
+        />
+      </section>
+
+      {/* Database */}
+      <section className="scandi-card mb-6">
+        <h2 className="text-lg font-medium text-neutral-900 mb-1">Database</h2>
+        <p className="text-sm text-neutral-600 mb-4">
+          Schema version {schemaVersion}. A copy of your data is kept from before each of the last upgrades.
+        </p>
+
+        {databaseError && (
+          <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center justify-between" role="alert">
+            <p className="text-red-800 text-sm">{databaseError}</p>
+            <button onClick={clearDatabaseError} className="text-red-700 hover:text-red-900 text-sm underline">
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {databaseBackups.length === 0 ? (
+          <p className="text-sm text-neutral-500">No upgrades have needed a backup yet</p>
+        ) : (
+          <ul className="divide-y divide-neutral-200">
+            {databaseBackups.map(backup => (
+              <li key={backup.id} className="py-3 flex items-center justify-between gap-4" data-testid="database-backup">
+                <div className="text-sm">
+                  <p className="text-neutral-800">
+                    Before upgrading from version {backup.version} to {backup.targetVersion}
+                  </p>
+                  <p className="text-neutral-500">
+                    {backup.takenAt.toLocaleString()} · {backup.recordCount} record{backup.recordCount === 1 ? '' : 's'}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRestoreDatabase(backup.id, backup.version)}
+                  disabled={isRestoring}
+                  className="scandi-btn-secondary"
+                >
+                  {isRestoring ? 'Restoring...' : 'Restore'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      {/* Backup */}
+      <section className="scandi-card mb-6 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-medium text-neutral-900 mb-1">Backup &amp; Restore</h2>
+          <p className="text-sm text-neutral-600">Save your profiles to a file or restore them from a backup</p>
+        </div>
+        <Link to="/backup" className="scandi-btn-secondary">
+          Open Backup &amp; Restore
+        </Link>
+      </section>
+
+      <div className="flex justify-end">
+        <button type="button" onClick={handleReset} className="scandi-btn-secondary">
+          Restore Defaults
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+/**
+ * Apply Queue Repository
+ *
+ * Stores applies requested while Twitch was unreachable until the apply
+ * queue sends them. Kept in IndexedDB so queued applies survive a reload
+ * and can be flushed by whichever tab is open when the connection returns.
+ */
+
+import type { ApplyIntent } from '@/types/ApplyQueue';
+import { generateUUID } from '@/types/ProfileUtils';
+import { STORAGE_KEYS, ERROR_CODES } from '@/types/constants';
+import { getDB } from '@/lib/db/indexedDB';
+import { publishChange } from '@/lib/sync/changeBus';
+import type { RepositoryResult } from './ProfileRepository';
+
+/**
+ * Input for queueing an apply
+ */
+export type CreateApplyIntentInput = Pick<ApplyIntent, 'profileId' | 'profileName' | 'fields' | 'accountId'>;
+
+/**
+ * Apply Queue Repository Implementation
+ */
+export class ApplyQueueRepository {
+  private readonly storeName = STORAGE_KEYS.APPLY_QUEUE_STORE;
+
+  /**
+   * Get every queued apply, oldest first
+   */
+  async getAll(): Promise<RepositoryResult<ApplyIntent[]>> {
+    try {
+      const db = await getDB();
+      const intents = await db.getAll<ApplyIntent>(this.storeName);
+
+      return {
+        success: true,
+        data: intents
+          .map(intent => ({ ...intent, queuedAt: new Date(intent.queuedAt) }))
+          .sort((a, b) => a.queuedAt.getTime() - b.queuedAt.getTime())
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to fetch queued applies',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Queue an apply
+   */
+  async add(input: CreateApplyIntentInput, queuedAt: Date = new Date()): Promise<RepositoryResult<ApplyIntent>> {
+    try {
+      const db = await getDB();
+      const intent: ApplyIntent = {
+        id: generateUUID(),
+        profileId: input.profileId,
+        profileName: input.profileName,
+        fields: input.fields,
+        accountId: input.accountId,
+        queuedAt,
+        attempts: 0
+      };
+
+      await db.add(this.storeName, intent);
+      publishChange('applyQueue', [intent.id]);
+
+      return {
+        success: true,
+        data: intent
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to queue apply',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Record a send attempt that didn't go through
+   */
+  async recordAttempt(intent: ApplyIntent, error: string): Promise<RepositoryResult<ApplyIntent>> {
+    try {
+      const db = await getDB();
+      const updated: ApplyIntent = {
+        ...intent,
+        attempts: intent.attempts + 1,
+        lastError: error
+      };
+
+      await db.put(this.storeName, updated);
+      publishChange('applyQueue', [intent.id]);
+
+      return {
+        success: true,
+        data: updated
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to update queued apply',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Remove queued applies
+   */
+  async remove(ids: string[]): Promise<RepositoryResult<void>> {
+    try {
+      const db = await getDB();
+      for (const id of ids) {
+        await db.delete(this.storeName, id);
+      }
+      publishChange('applyQueue', ids);
+
+      return {
+        success: true
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to remove queued apply',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Drop every queued apply
+   */
+  async clear(): Promise<RepositoryResult<void>> {
+    try {
+      const db = await getDB();
+      await db.clear(this.storeName);
+      publishChange('applyQueue');
+
+      return {
+        success: true
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to clear queued applies',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+}
+
+// Singleton instance
+let applyQueueRepositoryInstance: ApplyQueueRepository | null = null;
+
+/**
+ * Get the apply queue repository instance
+ */
+export const getApplyQueueRepository = (): ApplyQueueRepository => {
+  if (!applyQueueRepositoryInstance) {
+    applyQueueRepositoryInstance = new ApplyQueueRepository();
+  }
+  return applyQueueRepositoryInstance;
+};
+
+/**
+ * Reset the apply queue repository instance (useful for testing)
+ */
+export const resetApplyQueueRepository = (): void => {
+  applyQueueRepositoryInstance = null;
+};
@@ -2,20 +2,37 @@
  * Category Repository
  * 
  * Handles caching of Twitch categories for offline use.
- * Implements 24-48 hour cache strategy as defined in the PRD.
+ * Each entry expires on its own after the cache TTL, and once the cache
+ * grows past its cap the least recently used entries are evicted.
+ * Categories that profiles use are never dropped.
  */
 
 import type { StreamCategory } from '@/types/Profile';
+import type { CachedCategory } from '@/types/TwitchAPI';
 import { STORAGE_KEYS, CACHE_SETTINGS } from '@/types/constants';
 import { getDB } from '@/lib/db/indexedDB';
-import type { RepositoryResult } from './ProfileRepository';
+import {
+  buildCategoryIndex,
+  buildCategoryUsage,
+  searchCategoryIndex,
+  type CategoryUsage
+} from '@/lib/categories/categorySearch';
+import { getProfileRepository, type RepositoryResult } from './ProfileRepository';
+import { getHistoryRepository } from './HistoryRepository';
 
 /**
- * Cached category with metadata
+ * Records written before expiry and LRU tracking kept a last-fetched time instead
  */
-interface CachedCategory extends StreamCategory {
-  cachedAt: Date;
-  lastFetched: Date;
+type StoredCategory = Partial<CachedCategory> & StreamCategory & { cachedAt: Date; lastFetched?: Date };
+
+/**
+ * Outcome of a cache maintenance pass
+ */
+export interface CategoryMaintenanceResult {
+  /** Expired entries removed */
+  expired: number;
+  /** Least recently used entries removed to stay under the cap */
+  evicted: number;
 }
 
 /**
@@ -38,19 +55,11 @@ export class CategoryRepository {
    */
   async getAll(): Promise<RepositoryResult<StreamCategory[]>> {
     try {
-      const db = await getDB();
-      const cachedCategories = await db.getAll<CachedCategory>(this.storeName);
-      
-      // Convert cached categories to stream categories
-      const categories = cachedCategories.map(cached => ({
-        id: cached.id,
-        name: cached.name,
-        boxArtUrl: cached.boxArtUrl
-      }));
+      const records = await this.getRecords();
 
       return {
         success: true,
-        data: categories
+        data: records.map(record => this.toCategory(record))
       };
     } catch (error) {
       return {
@@ -65,63 +74,44 @@ export class CategoryRepository {
   }
 
   /**
-   * Search categories by name (cached first, then API if needed)
+   * Search categories by name: Twitch's results merged with cached and
+   * default categories, ranked by relevance and the user's own usage.
+   * Twitch falls back to the cache by itself when signed out or offline.
    */
   async search(query: string, limit?: number): Promise<RepositoryResult<StreamCategory[]>> {
-    try {
-      // First, search in cache
-      const cachedResult = await this.searchCached(query, limit);
-
-      if (cachedResult.success && cachedResult.data && cachedResult.data.length > 0) {
-        return cachedResult;
-      }
+    const usage = await this.getUsage();
 
-      // If no cached results, search via Twitch API
+    try {
       const { getTwitchAPI } = await import('@/lib/api/twitchAPI');
-      const apiResult = await getTwitchAPI().searchCategories(query, limit);
+      const [apiResult, records] = await Promise.all([
+        getTwitchAPI().searchCategories(query, limit),
+        this.getRecords()
+      ]);
 
-      if (apiResult.success && apiResult.data && apiResult.data.length > 0) {
-        // Convert TwitchGameResponse to StreamCategory
-        const categories: StreamCategory[] = apiResult.data.map(game => ({
+      const live: StreamCategory[] = apiResult.success && apiResult.data
+        ? apiResult.data.map(game => ({
           id: game.id,
           name: game.name,
-          boxArtUrl: game.box_art_url
-        }));
+          boxArtUrl: game.box_art_url || undefined
+        }))
+        : [];
 
-        return {
-          success: true,
-          data: categories
-        };
-      }
-
-      // If API also returns no results, fallback to searching default categories
-      const defaultCategories = this.getDefaultCategories();
-      const filteredDefaults = defaultCategories.filter(category =>
-        category.name.toLowerCase().includes(query.toLowerCase())
-      );
-
-      if (limit !== undefined && limit > 0) {
-        return {
-          success: true,
-          data: filteredDefaults.slice(0, limit)
-        };
-      }
+      const index = buildCategoryIndex([
+        ...live,
+        ...records.map(record => this.toCategory(record)),
+        ...this.getDefaultCategories()
+      ]);
 
       return {
         success: true,
-        data: filteredDefaults
+        data: searchCategoryIndex(index, query, { usage, limit, keep: new Set(live.map(category => category.id)) })
       };
     } catch (error) {
       // On error, try to return default categories as fallback
       try {
-        const defaultCategories = this.getDefaultCategories();
-        const filteredDefaults = defaultCategories.filter(category =>
-          category.name.toLowerCase().includes(query.toLowerCase())
-        );
-
         return {
           success: true,
-          data: limit !== undefined && limit > 0 ? filteredDefaults.slice(0, limit) : filteredDefaults
+          data: searchCategoryIndex(buildCategoryIndex(this.getDefaultCategories()), query, { usage, limit })
         };
       } catch {
         return {
@@ -137,28 +127,16 @@ export class CategoryRepository {
   }
 
   /**
-   * Search only in cached categories (public for use by TwitchAPIClient)
+   * Fuzzy search of the cached categories only (public for use by TwitchAPIClient)
    */
   async searchCached(query: string, limit?: number): Promise<RepositoryResult<StreamCategory[]>> {
     try {
-      const allResult = await this.getAll();
-
-      if (!allResult.success || !allResult.data) {
-        return allResult;
-      }
-
-      let filteredCategories = allResult.data.filter(category =>
-        category.name.toLowerCase().includes(query.toLowerCase())
-      );
-
-      // Apply limit if specified
-      if (limit !== undefined && limit > 0) {
-        filteredCategories = filteredCategories.slice(0, limit);
-      }
+      const records = await this.getRecords();
+      const index = buildCategoryIndex(records.map(record => this.toCategory(record)));
 
       return {
         success: true,
-        data: filteredCategories
+        data: searchCategoryIndex(index, query, { usage: await this.getUsage(), limit })
       };
     } catch (error) {
       return {
@@ -173,14 +151,14 @@ export class CategoryRepository {
   }
 
   /**
-   * Get a category by ID
+   * Get a category by ID. Reading isn't a use; markUsed records picks.
    */
   async getById(id: string): Promise<RepositoryResult<StreamCategory>> {
     try {
       const db = await getDB();
-      const cached = await db.get<CachedCategory>(this.storeName, id);
+      const stored = await db.get<StoredCategory>(this.storeName, id);
 
-      if (!cached) {
+      if (!stored) {
         return {
           success: false,
           error: {
@@ -190,15 +168,9 @@ export class CategoryRepository {
         };
       }
 
-      const category: StreamCategory = {
-        id: cached.id,
-        name: cached.name,
-        boxArtUrl: cached.boxArtUrl
-      };
-
       return {
         success: true,
-        data: category
+        data: this.toCategory(this.deserialize(stored))
       };
     } catch (error) {
       return {
@@ -213,20 +185,16 @@ export class CategoryRepository {
   }
 
   /**
-   * Cache a single category
+   * Record that a category was picked, so eviction keeps it longer
    */
-  async cache(category: StreamCategory): Promise<RepositoryResult<void>> {
+  async markUsed(id: string): Promise<RepositoryResult<void>> {
     try {
       const db = await getDB();
-      const now = new Date();
-
-      const cachedCategory: CachedCategory = {
-        ...category,
-        cachedAt: now,
-        lastFetched: now
-      };
+      const stored = await db.get<StoredCategory>(this.storeName, id);
 
-      await db.put(this.storeName, cachedCategory);
+      if (stored) {
+        await db.put(this.storeName, { ...this.deserialize(stored), lastUsedAt: new Date() });
+      }
 
       return {
         success: true
@@ -235,7 +203,7 @@ export class CategoryRepository {
       return {
         success: false,
         error: {
-          message: 'Failed to cache category',
+          message: 'Failed to update category usage',
           code: 'STORAGE_ERROR',
           details: error
         }
@@ -244,7 +212,15 @@ export class CategoryRepository {
   }
 
   /**
-   * Cache categories from API response
+   * Cache a single category
+   */
+  async cache(category: StreamCategory): Promise<RepositoryResult<void>> {
+    return this.cacheCategories([category]);
+  }
+
+  /**
+   * Cache categories from API response.
+   * Refreshing an entry restarts its expiry but keeps when it was last used.
    */
   async cacheCategories(categories: StreamCategory[]): Promise<RepositoryResult<void>> {
     try {
@@ -252,15 +228,12 @@ export class CategoryRepository {
       const now = new Date();
 
       for (const category of categories) {
-        const cachedCategory: CachedCategory = {
-          ...category,
-          cachedAt: now,
-          lastFetched: now
-        };
-
-        await db.put(this.storeName, cachedCategory);
+        const existing = await db.get<StoredCategory>(this.storeName, category.id);
+        await db.put(this.storeName, this.toRecord(category, now, existing ? this.deserialize(existing).lastUsedAt : now));
       }
 
+      await this.evictLeastRecentlyUsed(await this.getRecords());
+
       return {
         success: true
       };
@@ -268,7 +241,7 @@ export class CategoryRepository {
       return {
         success: false,
         error: {
-          message: 'Failed to cache categories',
+          message: 'Failed to cache category',
           code: 'STORAGE_ERROR',
           details: error
         }
@@ -277,29 +250,68 @@ export class CategoryRepository {
   }
 
   /**
-   * Check if cache needs refresh (24-48 hours old)
+   * Check if cache needs refresh: empty, or any entry past its expiry.
+   * Categories used by profiles are kept through maintenance and refreshed
+   * by the category revalidator, so their age doesn't count here.
    */
   async needsRefresh(): Promise<boolean> {
     try {
-      const db = await getDB();
-      const categories = await db.getAll<CachedCategory>(this.storeName);
+      const records = await this.getRecords();
 
-      if (categories.length === 0) {
+      if (records.length === 0) {
         return true; // No cache, needs refresh
       }
 
-      // Check if oldest category is beyond TTL
-      const oldestCategory = categories.reduce((oldest, current) => {
-        return new Date(current.cachedAt) < new Date(oldest.cachedAt) ? current : oldest;
-      });
-
-      const cacheAge = Date.now() - new Date(oldestCategory.cachedAt).getTime();
-      return cacheAge > CACHE_SETTINGS.CATEGORIES_TTL;
+      return this.hasStaleEntries(records, await this.getProfileCategoryIds());
     } catch {
       return true; // Error means we should refresh
     }
   }
 
+  /**
+   * Drop expired entries and evict the least recently used ones beyond the
+   * cap. Categories used by profiles stay whatever their age. Run at startup.
+   */
+  async runMaintenance(): Promise<RepositoryResult<CategoryMaintenanceResult>> {
+    try {
+      const db = await getDB();
+      const inUse = await this.getProfileCategoryIds();
+      const records = await this.getRecords();
+
+      if (!inUse) {
+        // Without the profiles we can't tell what is safe to remove
+        return {
+          success: true,
+          data: { expired: 0, evicted: 0 }
+        };
+      }
+
+      const now = Date.now();
+      const expired = records.filter(record => this.isExpired(record, now) && !inUse.has(record.id));
+
+      for (const record of expired) {
+        await db.delete(this.storeName, record.id);
+      }
+
+      const remaining = records.filter(record => !expired.includes(record));
+      const evicted = await this.evictLeastRecentlyUsed(remaining, inUse);
+
+      return {
+        success: true,
+        data: { expired: expired.length, evicted }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to clean up the category cache',
+          code: 'STORAGE_ERROR',
+          details: error
+        }
+      };
+    }
+  }
+
   /**
    * Clear all cached categories
    */
@@ -330,11 +342,11 @@ export class CategoryRepository {
     totalCategories: number;
     oldestCache: Date | null;
     newestCache: Date | null;
+    expiredCategories: number;
     needsRefresh: boolean;
   }>> {
     try {
-      const db = await getDB();
-      const categories = await db.getAll<CachedCategory>(this.storeName);
+      const categories = await this.getRecords();
 
       if (categories.length === 0) {
         return {
@@ -343,23 +355,25 @@ export class CategoryRepository {
             totalCategories: 0,
             oldestCache: null,
             newestCache: null,
+            expiredCategories: 0,
             needsRefresh: true
           }
         };
       }
 
-      const dates = categories.map(c => new Date(c.cachedAt));
-      const oldestCache = new Date(Math.min(...dates.map(d => d.getTime())));
-      const newestCache = new Date(Math.max(...dates.map(d => d.getTime())));
-      const needsRefresh = await this.needsRefresh();
+      const now = Date.now();
+      const dates = categories.map(c => c.cachedAt.getTime());
+      const expiredCategories = categories.filter(c => this.isExpired(c, now)).length;
+      const inUse = expiredCategories > 0 ? await this.getProfileCategoryIds() : null;
 
       return {
         success: true,
         data: {
           totalCategories: categories.length,
-          oldestCache,
-          newestCache,
-          needsRefresh
+          oldestCache: new Date(Math.min(...dates)),
+          newestCache: new Date(Math.max(...dates)),
+          expiredCategories,
+          needsRefresh: expiredCategories > 0 && this.hasStaleEntries(categories, inUse)
         }
       };
     } catch (error) {
@@ -393,8 +407,135 @@ export class CategoryRepository {
       { id: '33214', name: 'Fortnite' }
     ];
   }
+
+  /**
+   * Read every cache record
+   */
+  private async getRecords(): Promise<CachedCategory[]> {
+    const db = await getDB();
+    const stored = await db.getAll<StoredCategory>(this.storeName);
+    return stored.map(record => this.deserialize(record));
+  }
+
+  /**
+   * Evict the least recently used entries beyond the cap, skipping the ones
+   * profiles use. Returns how many were removed.
+   */
+  private async evictLeastRecentlyUsed(records: CachedCategory[], inUse?: Set<string>): Promise<number> {
+    const overflow = records.length - CACHE_SETTINGS.CATEGORIES_MAX_ENTRIES;
+    if (overflow <= 0) {
+      return 0;
+    }
+
+    const protectedIds = inUse ?? await this.getProfileCategoryIds();
+    if (!protectedIds) {
+      return 0;
+    }
+
+    const db = await getDB();
+    const victims = records
+      .filter(record => !protectedIds.has(record.id))
+      .sort((a, b) => a.lastUsedAt.getTime() - b.lastUsedAt.getTime())
+      .slice(0, overflow);
+
+    for (const record of victims) {
+      await db.delete(this.storeName, record.id);
+    }
+
+    return victims.length;
+  }
+
+  /**
+   * How often and how recently each category was applied, for ranking.
+   * Empty when the history can't be read; search still works without it.
+   */
+  private async getUsage(): Promise<Map<string, CategoryUsage>> {
+    const result = await getHistoryRepository().getAll();
+    if (!result.success || !result.data) {
+      return new Map();
+    }
+    return buildCategoryUsage(result.data.filter(entry => entry.success && entry.action === 'apply'));
+  }
+
+  /**
+   * IDs of the categories profiles use, or null when profiles can't be read
+   */
+  private async getProfileCategoryIds(): Promise<Set<string> | null> {
+    const result = await getProfileRepository().getAll();
+    if (!result.success || !result.data) {
+      return null;
+    }
+    return new Set(result.data.map(profile => profile.category.id));
+  }
+
+  /**
+   * Whether any entry is past its expiry, leaving out the ones profiles use
+   */
+  private hasStaleEntries(records: CachedCategory[], inUse: Set<string> | null): boolean {
+    const now = Date.now();
+    return records.some(record => this.isExpired(record, now) && !inUse?.has(record.id));
+  }
+
+  /**
+   * Whether an entry is past its expiry
+   */
+  private isExpired(record: CachedCategory, now: number): boolean {
+    return record.expiresAt.getTime() <= now;
+  }
+
+  /**
+   * Build a cache record for a category
+   */
+  private toRecord(category: StreamCategory, now: Date, lastUsedAt: Date): CachedCategory {
+    return {
+      id: category.id,
+      name: category.name,
+      boxArtUrl: category.boxArtUrl,
+      cachedAt: now,
+      expiresAt: new Date(now.getTime() + CACHE_SETTINGS.CATEGORIES_TTL),
+      lastUsedAt,
+      searchTerms: toSearchTerms(category.name)
+    };
+  }
+
+  /**
+   * Convert date strings back to Date objects and fill in fields older
+   * records don't have
+   */
+  private deserialize(record: StoredCategory): CachedCategory {
+    const cachedAt = new Date(record.cachedAt);
+
+    return {
+      id: record.id,
+      name: record.name,
+      boxArtUrl: record.boxArtUrl,
+      cachedAt,
+      expiresAt: record.expiresAt
+        ? new Date(record.expiresAt)
+        : new Date(cachedAt.getTime() + CACHE_SETTINGS.CATEGORIES_TTL),
+      lastUsedAt: new Date(record.lastUsedAt ?? record.lastFetched ?? cachedAt),
+      searchTerms: record.searchTerms ?? toSearchTerms(record.name)
+    };
+  }
+
+  /**
+   * The category as the rest of the app sees it
+   */
+  private toCategory(record: CachedCategory): StreamCategory {
+    return {
+      id: record.id,
+      name: record.name,
+      boxArtUrl: record.boxArtUrl
+    };
+  }
 }
 
+/**
+ * Lowercased words of a category name for offline filtering
+ */
+const toSearchTerms = (name: string): string[] =>
+  name.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
 // Singleton instance
 let categoryRepositoryInstance: CategoryRepository | null = null;
 
@@ -0,0 +1,228 @@
+/**
+ * History Repository
+ *
+ * Stores a log of every channel update sent to Twitch together with the
+ * channel state captured beforehand, so any apply can be reverted later.
+ */
+
+import type { ApplyHistoryEntry, CreateApplyHistoryInput } from '@/types/History';
+import { generateUUID } from '@/types/ProfileUtils';
+import { STORAGE_KEYS, ERROR_CODES } from '@/types/constants';
+import { getDB } from '@/lib/db/indexedDB';
+import { publishChange } from '@/lib/sync/changeBus';
+import type { RepositoryResult } from './ProfileRepository';
+
+/**
+ * History Repository Implementation
+ */
+export class HistoryRepository {
+  private readonly storeName = STORAGE_KEYS.HISTORY_STORE;
+
+  /** Oldest entries beyond this count are pruned when recording */
+  private readonly maxEntries = 200;
+
+  /**
+   * Get all history entries, newest first
+   */
+  async getAll(): Promise<RepositoryResult<ApplyHistoryEntry[]>> {
+    try {
+      const db = await getDB();
+      const entries = await db.getAll<ApplyHistoryEntry>(this.storeName);
+
+      const processedEntries = entries
+        .map(entry => this.deserialize(entry))
+        .sort((a, b) => b.appliedAt.getTime() - a.appliedAt.getTime());
+
+      return {
+        success: true,
+        data: processedEntries
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to fetch apply history',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Get a history entry by ID
+   */
+  async getById(id: string): Promise<RepositoryResult<ApplyHistoryEntry>> {
+    try {
+      const db = await getDB();
+      const entry = await db.get<ApplyHistoryEntry>(this.storeName, id);
+
+      if (!entry) {
+        return {
+          success: false,
+          error: {
+            message: 'History entry not found',
+            code: 'HISTORY_ENTRY_NOT_FOUND'
+          }
+        };
+      }
+
+      return {
+        success: true,
+        data: this.deserialize(entry)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to fetch history entry',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Record a channel update
+   */
+  async record(input: CreateApplyHistoryInput): Promise<RepositoryResult<ApplyHistoryEntry>> {
+    try {
+      const db = await getDB();
+
+      const entry: ApplyHistoryEntry = {
+        ...input,
+        id: generateUUID(),
+        appliedAt: new Date()
+      };
+
+      await db.add(this.storeName, entry);
+      await this.prune();
+      publishChange('history', [entry.id]);
+
+      return {
+        success: true,
+        data: entry
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to record apply history',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Mark an entry as reverted
+   */
+  async markReverted(id: string): Promise<RepositoryResult<ApplyHistoryEntry>> {
+    try {
+      const existing = await this.getById(id);
+      if (!existing.success || !existing.data) {
+        return existing;
+      }
+
+      const entry: ApplyHistoryEntry = {
+        ...existing.data,
+        revertedAt: new Date()
+      };
+
+      const db = await getDB();
+      await db.put(this.storeName, entry);
+      publishChange('history', [id]);
+
+      return {
+        success: true,
+        data: entry
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to update history entry',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Delete all history entries
+   */
+  async clear(): Promise<RepositoryResult<void>> {
+    try {
+      const db = await getDB();
+      await db.clear(this.storeName);
+      publishChange('history');
+
+      return {
+        success: true
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to clear apply history',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Drop the oldest entries once the log grows past maxEntries
+   */
+  private async prune(): Promise<void> {
+    const db = await getDB();
+    const entries = await db.getAll<ApplyHistoryEntry>(this.storeName);
+
+    if (entries.length <= this.maxEntries) {
+      return;
+    }
+
+    const expired = entries
+      .sort((a, b) => new Date(b.appliedAt).getTime() - new Date(a.appliedAt).getTime())
+      .slice(this.maxEntries);
+
+    for (const entry of expired) {
+      await db.delete(this.storeName, entry.id);
+    }
+  }
+
+  /**
+   * Convert date strings back to Date objects (IndexedDB serialization)
+   */
+  private deserialize(entry: ApplyHistoryEntry): ApplyHistoryEntry {
+    return {
+      ...entry,
+      appliedAt: new Date(entry.appliedAt),
+      revertedAt: entry.revertedAt ? new Date(entry.revertedAt) : undefined
+    };
+  }
+}
+
+// Singleton instance
+let historyRepositoryInstance: HistoryRepository | null = null;
+
+/**
+ * Get the history repository instance
+ */
+export const getHistoryRepository = (): HistoryRepository => {
+  if (!historyRepositoryInstance) {
+    historyRepositoryInstance = new HistoryRepository();
+  }
+  return historyRepositoryInstance;
+};
+
+/**
+ * Reset the history repository instance (useful for testing)
+ */
+export const resetHistoryRepository = (): void => {
+  historyRepositoryInstance = null;
+};
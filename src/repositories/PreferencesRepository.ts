@@ -0,0 +1,322 @@
+/**
+ * Preferences Repository
+ *
+ * Stores user preferences as key/value records in the preferences store.
+ * Missing keys fall back to DEFAULT_PREFERENCES from the constants.
+ *
+ * The last loaded preferences are also kept in memory so modules that
+ * can't await storage (API clients, loggers) can read them synchronously.
+ * When another tab saves preferences the copy is reloaded, so listeners
+ * hear about those changes too.
+ */
+
+import type { UserPreferences } from '@/types';
+import { APPLY_QUEUE_CONFLICT_RULES } from '@/types/ApplyQueue';
+import { STORAGE_KEYS, ERROR_CODES, DEFAULT_PREFERENCES } from '@/types/constants';
+import { getDB } from '@/lib/db/indexedDB';
+import { publishChange, subscribeToChanges } from '@/lib/sync/changeBus';
+import type { RepositoryResult } from './ProfileRepository';
+
+/**
+ * Key/value record in the preferences store
+ */
+export interface PreferenceRecord<T = unknown> {
+  key: string;
+  value: T;
+}
+
+/**
+ * Allowed ranges for numeric preferences
+ */
+export const PREFERENCE_LIMITS = {
+  apiTimeout: { min: 1000, max: 60000, label: 'API timeout' },
+  apiRetryAttempts: { min: 0, max: 5, label: 'Retry attempts' },
+  apiRetryDelay: { min: 0, max: 10000, label: 'Retry delay' },
+  applyQueueMaxAge: { min: 1, max: 1440, label: 'Queued apply lifetime' }
+} as const;
+
+/**
+ * Allowed session expiry warnings (minutes before expiry)
+ */
+export const EXPIRY_WARNING_LIMITS = { min: 1, max: 240, count: 5 } as const;
+
+const PREFERENCE_KEYS = Object.keys(DEFAULT_PREFERENCES) as Array<keyof UserPreferences>;
+
+const THEMES: Array<UserPreferences['theme']> = ['light', 'dark', 'system'];
+
+const AUTH_STRATEGIES: Array<UserPreferences['authStrategy']> = ['implicit', 'pkce'];
+
+const CONFLICT_RULES = APPLY_QUEUE_CONFLICT_RULES.map(rule => rule.value);
+
+/**
+ * Listener notified whenever preferences are loaded or saved
+ */
+export type PreferencesListener = (preferences: UserPreferences) => void;
+
+/**
+ * Preferences Repository Implementation
+ */
+export class PreferencesRepository {
+  private readonly storeName = STORAGE_KEYS.PREFERENCES_STORE;
+  private cached: UserPreferences = { ...DEFAULT_PREFERENCES };
+  private listeners = new Set<PreferencesListener>();
+
+  /**
+   * Last loaded preferences, or the defaults before the first load
+   */
+  getCached(): UserPreferences {
+    return this.cached;
+  }
+
+  /**
+   * Subscribe to preference changes
+   *
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: PreferencesListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Get all preferences merged over the defaults
+   */
+  async getAll(): Promise<RepositoryResult<UserPreferences>> {
+    try {
+      const db = await getDB();
+      const records = await db.getAll<PreferenceRecord>(this.storeName);
+
+      const preferences = { ...DEFAULT_PREFERENCES } as Record<keyof UserPreferences, unknown>;
+      records.forEach(record => {
+        if (PREFERENCE_KEYS.includes(record.key as keyof UserPreferences)) {
+          preferences[record.key as keyof UserPreferences] = record.value;
+        }
+      });
+
+      this.setCached(preferences as unknown as UserPreferences);
+
+      return {
+        success: true,
+        data: this.cached
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to load preferences',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Get a single preference
+   */
+  async get<K extends keyof UserPreferences>(key: K): Promise<RepositoryResult<UserPreferences[K]>> {
+    try {
+      const db = await getDB();
+      const record = await db.get<PreferenceRecord<UserPreferences[K]>>(this.storeName, key);
+
+      return {
+        success: true,
+        data: record ? record.value : DEFAULT_PREFERENCES[key]
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: `Failed to load preference "${key}"`,
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Save one or more preferences
+   */
+  async update(updates: Partial<UserPreferences>): Promise<RepositoryResult<UserPreferences>> {
+    const validationError = this.validate(updates);
+    if (validationError) {
+      return {
+        success: false,
+        error: validationError
+      };
+    }
+
+    try {
+      const db = await getDB();
+
+      for (const key of Object.keys(updates) as Array<keyof UserPreferences>) {
+        if (!PREFERENCE_KEYS.includes(key)) continue;
+        await db.put<PreferenceRecord>(this.storeName, { key, value: updates[key] });
+      }
+      publishChange('preferences');
+
+      return this.getAll();
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to save preferences',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Restore every preference to its default
+   *
+   * Internal records sharing the store (such as the scheduler checkpoint) are kept.
+   */
+  async reset(): Promise<RepositoryResult<UserPreferences>> {
+    try {
+      const db = await getDB();
+
+      for (const key of PREFERENCE_KEYS) {
+        await db.delete(this.storeName, key);
+      }
+      publishChange('preferences');
+
+      return this.getAll();
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to reset preferences',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Validate preference values before saving
+   */
+  private validate(updates: Partial<UserPreferences>): RepositoryResult['error'] | null {
+    if (updates.theme !== undefined && !THEMES.includes(updates.theme)) {
+      return {
+        message: `Unknown theme "${updates.theme}"`,
+        code: ERROR_CODES.VALIDATION_ERROR
+      };
+    }
+
+    if (updates.obsUrl !== undefined && !/^wss?:\/\/[^\s/]+/.test(updates.obsUrl)) {
+      return {
+        message: 'OBS address must start with ws:// or wss://',
+        code: ERROR_CODES.VALIDATION_ERROR
+      };
+    }
+
+    if (updates.authStrategy !== undefined && !AUTH_STRATEGIES.includes(updates.authStrategy)) {
+      return {
+        message: `Unknown sign-in method "${updates.authStrategy}"`,
+        code: ERROR_CODES.VALIDATION_ERROR
+      };
+    }
+
+    if (updates.tokenExchangeUrl && !/^https?:\/\/[^\s/]+/.test(updates.tokenExchangeUrl)) {
+      return {
+        message: 'Token exchange server must start with http:// or https://',
+        code: ERROR_CODES.VALIDATION_ERROR
+      };
+    }
+
+    const authStrategy = updates.authStrategy ?? this.cached.authStrategy;
+    const tokenExchangeUrl = updates.tokenExchangeUrl ?? this.cached.tokenExchangeUrl;
+    const changesSignIn = updates.authStrategy !== undefined || updates.tokenExchangeUrl !== undefined;
+    if (changesSignIn && authStrategy === 'pkce' && !tokenExchangeUrl) {
+      return {
+        message: 'Signing in with PKCE needs a token exchange server',
+        code: ERROR_CODES.VALIDATION_ERROR
+      };
+    }
+
+    if (updates.applyQueueConflictRule !== undefined && !CONFLICT_RULES.includes(updates.applyQueueConflictRule)) {
+      return {
+        message: `Unknown queue rule "${updates.applyQueueConflictRule}"`,
+        code: ERROR_CODES.VALIDATION_ERROR
+      };
+    }
+
+    if (updates.tokenExpiryWarnings !== undefined) {
+      const { min, max, count } = EXPIRY_WARNING_LIMITS;
+      const warnings = updates.tokenExpiryWarnings;
+      if (
+        !Array.isArray(warnings) ||
+        warnings.length > count ||
+        warnings.some(minutes => !Number.isInteger(minutes) || minutes < min || minutes > max)
+      ) {
+        return {
+          message: `Expiry warnings must be up to ${count} whole numbers of minutes between ${min} and ${max}`,
+          code: ERROR_CODES.VALIDATION_ERROR
+        };
+      }
+    }
+
+    for (const key of Object.keys(PREFERENCE_LIMITS) as Array<keyof typeof PREFERENCE_LIMITS>) {
+      const value = updates[key];
+      if (value === undefined) continue;
+
+      const { min, max, label } = PREFERENCE_LIMITS[key];
+      if (!Number.isInteger(value) || value < min || value > max) {
+        return {
+          message: `${label} must be a whole number between ${min} and ${max}`,
+          code: ERROR_CODES.VALIDATION_ERROR
+        };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Replace the in-memory copy and notify listeners
+   */
+  private setCached(preferences: UserPreferences): void {
+    this.cached = preferences;
+    this.listeners.forEach(listener => listener(preferences));
+  }
+}
+
+// Singleton instance
+let preferencesRepositoryInstance: PreferencesRepository | null = null;
+let stopPreferencesSync: (() => void) | null = null;
+
+/**
+ * Get the preferences repository instance
+ */
+export const getPreferencesRepository = (): PreferencesRepository => {
+  if (!preferencesRepositoryInstance) {
+    const repository = new PreferencesRepository();
+    preferencesRepositoryInstance = repository;
+    // Reload when another tab saves preferences
+    stopPreferencesSync = subscribeToChanges('preferences', () => {
+      void repository.getAll();
+    });
+  }
+  return preferencesRepositoryInstance;
+};
+
+/**
+ * Reset the preferences repository instance (useful for testing)
+ */
+export const resetPreferencesRepository = (): void => {
+  stopPreferencesSync?.();
+  stopPreferencesSync = null;
+  preferencesRepositoryInstance = null;
+};
+
+/**
+ * Read a preference synchronously from the in-memory copy
+ */
+export const getPreference = <K extends keyof UserPreferences>(key: K): UserPreferences[K] =>
+  getPreferencesRepository().getCached()[key];
@@ -0,0 +1,315 @@
+/**
+ * Profile Group Repository
+ *
+ * Persists the groups (folders) profiles are filed under on the dashboard.
+ * Profiles refer to their group by ID, so deleting a group ungroups its profiles.
+ */
+
+import type { ProfileGroup } from '@/types/ProfileGroup';
+import { PROFILE_GROUP_VALIDATION_ERRORS } from '@/types/ProfileGroup';
+import { generateUUID } from '@/types/ProfileUtils';
+import { STORAGE_KEYS, ERROR_CODES, VALIDATION_LIMITS } from '@/types/constants';
+import { getDB } from '@/lib/db/indexedDB';
+import { publishChange } from '@/lib/sync/changeBus';
+import { getProfileRepository, type RepositoryResult } from './ProfileRepository';
+
+/**
+ * Profile Group Repository Implementation
+ */
+export class ProfileGroupRepository {
+  private readonly storeName = STORAGE_KEYS.PROFILE_GROUPS_STORE;
+
+  /**
+   * Get all groups, ordered by name
+   */
+  async getAll(): Promise<RepositoryResult<ProfileGroup[]>> {
+    try {
+      const db = await getDB();
+      const groups = await db.getAll<ProfileGroup>(this.storeName);
+
+      const processedGroups = groups
+        .map(group => ({
+          ...group,
+          createdAt: new Date(group.createdAt),
+          updatedAt: new Date(group.updatedAt)
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      return {
+        success: true,
+        data: processedGroups
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to fetch groups',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Create a group
+   */
+  async create(name: string): Promise<RepositoryResult<ProfileGroup>> {
+    try {
+      const existing = await this.getAll();
+      if (!existing.success || !existing.data) {
+        return {
+          success: false,
+          error: existing.error
+        };
+      }
+
+      if (existing.data.length >= VALIDATION_LIMITS.GROUPS_MAX) {
+        return {
+          success: false,
+          error: {
+            message: `You can have up to ${VALIDATION_LIMITS.GROUPS_MAX} groups`,
+            code: PROFILE_GROUP_VALIDATION_ERRORS.TOO_MANY_GROUPS
+          }
+        };
+      }
+
+      const validationError = this.validateName(name, existing.data);
+      if (validationError) {
+        return {
+          success: false,
+          error: validationError
+        };
+      }
+
+      const now = new Date();
+      const group: ProfileGroup = {
+        id: generateUUID(),
+        name: name.trim(),
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const db = await getDB();
+      await db.add(this.storeName, group);
+      publishChange('profileGroups', [group.id]);
+
+      return {
+        success: true,
+        data: group
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to create group',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Rename a group
+   */
+  async rename(id: string, name: string): Promise<RepositoryResult<ProfileGroup>> {
+    try {
+      const existing = await this.getAll();
+      if (!existing.success || !existing.data) {
+        return {
+          success: false,
+          error: existing.error
+        };
+      }
+
+      const group = existing.data.find(candidate => candidate.id === id);
+      if (!group) {
+        return {
+          success: false,
+          error: {
+            message: 'Group not found',
+            code: 'GROUP_NOT_FOUND'
+          }
+        };
+      }
+
+      const validationError = this.validateName(name, existing.data.filter(other => other.id !== id));
+      if (validationError) {
+        return {
+          success: false,
+          error: validationError
+        };
+      }
+
+      const updatedGroup: ProfileGroup = {
+        ...group,
+        name: name.trim(),
+        updatedAt: new Date()
+      };
+
+      const db = await getDB();
+      await db.put(this.storeName, updatedGroup);
+      publishChange('profileGroups', [id]);
+
+      return {
+        success: true,
+        data: updatedGroup
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to rename group',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Delete a group; its profiles become ungrouped
+   */
+  async delete(id: string): Promise<RepositoryResult<void>> {
+    try {
+      const ungrouped = await getProfileRepository().clearGroup(id);
+      if (!ungrouped.success) {
+        return ungrouped;
+      }
+
+      const db = await getDB();
+      await db.delete(this.storeName, id);
+      publishChange('profileGroups', [id]);
+
+      return {
+        success: true
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to delete group',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Make sure the groups from a backup exist, matching existing groups by
+   * ID or name and creating the rest
+   *
+   * @returns Map from each backup group ID to the local group ID
+   */
+  async restoreGroups(groups: ProfileGroup[]): Promise<RepositoryResult<Record<string, string>>> {
+    try {
+      const existing = await this.getAll();
+      if (!existing.success || !existing.data) {
+        return {
+          success: false,
+          error: existing.error
+        };
+      }
+
+      const known = [...existing.data];
+      const idMap: Record<string, string> = {};
+      const db = await getDB();
+
+      for (const group of groups) {
+        const match = known.find(candidate => candidate.id === group.id)
+          ?? known.find(candidate => candidate.name.toLowerCase() === group.name.trim().toLowerCase());
+
+        if (match) {
+          idMap[group.id] = match.id;
+          continue;
+        }
+
+        // Groups past the limit are dropped and their profiles restored ungrouped
+        if (known.length >= VALIDATION_LIMITS.GROUPS_MAX) {
+          continue;
+        }
+
+        const now = new Date();
+        const restored: ProfileGroup = {
+          id: group.id,
+          name: group.name.trim().slice(0, VALIDATION_LIMITS.GROUP_NAME_MAX),
+          createdAt: now,
+          updatedAt: now
+        };
+        await db.put(this.storeName, restored);
+        known.push(restored);
+        idMap[group.id] = restored.id;
+      }
+
+      if (known.length > existing.data.length) {
+        publishChange('profileGroups', known.slice(existing.data.length).map(group => group.id));
+      }
+
+      return {
+        success: true,
+        data: idMap
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to restore groups',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Validate a group name against the other groups
+   */
+  private validateName(name: string, otherGroups: ProfileGroup[]): RepositoryResult['error'] | null {
+    const trimmed = name.trim();
+
+    if (!trimmed) {
+      return {
+        message: 'Group name is required',
+        code: PROFILE_GROUP_VALIDATION_ERRORS.NAME_REQUIRED
+      };
+    }
+
+    if (trimmed.length > VALIDATION_LIMITS.GROUP_NAME_MAX) {
+      return {
+        message: `Group name must be ${VALIDATION_LIMITS.GROUP_NAME_MAX} characters or less`,
+        code: PROFILE_GROUP_VALIDATION_ERRORS.NAME_TOO_LONG
+      };
+    }
+
+    if (otherGroups.some(other => other.name.toLowerCase() === trimmed.toLowerCase())) {
+      return {
+        message: 'A group with this name already exists',
+        code: PROFILE_GROUP_VALIDATION_ERRORS.NAME_DUPLICATE
+      };
+    }
+
+    return null;
+  }
+}
+
+// Singleton instance
+let profileGroupRepositoryInstance: ProfileGroupRepository | null = null;
+
+/**
+ * Get the profile group repository instance
+ */
+export const getProfileGroupRepository = (): ProfileGroupRepository => {
+  if (!profileGroupRepositoryInstance) {
+    profileGroupRepositoryInstance = new ProfileGroupRepository();
+  }
+  return profileGroupRepositoryInstance;
+};
+
+/**
+ * Reset the profile group repository instance (useful for testing)
+ */
+export const resetProfileGroupRepository = (): void => {
+  profileGroupRepositoryInstance = null;
+};
@@ -10,7 +10,8 @@ import type {
   StreamProfile, 
   CreateProfileInput, 
   UpdateProfileInput,
-  ProfileValidationResult
+  ProfileValidationResult,
+  StreamCategory
 } from '@/types/Profile';
 import { 
   createProfile, 
@@ -18,10 +19,15 @@ import {
   validateProfile,
   generateUUID,
   searchProfiles,
-  sortProfiles
+  sortProfiles,
+  sortProfilesByPosition,
+  getProfileSection
 } from '@/types/ProfileUtils';
+import { PROFILE_SECTIONS } from '@/types/ProfileGroup';
+import { normalizeTags } from '@/lib/tags/twitchTags';
 import { STORAGE_KEYS, ERROR_CODES, SUCCESS_MESSAGES } from '@/types/constants';
 import { getDB } from '@/lib/db/indexedDB';
+import { publishChange } from '@/lib/sync/changeBus';
 
 /**
  * Repository result type for consistent error handling
@@ -132,7 +138,8 @@ export class ProfileRepository {
    */
   async create(profileData: CreateProfileInput): Promise<RepositoryResult<StreamProfile>> {
     try {
-      // Validate input data
+      // Validate input data, with tags cleaned up the way they will be stored
+      profileData = { ...profileData, tags: normalizeTags(profileData.tags) };
       const validation = validateProfile(profileData);
       if (!validation.isValid) {
         return {
@@ -168,6 +175,7 @@ export class ProfileRepository {
       // Save to database
       const db = await getDB();
       await db.add(this.storeName, newProfile);
+      publishChange('profiles', [newProfile.id]);
 
       return {
         success: true,
@@ -218,13 +226,25 @@ export class ProfileRepository {
         return existingResult;
       }
 
-      // Create updated profile data for validation
+      // Create updated profile data for validation; an explicit undefined clears an optional field
+      const existing = existingResult.data;
       const updatedData: CreateProfileInput = {
-        name: updates.name ?? existingResult.data.name,
-        description: updates.description ?? existingResult.data.description,
-        category: updates.category ?? existingResult.data.category,
-        title: updates.title ?? existingResult.data.title,
-        tags: updates.tags ?? existingResult.data.tags
+        name: updates.name ?? existing.name,
+        description: 'description' in updates ? updates.description : existing.description,
+        category: updates.category ?? existing.category,
+        title: updates.title ?? existing.title,
+        tags: normalizeTags(updates.tags ?? existing.tags),
+        variables: 'variables' in updates ? updates.variables : existing.variables,
+        counters: 'counters' in updates ? updates.counters : existing.counters,
+        language: 'language' in updates ? updates.language : existing.language,
+        contentClassificationLabels: 'contentClassificationLabels' in updates
+          ? updates.contentClassificationLabels
+          : existing.contentClassificationLabels,
+        isBrandedContent: 'isBrandedContent' in updates ? updates.isBrandedContent : existing.isBrandedContent,
+        obsActions: 'obsActions' in updates ? updates.obsActions : existing.obsActions,
+        favorite: 'favorite' in updates ? updates.favorite : existing.favorite,
+        groupId: 'groupId' in updates ? updates.groupId : existing.groupId,
+        ownerId: 'ownerId' in updates ? updates.ownerId : existing.ownerId
       };
 
       // Validate the updated data
@@ -259,12 +279,19 @@ export class ProfileRepository {
         }
       }
 
-      // Create updated profile using utility function
-      const updatedProfile = updateProfile(existingResult.data, updates);
+      // Create updated profile using utility function, storing exactly what was validated
+      const updatedProfile = updateProfile(existing, updatedData);
+
+      // Picking a category settles a missing one
+      if (updates.category) {
+        updatedProfile.categoryMissing = undefined;
+        updatedProfile.categoryReplacement = undefined;
+      }
 
       // Save to database
       const db = await getDB();
       await db.put(this.storeName, updatedProfile);
+      publishChange('profiles', [updatedProfile.id]);
 
       return {
         success: true,
@@ -299,6 +326,7 @@ export class ProfileRepository {
       // Delete from database
       const db = await getDB();
       await db.delete(this.storeName, id);
+      publishChange('profiles', [id]);
 
       return {
         success: true
@@ -315,6 +343,293 @@ export class ProfileRepository {
     }
   }
 
+  /**
+   * Advance title counters after a successful apply.
+   * Does not touch updatedAt, since the profile itself was not edited.
+   */
+  async incrementCounters(id: string, names: string[]): Promise<RepositoryResult<StreamProfile>> {
+    try {
+      const existingResult = await this.getById(id);
+      if (!existingResult.success || !existingResult.data) {
+        return existingResult;
+      }
+
+      if (names.length === 0) {
+        return existingResult;
+      }
+
+      const counters = { ...existingResult.data.counters };
+      names.forEach(name => {
+        counters[name] = (counters[name] ?? 1) + 1;
+      });
+
+      const updatedProfile: StreamProfile = { ...existingResult.data, counters };
+
+      const db = await getDB();
+      await db.put(this.storeName, updatedProfile);
+      publishChange('profiles', [updatedProfile.id]);
+
+      return {
+        success: true,
+        data: updatedProfile
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to update profile counters',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Bring the categories of profiles in line with Twitch in one pass: for
+   * each category ID, copy in a new name or box art, or flag the profiles
+   * when Twitch no longer has the category (null), along with the
+   * replacement found for it, if any. Returns the profiles that changed.
+   * Does not touch updatedAt, since the profiles themselves were not edited.
+   */
+  async syncCategories(
+    categories: Map<string, StreamCategory | null>,
+    replacements: Map<string, StreamCategory> = new Map()
+  ): Promise<RepositoryResult<StreamProfile[]>> {
+    try {
+      const allResult = await this.getAll();
+      if (!allResult.success || !allResult.data) {
+        return allResult;
+      }
+
+      const changed: StreamProfile[] = [];
+      for (const profile of allResult.data.filter(p => categories.has(p.category.id))) {
+        const current = categories.get(profile.category.id) ?? null;
+        if (!current) {
+          const replacement = replacements.get(profile.category.id);
+          if (!profile.categoryMissing || profile.categoryReplacement?.id !== replacement?.id) {
+            changed.push({ ...profile, categoryMissing: true, categoryReplacement: replacement });
+          }
+          continue;
+        }
+
+        const boxArtUrl = current.boxArtUrl || profile.category.boxArtUrl;
+        if (profile.categoryMissing || profile.category.name !== current.name || profile.category.boxArtUrl !== boxArtUrl) {
+          changed.push({
+            ...profile,
+            category: { id: profile.category.id, name: current.name, boxArtUrl },
+            categoryMissing: undefined,
+            categoryReplacement: undefined
+          });
+        }
+      }
+
+      if (changed.length > 0) {
+        const db = await getDB();
+        for (const profile of changed) {
+          await db.put(this.storeName, profile);
+        }
+        publishChange('profiles', changed.map(profile => profile.id));
+      }
+
+      return {
+        success: true,
+        data: changed
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to update profile categories',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Get the profiles filed under a group, or the ungrouped profiles when
+   * groupId is null, in dashboard order
+   */
+  async getByGroup(groupId: string | null): Promise<RepositoryResult<StreamProfile[]>> {
+    try {
+      const db = await getDB();
+      const profiles = groupId
+        ? await db.getAllByIndex<StreamProfile>(this.storeName, 'groupId', groupId)
+        : (await db.getAll<StreamProfile>(this.storeName)).filter(profile => !profile.groupId);
+
+      const processedProfiles = profiles.map(profile => ({
+        ...profile,
+        createdAt: new Date(profile.createdAt),
+        updatedAt: new Date(profile.updatedAt)
+      }));
+
+      return {
+        success: true,
+        data: sortProfilesByPosition(processedProfiles)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to fetch profiles by group',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Get favorite profiles in dashboard order
+   */
+  async getFavorites(): Promise<RepositoryResult<StreamProfile[]>> {
+    const allProfilesResult = await this.getAll();
+    if (!allProfilesResult.success || !allProfilesResult.data) {
+      return allProfilesResult;
+    }
+
+    return {
+      success: true,
+      data: sortProfilesByPosition(allProfilesResult.data.filter(profile => profile.favorite))
+    };
+  }
+
+  /**
+   * Pin or unpin a profile.
+   * Does not touch updatedAt, since the profile itself was not edited.
+   */
+  async setFavorite(id: string, favorite: boolean): Promise<RepositoryResult<StreamProfile>> {
+    try {
+      const existingResult = await this.getById(id);
+      if (!existingResult.success || !existingResult.data) {
+        return existingResult;
+      }
+
+      const updatedProfile: StreamProfile = {
+        ...existingResult.data,
+        favorite: favorite || undefined,
+        // Start at the end of the section it lands in
+        sortOrder: undefined
+      };
+
+      const db = await getDB();
+      await db.put(this.storeName, updatedProfile);
+      publishChange('profiles', [updatedProfile.id]);
+
+      return {
+        success: true,
+        data: updatedProfile
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to update favorite',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Move a profile into a dashboard section (favorites, a group ID or
+   * ungrouped), placing it before another profile or at the end, and
+   * renumber the section. Moving into a group unpins the profile.
+   * Does not touch updatedAt, since the profiles themselves were not edited.
+   */
+  async moveToSection(id: string, section: string, beforeId?: string): Promise<RepositoryResult<StreamProfile>> {
+    try {
+      const allProfilesResult = await this.getAll();
+      if (!allProfilesResult.success || !allProfilesResult.data) {
+        return {
+          success: false,
+          error: allProfilesResult.error
+        };
+      }
+
+      const profile = allProfilesResult.data.find(candidate => candidate.id === id);
+      if (!profile) {
+        return {
+          success: false,
+          error: {
+            message: 'Profile not found',
+            code: 'PROFILE_NOT_FOUND'
+          }
+        };
+      }
+
+      let moved: StreamProfile;
+      if (section === PROFILE_SECTIONS.FAVORITES) {
+        moved = { ...profile, favorite: true };
+      } else if (section === PROFILE_SECTIONS.UNGROUPED) {
+        moved = { ...profile, favorite: undefined, groupId: undefined };
+      } else {
+        moved = { ...profile, favorite: undefined, groupId: section };
+      }
+
+      const ordered = sortProfilesByPosition(
+        allProfilesResult.data.filter(candidate => candidate.id !== id && getProfileSection(candidate) === section)
+      );
+      const insertAt = beforeId ? ordered.findIndex(candidate => candidate.id === beforeId) : -1;
+      ordered.splice(insertAt >= 0 ? insertAt : ordered.length, 0, moved);
+
+      const db = await getDB();
+      for (const [index, candidate] of ordered.entries()) {
+        if (candidate === moved || candidate.sortOrder !== index) {
+          await db.put(this.storeName, { ...candidate, sortOrder: index });
+        }
+      }
+      publishChange('profiles', ordered.map(candidate => candidate.id));
+
+      return {
+        success: true,
+        data: { ...moved, sortOrder: ordered.indexOf(moved) }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to move profile',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Ungroup every profile filed under a group (used when the group is deleted)
+   */
+  async clearGroup(groupId: string): Promise<RepositoryResult<void>> {
+    try {
+      const db = await getDB();
+      const profiles = await db.getAllByIndex<StreamProfile>(this.storeName, 'groupId', groupId);
+
+      for (const profile of profiles) {
+        await db.put(this.storeName, { ...profile, groupId: undefined, sortOrder: undefined });
+      }
+      if (profiles.length > 0) {
+        publishChange('profiles', profiles.map(profile => profile.id));
+      }
+
+      return {
+        success: true
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to ungroup profiles',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
   /**
    * Search profiles by query
    */
@@ -402,6 +717,48 @@ export class ProfileRepository {
     }
   }
 
+  /**
+   * Write complete profiles as-is, creating or replacing by ID (used when restoring backups).
+   * Every profile is validated before anything is written.
+   */
+  async saveAll(profiles: StreamProfile[]): Promise<RepositoryResult<StreamProfile[]>> {
+    for (const profile of profiles) {
+      const validation = validateProfile(profile);
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: {
+            message: `${profile.name || 'Unnamed profile'}: ${validation.errors.map(e => e.message).join(', ')}`,
+            code: ERROR_CODES.VALIDATION_ERROR,
+            details: validation.errors
+          }
+        };
+      }
+    }
+
+    try {
+      const db = await getDB();
+      for (const profile of profiles) {
+        await db.put(this.storeName, profile);
+      }
+      publishChange('profiles', profiles.map(profile => profile.id));
+
+      return {
+        success: true,
+        data: profiles
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to save imported profiles',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
   /**
    * Clear all profiles (useful for testing/reset)
    */
@@ -409,6 +766,7 @@ export class ProfileRepository {
     try {
       const db = await getDB();
       await db.clear(this.storeName);
+      publishChange('profiles');
 
       return {
         success: true
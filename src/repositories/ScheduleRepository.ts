@@ -0,0 +1,428 @@
+/**
+ * Schedule Repository
+ *
+ * Persists the weekly stream schedule, the scheduler's run log and
+ * the auto-apply preferences that switch the scheduler on.
+ */
+
+import type {
+  ScheduleSlot,
+  ScheduleRun,
+  CreateScheduleSlotInput,
+  UpdateScheduleSlotInput
+} from '@/types/Schedule';
+import { SCHEDULE_VALIDATION_ERRORS } from '@/types/Schedule';
+import { generateUUID } from '@/types/ProfileUtils';
+import { STORAGE_KEYS, ERROR_CODES } from '@/types/constants';
+import { getDB } from '@/lib/db/indexedDB';
+import { publishChange } from '@/lib/sync/changeBus';
+import type { RepositoryResult } from './ProfileRepository';
+import { getPreferencesRepository, type PreferenceRecord } from './PreferencesRepository';
+
+/**
+ * Auto-apply preferences used by the scheduler
+ */
+export interface AutoApplySettings {
+  /** Apply scheduled profiles automatically while the app is open */
+  autoApply: boolean;
+  /** Profile applied on going live outside a slot, and preselected when adding a new slot */
+  defaultProfileId?: string;
+}
+
+const START_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Schedule Repository Implementation
+ */
+export class ScheduleRepository {
+  private readonly slotStore = STORAGE_KEYS.SCHEDULE_STORE;
+  private readonly runStore = STORAGE_KEYS.SCHEDULE_RUNS_STORE;
+  private readonly preferencesStore = STORAGE_KEYS.PREFERENCES_STORE;
+
+  /** Oldest run log records beyond this count are pruned */
+  private readonly maxRuns = 200;
+
+  /**
+   * Get all slots, ordered by day then start time
+   */
+  async getAllSlots(): Promise<RepositoryResult<ScheduleSlot[]>> {
+    try {
+      const db = await getDB();
+      const slots = await db.getAll<ScheduleSlot>(this.slotStore);
+
+      const processedSlots = slots
+        .map(slot => ({
+          ...slot,
+          createdAt: new Date(slot.createdAt),
+          updatedAt: new Date(slot.updatedAt)
+        }))
+        .sort((a, b) => a.dayOfWeek - b.dayOfWeek || a.startTime.localeCompare(b.startTime));
+
+      return {
+        success: true,
+        data: processedSlots
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to fetch schedule',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Add a slot to the schedule
+   */
+  async createSlot(input: CreateScheduleSlotInput): Promise<RepositoryResult<ScheduleSlot>> {
+    try {
+      const existing = await this.getAllSlots();
+      if (!existing.success || !existing.data) {
+        return {
+          success: false,
+          error: existing.error
+        };
+      }
+
+      const validationError = this.validateSlot(input, existing.data);
+      if (validationError) {
+        return {
+          success: false,
+          error: validationError
+        };
+      }
+
+      const now = new Date();
+      const slot: ScheduleSlot = {
+        id: generateUUID(),
+        dayOfWeek: input.dayOfWeek,
+        startTime: input.startTime,
+        profileId: input.profileId,
+        enabled: input.enabled ?? true,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const db = await getDB();
+      await db.add(this.slotStore, slot);
+      publishChange('schedule', [slot.id]);
+
+      return {
+        success: true,
+        data: slot
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to create schedule slot',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Update a slot
+   */
+  async updateSlot(id: string, updates: UpdateScheduleSlotInput): Promise<RepositoryResult<ScheduleSlot>> {
+    try {
+      const existing = await this.getAllSlots();
+      if (!existing.success || !existing.data) {
+        return {
+          success: false,
+          error: existing.error
+        };
+      }
+
+      const slot = existing.data.find(candidate => candidate.id === id);
+      if (!slot) {
+        return {
+          success: false,
+          error: {
+            message: 'Schedule slot not found',
+            code: 'SLOT_NOT_FOUND'
+          }
+        };
+      }
+
+      const updated: ScheduleSlot = {
+        ...slot,
+        ...updates,
+        updatedAt: new Date()
+      };
+
+      const validationError = this.validateSlot(updated, existing.data.filter(candidate => candidate.id !== id));
+      if (validationError) {
+        return {
+          success: false,
+          error: validationError
+        };
+      }
+
+      const db = await getDB();
+      await db.put(this.slotStore, updated);
+      publishChange('schedule', [id]);
+
+      return {
+        success: true,
+        data: updated
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to update schedule slot',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Remove a slot
+   */
+  async deleteSlot(id: string): Promise<RepositoryResult<void>> {
+    try {
+      const db = await getDB();
+      await db.delete(this.slotStore, id);
+      publishChange('schedule', [id]);
+
+      return {
+        success: true
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to delete schedule slot',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Get the run log, newest first
+   */
+  async getRuns(limit?: number): Promise<RepositoryResult<ScheduleRun[]>> {
+    try {
+      const db = await getDB();
+      const runs = await db.getAll<ScheduleRun>(this.runStore);
+
+      const processedRuns = runs
+        .map(run => ({
+          ...run,
+          scheduledFor: new Date(run.scheduledFor),
+          handledAt: new Date(run.handledAt)
+        }))
+        .sort((a, b) => b.scheduledFor.getTime() - a.scheduledFor.getTime());
+
+      return {
+        success: true,
+        data: limit !== undefined && limit > 0 ? processedRuns.slice(0, limit) : processedRuns
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to fetch schedule log',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Add a record to the run log
+   */
+  async recordRun(run: Omit<ScheduleRun, 'id'>): Promise<RepositoryResult<ScheduleRun>> {
+    try {
+      const db = await getDB();
+      const record: ScheduleRun = {
+        ...run,
+        id: generateUUID()
+      };
+
+      await db.add(this.runStore, record);
+      await this.pruneRuns();
+      publishChange('schedule', [record.id]);
+
+      return {
+        success: true,
+        data: record
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to record schedule run',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Delete the run log
+   */
+  async clearRuns(): Promise<RepositoryResult<void>> {
+    try {
+      const db = await getDB();
+      await db.clear(this.runStore);
+      publishChange('schedule');
+
+      return {
+        success: true
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to clear schedule log',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Get the auto-apply preferences
+   */
+  async getAutoApplySettings(): Promise<RepositoryResult<AutoApplySettings>> {
+    const result = await getPreferencesRepository().getAll();
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: result.error
+      };
+    }
+
+    return {
+      success: true,
+      data: {
+        autoApply: result.data.autoApply,
+        defaultProfileId: result.data.defaultProfileId
+      }
+    };
+  }
+
+  /**
+   * Save auto-apply preferences
+   */
+  async saveAutoApplySettings(settings: Partial<AutoApplySettings>): Promise<RepositoryResult<void>> {
+    const result = await getPreferencesRepository().update(settings);
+    return {
+      success: result.success,
+      error: result.error
+    };
+  }
+
+  /**
+   * Get the time up to which the scheduler has handled slots
+   */
+  async getLastCheckedAt(): Promise<Date | null> {
+    try {
+      const db = await getDB();
+      const record = await db.get<PreferenceRecord<Date>>(this.preferencesStore, 'scheduleLastCheckedAt');
+      return record ? new Date(record.value) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Persist the scheduler checkpoint so slots missed while closed can be logged
+   */
+  async setLastCheckedAt(date: Date): Promise<void> {
+    const db = await getDB();
+    await db.put<PreferenceRecord<Date>>(this.preferencesStore, { key: 'scheduleLastCheckedAt', value: date });
+  }
+
+  /**
+   * Validate a slot against the rest of the schedule
+   */
+  private validateSlot(
+    slot: CreateScheduleSlotInput,
+    otherSlots: ScheduleSlot[]
+  ): RepositoryResult['error'] | null {
+    if (!Number.isInteger(slot.dayOfWeek) || slot.dayOfWeek < 0 || slot.dayOfWeek > 6) {
+      return {
+        message: 'Day of week must be between Sunday and Saturday',
+        code: SCHEDULE_VALIDATION_ERRORS.DAY_INVALID
+      };
+    }
+
+    if (!START_TIME_PATTERN.test(slot.startTime)) {
+      return {
+        message: 'Start time must be in HH:mm format',
+        code: SCHEDULE_VALIDATION_ERRORS.TIME_INVALID
+      };
+    }
+
+    if (!slot.profileId) {
+      return {
+        message: 'Choose a profile for this slot',
+        code: SCHEDULE_VALIDATION_ERRORS.PROFILE_REQUIRED
+      };
+    }
+
+    if (otherSlots.some(other => other.dayOfWeek === slot.dayOfWeek && other.startTime === slot.startTime)) {
+      return {
+        message: 'Another slot already starts at this time',
+        code: SCHEDULE_VALIDATION_ERRORS.SLOT_DUPLICATE
+      };
+    }
+
+    return null;
+  }
+
+  /**
+   * Drop the oldest run records once the log grows past maxRuns
+   */
+  private async pruneRuns(): Promise<void> {
+    const db = await getDB();
+    const runs = await db.getAll<ScheduleRun>(this.runStore);
+
+    if (runs.length <= this.maxRuns) {
+      return;
+    }
+
+    const expired = runs
+      .sort((a, b) => new Date(b.scheduledFor).getTime() - new Date(a.scheduledFor).getTime())
+      .slice(this.maxRuns);
+
+    for (const run of expired) {
+      await db.delete(this.runStore, run.id);
+    }
+  }
+}
+
+// Singleton instance
+let scheduleRepositoryInstance: ScheduleRepository | null = null;
+
+/**
+ * Get the schedule repository instance
+ */
+export const getScheduleRepository = (): ScheduleRepository => {
+  if (!scheduleRepositoryInstance) {
+    scheduleRepositoryInstance = new ScheduleRepository();
+  }
+  return scheduleRepositoryInstance;
+};
+
+/**
+ * Reset the schedule repository instance (useful for testing)
+ */
+export const resetScheduleRepository = (): void => {
+  scheduleRepositoryInstance = null;
+};
@@ -0,0 +1,168 @@
+/**
+ * Stream Event Repository
+ *
+ * Persists the log of stream starts and ends detected by the stream status
+ * poller, along with the profile applied when the channel went live.
+ */
+
+import type { StreamEvent } from '@/types/StreamStatus';
+import { generateUUID } from '@/types/ProfileUtils';
+import { STORAGE_KEYS, ERROR_CODES } from '@/types/constants';
+import { getDB } from '@/lib/db/indexedDB';
+import { publishChange } from '@/lib/sync/changeBus';
+import type { RepositoryResult } from './ProfileRepository';
+
+/**
+ * Stream Event Repository Implementation
+ */
+export class StreamEventRepository {
+  private readonly storeName = STORAGE_KEYS.STREAM_EVENTS_STORE;
+
+  /** Oldest events beyond this count are pruned */
+  private readonly maxEvents = 200;
+
+  /**
+   * Get the event log, newest first
+   */
+  async getEvents(limit?: number): Promise<RepositoryResult<StreamEvent[]>> {
+    try {
+      const db = await getDB();
+      const events = await db.getAll<StreamEvent>(this.storeName);
+
+      const processedEvents = events
+        .map(event => ({
+          ...event,
+          startedAt: event.startedAt ? new Date(event.startedAt) : undefined,
+          detectedAt: new Date(event.detectedAt)
+        }))
+        .sort((a, b) => b.detectedAt.getTime() - a.detectedAt.getTime());
+
+      return {
+        success: true,
+        data: limit !== undefined && limit > 0 ? processedEvents.slice(0, limit) : processedEvents
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to fetch stream events',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Get the most recent go-live event
+   */
+  async getLastOnlineEvent(): Promise<RepositoryResult<StreamEvent | null>> {
+    const result = await this.getEvents();
+    if (!result.success || !result.data) {
+      return {
+        success: false,
+        error: result.error
+      };
+    }
+
+    return {
+      success: true,
+      data: result.data.find(event => event.type === 'online') ?? null
+    };
+  }
+
+  /**
+   * Add an event to the log
+   */
+  async recordEvent(event: Omit<StreamEvent, 'id'>): Promise<RepositoryResult<StreamEvent>> {
+    try {
+      const db = await getDB();
+      const record: StreamEvent = {
+        ...event,
+        id: generateUUID()
+      };
+
+      await db.add(this.storeName, record);
+      await this.pruneEvents();
+      publishChange('streamEvents', [record.id]);
+
+      return {
+        success: true,
+        data: record
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to record stream event',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Delete the event log
+   */
+  async clearEvents(): Promise<RepositoryResult<void>> {
+    try {
+      const db = await getDB();
+      await db.clear(this.storeName);
+      publishChange('streamEvents');
+
+      return {
+        success: true
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          message: 'Failed to clear stream events',
+          code: ERROR_CODES.STORAGE_ERROR,
+          details: error
+        }
+      };
+    }
+  }
+
+  /**
+   * Drop the oldest events once the log grows past maxEvents
+   */
+  private async pruneEvents(): Promise<void> {
+    const db = await getDB();
+    const events = await db.getAll<StreamEvent>(this.storeName);
+
+    if (events.length <= this.maxEvents) {
+      return;
+    }
+
+    const expired = events
+      .sort((a, b) => new Date(b.detectedAt).getTime() - new Date(a.detectedAt).getTime())
+      .slice(this.maxEvents);
+
+    for (const event of expired) {
+      await db.delete(this.storeName, event.id);
+    }
+  }
+}
+
+// Singleton instance
+let streamEventRepositoryInstance: StreamEventRepository | null = null;
+
+/**
+ * Get the stream event repository instance
+ */
+export const getStreamEventRepository = (): StreamEventRepository => {
+  if (!streamEventRepositoryInstance) {
+    streamEventRepositoryInstance = new StreamEventRepository();
+  }
+  return streamEventRepositoryInstance;
+};
+
+/**
+ * Reset the stream event repository instance (useful for testing)
+ */
+export const resetStreamEventRepository = (): void => {
+  streamEventRepositoryInstance = null;
+};
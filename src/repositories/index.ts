@@ -12,24 +12,85 @@ export {
   resetProfileRepository 
 } from './ProfileRepository';
 
+// Profile Group Repository
+export {
+  ProfileGroupRepository,
+  getProfileGroupRepository,
+  resetProfileGroupRepository
+} from './ProfileGroupRepository';
+
 // Category Repository  
 export { 
   CategoryRepository, 
   getCategoryRepository, 
   resetCategoryRepository 
 } from './CategoryRepository';
+export type { CategoryMaintenanceResult } from './CategoryRepository';
+
+// History Repository
+export {
+  HistoryRepository,
+  getHistoryRepository,
+  resetHistoryRepository
+} from './HistoryRepository';
+
+// Schedule Repository
+export {
+  ScheduleRepository,
+  getScheduleRepository,
+  resetScheduleRepository
+} from './ScheduleRepository';
+export type { AutoApplySettings } from './ScheduleRepository';
+
+// Stream Event Repository
+export {
+  StreamEventRepository,
+  getStreamEventRepository,
+  resetStreamEventRepository
+} from './StreamEventRepository';
+
+// Apply Queue Repository
+export {
+  ApplyQueueRepository,
+  getApplyQueueRepository,
+  resetApplyQueueRepository
+} from './ApplyQueueRepository';
+export type { CreateApplyIntentInput } from './ApplyQueueRepository';
+
+// Preferences Repository
+export {
+  PreferencesRepository,
+  getPreferencesRepository,
+  resetPreferencesRepository,
+  getPreference,
+  PREFERENCE_LIMITS
+} from './PreferencesRepository';
+
+export type { PreferenceRecord, PreferencesListener } from './PreferencesRepository';
 
 // Repository Result Type (shared interface)
 export type { RepositoryResult } from './ProfileRepository';
 
 // Import the functions for internal use
 import { getProfileRepository, resetProfileRepository } from './ProfileRepository';
+import { getProfileGroupRepository, resetProfileGroupRepository } from './ProfileGroupRepository';
 import { getCategoryRepository, resetCategoryRepository } from './CategoryRepository';
+import { getHistoryRepository, resetHistoryRepository } from './HistoryRepository';
+import { getScheduleRepository, resetScheduleRepository } from './ScheduleRepository';
+import { getStreamEventRepository, resetStreamEventRepository } from './StreamEventRepository';
+import { getApplyQueueRepository, resetApplyQueueRepository } from './ApplyQueueRepository';
+import { getPreferencesRepository, resetPreferencesRepository } from './PreferencesRepository';
 
 // Convenience exports for common operations
 export const repositories = {
   profiles: getProfileRepository,
-  categories: getCategoryRepository
+  profileGroups: getProfileGroupRepository,
+  categories: getCategoryRepository,
+  history: getHistoryRepository,
+  schedule: getScheduleRepository,
+  streamEvents: getStreamEventRepository,
+  applyQueue: getApplyQueueRepository,
+  preferences: getPreferencesRepository
 } as const;
 
 /**
@@ -47,8 +108,10 @@ export async function initializeRepositories(): Promise<{
     
     const [profilesReady, categoriesReady] = await Promise.all([
       profileRepo.isReady(),
-      // Categories don't have an isReady method, assume ready if no error
-      Promise.resolve(true)
+      // Drop expired and excess cached categories; ready once that pass succeeds
+      categoryRepo.runMaintenance().then(result => result.success),
+      // Load preferences so API clients pick up the saved timeout and logging settings
+      getPreferencesRepository().getAll()
     ]);
     
     return {
@@ -71,5 +134,11 @@ export async function initializeRepositories(): Promise<{
  */
 export function resetAllRepositories(): void {
   resetProfileRepository();
+  resetProfileGroupRepository();
   resetCategoryRepository();
+  resetHistoryRepository();
+  resetScheduleRepository();
+  resetStreamEventRepository();
+  resetApplyQueueRepository();
+  resetPreferencesRepository();
 }
@@ -0,0 +1,61 @@
+/**
+ * Offline Apply Queue Types
+ *
+ * Applies requested while Twitch can't be reached are kept as intents and
+ * sent once the connection is back. Intents point at the profile rather than
+ * copying it, so edits made in the meantime (and title templates) are
+ * resolved when the intent is finally applied.
+ */
+
+import type { ChannelField } from './History';
+
+/**
+ * What to do when an apply is queued while others are still waiting
+ */
+export type ApplyQueueConflictRule = 'last-wins' | 'first-wins' | 'apply-all';
+
+/**
+ * A queued apply
+ */
+export interface ApplyIntent {
+  /** Unique identifier (UUID v4) */
+  id: string;
+  /** Profile to apply */
+  profileId: string;
+  /** Profile name when queued, for display if the profile is deleted */
+  profileName: string;
+  /** Fields to apply; every field when omitted */
+  fields?: ChannelField[];
+  /** Linked account to apply to, pinned when queued; omitted only when no account was linked */
+  accountId?: string;
+  /** When the apply was requested */
+  queuedAt: Date;
+  /** Send attempts that failed because Twitch was still unreachable */
+  attempts: number;
+  /** Why the last attempt didn't go through */
+  lastError?: string;
+}
+
+/**
+ * Outcome of a queued apply once the queue is flushed
+ */
+export type ApplyIntentOutcomeStatus = 'applied' | 'failed' | 'expired';
+
+/**
+ * Reported for every intent that leaves the queue
+ */
+export interface ApplyIntentOutcome {
+  intent: ApplyIntent;
+  status: ApplyIntentOutcomeStatus;
+  /** Why the apply failed or expired */
+  reason?: string;
+}
+
+/**
+ * Conflict rules with the labels shown in Settings
+ */
+export const APPLY_QUEUE_CONFLICT_RULES: ReadonlyArray<{ value: ApplyQueueConflictRule; label: string; description: string }> = [
+  { value: 'last-wins', label: 'Last wins', description: 'A new apply replaces the ones still waiting' },
+  { value: 'first-wins', label: 'First wins', description: 'Keep the apply already waiting and ignore new ones' },
+  { value: 'apply-all', label: 'Apply all', description: 'Send every queued apply, oldest first' }
+] as const;
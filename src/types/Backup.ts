@@ -0,0 +1,92 @@
+/**
+ * Backup Types
+ *
+ * Profile backups, and the plan built when restoring one: which incoming
+ * profiles clash with existing ones and what will be written for each.
+ */
+
+import type { StreamProfile, ProfileValidationError } from './Profile';
+import type { ProfileGroup } from './ProfileGroup';
+
+/**
+ * A profile from a backup that can't be imported
+ */
+export interface InvalidImportedProfile {
+  /** Position in the backup's profiles array */
+  index: number;
+  /** Profile name, if the backup had one */
+  name?: string;
+  /** Why the profile was rejected */
+  errors: ProfileValidationError[];
+}
+
+/**
+ * A backup parsed, migrated to the current version and validated
+ */
+export interface ParsedBackup {
+  /** Version the backup was written with */
+  version: string;
+  /** When the backup was created, if recorded */
+  exportedAt?: Date;
+  /** Migrations applied to bring the backup up to date, oldest first */
+  migrations: string[];
+  /** Profiles that passed validation */
+  profiles: StreamProfile[];
+  /** Groups the profiles are filed under */
+  groups: ProfileGroup[];
+  /** Profiles that failed validation */
+  invalid: InvalidImportedProfile[];
+}
+
+/**
+ * How an incoming profile clashes with an existing one
+ */
+export type ImportConflictType = 'id' | 'name';
+
+/**
+ * What to do with a conflicting profile
+ * - skip: keep the existing profile untouched
+ * - overwrite: replace the existing profile with the incoming one
+ * - rename: import alongside the existing profile under a new name
+ * - merge: keep the existing profile, filling and combining fields from the incoming one
+ */
+export type ConflictResolution = 'skip' | 'overwrite' | 'rename' | 'merge';
+
+/**
+ * An incoming profile that clashes with an existing one
+ */
+export interface ImportConflict {
+  /** Incoming profile (keyed by its ID in the backup) */
+  incoming: StreamProfile;
+  /** Existing profile it clashes with */
+  existing: StreamProfile;
+  /** Whether the ID or only the name matches */
+  type: ImportConflictType;
+}
+
+/**
+ * Planned write for a single incoming profile
+ */
+export type ImportAction = 'create' | ConflictResolution;
+
+export interface ImportPlanItem {
+  action: ImportAction;
+  /** Incoming profile as read from the backup */
+  incoming: StreamProfile;
+  /** Existing profile it clashes with, if any */
+  existing?: StreamProfile;
+  /** Profile that will be written (absent when skipped) */
+  result?: StreamProfile;
+}
+
+/**
+ * Dry-run summary of a restore
+ */
+export interface ImportPlan {
+  items: ImportPlanItem[];
+  /** Profiles the backup contained that failed validation */
+  invalid: InvalidImportedProfile[];
+  counts: Record<ImportAction, number>;
+  /** Profiles that will be written */
+  writes: StreamProfile[];
+}
@@ -0,0 +1,53 @@
+/**
+ * Co-stream Types
+ *
+ * A co-stream apply sends one profile to several channels at once. Every
+ * channel gets the profile's category, tags and settings; titles can be
+ * overridden per channel and use {partner} for the other channels' names.
+ */
+
+import type { ChannelField } from './History';
+
+/**
+ * A channel to apply to
+ */
+export interface CoStreamTarget {
+  /** Twitch user ID; Twitch only accepts updates from the channel's own linked account */
+  broadcasterId: string;
+  /** Shown in results and used for {partner} on the other channels */
+  name: string;
+  /** Title template for this channel instead of the profile's */
+  title?: string;
+  /** Values for {var:NAME} on this channel, over the profile's own */
+  variables?: Record<string, string>;
+}
+
+/**
+ * Options for a co-stream apply
+ */
+export interface CoStreamApplyOptions {
+  /** Only send these fields; defaults to every field the profile sets */
+  fields?: ChannelField[];
+  /** Only send to these channels (e.g. the ones that failed); the others still count as partners */
+  broadcasterIds?: string[];
+  /**
+   * Advance {episode}/{counter:NAME} once when a channel is updated
+   * (defaults to true; off when retrying a batch that already advanced them)
+   */
+  advanceCounters?: boolean;
+}
+
+/**
+ * What happened on one channel
+ */
+export interface CoStreamChannelResult {
+  broadcasterId: string;
+  name: string;
+  /** Title sent, with placeholders filled in */
+  title: string;
+  success: boolean;
+  error?: {
+    code: string;
+    message: string;
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Apply History Types
+ *
+ * Records of every profile application (and revert) sent to Twitch,
+ * including the channel state captured just before the change.
+ */
+
+import type { StreamCategory } from './Profile';
+import type { TwitchRateLimit, UpdateChannelRequest } from './TwitchAPI';
+
+/**
+ * Channel state as read from Twitch before an update
+ */
+export interface ChannelSnapshot {
+  /** Category at the time of the snapshot */
+  category: StreamCategory;
+  /** Stream title */
+  title: string;
+  /** Stream tags */
+  tags: string[];
+  /** Broadcaster language (ISO 639-1 or "other") */
+  language: string;
+  /** Enabled content classification label IDs */
+  contentClassificationLabels: string[];
+  /** Whether the stream was marked as branded content */
+  isBrandedContent: boolean;
+}
+
+/**
+ * Channel fields a profile can set
+ */
+export type ChannelField = keyof ChannelSnapshot;
+
+/**
+ * Kind of channel update recorded
+ */
+export type ApplyHistoryAction = 'apply' | 'revert';
+
+/**
+ * A single recorded channel update
+ */
+export interface ApplyHistoryEntry {
+  /** Unique identifier (UUID v4) */
+  id: string;
+  /** Whether a profile was applied or an earlier entry was reverted */
+  action: ApplyHistoryAction;
+  /** Linked account whose channel was updated (absent for entries recorded before accounts could be linked) */
+  accountId?: string;
+  /** ID of the applied profile (absent for reverts) */
+  profileId?: string;
+  /** Profile name at the time of the apply */
+  profileName: string;
+  /** Category after the update (sent, or kept from the previous state) */
+  category: StreamCategory;
+  /** Title after the update - the processed title exactly as sent, unless left unchanged */
+  title: string;
+  /** Tags after the update - exactly as sent, unless left unchanged */
+  tags: string[];
+  /** Full PATCH payload sent to Twitch */
+  request: UpdateChannelRequest;
+  /** Fields sent, when only some of the profile's fields were applied */
+  fields?: ChannelField[];
+  /** Channel state just before the update, if it could be read */
+  previousState?: ChannelSnapshot;
+  /** Whether Twitch accepted the update */
+  success: boolean;
+  /** Failure reason when the update was rejected */
+  error?: {
+    code: string;
+    message: string;
+  };
+  /** Rate limit headers returned with the update */
+  rateLimit?: TwitchRateLimit;
+  /** When the update was sent */
+  appliedAt: Date;
+  /** For reverts: the entry whose previous state was restored */
+  revertOf?: string;
+  /** When this entry was successfully reverted */
+  revertedAt?: Date;
+}
+
+/**
+ * Input for recording a new history entry
+ */
+export type CreateApplyHistoryInput = Omit<ApplyHistoryEntry, 'id' | 'appliedAt' | 'revertedAt'>;
@@ -0,0 +1,160 @@
+/**
+ * OBS WebSocket Types
+ *
+ * Per-profile OBS actions, and the subset of the obs-websocket v5
+ * protocol used to carry them out.
+ * Protocol reference: https://github.com/obsproject/obs-websocket/blob/master/docs/generated/protocol.md
+ */
+
+/**
+ * Show or hide a source when a profile is applied
+ */
+export interface ObsSourceToggle {
+  /** Source name as shown in OBS */
+  sourceName: string;
+  /** Scene containing the source; defaults to the profile's scene */
+  sceneName?: string;
+  /** Whether the source should be visible */
+  enabled: boolean;
+}
+
+/**
+ * OBS changes made when a profile is applied.
+ * Each step is optional; undefined steps leave OBS untouched.
+ */
+export interface ObsProfileActions {
+  /** Scene collection to switch to (runs first) */
+  sceneCollection?: string;
+  /** Program scene to switch to */
+  scene?: string;
+  /** Sources to show or hide */
+  sources?: ObsSourceToggle[];
+}
+
+/**
+ * Outcome of a single OBS step
+ */
+export interface ObsActionStep {
+  /** Human-readable description, e.g. 'Switch to scene "Coding"' */
+  description: string;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Outcome of running a profile's OBS actions
+ */
+export interface ObsActionsReport {
+  steps: ObsActionStep[];
+}
+
+/**
+ * obs-websocket v5 message op codes
+ */
+export const OBS_OP_CODES = {
+  HELLO: 0,
+  IDENTIFY: 1,
+  IDENTIFIED: 2,
+  REIDENTIFY: 3,
+  EVENT: 5,
+  REQUEST: 6,
+  REQUEST_RESPONSE: 7,
+  REQUEST_BATCH: 8,
+  REQUEST_BATCH_RESPONSE: 9
+} as const;
+
+/**
+ * RPC version this client speaks
+ */
+export const OBS_RPC_VERSION = 1;
+
+/**
+ * WebSocket close codes sent by obs-websocket
+ */
+export const OBS_CLOSE_CODES = {
+  AUTHENTICATION_FAILED: 4009,
+  UNSUPPORTED_RPC_VERSION: 4010
+} as const;
+
+/**
+ * Any message sent over the socket
+ */
+export interface ObsMessage<D = unknown> {
+  op: number;
+  d: D;
+}
+
+/**
+ * Hello (op 0), sent by OBS on connect
+ */
+export interface ObsHello {
+  obsWebSocketVersion: string;
+  rpcVersion: number;
+  authentication?: {
+    challenge: string;
+    salt: string;
+  };
+}
+
+/**
+ * Identify (op 1), sent by the client in reply to Hello
+ */
+export interface ObsIdentify {
+  rpcVersion: number;
+  authentication?: string;
+  eventSubscriptions?: number;
+}
+
+/**
+ * Identified (op 2), sent by OBS once the session is ready
+ */
+export interface ObsIdentified {
+  negotiatedRpcVersion: number;
+}
+
+/**
+ * Request (op 6)
+ */
+export interface ObsRequest {
+  requestType: string;
+  requestId: string;
+  requestData?: Record<string, unknown>;
+}
+
+/**
+ * RequestResponse (op 7)
+ */
+export interface ObsRequestResponse<T = Record<string, unknown>> {
+  requestType: string;
+  requestId: string;
+  requestStatus: {
+    result: boolean;
+    code: number;
+    comment?: string;
+  };
+  responseData?: T;
+}
+
+/**
+ * GetSceneCollectionList response data
+ */
+export interface ObsSceneCollectionList {
+  currentSceneCollectionName: string;
+  sceneCollections: string[];
+}
+
+/**
+ * GetSceneList response data
+ */
+export interface ObsSceneList {
+  currentProgramSceneName: string;
+  scenes: Array<{ sceneName: string; sceneIndex: number }>;
+}
+
+/**
+ * GetVersion response data (fields used by the app)
+ */
+export interface ObsVersionInfo {
+  obsVersion: string;
+  obsWebSocketVersion: string;
+}
@@ -5,6 +5,10 @@
  * a Twitch stream's category, title, and tags with a single click.
  */
 
+import type { TemplateDiagnostic } from '@/lib/templates/titleTemplate';
+import type { ObsProfileActions } from './Obs';
+import type { ProfileGroup } from './ProfileGroup';
+
 /**
  * Twitch Category information cached for offline use
  */
@@ -42,17 +46,80 @@ export interface StreamProfile {
   /** Stream category/game with cached offline data */
   category: StreamCategory;
   
+  /**
+   * Set when Twitch no longer has the category (removed or merged into
+   * another); cleared once a replacement is picked
+   */
+  categoryMissing?: boolean;
+
+  /**
+   * Category Twitch now lists under the missing category's name, most
+   * likely the one it was merged into; offered as the replacement
+   */
+  categoryReplacement?: StreamCategory;
+  
   /** 
    * Stream title supporting dynamic templating
-   * Supported placeholders:
-   * - {YYYY-MM-DD}: Current date (e.g., "2025-07-09")
-   * - {DAY}: Current day of week (e.g., "Wednesday")
+   * Supported placeholders (see lib/templates/titleTemplate for the full syntax):
+   * - {date:FORMAT@TIME_ZONE}: Formatted date (e.g., "{date:dddd MMM D}")
+   * - {episode}, {counter:NAME}: Counters increased after each apply
+   * - {var:NAME}: Profile variable
+   * - {if weekend}...{else}...{/if}: Conditional text
+   * - {YYYY-MM-DD}, {DAY}: Legacy date and weekday shorthands
    */
   title: string;
   
   /** Stream tags (maximum 10) */
   tags: string[];
   
+  /** Values for {var:NAME} placeholders in the title */
+  variables?: Record<string, string>;
+  
+  /** Next value for each counter used in the title (e.g., { episode: 12 }) */
+  counters?: Record<string, number>;
+  
+  /**
+   * Broadcaster language (ISO 639-1 code or "other").
+   * Undefined leaves the channel's language untouched.
+   */
+  language?: string;
+  
+  /**
+   * Content classification labels to enable on the channel.
+   * Undefined leaves the channel's labels untouched; an empty array clears them all.
+   */
+  contentClassificationLabels?: ContentClassificationLabel[];
+  
+  /**
+   * Branded content flag.
+   * Undefined leaves the channel's setting untouched.
+   */
+  isBrandedContent?: boolean;
+  
+  /**
+   * OBS scene collection, scene and source changes made alongside the Twitch update.
+   * Undefined leaves OBS untouched.
+   */
+  obsActions?: ObsProfileActions;
+  
+  /** Pinned to the top of the dashboard */
+  favorite?: boolean;
+  
+  /** Group (folder) the profile is filed under; undefined when ungrouped */
+  groupId?: string;
+  
+  /**
+   * Twitch user ID of the linked account the profile belongs to.
+   * Undefined when the profile is shared by every account.
+   */
+  ownerId?: string;
+  
+  /**
+   * Position within its dashboard section, set by drag-and-drop.
+   * Profiles without one follow, most recently updated first.
+   */
+  sortOrder?: number;
+  
   /** Profile creation timestamp */
   createdAt: Date;
   
@@ -69,6 +136,15 @@ export interface CreateProfileInput {
   category: StreamCategory;
   title: string;
   tags: string[];
+  variables?: Record<string, string>;
+  counters?: Record<string, number>;
+  language?: string;
+  contentClassificationLabels?: ContentClassificationLabel[];
+  isBrandedContent?: boolean;
+  obsActions?: ObsProfileActions;
+  favorite?: boolean;
+  groupId?: string;
+  ownerId?: string;
 }
 
 /**
@@ -103,12 +179,37 @@ export const PROFILE_VALIDATION_ERRORS = {
   NAME_TOO_LONG: 'NAME_TOO_LONG',
   TITLE_REQUIRED: 'TITLE_REQUIRED', 
   TITLE_TOO_LONG: 'TITLE_TOO_LONG',
+  TITLE_TEMPLATE_INVALID: 'TITLE_TEMPLATE_INVALID',
+  VARIABLE_NAME_INVALID: 'VARIABLE_NAME_INVALID',
+  COUNTER_INVALID: 'COUNTER_INVALID',
   CATEGORY_REQUIRED: 'CATEGORY_REQUIRED',
   TAGS_TOO_MANY: 'TAGS_TOO_MANY',
   TAG_TOO_LONG: 'TAG_TOO_LONG',
-  TAG_INVALID_CHARS: 'TAG_INVALID_CHARS'
+  TAG_INVALID_CHARS: 'TAG_INVALID_CHARS',
+  TAG_DUPLICATE: 'TAG_DUPLICATE',
+  LANGUAGE_INVALID: 'LANGUAGE_INVALID',
+  CLASSIFICATION_LABEL_INVALID: 'CLASSIFICATION_LABEL_INVALID',
+  OBS_ACTION_INVALID: 'OBS_ACTION_INVALID'
 } as const;
 
+/**
+ * Content classification labels a broadcaster can set on their channel.
+ * "MatureGame" is applied by Twitch based on the category and cannot be set manually.
+ */
+export const CONTENT_CLASSIFICATION_LABELS = {
+  DebatedSocialIssuesAndPolitics: 'Politics and Sensitive Social Issues',
+  DrugsIntoxication: 'Drugs, Intoxication, or Excessive Tobacco Use',
+  SexualThemes: 'Sexual Themes',
+  ViolentGraphic: 'Violent and Graphic Depictions',
+  Gambling: 'Gambling',
+  ProfanityVulgarity: 'Significant Profanity or Vulgarity'
+} as const;
+
+/**
+ * Content classification label ID as used by the Twitch API
+ */
+export type ContentClassificationLabel = keyof typeof CONTENT_CLASSIFICATION_LABELS;
+
 /**
  * Dynamic title template processing result
  */
@@ -119,10 +220,15 @@ export interface ProcessedTitle {
   processed: string;
   /** Placeholders that were found and replaced */
   replacements: Record<string, string>;
+  /** Counters referenced by the rendered title */
+  counters: string[];
+  /** Template problems, located by character offset */
+  diagnostics: TemplateDiagnostic[];
 }
 
 /**
- * Template placeholders supported in titles
+ * Legacy template placeholders supported in titles.
+ * The full placeholder registry lives in lib/templates/titleTemplate.
  */
 export const TITLE_TEMPLATES = {
   DATE: '{YYYY-MM-DD}',
@@ -136,4 +242,6 @@ export interface ProfileExport {
   version: string;
   exportedAt: Date;
   profiles: StreamProfile[];
+  /** Groups the profiles are filed under (absent in older backups) */
+  groups?: ProfileGroup[];
 }
@@ -0,0 +1,40 @@
+/**
+ * Profile Group Types
+ *
+ * Groups are user-defined folders that organise profiles into
+ * collapsible sections on the dashboard. A profile belongs to at most
+ * one group; favorites are pinned above every group.
+ */
+
+/**
+ * A folder of profiles
+ */
+export interface ProfileGroup {
+  /** Unique identifier (UUID v4) */
+  id: string;
+  /** Display name, unique ignoring case */
+  name: string;
+  /** When the group was created */
+  createdAt: Date;
+  /** When the group was last renamed */
+  updatedAt: Date;
+}
+
+/**
+ * Dashboard section keys besides group IDs. Favorites are listed only
+ * in their own section, whatever group they are filed under.
+ */
+export const PROFILE_SECTIONS = {
+  FAVORITES: 'favorites',
+  UNGROUPED: 'ungrouped'
+} as const;
+
+/**
+ * Validation error codes for groups
+ */
+export const PROFILE_GROUP_VALIDATION_ERRORS = {
+  NAME_REQUIRED: 'GROUP_NAME_REQUIRED',
+  NAME_TOO_LONG: 'GROUP_NAME_TOO_LONG',
+  NAME_DUPLICATE: 'GROUP_NAME_DUPLICATE',
+  TOO_MANY_GROUPS: 'TOO_MANY_GROUPS'
+} as const;
@@ -11,9 +11,25 @@ import {
   ProfileValidationResult, 
   ProfileValidationError,
   ProcessedTitle,
+  ProfileExport,
+  ContentClassificationLabel,
   PROFILE_VALIDATION_ERRORS,
-  TITLE_TEMPLATES
+  CONTENT_CLASSIFICATION_LABELS
 } from '../types/Profile';
+import type { ParsedBackup, InvalidImportedProfile } from './Backup';
+import type { ObsProfileActions } from './Obs';
+import { PROFILE_SECTIONS, type ProfileGroup } from './ProfileGroup';
+import { BROADCASTER_LANGUAGES } from './constants';
+import {
+  renderTitleTemplate,
+  parseTitleTemplate,
+  templateHasPlaceholders,
+  describeTemplatePlaceholders,
+  isValidTemplateIdentifier,
+  type TemplateContext
+} from '@/lib/templates/titleTemplate';
+import { migrateBackup, CURRENT_BACKUP_VERSION, type RawBackup } from '@/lib/backup/backupMigrations';
+import { normalizeTags, validateTags, countTagUsage } from '@/lib/tags/twitchTags';
 
 /**
  * Generate a UUID v4
@@ -38,7 +54,16 @@ export function createProfile(input: CreateProfileInput): StreamProfile {
     description: input.description?.trim(),
     category: input.category,
     title: input.title.trim(),
-    tags: input.tags.map(tag => tag.trim()).filter(tag => tag.length > 0),
+    tags: normalizeTags(input.tags),
+    variables: input.variables,
+    counters: input.counters,
+    language: input.language,
+    contentClassificationLabels: input.contentClassificationLabels,
+    isBrandedContent: input.isBrandedContent,
+    obsActions: input.obsActions,
+    favorite: input.favorite,
+    groupId: input.groupId,
+    ownerId: input.ownerId,
     createdAt: now,
     updatedAt: now
   };
@@ -94,6 +119,40 @@ export function validateProfile(input: CreateProfileInput): ProfileValidationRes
     });
   }
 
+  // Validate title template syntax
+  if (input.title) {
+    const templateErrors = parseTitleTemplate(input.title).diagnostics
+      .filter(diagnostic => diagnostic.severity === 'error');
+    templateErrors.forEach(diagnostic => {
+      errors.push({
+        field: 'title',
+        message: `Title template: ${diagnostic.message} (at character ${diagnostic.start + 1})`,
+        code: PROFILE_VALIDATION_ERRORS.TITLE_TEMPLATE_INVALID
+      });
+    });
+  }
+
+  // Validate template variables and counters
+  Object.keys(input.variables ?? {}).forEach(name => {
+    if (!isValidTemplateIdentifier(name)) {
+      errors.push({
+        field: 'variables',
+        message: `Variable name "${name}" may only use letters, numbers, "-" or "_"`,
+        code: PROFILE_VALIDATION_ERRORS.VARIABLE_NAME_INVALID
+      });
+    }
+  });
+
+  Object.entries(input.counters ?? {}).forEach(([name, value]) => {
+    if (!isValidTemplateIdentifier(name) || !Number.isInteger(value) || value < 0) {
+      errors.push({
+        field: 'counters',
+        message: `Counter "${name}" must be a whole number of 0 or more`,
+        code: PROFILE_VALIDATION_ERRORS.COUNTER_INVALID
+      });
+    }
+  });
+
   // Validate category
   if (!input.category || !input.category.id || !input.category.name) {
     errors.push({
@@ -103,30 +162,48 @@ export function validateProfile(input: CreateProfileInput): ProfileValidationRes
     });
   }
 
-  // Validate tags
-  if (input.tags.length > 10) {
+  // Validate tags against Twitch's rules
+  validateTags(input.tags).forEach(problem => {
     errors.push({
       field: 'tags',
-      message: 'Maximum 10 tags allowed',
-      code: PROFILE_VALIDATION_ERRORS.TAGS_TOO_MANY
+      message: problem.message,
+      code: problem.code
+    });
+  });
+
+  // Validate broadcaster language (optional)
+  if (input.language !== undefined && !Object.keys(BROADCASTER_LANGUAGES).includes(input.language)) {
+    errors.push({
+      field: 'language',
+      message: `Language "${input.language}" is not supported by Twitch`,
+      code: PROFILE_VALIDATION_ERRORS.LANGUAGE_INVALID
     });
   }
 
-  input.tags.forEach((tag, index) => {
-    if (tag.length > 25) {
+  // Validate content classification labels (optional)
+  input.contentClassificationLabels?.forEach(label => {
+    if (!Object.keys(CONTENT_CLASSIFICATION_LABELS).includes(label)) {
       errors.push({
-        field: 'tags',
-        message: `Tag ${index + 1} must be 25 characters or less`,
-        code: PROFILE_VALIDATION_ERRORS.TAG_TOO_LONG
+        field: 'contentClassificationLabels',
+        message: `Content classification label "${label}" cannot be set`,
+        code: PROFILE_VALIDATION_ERRORS.CLASSIFICATION_LABEL_INVALID
       });
     }
+  });
 
-    // Twitch tag validation: alphanumeric, spaces, and some special chars
-    if (!/^[a-zA-Z0-9\s\-_]+$/.test(tag)) {
+  // Validate OBS actions (optional)
+  input.obsActions?.sources?.forEach((source, index) => {
+    if (!source.sourceName?.trim()) {
       errors.push({
-        field: 'tags',
-        message: `Tag "${tag}" contains invalid characters`,
-        code: PROFILE_VALIDATION_ERRORS.TAG_INVALID_CHARS
+        field: 'obsActions',
+        message: `OBS source ${index + 1} needs a source name`,
+        code: PROFILE_VALIDATION_ERRORS.OBS_ACTION_INVALID
+      });
+    } else if (!source.sceneName?.trim() && !input.obsActions?.scene?.trim()) {
+      errors.push({
+        field: 'obsActions',
+        message: `OBS source "${source.sourceName}" needs a scene, or set a scene for the profile`,
+        code: PROFILE_VALIDATION_ERRORS.OBS_ACTION_INVALID
       });
     }
   });
@@ -138,69 +215,57 @@ export function validateProfile(input: CreateProfileInput): ProfileValidationRes
 }
 
 /**
- * Process a title template with current date/time
+ * Process a title template with the current date/time, or the given context
  */
-export function processTitle(template: string): ProcessedTitle {
-  const now = new Date();
-  const replacements: Record<string, string> = {};
-  
-  let processed = template;
-
-  // Replace date template
-  if (processed.includes(TITLE_TEMPLATES.DATE)) {
-    const dateStr = now.toISOString().split('T')[0]; // YYYY-MM-DD
-    replacements[TITLE_TEMPLATES.DATE] = dateStr;
-    processed = processed.replace(new RegExp(escapeRegExp(TITLE_TEMPLATES.DATE), 'g'), dateStr);
-  }
-
-  // Replace day template
-  if (processed.includes(TITLE_TEMPLATES.DAY)) {
-    const dayStr = now.toLocaleDateString('en-US', { weekday: 'long' });
-    replacements[TITLE_TEMPLATES.DAY] = dayStr;
-    processed = processed.replace(new RegExp(escapeRegExp(TITLE_TEMPLATES.DAY), 'g'), dayStr);
-  }
+export function processTitle(template: string, context: TemplateContext = {}): ProcessedTitle {
+  const rendered = renderTitleTemplate(template, context);
 
   return {
     template,
-    processed,
-    replacements
+    processed: rendered.text,
+    replacements: rendered.replacements,
+    counters: rendered.counters,
+    diagnostics: rendered.diagnostics
   };
 }
 
 /**
- * Escape special regex characters
+ * Process a profile's title using its own variables and counters
  */
-function escapeRegExp(string: string): string {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+export function processProfileTitle(
+  profile: Pick<StreamProfile, 'title' | 'variables' | 'counters'>,
+  context: Omit<TemplateContext, 'variables' | 'counters'> = {}
+): ProcessedTitle {
+  return processTitle(profile.title, {
+    ...context,
+    variables: profile.variables,
+    counters: profile.counters
+  });
+}
+
+/**
+ * Keep only the variable/counter values a template references.
+ * Returns undefined when none are left so unused values aren't stored.
+ */
+export function pickTemplateValues<T>(values: Record<string, T>, names: string[]): Record<string, T> | undefined {
+  const picked = Object.fromEntries(
+    names.filter(name => values[name] !== undefined).map(name => [name, values[name]])
+  );
+  return Object.keys(picked).length > 0 ? picked : undefined;
 }
 
 /**
  * Check if a title contains dynamic templates
  */
 export function titleHasTemplates(title: string): boolean {
-  return Object.values(TITLE_TEMPLATES).some(template => 
-    title.includes(template)
-  );
+  return templateHasPlaceholders(title);
 }
 
 /**
  * Get available template placeholders
  */
 export function getAvailableTemplates(): Array<{ placeholder: string; description: string; example: string }> {
-  const now = new Date();
-  
-  return [
-    {
-      placeholder: TITLE_TEMPLATES.DATE,
-      description: 'Current date',
-      example: now.toISOString().split('T')[0]
-    },
-    {
-      placeholder: TITLE_TEMPLATES.DAY,
-      description: 'Current day of week',
-      example: now.toLocaleDateString('en-US', { weekday: 'long' })
-    }
-  ];
+  return describeTemplatePlaceholders();
 }
 
 /**
@@ -254,39 +319,227 @@ export function sortProfiles(
 }
 
 /**
- * Export profiles to JSON format
+ * Dashboard section a profile is listed in: favorites, its group, or ungrouped
+ */
+export function getProfileSection(profile: StreamProfile): string {
+  if (profile.favorite) {
+    return PROFILE_SECTIONS.FAVORITES;
+  }
+  return profile.groupId ?? PROFILE_SECTIONS.UNGROUPED;
+}
+
+/**
+ * Whether a profile is listed for the selected account: it is shared, the
+ * account owns it, or its owner is no longer linked. With no account
+ * selected every profile is listed.
+ */
+export function isProfileForAccount(
+  profile: StreamProfile,
+  accountId: string | null,
+  linkedAccountIds: string[]
+): boolean {
+  return !accountId ||
+    !profile.ownerId ||
+    profile.ownerId === accountId ||
+    !linkedAccountIds.includes(profile.ownerId);
+}
+
+/**
+ * Sort profiles by their dashboard position. Profiles that were never
+ * dragged follow, most recently updated first.
+ */
+export function sortProfilesByPosition(profiles: StreamProfile[]): StreamProfile[] {
+  return [...profiles].sort((a, b) => {
+    if (a.sortOrder !== undefined && b.sortOrder !== undefined) {
+      return a.sortOrder - b.sortOrder;
+    }
+    if (a.sortOrder !== undefined) return -1;
+    if (b.sortOrder !== undefined) return 1;
+    return b.updatedAt.getTime() - a.updatedAt.getTime();
+  });
+}
+
+/**
+ * Export profiles, and the groups they are filed under, to JSON format
  */
-export function exportProfiles(profiles: StreamProfile[]): string {
-  const exportData = {
-    version: '1.0',
+export function exportProfiles(profiles: StreamProfile[], groups: ProfileGroup[] = []): string {
+  const exportData: ProfileExport = {
+    version: CURRENT_BACKUP_VERSION,
     exportedAt: new Date(),
-    profiles
+    profiles,
+    groups: groups.length > 0 ? groups : undefined
   };
   
   return JSON.stringify(exportData, null, 2);
 }
 
+/**
+ * Parse a backup, migrate it to the current version and validate each profile
+ *
+ * Invalid profiles are reported rather than thrown so the rest can still be restored.
+ * @throws Error if the data isn't a backup or its version can't be migrated
+ */
+export function parseProfileBackup(jsonData: string): ParsedBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonData);
+  } catch {
+    throw new Error('Backup is not valid JSON');
+  }
+
+  const raw = data as Partial<RawBackup> | null;
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.profiles)) {
+    throw new Error('Invalid export format: missing profiles array');
+  }
+
+  // The first exporter always wrote "1.0"; hand-made backups without a version are read as that
+  const version = raw.version === undefined ? '1.0' : String(raw.version);
+  const { backup, applied } = migrateBackup({
+    version,
+    exportedAt: raw.exportedAt,
+    profiles: raw.profiles.filter(profile => profile !== null && typeof profile === 'object'),
+    groups: Array.isArray(raw.groups)
+      ? raw.groups.filter(group => group !== null && typeof group === 'object')
+      : undefined
+  });
+
+  const profiles: StreamProfile[] = [];
+  const invalid: InvalidImportedProfile[] = [];
+
+  backup.profiles.forEach((rawProfile, index) => {
+    const profile = toImportedProfile(rawProfile);
+    const validation = validateProfile(profile);
+
+    if (validation.isValid) {
+      profiles.push(profile);
+    } else {
+      invalid.push({
+        index,
+        name: typeof rawProfile.name === 'string' ? rawProfile.name : undefined,
+        errors: validation.errors
+      });
+    }
+  });
+
+  const exportedAt = typeof backup.exportedAt === 'string' ? new Date(backup.exportedAt) : undefined;
+
+  return {
+    version,
+    exportedAt: exportedAt && !isNaN(exportedAt.getTime()) ? exportedAt : undefined,
+    migrations: applied,
+    profiles,
+    groups: (backup.groups ?? []).map(toImportedGroup).filter((group): group is ProfileGroup => group !== null),
+    invalid
+  };
+}
+
 /**
  * Validate and parse imported profile data
+ *
+ * @throws Error if the backup can't be read or any profile in it is invalid
  */
 export function importProfiles(jsonData: string): StreamProfile[] {
   try {
-    const data = JSON.parse(jsonData);
-    
-    if (!data.profiles || !Array.isArray(data.profiles)) {
-      throw new Error('Invalid export format: missing profiles array');
+    const backup = parseProfileBackup(jsonData);
+
+    if (backup.invalid.length > 0) {
+      const first = backup.invalid[0];
+      throw new Error(
+        `${backup.invalid.length} invalid profile(s), starting with "${first.name ?? `#${first.index + 1}`}": ${first.errors[0].message}`
+      );
     }
 
-    return data.profiles.map((profile: any) => ({
-      ...profile,
-      createdAt: new Date(profile.createdAt),
-      updatedAt: new Date(profile.updatedAt)
-    }));
+    return backup.profiles;
   } catch (error) {
     throw new Error(`Failed to import profiles: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+/**
+ * Shape an untrusted backup record as a profile, leaving validation to validateProfile
+ */
+function toImportedProfile(raw: Record<string, unknown>): StreamProfile {
+  const category = (raw.category ?? {}) as Partial<StreamProfile['category']>;
+  const toDate = (value: unknown): Date => {
+    const date = new Date(value as string);
+    return isNaN(date.getTime()) ? new Date() : date;
+  };
+  const toRecord = <T>(value: unknown, convert: (entry: unknown) => T): Record<string, T> | undefined =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, convert(entry)]))
+      : undefined;
+
+  return {
+    id: typeof raw.id === 'string' && raw.id.length > 0 ? raw.id : generateUUID(),
+    name: typeof raw.name === 'string' ? raw.name.trim() : '',
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    category: {
+      id: String(category.id ?? ''),
+      name: String(category.name ?? ''),
+      boxArtUrl: typeof category.boxArtUrl === 'string' ? category.boxArtUrl : undefined
+    },
+    categoryMissing: raw.categoryMissing === true ? true : undefined,
+    title: typeof raw.title === 'string' ? raw.title.trim() : '',
+    tags: Array.isArray(raw.tags) ? normalizeTags(raw.tags.map(tag => String(tag))) : [],
+    variables: toRecord(raw.variables, String),
+    counters: toRecord(raw.counters, Number),
+    language: typeof raw.language === 'string' ? raw.language : undefined,
+    contentClassificationLabels: Array.isArray(raw.contentClassificationLabels)
+      ? raw.contentClassificationLabels.map(label => String(label) as ContentClassificationLabel)
+      : undefined,
+    isBrandedContent: typeof raw.isBrandedContent === 'boolean' ? raw.isBrandedContent : undefined,
+    obsActions: toObsActions(raw.obsActions),
+    favorite: raw.favorite === true ? true : undefined,
+    groupId: typeof raw.groupId === 'string' && raw.groupId.length > 0 ? raw.groupId : undefined,
+    ownerId: typeof raw.ownerId === 'string' && raw.ownerId.length > 0 ? raw.ownerId : undefined,
+    sortOrder: typeof raw.sortOrder === 'number' && Number.isFinite(raw.sortOrder) ? raw.sortOrder : undefined,
+    createdAt: toDate(raw.createdAt),
+    updatedAt: toDate(raw.updatedAt)
+  };
+}
+
+/**
+ * Shape an untrusted backup group, dropping groups without an ID or name
+ */
+function toImportedGroup(raw: Record<string, unknown>): ProfileGroup | null {
+  if (typeof raw.id !== 'string' || raw.id.length === 0 || typeof raw.name !== 'string' || !raw.name.trim()) {
+    return null;
+  }
+
+  const now = new Date();
+  return {
+    id: raw.id,
+    name: raw.name.trim(),
+    createdAt: now,
+    updatedAt: now
+  };
+}
+
+/**
+ * Shape untrusted OBS actions from a backup
+ */
+function toObsActions(value: unknown): ObsProfileActions | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const raw = value as Record<string, unknown>;
+  const optionalString = (entry: unknown): string | undefined =>
+    typeof entry === 'string' && entry.trim().length > 0 ? entry : undefined;
+
+  return {
+    sceneCollection: optionalString(raw.sceneCollection),
+    scene: optionalString(raw.scene),
+    sources: Array.isArray(raw.sources)
+      ? raw.sources.map((source: Record<string, unknown>) => ({
+        sourceName: String(source?.sourceName ?? ''),
+        sceneName: optionalString(source?.sceneName),
+        enabled: source?.enabled !== false
+      }))
+      : undefined
+  };
+}
+
 /**
  * Get profile statistics
  */
@@ -298,7 +551,6 @@ export function getProfileStats(profiles: StreamProfile[]): {
   recentlyUpdated: StreamProfile[];
 } {
   const byCategory: Record<string, number> = {};
-  const tagCounts: Record<string, number> = {};
   let withTemplates = 0;
 
   profiles.forEach(profile => {
@@ -309,18 +561,10 @@ export function getProfileStats(profiles: StreamProfile[]): {
     if (titleHasTemplates(profile.title)) {
       withTemplates++;
     }
-    
-    // Count tags
-    profile.tags.forEach(tag => {
-      tagCounts[tag] = (tagCounts[tag] || 0) + 1;
-    });
   });
 
   // Get most used tags
-  const mostUsedTags = Object.entries(tagCounts)
-    .map(([tag, count]) => ({ tag, count }))
-    .sort((a, b) => b.count - a.count)
-    .slice(0, 10);
+  const mostUsedTags = countTagUsage(profiles.map(profile => profile.tags)).slice(0, 10);
 
   // Get recently updated profiles (last 7 days)
   const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
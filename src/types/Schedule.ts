@@ -0,0 +1,94 @@
+/**
+ * Stream Schedule Types
+ *
+ * A weekly schedule maps recurring time slots to stream profiles.
+ * While the app is open the scheduler applies the matching profile
+ * when a slot starts, and logs every run (including missed slots).
+ */
+
+/**
+ * Day of week, matching Date.getDay() (0 = Sunday)
+ */
+export type DayOfWeek = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * A recurring weekly slot
+ */
+export interface ScheduleSlot {
+  /** Unique identifier (UUID v4) */
+  id: string;
+  /** Day of the week the slot recurs on */
+  dayOfWeek: DayOfWeek;
+  /** Local start time as HH:mm (24-hour) */
+  startTime: string;
+  /** Profile to apply when the slot starts */
+  profileId: string;
+  /** Disabled slots stay in the calendar but never run */
+  enabled: boolean;
+  /** When the slot was created */
+  createdAt: Date;
+  /** When the slot was last modified */
+  updatedAt: Date;
+}
+
+/**
+ * Input for creating a slot
+ */
+export type CreateScheduleSlotInput = Pick<ScheduleSlot, 'dayOfWeek' | 'startTime' | 'profileId'> & {
+  enabled?: boolean;
+};
+
+/**
+ * Input for updating a slot
+ */
+export type UpdateScheduleSlotInput = Partial<CreateScheduleSlotInput>;
+
+/**
+ * Outcome of a scheduled slot
+ */
+export type ScheduleRunStatus = 'applied' | 'failed' | 'missed';
+
+/**
+ * Log record for a slot occurrence
+ */
+export interface ScheduleRun {
+  /** Unique identifier (UUID v4) */
+  id: string;
+  /** Slot that was due */
+  slotId: string;
+  /** Profile the slot points at */
+  profileId: string;
+  /** Profile name at the time of the run, if the profile still existed */
+  profileName?: string;
+  /** When the slot was due to start */
+  scheduledFor: Date;
+  /** When the scheduler handled it */
+  handledAt: Date;
+  /** What happened */
+  status: ScheduleRunStatus;
+  /** Why the run failed or was missed */
+  reason?: string;
+}
+
+/**
+ * Day names indexed by DayOfWeek
+ */
+export const DAYS_OF_WEEK: readonly string[] = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday'
+] as const;
+
+/**
+ * Validation error codes for schedule slots
+ */
+export const SCHEDULE_VALIDATION_ERRORS = {
+  DAY_INVALID: 'DAY_INVALID',
+  TIME_INVALID: 'TIME_INVALID',
+  PROFILE_REQUIRED: 'PROFILE_REQUIRED',
+  SLOT_DUPLICATE: 'SLOT_DUPLICATE'
+} as const;
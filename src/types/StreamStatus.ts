@@ -0,0 +1,83 @@
+/**
+ * Stream Status Types
+ *
+ * Whether the channel is live, as seen by the stream status poller,
+ * and the log of stream starts and ends it has detected.
+ */
+
+/**
+ * Channel state; unknown until the first successful check
+ */
+export type StreamState = 'unknown' | 'offline' | 'live';
+
+/**
+ * The live stream, when there is one
+ */
+export interface LiveStreamInfo {
+  /** Twitch stream ID (new for every broadcast) */
+  id: string;
+  /** Stream title */
+  title: string;
+  /** Category name */
+  categoryName: string;
+  /** Current viewer count */
+  viewerCount: number;
+  /** When the stream started */
+  startedAt: Date;
+}
+
+/**
+ * Latest stream status
+ */
+export interface StreamStatus {
+  state: StreamState;
+  /** Present while live */
+  stream?: LiveStreamInfo;
+  /** When Twitch was last asked */
+  lastCheckedAt?: Date;
+  /** When Twitch will be asked next */
+  nextCheckAt?: Date;
+  /** Why the last check failed */
+  error?: string;
+}
+
+/**
+ * Kind of stream event
+ */
+export type StreamEventType = 'online' | 'offline';
+
+/**
+ * What happened to the profile applied on going live
+ */
+export type StreamEventApplyStatus = 'applied' | 'failed' | 'skipped';
+
+/**
+ * Where the profile applied on going live came from
+ */
+export type StreamEventProfileSource = 'schedule' | 'default';
+
+/**
+ * Log record for a detected stream start or end
+ */
+export interface StreamEvent {
+  /** Unique identifier (UUID v4) */
+  id: string;
+  /** Whether the channel went live or offline */
+  type: StreamEventType;
+  /** Twitch stream ID */
+  streamId?: string;
+  /** When the stream started, according to Twitch */
+  startedAt?: Date;
+  /** When the poller noticed the change */
+  detectedAt: Date;
+  /** Profile picked for the new stream */
+  profileId?: string;
+  /** Profile name at the time of the event */
+  profileName?: string;
+  /** Whether the profile came from the schedule or the default profile */
+  profileSource?: StreamEventProfileSource;
+  /** Outcome of applying the profile (online events only) */
+  applyStatus?: StreamEventApplyStatus;
+  /** Why the profile was skipped or failed */
+  reason?: string;
+}
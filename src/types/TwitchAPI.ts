@@ -5,6 +5,12 @@
  * the core functionality needed for stream profile management.
  */
 
+/**
+ * How the app obtains tokens: the implicit grant (no refresh) or the
+ * authorization code flow with PKCE through a token exchange server
+ */
+export type AuthStrategyName = 'implicit' | 'pkce';
+
 /**
  * OAuth 2.0 token structure from Twitch
  */
@@ -31,6 +37,8 @@ export interface StoredAuthToken extends TwitchAuthToken {
   expiresAt: Date;
   /** User ID this token belongs to */
   userId: string;
+  /** Strategy that issued the token (implicit when missing) */
+  strategy?: AuthStrategyName;
 }
 
 /**
@@ -43,6 +51,30 @@ export interface OAuthState {
   redirectUri: string;
   /** Timestamp when flow started */
   createdAt: Date;
+  /** Strategy that started the flow (implicit when missing) */
+  strategy?: AuthStrategyName;
+  /** PKCE code verifier, sent with the authorization code */
+  codeVerifier?: string;
+  /** Route to return to after signing in */
+  returnTo?: string;
+  /** Whether the flow runs in a popup window, which closes when done */
+  popup?: boolean;
+}
+
+/**
+ * A Twitch account signed in on this device
+ */
+export interface LinkedAccount {
+  /** Twitch user ID, which is also the broadcaster ID */
+  id: string;
+  /** Login name (empty until the user details are first loaded) */
+  login: string;
+  displayName: string;
+  profileImageUrl: string;
+  /** When the account was first signed in */
+  linkedAt: Date;
+  /** Whether a token is stored; false once the session ended and wasn't renewed */
+  signedIn: boolean;
 }
 
 /**
@@ -60,7 +92,7 @@ export interface TwitchGameResponse {
 }
 
 /**
- * Cached category with expiration
+ * Category cache record as stored in the categories store
  */
 export interface CachedCategory {
   /** Twitch category ID */
@@ -73,6 +105,8 @@ export interface CachedCategory {
   cachedAt: Date;
   /** When this cache expires */
   expiresAt: Date;
+  /** When this was last picked or looked up, for least-recently-used eviction */
+  lastUsedAt: Date;
   /** Search terms for offline filtering */
   searchTerms: string[];
 }
@@ -105,6 +139,16 @@ export interface TwitchChannelResponse {
   is_branded_content: boolean;
 }
 
+/**
+ * Content classification label toggle sent when updating a channel
+ */
+export interface ContentClassificationLabelUpdate {
+  /** Label ID (e.g., "Gambling") */
+  id: string;
+  /** Whether the label should be enabled */
+  is_enabled: boolean;
+}
+
 /**
  * Request payload for updating channel information
  */
@@ -117,8 +161,8 @@ export interface UpdateChannelRequest {
   broadcaster_language?: string;
   /** New stream tags (max 10) */
   tags?: string[];
-  /** Content classification labels */
-  content_classification_labels?: string[];
+  /** Content classification labels to enable or disable */
+  content_classification_labels?: ContentClassificationLabelUpdate[];
   /** Branded content flag */
   is_branded_content?: boolean;
 }
@@ -143,6 +187,52 @@ export interface TwitchChannelInfoResponse {
   data: TwitchChannelResponse[];
 }
 
+/**
+ * Twitch API live stream information
+ */
+export interface TwitchStreamResponse {
+  /** Stream ID (changes every time the broadcaster goes live) */
+  id: string;
+  /** Broadcaster user ID */
+  user_id: string;
+  /** Broadcaster login name */
+  user_login: string;
+  /** Broadcaster display name */
+  user_name: string;
+  /** Current game/category ID */
+  game_id: string;
+  /** Current game/category name */
+  game_name: string;
+  /** "live", or an empty string on error */
+  type: string;
+  /** Stream title */
+  title: string;
+  /** Stream tags */
+  tags: string[];
+  /** Current viewer count */
+  viewer_count: number;
+  /** When the stream started (RFC3339) */
+  started_at: string;
+  /** Stream language */
+  language: string;
+  /** Thumbnail URL template with {width} and {height} placeholders */
+  thumbnail_url: string;
+  /** Whether the stream is for mature audiences */
+  is_mature: boolean;
+}
+
+/**
+ * Twitch API Streams response wrapper (empty when offline)
+ */
+export interface TwitchStreamsResponse {
+  /** Live streams (at most one when filtered by user_id) */
+  data: TwitchStreamResponse[];
+  /** Pagination cursor */
+  pagination?: {
+    cursor?: string;
+  };
+}
+
 /**
  * Twitch API User information
  */
@@ -4,6 +4,8 @@
  * Centralized configuration and constants for the Stream Profile Manager
  */
 
+import type { UserPreferences } from './index';
+
 /**
  * Application metadata
  */
@@ -18,16 +20,31 @@ export const APP_CONFIG = {
   REPOSITORY: 'https://github.com/campbellkearns/scratch-my-twitch'
 } as const;
 
+/**
+ * Twitch hosts. Dev and test builds can point them at a mock server
+ * (see tests/mocks/helixMockServer.ts).
+ */
+const TWITCH_API_BASE = import.meta.env.VITE_API_BASE_URL || 'https://api.twitch.tv/helix';
+const TWITCH_OAUTH_BASE = import.meta.env.VITE_TWITCH_OAUTH_BASE_URL || 'https://id.twitch.tv/oauth2';
+
 /**
  * Twitch API configuration
  */
 export const TWITCH_CONFIG = {
   /** OAuth 2.0 authorization URL */
-  AUTH_URL: 'https://id.twitch.tv/oauth2/authorize',
+  AUTH_URL: `${TWITCH_OAUTH_BASE}/authorize`,
   /** Required OAuth scopes */
   REQUIRED_SCOPES: ['channel:manage:broadcast'],
   /** OAuth response type - 'token' for implicit grant flow (client-side apps) */
   RESPONSE_TYPE: 'token',
+  /** Default sign-in strategy - 'implicit', or 'pkce' with a token exchange server */
+  AUTH_STRATEGY: (import.meta.env.VITE_TWITCH_AUTH_STRATEGY === 'pkce' ? 'pkce' : 'implicit') as 'implicit' | 'pkce',
+  /** Default token exchange server for the PKCE strategy (holds the client secret) */
+  TOKEN_EXCHANGE_URL: import.meta.env.VITE_TWITCH_TOKEN_EXCHANGE_URL || '',
+  /** Refresh tokens this long before they expire (milliseconds) */
+  TOKEN_REFRESH_WINDOW: 10 * 60 * 1000,
+  /** Stop using tokens this long before they expire, to allow for latency (milliseconds) */
+  TOKEN_EXPIRY_BUFFER: 5 * 60 * 1000,
   /** OAuth redirect URI (dynamic based on environment) */
   get REDIRECT_URI() {
     return `${window.location.origin}/auth/callback`;
@@ -41,23 +58,30 @@ export const TWITCH_CONFIG = {
  */
 export const TWITCH_ENDPOINTS = {
   /** OAuth token endpoint */
-  TOKEN: 'https://id.twitch.tv/oauth2/token',
+  TOKEN: `${TWITCH_OAUTH_BASE}/token`,
   /** Token validation endpoint */
-  VALIDATE: 'https://id.twitch.tv/oauth2/validate',
+  VALIDATE: `${TWITCH_OAUTH_BASE}/validate`,
   /** Revoke token endpoint */
-  REVOKE: 'https://id.twitch.tv/oauth2/revoke',
+  REVOKE: `${TWITCH_OAUTH_BASE}/revoke`,
   /** API base URL */
-  API_BASE: 'https://api.twitch.tv/helix',
+  API_BASE: TWITCH_API_BASE,
   /** Channel information */
   CHANNELS: '/channels',
   /** Games/categories */
   GAMES: '/games',
+  /** Category search by partial name */
+  SEARCH_CATEGORIES: '/search/categories',
   /** User information */
-  USERS: '/users'
+  USERS: '/users',
+  /** Live streams */
+  STREAMS: '/streams'
 } as const;
 
 /**
  * API request configuration
+ *
+ * TIMEOUT, RETRY_ATTEMPTS and RETRY_DELAY are defaults; the values in use
+ * come from the user's preferences (see PreferencesRepository).
  */
 export const API_CONFIG = {
   /** Request timeout in milliseconds */
@@ -76,8 +100,10 @@ export const API_CONFIG = {
 export const STORAGE_KEYS = {
   /** IndexedDB database name */
   DB_NAME: 'ScratchMyTwitchDB',
-  /** Database version */
-  DB_VERSION: 1,
+  /** Database version; must match the latest step in lib/db/migrations */
+  DB_VERSION: 7,
+  /** Database holding copies taken before each schema upgrade */
+  MIGRATION_BACKUPS_DB_NAME: 'ScratchMyTwitchBackupsDB',
   /** Profiles object store */
   PROFILES_STORE: 'profiles',
   /** Categories cache store */
@@ -85,7 +111,19 @@ export const STORAGE_KEYS = {
   /** Auth tokens store */
   AUTH_STORE: 'auth',
   /** User preferences store */
-  PREFERENCES_STORE: 'preferences'
+  PREFERENCES_STORE: 'preferences',
+  /** Apply history store */
+  HISTORY_STORE: 'applyHistory',
+  /** Weekly schedule slots store */
+  SCHEDULE_STORE: 'schedule',
+  /** Scheduler run log store */
+  SCHEDULE_RUNS_STORE: 'scheduleRuns',
+  /** Stream start/end event log store */
+  STREAM_EVENTS_STORE: 'streamEvents',
+  /** Profile groups (folders) store */
+  PROFILE_GROUPS_STORE: 'profileGroups',
+  /** Applies waiting for Twitch to be reachable */
+  APPLY_QUEUE_STORE: 'applyQueue'
 } as const;
 
 /**
@@ -103,7 +141,48 @@ export const VALIDATION_LIMITS = {
   /** Maximum tag length */
   TAG_MAX: 25,
   /** Maximum profiles per user */
-  PROFILES_MAX: 50
+  PROFILES_MAX: 50,
+  /** Maximum profile group name length */
+  GROUP_NAME_MAX: 50,
+  /** Maximum profile groups per user */
+  GROUPS_MAX: 20
+} as const;
+
+/**
+ * Broadcaster languages selectable on Twitch (ISO 639-1 codes plus "other")
+ */
+export const BROADCASTER_LANGUAGES = {
+  en: 'English',
+  es: 'Español',
+  pt: 'Português',
+  fr: 'Français',
+  de: 'Deutsch',
+  it: 'Italiano',
+  nl: 'Nederlands',
+  sv: 'Svenska',
+  no: 'Norsk',
+  da: 'Dansk',
+  fi: 'Suomi',
+  pl: 'Polski',
+  cs: 'Čeština',
+  hu: 'Magyar',
+  ro: 'Română',
+  el: 'Ελληνικά',
+  tr: 'Türkçe',
+  ru: 'Русский',
+  uk: 'Українська',
+  bg: 'Български',
+  ar: 'العربية',
+  hi: 'हिन्दी',
+  th: 'ภาษาไทย',
+  vi: 'Tiếng Việt',
+  id: 'Bahasa Indonesia',
+  ms: 'Bahasa Melayu',
+  tl: 'Tagalog',
+  ja: '日本語',
+  ko: '한국어',
+  zh: '中文',
+  other: 'Other'
 } as const;
 
 /**
@@ -126,6 +205,8 @@ export const UI_CONFIG = {
 export const CACHE_SETTINGS = {
   /** Categories cache TTL (24 hours) */
   CATEGORIES_TTL: 24 * 60 * 60 * 1000,
+  /** Most categories kept before the least recently used are evicted */
+  CATEGORIES_MAX_ENTRIES: 500,
   /** User info cache TTL (1 hour) */
   USER_INFO_TTL: 60 * 60 * 1000,
   /** Health check cache TTL (5 minutes) */
@@ -174,6 +255,7 @@ export const ERROR_CODES = {
   // Storage errors
   STORAGE_ERROR: 'STORAGE_ERROR',
   STORAGE_QUOTA_EXCEEDED: 'STORAGE_QUOTA_EXCEEDED',
+  MIGRATION_FAILED: 'MIGRATION_FAILED',
   
   // Unknown errors
   UNKNOWN_ERROR: 'UNKNOWN_ERROR'
@@ -194,12 +276,25 @@ export const SUCCESS_MESSAGES = {
 /**
  * Default user preferences
  */
-export const DEFAULT_PREFERENCES = {
-  theme: 'system' as const,
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  theme: 'system',
   notifications: true,
   autoApply: false,
+  defaultProfileId: undefined,
   confirmActions: true,
-  defaultProfileId: undefined
+  debugLogging: FEATURE_FLAGS.DEBUG_LOGGING,
+  apiTimeout: API_CONFIG.TIMEOUT,
+  apiRetryAttempts: API_CONFIG.RETRY_ATTEMPTS,
+  apiRetryDelay: API_CONFIG.RETRY_DELAY,
+  obsEnabled: false,
+  obsUrl: 'ws://127.0.0.1:4455',
+  obsPassword: '',
+  collapsedSections: [],
+  authStrategy: TWITCH_CONFIG.AUTH_STRATEGY,
+  tokenExchangeUrl: TWITCH_CONFIG.TOKEN_EXCHANGE_URL,
+  tokenExpiryWarnings: [15, 5],
+  applyQueueMaxAge: 30,
+  applyQueueConflictRule: 'last-wins'
 };
 
 /**
@@ -225,5 +320,6 @@ export const ROUTES = {
   CREATE_PROFILE: '/profile/new',
   EDIT_PROFILE: '/profile/:id/edit',
   AUTH_CALLBACK: '/auth/callback',
-  SETTINGS: '/settings'
+  SETTINGS: '/settings',
+  BACKUP: '/backup'
 } as const;
@@ -7,8 +7,14 @@
 interface ImportMetaEnv {
   /** Twitch application client ID */
   readonly VITE_TWITCH_CLIENT_ID: string;
-  /** API base URL override */
+  /** Default sign-in strategy ('implicit' or 'pkce') */
+  readonly VITE_TWITCH_AUTH_STRATEGY?: string;
+  /** Default token exchange server for the PKCE strategy */
+  readonly VITE_TWITCH_TOKEN_EXCHANGE_URL?: string;
+  /** Helix API base URL override */
   readonly VITE_API_BASE_URL?: string;
+  /** Twitch OAuth base URL override (authorize, validate, revoke) */
+  readonly VITE_TWITCH_OAUTH_BASE_URL?: string;
   /** Enable debug mode */
   readonly VITE_DEBUG?: string;
   /** Environment name */
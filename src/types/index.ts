@@ -5,6 +5,9 @@
  * This enables clean imports and maintains a clear API surface.
  */
 
+import type { AuthStrategyName } from './TwitchAPI';
+import type { ApplyQueueConflictRule } from './ApplyQueue';
+
 // Profile Domain Types
 export type {
   StreamProfile,
@@ -15,25 +18,127 @@ export type {
   ProfileValidationResult,
   ProfileValidationError,
   ProcessedTitle,
-  ProfileExport
+  ProfileExport,
+  ContentClassificationLabel
 } from './Profile';
 
 export {
   PROFILE_VALIDATION_ERRORS,
-  TITLE_TEMPLATES
+  TITLE_TEMPLATES,
+  CONTENT_CLASSIFICATION_LABELS
 } from './Profile';
 
+// Profile Group Types
+export type { ProfileGroup } from './ProfileGroup';
+
+export {
+  PROFILE_SECTIONS,
+  PROFILE_GROUP_VALIDATION_ERRORS
+} from './ProfileGroup';
+
+// Apply History Types
+export type {
+  ChannelSnapshot,
+  ChannelField,
+  ApplyHistoryAction,
+  ApplyHistoryEntry,
+  CreateApplyHistoryInput
+} from './History';
+
+// Offline Apply Queue Types
+export type {
+  ApplyQueueConflictRule,
+  ApplyIntent,
+  ApplyIntentOutcomeStatus,
+  ApplyIntentOutcome
+} from './ApplyQueue';
+
+export { APPLY_QUEUE_CONFLICT_RULES } from './ApplyQueue';
+
+// Co-stream Types
+export type {
+  CoStreamTarget,
+  CoStreamApplyOptions,
+  CoStreamChannelResult
+} from './CoStream';
+
+// Backup Types
+export type {
+  InvalidImportedProfile,
+  ParsedBackup,
+  ImportConflictType,
+  ConflictResolution,
+  ImportConflict,
+  ImportAction,
+  ImportPlanItem,
+  ImportPlan
+} from './Backup';
+
+// OBS Types
+export type {
+  ObsSourceToggle,
+  ObsProfileActions,
+  ObsActionStep,
+  ObsActionsReport,
+  ObsMessage,
+  ObsHello,
+  ObsIdentify,
+  ObsIdentified,
+  ObsRequest,
+  ObsRequestResponse,
+  ObsSceneCollectionList,
+  ObsSceneList,
+  ObsVersionInfo
+} from './Obs';
+
+export {
+  OBS_OP_CODES,
+  OBS_RPC_VERSION,
+  OBS_CLOSE_CODES
+} from './Obs';
+
+// Schedule Types
+export type {
+  DayOfWeek,
+  ScheduleSlot,
+  CreateScheduleSlotInput,
+  UpdateScheduleSlotInput,
+  ScheduleRunStatus,
+  ScheduleRun
+} from './Schedule';
+
+export {
+  DAYS_OF_WEEK,
+  SCHEDULE_VALIDATION_ERRORS
+} from './Schedule';
+
+// Stream Status Types
+export type {
+  StreamState,
+  LiveStreamInfo,
+  StreamStatus,
+  StreamEventType,
+  StreamEventApplyStatus,
+  StreamEventProfileSource,
+  StreamEvent
+} from './StreamStatus';
+
 // Twitch API Types
 export type {
   TwitchAuthToken,
   StoredAuthToken,
+  LinkedAccount,
   OAuthState,
+  AuthStrategyName,
   TwitchGameResponse,
   CachedCategory,
   TwitchChannelResponse,
   UpdateChannelRequest,
+  ContentClassificationLabelUpdate,
   TwitchGamesSearchResponse,
   TwitchChannelInfoResponse,
+  TwitchStreamResponse,
+  TwitchStreamsResponse,
   TwitchUserResponse,
   TwitchUserInfoResponse,
   TwitchAPIError,
@@ -155,12 +260,38 @@ export interface UserPreferences {
   theme: 'light' | 'dark' | 'system';
   /** Enable notifications */
   notifications: boolean;
-  /** Auto-apply profiles on stream start */
+  /** Auto-apply profiles when a schedule slot starts and on stream start */
   autoApply: boolean;
-  /** Default profile to apply */
+  /** Profile applied on stream start outside a schedule slot */
   defaultProfileId?: string;
   /** Confirmation dialogs enabled */
   confirmActions: boolean;
+  /** Log API and scheduler activity to the console */
+  debugLogging: boolean;
+  /** Twitch request timeout in milliseconds */
+  apiTimeout: number;
+  /** Retries for Twitch requests that fail with a network or server error */
+  apiRetryAttempts: number;
+  /** Delay before the first retry in milliseconds (grows with each attempt) */
+  apiRetryDelay: number;
+  /** Run profiles' OBS actions when they are applied */
+  obsEnabled: boolean;
+  /** obs-websocket server address */
+  obsUrl: string;
+  /** obs-websocket server password (empty when authentication is off) */
+  obsPassword: string;
+  /** Dashboard sections the user has collapsed (section keys) */
+  collapsedSections: string[];
+  /** How to sign in with Twitch */
+  authStrategy: AuthStrategyName;
+  /** Token exchange server used by the PKCE strategy */
+  tokenExchangeUrl: string;
+  /** Warn this many minutes before a Twitch session that can't be refreshed expires */
+  tokenExpiryWarnings: number[];
+  /** Queued applies older than this many minutes are dropped instead of sent */
+  applyQueueMaxAge: number;
+  /** What to do with applies already waiting when another is queued */
+  applyQueueConflictRule: ApplyQueueConflictRule;
 }
 
 /**
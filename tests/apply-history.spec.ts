@@ -0,0 +1,104 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Apply History Tests
+ * Tests the apply log page, recorded entries and revert availability
+ */
+
+test.describe('Apply History', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/');
+    await page.waitForSelector('h1:has-text("Stream Profiles")', { timeout: 10000 });
+  });
+
+  test('should show empty history', async ({ page }) => {
+    await page.click('nav a:has-text("History")');
+    await expect(page).toHaveURL('/history');
+    await expect(page.locator('h1:has-text("Apply History")')).toBeVisible();
+    await expect(page.locator('text=No changes yet')).toBeVisible();
+  });
+
+  test('should list recorded applies with a revert button', async ({ page }) => {
+    // Seed a successful apply with a captured pre-apply state
+    await page.evaluate(async () => {
+      const request = indexedDB.open('ScratchMyTwitchDB');
+
+      await new Promise<void>((resolve, reject) => {
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const db = request.result;
+          const transaction = db.transaction(['applyHistory'], 'readwrite');
+          transaction.objectStore('applyHistory').put({
+            id: 'history-test-entry',
+            action: 'apply',
+            profileId: 'profile-1',
+            profileName: 'Seeded Profile',
+            category: { id: '509670', name: 'Science & Technology' },
+            title: 'Building things live',
+            tags: ['coding'],
+            request: { game_id: '509670', title: 'Building things live', tags: ['coding'] },
+            previousState: {
+              category: { id: '509658', name: 'Just Chatting' },
+              title: 'Morning chat',
+              tags: ['chill'],
+              language: 'en',
+              contentClassificationLabels: [],
+              isBrandedContent: false
+            },
+            success: true,
+            appliedAt: new Date()
+          });
+          transaction.oncomplete = () => {
+            db.close();
+            resolve();
+          };
+        };
+      });
+    });
+
+    await page.goto('/history');
+
+    const entry = page.locator('[data-testid="history-entry"]', { hasText: 'Seeded Profile' });
+    await expect(entry).toBeVisible();
+    await expect(entry.locator('text=Morning chat')).toBeVisible();
+    await expect(entry.locator('text=Building things live')).toBeVisible();
+    await expect(entry.locator('button:has-text("Revert")')).toBeVisible();
+  });
+
+  test('should not offer revert for failed applies', async ({ page }) => {
+    await page.evaluate(async () => {
+      const request = indexedDB.open('ScratchMyTwitchDB');
+
+      await new Promise<void>((resolve, reject) => {
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const db = request.result;
+          const transaction = db.transaction(['applyHistory'], 'readwrite');
+          transaction.objectStore('applyHistory').put({
+            id: 'history-failed-entry',
+            action: 'apply',
+            profileId: 'profile-2',
+            profileName: 'Failed Profile',
+            category: { id: '509658', name: 'Just Chatting' },
+            title: 'Never sent',
+            tags: [],
+            request: { game_id: '509658', title: 'Never sent', tags: [] },
+            success: false,
+            error: { code: 'API_ERROR', message: 'Failed to update stream: 500' },
+            appliedAt: new Date()
+          });
+          transaction.oncomplete = () => {
+            db.close();
+            resolve();
+          };
+        };
+      });
+    });
+
+    await page.goto('/history');
+
+    const entry = page.locator('[data-testid="history-entry"]', { hasText: 'Failed Profile' });
+    await expect(entry.locator('text=Failed to update stream: 500')).toBeVisible();
+    await expect(entry.locator('button:has-text("Revert")')).toHaveCount(0);
+  });
+});
@@ -0,0 +1,61 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Apply Preview Tests
+ * Tests the diff preview shown before a profile is applied
+ */
+
+test.describe('Apply Preview', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/');
+    await page.waitForSelector('h1:has-text("Stream Profiles")', { timeout: 10000 });
+
+    await page.click('a:has-text("New Profile"), a:has-text("Create Profile")');
+    await page.fill('input[name="name"]', 'Preview Test');
+    await page.fill('input[name="title"]', 'Previewing on {DAY}');
+    await page.click('button[type="submit"]');
+    await page.waitForURL('/');
+  });
+
+  test('should open a preview instead of applying immediately', async ({ page }) => {
+    const profileCard = page.locator('article.scandi-card', { hasText: 'Preview Test' });
+    await profileCard.locator('button:has-text("Apply Profile")').click();
+
+    const dialog = page.locator('[role="dialog"]');
+    await expect(dialog).toBeVisible();
+    await expect(dialog.locator('h2')).toContainText('Apply "Preview Test"?');
+    await expect(dialog.locator('[data-testid="apply-diff"] tr[data-field="title"]')).toBeVisible();
+    await expect(dialog.locator('[data-testid="apply-diff"] tr[data-field="category"]')).toBeVisible();
+  });
+
+  test('should fall back to applying every field when the channel cannot be read', async ({ page }) => {
+    const profileCard = page.locator('article.scandi-card', { hasText: 'Preview Test' });
+    await profileCard.locator('button:has-text("Apply Profile")').click();
+
+    const dialog = page.locator('[role="dialog"]');
+    await expect(dialog.locator("text=Couldn't read your live channel")).toBeVisible();
+    await expect(dialog.locator('input[name="apply-title"]')).toBeChecked();
+    await expect(dialog.locator('button:has-text("Apply 3 fields")')).toBeEnabled();
+  });
+
+  test('should let fields be deselected', async ({ page }) => {
+    const profileCard = page.locator('article.scandi-card', { hasText: 'Preview Test' });
+    await profileCard.locator('button:has-text("Apply Profile")').click();
+
+    const dialog = page.locator('[role="dialog"]');
+    await dialog.locator('input[name="apply-tags"]').uncheck();
+    await dialog.locator('input[name="apply-category"]').uncheck();
+    await expect(dialog.locator('button:has-text("Apply 1 field")')).toBeVisible();
+
+    await dialog.locator('input[name="apply-title"]').uncheck();
+    await expect(dialog.locator('button:has-text("Apply 0 fields")')).toBeDisabled();
+  });
+
+  test('should close the preview on cancel', async ({ page }) => {
+    const profileCard = page.locator('article.scandi-card', { hasText: 'Preview Test' });
+    await profileCard.locator('button:has-text("Apply Profile")').click();
+
+    await page.locator('[role="dialog"] button:has-text("Cancel")').click();
+    await expect(page.locator('[role="dialog"]')).toHaveCount(0);
+  });
+});
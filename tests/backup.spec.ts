@@ -0,0 +1,102 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Backup and Restore Tests
+ * Tests exporting profiles and restoring backups with conflict resolution
+ */
+
+const profile = (id: string, name: string, title = 'Streaming today') => ({
+  id,
+  name,
+  category: { id: '509670', name: 'Science & Technology' },
+  title,
+  tags: ['English'],
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+});
+
+test.describe('Backup and Restore', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/');
+    await page.waitForSelector('h1:has-text("Stream Profiles")', { timeout: 10000 });
+
+    await page.click('a:has-text("New Profile"), a:has-text("Create Profile")');
+    await page.fill('input[name="name"]', 'Backup Test');
+    await page.fill('input[name="title"]', 'Backing up on {DAY}');
+    await page.click('button[type="submit"]');
+    await page.waitForURL('/');
+
+    await page.goto('/backup');
+    await page.waitForSelector('h1:has-text("Backup & Restore")');
+  });
+
+  test('should download a backup file', async ({ page }) => {
+    const downloadPromise = page.waitForEvent('download');
+    await page.click('button:has-text("Download Backup")');
+    const download = await downloadPromise;
+
+    expect(download.suggestedFilename()).toMatch(/^scratch-my-twitch-backup-\d{4}-\d{2}-\d{2}\.json$/);
+  });
+
+  test('should show a dry run before importing', async ({ page }) => {
+    const backup = { version: '1.1', exportedAt: '2024-01-01T00:00:00.000Z', profiles: [profile('new-1', 'Restored Profile')] };
+    await page.fill('textarea[name="backupText"]', JSON.stringify(backup));
+    await page.click('button:has-text("Check Backup")');
+
+    await expect(page.locator('[data-testid="import-counts"]')).toContainText('1 new');
+    await expect(page.locator('[data-testid="import-conflicts"]')).toHaveCount(0);
+
+    // Nothing is written until the import is confirmed
+    await page.goto('/');
+    await expect(page.locator('article.scandi-card', { hasText: 'Restored Profile' })).toHaveCount(0);
+  });
+
+  test('should import profiles from a backup', async ({ page }) => {
+    const backup = { version: '1.1', profiles: [profile('new-1', 'Restored Profile')] };
+    await page.fill('textarea[name="backupText"]', JSON.stringify(backup));
+    await page.click('button:has-text("Check Backup")');
+    await page.click('button:has-text("Import 1 profile")');
+
+    await expect(page.locator('text=Imported 1 profile from the backup')).toBeVisible();
+    await page.goto('/');
+    await expect(page.locator('article.scandi-card', { hasText: 'Restored Profile' })).toBeVisible();
+  });
+
+  test('should resolve name conflicts', async ({ page }) => {
+    const backup = { version: '1.1', profiles: [profile('other-id', 'Backup Test', 'From the backup')] };
+    await page.fill('textarea[name="backupText"]', JSON.stringify(backup));
+    await page.click('button:has-text("Check Backup")');
+
+    await expect(page.locator('[data-testid="import-conflict"]')).toHaveCount(1);
+    await expect(page.locator('[data-testid="import-counts"]')).toContainText('1 skipped');
+    await expect(page.locator('button:has-text("Import 0 profiles")')).toBeDisabled();
+
+    await page.selectOption('select[aria-label="Resolve Backup Test"]', 'rename');
+    await expect(page.locator('[data-testid="import-summary"]')).toContainText('Backup Test (imported)');
+    await page.click('button:has-text("Import 1 profile")');
+
+    await page.goto('/');
+    await expect(page.locator('article.scandi-card', { hasText: 'Backup Test (imported)' })).toBeVisible();
+    await expect(page.locator('article.scandi-card', { hasText: 'Backing up on' })).toBeVisible();
+  });
+
+  test('should report invalid profiles and migrate old backups', async ({ page }) => {
+    const backup = {
+      version: '1.0',
+      profiles: [profile('old-1', 'Old Profile', 'Old stream on {DAY}'), { id: 'broken', name: '', tags: [] }]
+    };
+    await page.fill('textarea[name="backupText"]', JSON.stringify(backup));
+    await page.click('button:has-text("Check Backup")');
+
+    await expect(page.locator('[data-testid="backup-migrations"]')).toContainText('1.0 → 1.1');
+    await expect(page.locator('[data-testid="invalid-profiles"]')).toContainText('Profile name is required');
+    await expect(page.locator('[data-testid="import-counts"]')).toContainText('1 invalid');
+  });
+
+  test('should reject backups from a newer version', async ({ page }) => {
+    await page.fill('textarea[name="backupText"]', JSON.stringify({ version: '99.0', profiles: [] }));
+    await page.click('button:has-text("Check Backup")');
+
+    await expect(page.locator('text=newer version of the app')).toBeVisible();
+  });
+});
@@ -95,6 +95,20 @@ test.describe('Category Search', () => {
     await context.setOffline(false);
   });
 
+  test('should find categories by nickname and despite typos', async ({ page }) => {
+    const categoryInput = page.locator('input[placeholder*="Search for a category" i]');
+
+    // Nicknames resolve to the full category name
+    await categoryInput.fill('GTA');
+    await page.waitForTimeout(500);
+    await expect(page.locator('button[role="option"]:has-text("Grand Theft Auto V")')).toBeVisible();
+
+    // A swapped pair of letters still finds the category
+    await categoryInput.fill('Jsut Chatting');
+    await page.waitForTimeout(500);
+    await expect(page.locator('button[role="option"]:has-text("Just Chatting")')).toBeVisible();
+  });
+
   test('should show popular/default categories', async ({ page }) => {
     const categoryInput = page.locator('input[placeholder*="Search for a category" i]');
 
@@ -189,6 +203,17 @@ test.describe('Category Search', () => {
     expect(hasArtwork || hasPlaceholder).toBeTruthy();
   });
 
+  test('should show a placeholder for categories without box art', async ({ page }) => {
+    const categoryInput = page.locator('input[placeholder*="Search for a category" i]');
+
+    // Built-in categories carry no box art until Twitch has been searched
+    await categoryInput.fill('Just Chatting');
+    await page.waitForTimeout(500);
+
+    const option = page.locator('button[role="option"]:has-text("Just Chatting")').first();
+    await expect(option.locator('[data-testid="box-art-placeholder"]')).toBeVisible();
+  });
+
   test('should show selected indicator on chosen category', async ({ page }) => {
     const categoryInput = page.locator('input[placeholder*="Search for a category" i]');
 
@@ -0,0 +1,150 @@
+import { test, expect, type Page } from '@playwright/test';
+import { HelixMockServer } from './mocks/helixMockServer';
+
+/**
+ * Co-stream Tests
+ * Tests applying one profile to two linked channels on the mock Helix server,
+ * with per-channel titles, {partner}, and retrying a channel that failed
+ */
+
+const MAIN_TOKEN = 'mock-main-token';
+const ALT_TOKEN = 'mock-alt-token';
+
+const ALT_USER = {
+  id: 'mock-alt',
+  login: 'mockalt',
+  display_name: 'MockAlt',
+  profile_image_url: 'https://static-cdn.jtvnw.net/user-default-pictures/alt.png',
+};
+
+/**
+ * Link both accounts, with the main one selected
+ */
+const seedAccounts = async (page: Page, twitch: HelixMockServer) => {
+  const accounts = [
+    { user: twitch.users[0], token: MAIN_TOKEN },
+    { user: twitch.users[1], token: ALT_TOKEN },
+  ].map(({ user, token }) => ({
+    id: user.id,
+    login: user.login,
+    displayName: user.display_name,
+    profileImageUrl: user.profile_image_url,
+    token,
+  }));
+
+  await page.evaluate(async ({ accounts }) => {
+    const request = indexedDB.open('ScratchMyTwitchDB');
+
+    await new Promise<void>((resolve, reject) => {
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const db = request.result;
+        const transaction = db.transaction(['auth'], 'readwrite');
+        const store = transaction.objectStore('auth');
+        const now = new Date();
+
+        accounts.forEach(({ token, ...account }, index) => {
+          store.put({
+            key: `account:${account.id}`,
+            value: {
+              ...account,
+              linkedAt: new Date(now.getTime() + index),
+              token: {
+                access_token: token,
+                token_type: 'bearer',
+                expires_in: 4 * 3600,
+                obtainedAt: now,
+                expiresAt: new Date(now.getTime() + 4 * 60 * 60 * 1000),
+                userId: account.id
+              }
+            },
+            updatedAt: now
+          });
+        });
+        store.put({ key: 'active_account', value: accounts[0].id, updatedAt: now });
+        transaction.oncomplete = () => {
+          db.close();
+          resolve();
+        };
+      };
+    });
+  }, { accounts });
+};
+
+const createProfile = async (page: Page, name: string, title: string) => {
+  await page.click('a:has-text("New Profile"), a:has-text("Create Profile")');
+  await page.fill('input[name="name"]', name);
+  await page.fill('input[name="title"]', title);
+
+  await page.locator('input[placeholder*="Search for a category" i]').fill('Minecraft');
+  await page.locator('button[role="option"]:has-text("Minecraft")').first().click();
+
+  await page.click('button[type="submit"]');
+  await page.waitForURL('/');
+};
+
+const openCoStream = async (page: Page, name: string) => {
+  await page.locator('article.scandi-card', { hasText: name }).locator('button:has-text("Co-stream")').click();
+  return page.locator('[data-testid="co-stream-dialog"]');
+};
+
+test.describe('Co-stream', () => {
+  let twitch: HelixMockServer;
+
+  test.beforeEach(async ({ page, context }) => {
+    twitch = new HelixMockServer({ otherUsers: [ALT_USER] });
+    twitch.registerToken(MAIN_TOKEN, twitch.users[0].id);
+    twitch.registerToken(ALT_TOKEN, ALT_USER.id);
+    await twitch.attach(context);
+
+    await page.goto('/');
+    await page.waitForSelector('h1:has-text("Stream Profiles")', { timeout: 10000 });
+    await seedAccounts(page, twitch);
+    await page.reload();
+    await expect(page.locator('text=MockBroadcaster')).toBeVisible();
+    await createProfile(page, 'Collab', 'Building with {partner}');
+  });
+
+  test('should apply to every linked channel with personalised titles', async ({ page }) => {
+    const dialog = await openCoStream(page, 'Collab');
+    await expect(dialog.locator('[data-testid="co-stream-channel"]')).toHaveCount(2);
+    await dialog.locator('input[aria-label="Title for MockAlt"]').fill('{partner} and me, live');
+    await expect(dialog.locator('[data-testid="co-stream-title-preview"]')).toHaveText([
+      'Building with MockAlt',
+      'MockBroadcaster and me, live'
+    ]);
+
+    await dialog.locator('button:has-text("Apply to 2 channels")').click();
+
+    await expect(dialog.locator('[data-testid="co-stream-result"][data-status="applied"]')).toHaveCount(2);
+    expect(twitch.channel.title).toBe('Building with MockAlt');
+    expect(twitch.channels.get(ALT_USER.id)?.title).toBe('MockBroadcaster and me, live');
+    expect(twitch.channels.get(ALT_USER.id)?.game_name).toBe('Minecraft');
+  });
+
+  test('should leave out unchecked channels', async ({ page }) => {
+    const dialog = await openCoStream(page, 'Collab');
+    await dialog.locator('[data-testid="co-stream-channel"]', { hasText: 'MockAlt' }).locator('input[type="checkbox"]').uncheck();
+    await dialog.locator('button:has-text("Apply to 1 channel")').click();
+
+    await expect(dialog.locator('[data-testid="co-stream-result"]')).toHaveCount(1);
+    expect(twitch.channels.get(ALT_USER.id)?.title).toBe('Mock stream');
+  });
+
+  test('should retry the channels that failed', async ({ page }) => {
+    twitch.injectFault({ status: 400, path: '/helix/channels', method: 'PATCH', times: 1 });
+    const dialog = await openCoStream(page, 'Collab');
+    await dialog.locator('button:has-text("Apply to 2 channels")').click();
+
+    await expect(dialog.locator('[data-testid="co-stream-result"][data-status="failed"]')).toHaveCount(1);
+    await expect(dialog.locator('[data-testid="co-stream-result"][data-status="applied"]')).toHaveCount(1);
+
+    await dialog.locator('button:has-text("Retry failed")').click();
+
+    await expect(dialog.locator('[data-testid="co-stream-result"][data-status="applied"]')).toHaveCount(2);
+    await expect(dialog.locator('button:has-text("Retry failed")')).toHaveCount(0);
+    expect(twitch.channelUpdates).toHaveLength(3);
+    expect(twitch.channel.title).toBe('Building with MockAlt');
+    expect(twitch.channels.get(ALT_USER.id)?.title).toBe('Building with MockBroadcaster');
+  });
+});
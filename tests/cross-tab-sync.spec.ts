@@ -0,0 +1,150 @@
+import { test, expect, type BrowserContext, type Page } from '@playwright/test';
+
+/**
+ * Cross-tab Sync Tests
+ * Tests that profiles, groups, preferences and sign-in state follow changes made in another tab
+ */
+
+const TEST_USER = {
+  id: 'user-sync',
+  login: 'synctester',
+  display_name: 'SyncTester',
+  profile_image_url: 'https://static-cdn.jtvnw.net/user-default-pictures/sync.png'
+};
+
+const openDashboard = async (context: BrowserContext): Promise<Page> => {
+  const page = await context.newPage();
+  await page.goto('/');
+  await page.waitForSelector('h1:has-text("Stream Profiles")', { timeout: 10000 });
+  return page;
+};
+
+const seedProfile = async (page: Page) => {
+  await page.evaluate(async () => {
+    const request = indexedDB.open('ScratchMyTwitchDB');
+
+    await new Promise<void>((resolve, reject) => {
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const db = request.result;
+        const transaction = db.transaction(['profiles'], 'readwrite');
+        const now = new Date();
+
+        transaction.objectStore('profiles').put({
+          id: 'profile-sync',
+          name: 'Shared Profile',
+          title: 'Shared stream',
+          category: { id: '509658', name: 'Just Chatting' },
+          tags: [],
+          createdAt: now,
+          updatedAt: now
+        });
+        transaction.oncomplete = () => {
+          db.close();
+          resolve();
+        };
+      };
+    });
+  });
+};
+
+test.describe('Cross-tab Sync', () => {
+  test('should show profiles created in another tab', async ({ context }) => {
+    const first = await openDashboard(context);
+    const second = await openDashboard(context);
+
+    await first.click('a:has-text("New Profile")');
+    await first.fill('input[name="name"]', 'Made Elsewhere');
+    await first.fill('input[name="title"]', 'Created in the first tab');
+    await first.click('button[type="submit"]');
+    await first.waitForURL('/');
+
+    // No reload in the second tab
+    await expect(second.locator('article', { hasText: 'Made Elsewhere' })).toBeVisible();
+  });
+
+  test('should follow favorites, groups and deletes made in another tab', async ({ context }) => {
+    const first = await openDashboard(context);
+    await seedProfile(first);
+    await first.reload();
+    const second = await openDashboard(context);
+    await expect(second.locator('text=Shared Profile')).toBeVisible();
+
+    await first
+      .locator('article', { hasText: 'Shared Profile' })
+      .locator('button[aria-label="Add to favorites"]')
+      .click();
+    await expect(second.locator('[data-testid="profile-section"][aria-label="Favorites"]')).toContainText('Shared Profile');
+
+    await first.click('button:has-text("New Group")');
+    await first.fill('input[aria-label="Group name"]', 'Synced Group');
+    await first.click('button:has-text("Create Group")');
+    await expect(second.locator('[data-testid="profile-section"][aria-label="Synced Group"]')).toBeVisible();
+
+    first.once('dialog', dialog => dialog.accept());
+    await first.locator('article', { hasText: 'Shared Profile' }).locator('button[title="Delete profile"]').click();
+    await expect(second.locator('text=Shared Profile')).toHaveCount(0);
+  });
+
+  test('should apply preferences saved in another tab', async ({ context }) => {
+    const first = await context.newPage();
+    await first.goto('/settings');
+    await first.waitForSelector('h1:has-text("Settings")', { timeout: 10000 });
+    const second = await openDashboard(context);
+
+    await first.locator('label:has-text("Dark")').click();
+    await expect(second.locator('html')).toHaveClass(/dark/);
+
+    await first.locator('label:has-text("Light")').click();
+    await expect(second.locator('html')).not.toHaveClass(/dark/);
+  });
+
+  test('should sign out every tab', async ({ context }) => {
+    await context.route('https://api.twitch.tv/helix/**', route => {
+      const body = route.request().url().includes('/users') ? { data: [TEST_USER] } : { data: [] };
+      return route.fulfill({ status: 200, contentType: 'application/json', body: JSON.stringify(body) });
+    });
+    await context.route('https://id.twitch.tv/oauth2/**', route => route.fulfill({ status: 200, body: '{}' }));
+
+    const first = await openDashboard(context);
+    await first.evaluate(async userId => {
+      const request = indexedDB.open('ScratchMyTwitchDB');
+
+      await new Promise<void>((resolve, reject) => {
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const db = request.result;
+          const transaction = db.transaction(['auth'], 'readwrite');
+          const now = new Date();
+
+          transaction.objectStore('auth').put({
+            key: 'token',
+            value: {
+              access_token: 'sync-token',
+              token_type: 'bearer',
+              expires_in: 3600,
+              obtainedAt: now,
+              expiresAt: new Date(now.getTime() + 60 * 60 * 1000),
+              userId
+            },
+            updatedAt: now
+          });
+          transaction.oncomplete = () => {
+            db.close();
+            resolve();
+          };
+        };
+      });
+    }, TEST_USER.id);
+    await first.reload();
+    const second = await openDashboard(context);
+
+    await expect(first.locator('text=SyncTester')).toBeVisible();
+    await expect(second.locator('text=SyncTester')).toBeVisible();
+
+    await first.click('button[title="Sign out"]');
+    await expect(first.locator('text=Connect Twitch').first()).toBeVisible();
+    await expect(second.locator('text=SyncTester')).toHaveCount(0);
+    await expect(second.locator('text=Connect Twitch').first()).toBeVisible();
+  });
+});
@@ -0,0 +1,89 @@
+import { test, expect } from '@playwright/test';
+import { VERSION_1_FIXTURES, seedVersion1Database } from './fixtures/indexedDBv1';
+
+/**
+ * Database Migration Tests
+ * Opens a version 1 database seeded with fixtures and upgrades it to the latest schema
+ */
+
+const LATEST_STORES = [
+  'applyHistory',
+  'applyQueue',
+  'auth',
+  'categories',
+  'preferences',
+  'profileGroups',
+  'profiles',
+  'schedule',
+  'scheduleRuns',
+  'streamEvents'
+];
+
+test.describe('Database Migrations', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.addInitScript(seedVersion1Database, VERSION_1_FIXTURES);
+    await page.goto('/');
+    await page.waitForSelector('h1:has-text("Stream Profiles")', { timeout: 10000 });
+  });
+
+  test('should upgrade the schema to the latest version', async ({ page }) => {
+    await expect(page.locator('text=Morning Pages')).toBeVisible();
+
+    const schema = await page.evaluate(async () => {
+      const request = indexedDB.open('ScratchMyTwitchDB');
+      const db = await new Promise<IDBDatabase>((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      const result = {
+        version: db.version,
+        stores: Array.from(db.objectStoreNames).sort(),
+        profileIndexes: Array.from(db.transaction(['profiles']).objectStore('profiles').indexNames).sort()
+      };
+      db.close();
+      return result;
+    });
+
+    expect(schema.version).toBe(7);
+    expect(schema.stores).toEqual(LATEST_STORES);
+    expect(schema.profileIndexes).toContain('groupId');
+  });
+
+  test('should keep and update existing records', async ({ page }) => {
+    await expect(page.locator('[data-testid="profile-card"]')).toHaveCount(2);
+
+    // Legacy placeholders and messy tags from the first release are converted in place
+    await page.goto('/profile/v1-morning-pages/edit');
+    await expect(page.locator('input[name="title"]')).toHaveValue('Morning Pages - {date:dddd} {date:YYYY-MM-DD}');
+    await expect(page.locator('input[name="tags"]')).toHaveValue('journaling, morning');
+
+    // Preferences saved by the first release still apply
+    await page.goto('/settings');
+    await expect(page.locator('input[name="confirmActions"]')).not.toBeChecked();
+  });
+
+  test('should back up the database before upgrading', async ({ page }) => {
+    await page.goto('/settings');
+
+    const backup = page.locator('[data-testid="database-backup"]');
+    await expect(backup).toHaveCount(1);
+    await expect(backup).toContainText('Before upgrading from version 1 to 7');
+    await expect(backup).toContainText('4 records');
+  });
+
+  test('should restore the pre-upgrade backup', async ({ page }) => {
+    // Lose a profile after the upgrade
+    page.once('dialog', dialog => dialog.accept());
+    await page.locator('article', { hasText: 'Coding Stream' }).locator('button[title="Delete profile"]').click();
+    await expect(page.locator('text=Coding Stream')).toHaveCount(0);
+
+    await page.goto('/settings');
+    page.once('dialog', dialog => dialog.accept());
+    await page.locator('[data-testid="database-backup"] button:has-text("Restore")').click();
+
+    // The page reloads and the restored copy is upgraded again
+    await page.waitForSelector('h1:has-text("Settings")', { timeout: 10000 });
+    await page.goto('/');
+    await expect(page.locator('text=Coding Stream')).toBeVisible();
+  });
+});
@@ -2,9 +2,18 @@ import { test, expect } from '@playwright/test';
 
 /**
  * Dynamic Title Templating Tests
- * Tests {DAY} and {YYYY-MM-DD} template variable replacement
+ * Tests {DAY}, {YYYY-MM-DD}, {date:...}, {episode}, {var:...} and {if ...} templates
  */
 
+/**
+ * Current date as YYYY-MM-DD in the browser's local time zone
+ */
+const localDate = (): string => {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
 test.describe('Dynamic Title Templating', () => {
   test.beforeEach(async ({ page }) => {
     await page.goto('/');
@@ -29,7 +38,7 @@ test.describe('Dynamic Title Templating', () => {
 
   test('should replace {YYYY-MM-DD} with current date', async ({ page }) => {
     // Get current date in YYYY-MM-DD format
-    const currentDate = new Date().toISOString().split('T')[0];
+    const currentDate = localDate();
 
     // Create profile with {YYYY-MM-DD} template
     await page.click('a:has-text("New Profile"), a:has-text("Create Profile")');
@@ -45,7 +54,7 @@ test.describe('Dynamic Title Templating', () => {
 
   test('should handle multiple template variables in one title', async ({ page }) => {
     const currentDay = new Date().toLocaleDateString('en-US', { weekday: 'long' });
-    const currentDate = new Date().toISOString().split('T')[0];
+    const currentDate = localDate();
 
     // Create profile with both templates
     await page.click('a:has-text("New Profile"), a:has-text("Create Profile")');
@@ -111,4 +120,47 @@ test.describe('Dynamic Title Templating', () => {
     // Should show processed template
     await expect(page.locator(`text=${currentDay} Updated Title`)).toBeVisible();
   });
+
+  test('should format {date:...} placeholders', async ({ page }) => {
+    const currentYear = String(new Date().getFullYear());
+
+    await page.click('a:has-text("New Profile"), a:has-text("Create Profile")');
+    await page.fill('input[name="name"]', 'Date Format Test');
+    await page.fill('input[name="title"]', 'Year [{date:YYYY}]');
+    await expect(page.locator('[data-testid="title-preview"]')).toHaveText(`Year [${currentYear}]`);
+  });
+
+  test('should show episode counter and variable inputs', async ({ page }) => {
+    await page.click('a:has-text("New Profile"), a:has-text("Create Profile")');
+    await page.fill('input[name="name"]', 'Episode Test');
+    await page.fill('input[name="title"]', '{var:project} Ep. {episode}');
+
+    await page.fill('input[name="var-project"]', 'Compiler');
+    await page.fill('input[name="counter-episode"]', '12');
+    await expect(page.locator('[data-testid="title-preview"]')).toHaveText('Compiler Ep. 12');
+  });
+
+  test('should show the length of the filled-in title', async ({ page }) => {
+    await page.click('a:has-text("New Profile"), a:has-text("Create Profile")');
+    await page.fill('input[name="name"]', 'Long Title Test');
+    await page.fill('input[name="title"]', 'Today: {var:plan}');
+
+    await page.fill('input[name="var-plan"]', 'Short');
+    await expect(page.locator('[data-testid="title-preview-length"]')).toHaveText('(12/140 characters)');
+
+    await page.fill('input[name="var-plan"]', 'x'.repeat(140));
+    await expect(page.locator('[data-testid="title-preview-length"]')).toContainText('147/140 characters, Twitch will reject this');
+  });
+
+  test('should underline template errors and block saving', async ({ page }) => {
+    await page.click('a:has-text("New Profile"), a:has-text("Create Profile")');
+    await page.fill('input[name="name"]', 'Broken Template Test');
+    await page.fill('input[name="title"]', 'Stream {if someday}bonus');
+
+    await expect(page.locator('[data-testid="title-highlight"] .decoration-red-500').first()).toBeVisible();
+    await expect(page.locator('text=Unknown condition "someday"')).toBeVisible();
+
+    await page.click('button[type="submit"]');
+    await expect(page).toHaveURL(/\/profile\/new/);
+  });
 });
@@ -0,0 +1,82 @@
+/**
+ * Version 1 IndexedDB Fixtures
+ *
+ * The schema and records written by the first release, for upgrading to the
+ * latest schema in tests. seedVersion1Database runs in the page (through
+ * page.addInitScript) before the app opens the database.
+ */
+
+export interface Version1Fixtures {
+  dbName: string;
+  profiles: Array<Record<string, unknown>>;
+  categories: Array<Record<string, unknown>>;
+  preferences: Array<{ key: string; value: unknown }>;
+}
+
+export const VERSION_1_FIXTURES: Version1Fixtures = {
+  dbName: 'ScratchMyTwitchDB',
+  profiles: [
+    {
+      id: 'v1-morning-pages',
+      name: 'Morning Pages',
+      description: null,
+      category: { id: '509658', name: 'Just Chatting' },
+      title: 'Morning Pages - {DAY} {YYYY-MM-DD}',
+      tags: ['journaling', ' morning ', '', 'Journaling'],
+      createdAt: '2024-01-15T08:00:00.000Z',
+      updatedAt: '2024-01-20T08:00:00.000Z'
+    },
+    {
+      id: 'v1-coding',
+      name: 'Coding Stream',
+      description: 'Building things',
+      category: { id: '1469308723', name: 'Software and Game Development' },
+      title: 'Building a side project',
+      tags: ['coding'],
+      createdAt: '2024-01-10T18:00:00.000Z',
+      updatedAt: '2024-01-10T18:00:00.000Z'
+    }
+  ],
+  categories: [
+    { id: '509658', name: 'Just Chatting', cachedAt: '2024-01-15T08:00:00.000Z' }
+  ],
+  preferences: [
+    { key: 'confirmActions', value: false }
+  ]
+};
+
+/**
+ * Create the version 1 database with the fixtures, once per browser session
+ */
+export function seedVersion1Database(fixtures: Version1Fixtures): void {
+  if (sessionStorage.getItem('version-1-fixtures-seeded')) return;
+  sessionStorage.setItem('version-1-fixtures-seeded', 'true');
+
+  // The app's own open request queues behind this one until it closes
+  const request = indexedDB.open(fixtures.dbName, 1);
+
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    const profileStore = db.createObjectStore('profiles', { keyPath: 'id' });
+    profileStore.createIndex('name', 'name', { unique: false });
+    profileStore.createIndex('createdAt', 'createdAt', { unique: false });
+    profileStore.createIndex('updatedAt', 'updatedAt', { unique: false });
+    profileStore.createIndex('category', 'category.name', { unique: false });
+
+    const categoryStore = db.createObjectStore('categories', { keyPath: 'id' });
+    categoryStore.createIndex('name', 'name', { unique: false });
+    categoryStore.createIndex('cachedAt', 'cachedAt', { unique: false });
+
+    db.createObjectStore('auth', { keyPath: 'key' });
+    db.createObjectStore('preferences', { keyPath: 'key' });
+
+    const transaction = request.transaction!;
+    fixtures.profiles.forEach(profile => transaction.objectStore('profiles').put(profile));
+    fixtures.categories.forEach(category => transaction.objectStore('categories').put(category));
+    fixtures.preferences.forEach(preference => transaction.objectStore('preferences').put(preference));
+  };
+
+  request.onsuccess = () => {
+    request.result.close();
+  };
+}
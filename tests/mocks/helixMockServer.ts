@@ -0,0 +1,526 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { BrowserContext, Route } from '@playwright/test';
+
+/**
+ * Mock Twitch Helix and OAuth Server
+ *
+ * Keeps users, channels, a games catalog and live streams in memory and
+ * answers the Helix endpoints the app uses (/users, /channels, /games,
+ * /search/categories, /streams) and Twitch's OAuth endpoints (authorize with
+ * the implicit grant, validate, revoke). Faults can be injected per route:
+ * 401s, 429s with rate-limit headers, 5xx, and latency.
+ *
+ * Attach it to a browser context to answer requests to the real Twitch hosts,
+ * or listen() on a port and point a dev build at it with
+ * VITE_API_BASE_URL=http://127.0.0.1:8787/helix and
+ * VITE_TWITCH_OAUTH_BASE_URL=http://127.0.0.1:8787/oauth2.
+ */
+
+export interface HelixMockUser {
+  id: string;
+  login: string;
+  display_name: string;
+  profile_image_url: string;
+}
+
+export interface HelixMockGame {
+  id: string;
+  name: string;
+  box_art_url: string;
+  igdb_id: string;
+}
+
+export interface HelixMockChannel {
+  broadcaster_id: string;
+  broadcaster_login: string;
+  broadcaster_name: string;
+  broadcaster_language: string;
+  game_id: string;
+  game_name: string;
+  title: string;
+  delay: number;
+  tags: string[];
+  content_classification_labels: string[];
+  is_branded_content: boolean;
+}
+
+export interface HelixMockOptions {
+  user?: HelixMockUser;
+  /** More broadcasters, each with a channel, for linking several accounts */
+  otherUsers?: HelixMockUser[];
+  games?: HelixMockGame[];
+  /** Requests allowed per rate-limit window */
+  rateLimit?: number;
+}
+
+/**
+ * A failure to answer with instead of the normal response
+ */
+export interface HelixMockFault {
+  /** Status to answer with (401, 429, 500, 503...) */
+  status: number;
+  /** Only requests whose path (e.g. "/helix/channels") matches */
+  path?: string | RegExp;
+  method?: string;
+  /** How many matching requests fail before the fault clears (default 1) */
+  times?: number;
+  /** Seconds until the rate limit resets, sent with 429s (default 1) */
+  resetIn?: number;
+}
+
+export interface HelixMockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string[]>;
+  body?: unknown;
+  authorization?: string;
+}
+
+interface MockRequest {
+  method: string;
+  url: URL;
+  headers: Record<string, string | undefined>;
+  body?: string;
+}
+
+interface MockResponse {
+  status: number;
+  headers?: Record<string, string>;
+  json?: unknown;
+}
+
+const DEFAULT_USER: HelixMockUser = {
+  id: 'mock-broadcaster',
+  login: 'mockbroadcaster',
+  display_name: 'MockBroadcaster',
+  profile_image_url: 'https://static-cdn.jtvnw.net/user-default-pictures/mock.png',
+};
+
+const boxArt = (id: string) => `https://static-cdn.jtvnw.net/ttv-boxart/${id}-{width}x{height}.jpg`;
+
+const DEFAULT_GAMES: HelixMockGame[] = [
+  { id: '509658', name: 'Just Chatting', box_art_url: boxArt('509658'), igdb_id: '' },
+  { id: '509670', name: 'Science & Technology', box_art_url: boxArt('509670'), igdb_id: '' },
+  { id: '1469308723', name: 'Software and Game Development', box_art_url: boxArt('1469308723'), igdb_id: '' },
+  { id: '33214', name: 'Fortnite', box_art_url: boxArt('33214'), igdb_id: '1905' },
+  { id: '27471', name: 'Minecraft', box_art_url: boxArt('27471'), igdb_id: '121' },
+  { id: '21779', name: 'League of Legends', box_art_url: boxArt('21779'), igdb_id: '115' },
+  { id: '26936', name: 'Music', box_art_url: boxArt('26936'), igdb_id: '' },
+  { id: '509660', name: 'Art', box_art_url: boxArt('509660'), igdb_id: '' },
+];
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Authorization, Client-Id, Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+  'Access-Control-Expose-Headers': 'Ratelimit-Limit, Ratelimit-Remaining, Ratelimit-Reset',
+};
+
+const error = (status: number, message: string, name = 'Error'): MockResponse => ({
+  status,
+  json: { error: name, status, message },
+});
+
+export class HelixMockServer {
+  readonly users: HelixMockUser[];
+  readonly games: HelixMockGame[];
+  readonly channels = new Map<string, HelixMockChannel>();
+  /** Broadcaster ID → live stream title; missing when offline */
+  readonly liveStreams = new Map<string, string>();
+  /** Every request received, in order */
+  readonly requests: HelixMockRequest[] = [];
+  /** Milliseconds to wait before answering each request */
+  latency = 0;
+
+  private readonly tokens = new Map<string, string>();
+  private readonly faults: HelixMockFault[] = [];
+  private readonly rateLimit: number;
+  private remaining: number;
+  private resetAt: number;
+  private issued = 0;
+  private server: Server | null = null;
+
+  constructor(options: HelixMockOptions = {}) {
+    this.users = [options.user ?? DEFAULT_USER, ...(options.otherUsers ?? [])];
+    this.games = structuredClone(options.games ?? DEFAULT_GAMES);
+    this.rateLimit = options.rateLimit ?? 800;
+    this.remaining = this.rateLimit;
+    this.resetAt = this.nextReset();
+
+    for (const user of this.users) {
+      this.channels.set(user.id, {
+        broadcaster_id: user.id,
+        broadcaster_login: user.login,
+        broadcaster_name: user.display_name,
+        broadcaster_language: 'en',
+        game_id: this.games[0].id,
+        game_name: this.games[0].name,
+        title: 'Mock stream',
+        delay: 0,
+        tags: [],
+        content_classification_labels: [],
+        is_branded_content: false,
+      });
+    }
+  }
+
+  /**
+   * The first broadcaster's channel
+   */
+  get channel(): HelixMockChannel {
+    return this.channels.get(this.users[0].id)!;
+  }
+
+  /**
+   * Channel updates received so far (PATCH /channels bodies)
+   */
+  get channelUpdates(): Array<Record<string, unknown>> {
+    return this.requests
+      .filter(request => request.method === 'PATCH' && request.path.endsWith('/channels'))
+      .map(request => request.body as Record<string, unknown>);
+  }
+
+  /**
+   * Accept an access token for a user (the broadcaster by default)
+   */
+  registerToken(token: string, userId = this.users[0].id): void {
+    this.tokens.set(token, userId);
+  }
+
+  /**
+   * Stop accepting an access token, as if it expired
+   */
+  expireToken(token: string): void {
+    this.tokens.delete(token);
+  }
+
+  /**
+   * Answer matching requests with a failure
+   */
+  injectFault(fault: HelixMockFault): void {
+    this.faults.push({ times: 1, ...fault });
+  }
+
+  /**
+   * Drop every injected fault
+   */
+  clearFaults(): void {
+    this.faults.length = 0;
+  }
+
+  /**
+   * Answer requests to the real Twitch hosts from this mock
+   */
+  async attach(context: BrowserContext): Promise<void> {
+    await context.route('https://api.twitch.tv/helix/**', route => this.fulfill(route));
+    await context.route('https://id.twitch.tv/oauth2/**', route => this.fulfill(route));
+  }
+
+  /**
+   * Serve /helix and /oauth2 over HTTP, for dev builds pointed at the mock
+   */
+  async listen(port = 8787, host = '127.0.0.1'): Promise<string> {
+    this.server = createServer((request, response) => void this.serve(request, response));
+    await new Promise<void>(resolve => this.server!.listen(port, host, resolve));
+    return `http://${host}:${port}`;
+  }
+
+  /**
+   * Stop the HTTP server started by listen()
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = null;
+    if (server) {
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+  }
+
+  private async fulfill(route: Route): Promise<void> {
+    const request = route.request();
+    const response = await this.handle({
+      method: request.method(),
+      url: new URL(request.url()),
+      headers: request.headers(),
+      body: request.postData() ?? undefined,
+    });
+
+    await route.fulfill({
+      status: response.status,
+      headers: { ...CORS_HEADERS, ...response.headers },
+      ...(response.json !== undefined ? { json: response.json } : { body: '' }),
+    });
+  }
+
+  private async serve(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of request) {
+      chunks.push(chunk as Buffer);
+    }
+
+    const headers = Object.fromEntries(
+      Object.entries(request.headers).map(([key, value]) => [key, Array.isArray(value) ? value.join(', ') : value])
+    );
+    const result = request.method === 'OPTIONS'
+      ? { status: 204 }
+      : await this.handle({
+        method: request.method ?? 'GET',
+        url: new URL(request.url ?? '/', `http://${request.headers.host}`),
+        headers,
+        body: chunks.length > 0 ? Buffer.concat(chunks).toString() : undefined,
+      });
+
+    response.writeHead(result.status, {
+      ...CORS_HEADERS,
+      ...(result.json !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      ...result.headers,
+    });
+    response.end(result.json !== undefined ? JSON.stringify(result.json) : undefined);
+  }
+
+  /**
+   * Answer one request
+   */
+  private async handle(request: MockRequest): Promise<MockResponse> {
+    const path = request.url.pathname;
+    const query: Record<string, string[]> = {};
+    request.url.searchParams.forEach((value, key) => {
+      (query[key] ??= []).push(value);
+    });
+
+    let body: unknown;
+    try {
+      body = request.body ? JSON.parse(request.body) : undefined;
+    } catch {
+      body = request.body;
+    }
+
+    this.requests.push({ method: request.method, path, query, body, authorization: request.headers['authorization'] });
+
+    if (this.latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, this.latency));
+    }
+
+    if (path.includes('/oauth2/')) {
+      return this.injectedFault(request.method, path) ?? this.handleOAuth(request, path);
+    }
+
+    const response = this.injectedFault(request.method, path) ?? this.handleHelix(request.method, path, query, body, request.headers);
+    return { ...response, headers: { ...this.takeRateLimit(), ...response.headers } };
+  }
+
+  private handleOAuth(request: MockRequest, path: string): MockResponse {
+    if (path.endsWith('/authorize')) {
+      // Approve straight away with an implicit grant token
+      const params = request.url.searchParams;
+      const token = `mock-token-${++this.issued}`;
+      this.registerToken(token);
+      const fragment = new URLSearchParams({
+        access_token: token,
+        token_type: 'bearer',
+        expires_in: '14400',
+        scope: params.get('scope') ?? '',
+        state: params.get('state') ?? '',
+      });
+      return { status: 302, headers: { location: `${params.get('redirect_uri')}#${fragment}` } };
+    }
+
+    if (path.endsWith('/validate')) {
+      const token = request.headers['authorization']?.replace(/^OAuth /, '');
+      const userId = token ? this.tokens.get(token) : undefined;
+      const user = this.users.find(candidate => candidate.id === userId);
+      return user
+        ? { status: 200, json: { client_id: 'mock-client', login: user.login, user_id: user.id, scopes: ['channel:manage:broadcast'], expires_in: 14400 } }
+        : error(401, 'invalid access token', 'Unauthorized');
+    }
+
+    if (path.endsWith('/revoke')) {
+      const token = new URLSearchParams(request.body ?? '').get('token');
+      if (token) {
+        this.tokens.delete(token);
+      }
+      return { status: 200 };
+    }
+
+    return error(404, 'Not Found', 'Not Found');
+  }
+
+  private handleHelix(
+    method: string,
+    path: string,
+    query: Record<string, string[]>,
+    body: unknown,
+    headers: Record<string, string | undefined>
+  ): MockResponse {
+    const token = headers['authorization']?.replace(/^Bearer /, '');
+    const user = this.users.find(candidate => candidate.id === (token ? this.tokens.get(token) : undefined));
+    if (!user) {
+      return error(401, 'Invalid OAuth token', 'Unauthorized');
+    }
+
+    const endpoint = path.replace(/^.*\/helix/, '');
+
+    if (endpoint === '/users' && method === 'GET') {
+      return { status: 200, json: { data: [user] } };
+    }
+
+    if (endpoint === '/channels' && method === 'GET') {
+      const channels = (query.broadcaster_id ?? []).map(id => this.channels.get(id)).filter(Boolean);
+      return { status: 200, json: { data: channels } };
+    }
+
+    if (endpoint === '/channels' && method === 'PATCH') {
+      return this.updateChannel(user, query.broadcaster_id?.[0], body as Record<string, any> | undefined);
+    }
+
+    if (endpoint === '/games' && method === 'GET') {
+      const names = (query.name ?? []).map(name => name.toLowerCase());
+      const ids = query.id ?? [];
+      const games = this.games.filter(game => ids.includes(game.id) || names.includes(game.name.toLowerCase()));
+      return { status: 200, json: { data: games } };
+    }
+
+    if (endpoint === '/search/categories' && method === 'GET') {
+      const search = (query.query?.[0] ?? '').toLowerCase();
+      const first = Math.min(Number(query.first?.[0] ?? 20), 100);
+      // The cursor is simply the offset of the next page
+      const offset = Number(query.after?.[0] ?? 0);
+      const games = search ? this.games.filter(game => game.name.toLowerCase().includes(search)) : [];
+      const next = offset + first;
+      return {
+        status: 200,
+        json: {
+          data: games.slice(offset, next).map(({ id, name, box_art_url }) => ({ id, name, box_art_url })),
+          pagination: next < games.length ? { cursor: String(next) } : {},
+        },
+      };
+    }
+
+    if (endpoint === '/streams' && method === 'GET') {
+      const streams = (query.user_id ?? [])
+        .filter(id => this.liveStreams.has(id))
+        .map(id => {
+          const channel = this.channels.get(id)!;
+          return {
+            id: `stream-${id}`,
+            user_id: id,
+            user_login: channel.broadcaster_login,
+            user_name: channel.broadcaster_name,
+            game_id: channel.game_id,
+            game_name: channel.game_name,
+            type: 'live',
+            title: this.liveStreams.get(id),
+            tags: channel.tags,
+            viewer_count: 1,
+            started_at: new Date().toISOString(),
+            language: channel.broadcaster_language,
+            thumbnail_url: '',
+            is_mature: false,
+          };
+        });
+      return { status: 200, json: { data: streams, pagination: {} } };
+    }
+
+    return error(404, 'Not Found', 'Not Found');
+  }
+
+  /**
+   * PATCH /channels, validated the way Helix does
+   */
+  private updateChannel(user: HelixMockUser, broadcasterId: string | undefined, body?: Record<string, any>): MockResponse {
+    if (broadcasterId !== user.id) {
+      return error(403, 'The ID in broadcaster_id must match the user ID in the access token', 'Forbidden');
+    }
+    if (!body || Object.keys(body).length === 0) {
+      return error(400, 'The request must update at least one field', 'Bad Request');
+    }
+
+    const channel = this.channels.get(user.id)!;
+
+    if (body.game_id !== undefined) {
+      const game = this.games.find(candidate => candidate.id === body.game_id);
+      if (body.game_id !== '' && body.game_id !== '0' && !game) {
+        return error(400, 'The ID in game_id is not valid', 'Bad Request');
+      }
+      channel.game_id = game?.id ?? '';
+      channel.game_name = game?.name ?? '';
+    }
+    if (body.title !== undefined) {
+      if (typeof body.title !== 'string' || body.title.trim() === '' || body.title.length > 140) {
+        return error(400, 'The title must be 1 to 140 characters', 'Bad Request');
+      }
+      channel.title = body.title;
+    }
+    if (body.tags !== undefined) {
+      if (!Array.isArray(body.tags) || body.tags.length > 10 || body.tags.some((tag: string) => tag.length > 25)) {
+        return error(400, 'Up to 10 tags of at most 25 characters are allowed', 'Bad Request');
+      }
+      channel.tags = body.tags;
+    }
+    if (body.broadcaster_language !== undefined) {
+      channel.broadcaster_language = body.broadcaster_language;
+    }
+    if (body.content_classification_labels !== undefined) {
+      channel.content_classification_labels = (body.content_classification_labels as Array<{ id: string; is_enabled: boolean }>)
+        .filter(label => label.is_enabled)
+        .map(label => label.id);
+    }
+    if (body.is_branded_content !== undefined) {
+      channel.is_branded_content = body.is_branded_content;
+    }
+
+    return { status: 204 };
+  }
+
+  /**
+   * Failure for a request, consuming one use of the first matching fault
+   */
+  private injectedFault(method: string, path: string): MockResponse | null {
+    const index = this.faults.findIndex(fault =>
+      (!fault.method || fault.method.toUpperCase() === method.toUpperCase()) &&
+      (!fault.path || (typeof fault.path === 'string' ? path.endsWith(fault.path) : fault.path.test(path)))
+    );
+    if (index === -1) {
+      return null;
+    }
+
+    const fault = this.faults[index];
+    fault.times = (fault.times ?? 1) - 1;
+    if (fault.times <= 0) {
+      this.faults.splice(index, 1);
+    }
+
+    if (fault.status === 429) {
+      this.remaining = 0;
+      this.resetAt = Math.ceil(Date.now() / 1000) + (fault.resetIn ?? 1);
+      return error(429, 'Too Many Requests', 'Too Many Requests');
+    }
+    if (fault.status === 401) {
+      return error(401, 'Invalid OAuth token', 'Unauthorized');
+    }
+    return fault.status >= 500
+      ? error(fault.status, 'Internal Server Error', 'Internal Server Error')
+      : error(fault.status, 'Injected failure');
+  }
+
+  /**
+   * Rate-limit headers for a response, spending one request from the window
+   */
+  private takeRateLimit(): Record<string, string> {
+    if (Date.now() / 1000 >= this.resetAt) {
+      this.remaining = this.rateLimit;
+      this.resetAt = this.nextReset();
+    }
+    this.remaining = Math.max(this.remaining - 1, 0);
+
+    return {
+      'Ratelimit-Limit': String(this.rateLimit),
+      'Ratelimit-Remaining': String(this.remaining),
+      'Ratelimit-Reset': String(this.resetAt),
+    };
+  }
+
+  private nextReset(): number {
+    return Math.ceil(Date.now() / 1000) + 60;
+  }
+}
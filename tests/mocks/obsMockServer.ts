@@ -0,0 +1,173 @@
+import { createHash } from 'node:crypto';
+import type { Page, WebSocketRoute } from '@playwright/test';
+
+/**
+ * Mock OBS WebSocket Server
+ *
+ * Speaks enough of the obs-websocket v5 protocol (Hello, Identify with
+ * optional authentication, and the requests the app sends) to stand in for
+ * OBS Studio. Attach it to a page with Playwright's WebSocket routing, then
+ * inspect `requests` and the scene state in assertions.
+ */
+
+export interface ObsMockScene {
+  /** Source name → visible */
+  sources: Record<string, boolean>;
+}
+
+export interface ObsMockOptions {
+  /** Require this password; no authentication when omitted */
+  password?: string;
+  /** Scene collection name → scenes in that collection */
+  sceneCollections?: Record<string, Record<string, ObsMockScene>>;
+  currentSceneCollection?: string;
+  currentScene?: string;
+}
+
+export interface ObsMockRequest {
+  requestType: string;
+  requestData?: Record<string, unknown>;
+}
+
+const DEFAULT_COLLECTIONS: Record<string, Record<string, ObsMockScene>> = {
+  Default: {
+    'Just Chatting': { sources: { Webcam: true, Alerts: true } },
+    BRB: { sources: { 'BRB Text': true } },
+  },
+  Coding: {
+    Coding: { sources: { Webcam: true, 'Code Editor': true, Music: false } },
+    'Coding Break': { sources: { Webcam: false } },
+  },
+};
+
+const sha256Base64 = (value: string): string => createHash('sha256').update(value).digest('base64');
+
+export class ObsMockServer {
+  readonly requests: ObsMockRequest[] = [];
+  readonly sceneCollections: Record<string, Record<string, ObsMockScene>>;
+  currentSceneCollection: string;
+  currentScene: string;
+
+  private readonly password?: string;
+  private readonly salt = 'mock-salt';
+  private readonly challenge = 'mock-challenge';
+
+  constructor(options: ObsMockOptions = {}) {
+    this.password = options.password;
+    this.sceneCollections = structuredClone(options.sceneCollections ?? DEFAULT_COLLECTIONS);
+    this.currentSceneCollection = options.currentSceneCollection ?? Object.keys(this.sceneCollections)[0];
+    this.currentScene = options.currentScene ?? Object.keys(this.sceneCollections[this.currentSceneCollection])[0];
+  }
+
+  /**
+   * Route a page's connections to `url` to this mock
+   */
+  async attach(page: Page, url = 'ws://127.0.0.1:4455'): Promise<void> {
+    await page.routeWebSocket(url, ws => this.accept(ws));
+  }
+
+  /**
+   * Request types received so far, in order
+   */
+  get requestTypes(): string[] {
+    return this.requests.map(request => request.requestType);
+  }
+
+  private accept(ws: WebSocketRoute): void {
+    ws.send(JSON.stringify({
+      op: 0,
+      d: {
+        obsWebSocketVersion: '5.5.0',
+        rpcVersion: 1,
+        authentication: this.password ? { salt: this.salt, challenge: this.challenge } : undefined,
+      },
+    }));
+
+    ws.onMessage(raw => {
+      const { op, d } = JSON.parse(String(raw));
+
+      if (op === 1) {
+        if (this.password) {
+          const expected = sha256Base64(sha256Base64(this.password + this.salt) + this.challenge);
+          if (d.authentication !== expected) {
+            ws.close({ code: 4009, reason: 'Authentication failed.' });
+            return;
+          }
+        }
+        ws.send(JSON.stringify({ op: 2, d: { negotiatedRpcVersion: 1 } }));
+      } else if (op === 6) {
+        this.requests.push({ requestType: d.requestType, requestData: d.requestData });
+        const { status, data } = this.handleRequest(d.requestType, d.requestData ?? {});
+        ws.send(JSON.stringify({
+          op: 7,
+          d: {
+            requestType: d.requestType,
+            requestId: d.requestId,
+            requestStatus: status,
+            responseData: data,
+          },
+        }));
+      }
+    });
+  }
+
+  private handleRequest(
+    requestType: string,
+    requestData: Record<string, unknown>
+  ): { status: { result: boolean; code: number; comment?: string }; data?: Record<string, unknown> } {
+    const ok = (data?: Record<string, unknown>) => ({ status: { result: true, code: 100 }, data });
+    const notFound = (comment: string) => ({ status: { result: false, code: 600, comment } });
+    const scenes = this.sceneCollections[this.currentSceneCollection];
+
+    switch (requestType) {
+      case 'GetVersion':
+        return ok({ obsVersion: '31.0.0', obsWebSocketVersion: '5.5.0' });
+
+      case 'GetSceneCollectionList':
+        return ok({
+          currentSceneCollectionName: this.currentSceneCollection,
+          sceneCollections: Object.keys(this.sceneCollections),
+        });
+
+      case 'SetCurrentSceneCollection': {
+        const name = requestData.sceneCollectionName as string;
+        if (!this.sceneCollections[name]) return notFound(`No scene collection was found by the name of \`${name}\`.`);
+        this.currentSceneCollection = name;
+        this.currentScene = Object.keys(this.sceneCollections[name])[0];
+        return ok();
+      }
+
+      case 'GetSceneList':
+        return ok({
+          currentProgramSceneName: this.currentScene,
+          scenes: Object.keys(scenes).map((sceneName, sceneIndex) => ({ sceneName, sceneIndex })),
+        });
+
+      case 'SetCurrentProgramScene': {
+        const name = requestData.sceneName as string;
+        if (!scenes[name]) return notFound(`No source was found by the name of \`${name}\`.`);
+        this.currentScene = name;
+        return ok();
+      }
+
+      case 'GetSceneItemId': {
+        const scene = scenes[requestData.sceneName as string];
+        const sourceNames = scene ? Object.keys(scene.sources) : [];
+        const index = sourceNames.indexOf(requestData.sourceName as string);
+        if (index === -1) return notFound(`No scene items were found in the specified scene by that name or offset.`);
+        return ok({ sceneItemId: index + 1 });
+      }
+
+      case 'SetSceneItemEnabled': {
+        const scene = scenes[requestData.sceneName as string];
+        const sourceName = scene && Object.keys(scene.sources)[(requestData.sceneItemId as number) - 1];
+        if (!sourceName) return notFound('No scene item was found by that ID.');
+        scene.sources[sourceName] = requestData.sceneItemEnabled as boolean;
+        return ok();
+      }
+
+      default:
+        return { status: { result: false, code: 204, comment: `Unknown request type ${requestType}` } };
+    }
+  }
+}
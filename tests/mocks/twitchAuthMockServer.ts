@@ -0,0 +1,159 @@
+import { createHash } from 'node:crypto';
+import type { BrowserContext, Route } from '@playwright/test';
+
+/**
+ * Mock Twitch Sign-in Server
+ *
+ * Stands in for a self-hosted token exchange server (authorization code +
+ * PKCE, and refresh tokens) and the Twitch endpoints signing in touches:
+ * Helix /users, token validation and revocation. Attach it to a browser
+ * context with Playwright's request routing, register the authorization
+ * codes a test will hand the app, then inspect `tokenRequests`.
+ */
+
+export interface TwitchAuthMockUser {
+  id: string;
+  login: string;
+  display_name: string;
+  profile_image_url: string;
+}
+
+export interface TwitchAuthMockOptions {
+  /** Token exchange server address the app is configured with */
+  tokenUrl?: string;
+  /** Lifetime of issued access tokens in seconds */
+  expiresIn?: number;
+  user?: TwitchAuthMockUser;
+}
+
+export interface TwitchAuthMockTokenRequest {
+  grant_type: string;
+  code?: string;
+  code_verifier?: string;
+  refresh_token?: string;
+  redirect_uri?: string;
+}
+
+const DEFAULT_USER: TwitchAuthMockUser = {
+  id: 'mock-user',
+  login: 'mockstreamer',
+  display_name: 'MockStreamer',
+  profile_image_url: 'https://static-cdn.jtvnw.net/user-default-pictures/mock.png',
+};
+
+/**
+ * S256 code challenge for a PKCE code verifier
+ */
+export const codeChallengeFor = (verifier: string): string =>
+  createHash('sha256').update(verifier).digest('base64url');
+
+export class TwitchAuthMockServer {
+  readonly tokenUrl: string;
+  readonly user: TwitchAuthMockUser;
+  readonly tokenRequests: TwitchAuthMockTokenRequest[] = [];
+  /** Lifetime of issued access tokens in seconds */
+  expiresIn: number;
+  /** Turn down refresh requests as if the refresh token was revoked */
+  rejectRefresh = false;
+
+  private readonly codes = new Map<string, string>();
+  private readonly refreshTokens = new Set<string>();
+  private issued = 0;
+
+  constructor(options: TwitchAuthMockOptions = {}) {
+    this.tokenUrl = options.tokenUrl ?? 'http://127.0.0.1:8788/token';
+    this.expiresIn = options.expiresIn ?? 4 * 60 * 60;
+    this.user = options.user ?? DEFAULT_USER;
+  }
+
+  /**
+   * Route the token exchange server and Twitch's sign-in endpoints to this mock
+   */
+  async attach(context: BrowserContext): Promise<void> {
+    await context.route(this.tokenUrl, route => this.handleToken(route));
+    await context.route('https://api.twitch.tv/helix/**', route => {
+      const isUsers = new URL(route.request().url()).pathname.endsWith('/users');
+      return route.fulfill({ json: { data: isUsers ? [this.user] : [] } });
+    });
+    await context.route('https://id.twitch.tv/oauth2/validate', route =>
+      route.fulfill({ json: { client_id: 'mock-client', user_id: this.user.id, expires_in: this.expiresIn } })
+    );
+    await context.route('https://id.twitch.tv/oauth2/revoke', route => route.fulfill({ status: 200, body: '' }));
+  }
+
+  /**
+   * Accept an authorization code issued for a PKCE code challenge
+   */
+  registerCode(code: string, codeChallenge: string): void {
+    this.codes.set(code, codeChallenge);
+  }
+
+  /**
+   * Accept a refresh token issued before the test started
+   */
+  registerRefreshToken(refreshToken: string): void {
+    this.refreshTokens.add(refreshToken);
+  }
+
+  /**
+   * Access token issued most recently
+   */
+  get lastAccessToken(): string | null {
+    return this.issued > 0 ? `mock-access-${this.issued}` : null;
+  }
+
+  /**
+   * Grant types received so far, in order
+   */
+  get grantTypes(): string[] {
+    return this.tokenRequests.map(request => request.grant_type);
+  }
+
+  private async handleToken(route: Route): Promise<void> {
+    const request = route.request();
+    if (request.method() !== 'POST') {
+      await route.fulfill({ status: 405, json: { status: 405, message: 'method not allowed' } });
+      return;
+    }
+
+    const body = Object.fromEntries(new URLSearchParams(request.postData() ?? '')) as unknown as TwitchAuthMockTokenRequest;
+    this.tokenRequests.push(body);
+
+    if (body.grant_type === 'authorization_code') {
+      const challenge = body.code ? this.codes.get(body.code) : undefined;
+      if (!challenge || !body.code_verifier || codeChallengeFor(body.code_verifier) !== challenge) {
+        await route.fulfill({ status: 400, json: { status: 400, message: 'Invalid authorization code' } });
+        return;
+      }
+      this.codes.delete(body.code!);
+      await route.fulfill({ json: this.issueToken() });
+      return;
+    }
+
+    if (body.grant_type === 'refresh_token') {
+      if (this.rejectRefresh || !body.refresh_token || !this.refreshTokens.has(body.refresh_token)) {
+        await route.fulfill({ status: 400, json: { status: 400, message: 'Invalid refresh token' } });
+        return;
+      }
+      this.refreshTokens.delete(body.refresh_token);
+      await route.fulfill({ json: this.issueToken() });
+      return;
+    }
+
+    await route.fulfill({ status: 400, json: { status: 400, message: 'Unsupported grant type' } });
+  }
+
+  private issueToken() {
+    this.issued += 1;
+    const refreshToken = `mock-refresh-${this.issued}`;
+    this.refreshTokens.add(refreshToken);
+
+    return {
+      access_token: `mock-access-${this.issued}`,
+      refresh_token: refreshToken,
+      expires_in: this.expiresIn,
+      scope: ['channel:manage:broadcast'],
+      token_type: 'bearer',
+    };
+  }
+}
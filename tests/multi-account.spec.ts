@@ -0,0 +1,164 @@
+import { test, expect, type Page } from '@playwright/test';
+import { HelixMockServer } from './mocks/helixMockServer';
+
+/**
+ * Multiple Accounts Tests
+ * Tests switching between two linked accounts, profiles owned by one of them,
+ * and applies reaching the selected account's channel on the mock Helix server
+ */
+
+const MAIN_TOKEN = 'mock-main-token';
+const ALT_TOKEN = 'mock-alt-token';
+
+const ALT_USER = {
+  id: 'mock-alt',
+  login: 'mockalt',
+  display_name: 'MockAlt',
+  profile_image_url: 'https://static-cdn.jtvnw.net/user-default-pictures/alt.png',
+};
+
+/**
+ * Link both accounts, with the main one selected
+ */
+const seedAccounts = async (page: Page, twitch: HelixMockServer) => {
+  const accounts = [
+    { user: twitch.users[0], token: MAIN_TOKEN },
+    { user: twitch.users[1], token: ALT_TOKEN },
+  ].map(({ user, token }) => ({
+    id: user.id,
+    login: user.login,
+    displayName: user.display_name,
+    profileImageUrl: user.profile_image_url,
+    token,
+  }));
+
+  await page.evaluate(async ({ accounts }) => {
+    const request = indexedDB.open('ScratchMyTwitchDB');
+
+    await new Promise<void>((resolve, reject) => {
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const db = request.result;
+        const transaction = db.transaction(['auth'], 'readwrite');
+        const store = transaction.objectStore('auth');
+        const now = new Date();
+
+        accounts.forEach(({ token, ...account }, index) => {
+          store.put({
+            key: `account:${account.id}`,
+            value: {
+              ...account,
+              linkedAt: new Date(now.getTime() + index),
+              token: {
+                access_token: token,
+                token_type: 'bearer',
+                expires_in: 4 * 3600,
+                obtainedAt: now,
+                expiresAt: new Date(now.getTime() + 4 * 60 * 60 * 1000),
+                userId: account.id
+              }
+            },
+            updatedAt: now
+          });
+        });
+        store.put({ key: 'active_account', value: accounts[0].id, updatedAt: now });
+        transaction.oncomplete = () => {
+          db.close();
+          resolve();
+        };
+      };
+    });
+  }, { accounts });
+};
+
+/**
+ * Create a Minecraft profile, owned by the named account or shared
+ */
+const createProfile = async (page: Page, name: string, title: string, owner?: string) => {
+  await page.click('a:has-text("New Profile"), a:has-text("Create Profile")');
+  await page.fill('input[name="name"]', name);
+  await page.fill('input[name="title"]', title);
+  if (owner) {
+    await page.selectOption('select[name="ownerId"]', { label: owner });
+  }
+
+  await page.locator('input[placeholder*="Search for a category" i]').fill('Minecraft');
+  await page.locator('button[role="option"]:has-text("Minecraft")').first().click();
+
+  await page.click('button[type="submit"]');
+  await page.waitForURL('/');
+};
+
+/**
+ * Select the alt account and wait for the page to reload with it
+ */
+const switchToAlt = async (page: Page) => {
+  await page.click('[data-testid="account-switcher"]');
+  await page.locator('[data-testid="linked-account"]', { hasText: ALT_USER.display_name }).click();
+  await expect(page.locator(`p:text-is("${ALT_USER.display_name}")`)).toBeVisible();
+};
+
+const profileCard = (page: Page, name: string) => page.locator('article.scandi-card', { hasText: name });
+
+test.describe('Multiple Accounts', () => {
+  let twitch: HelixMockServer;
+
+  test.beforeEach(async ({ page, context }) => {
+    twitch = new HelixMockServer({ otherUsers: [ALT_USER] });
+    twitch.registerToken(MAIN_TOKEN, twitch.users[0].id);
+    twitch.registerToken(ALT_TOKEN, ALT_USER.id);
+    await twitch.attach(context);
+
+    await page.goto('/');
+    await page.waitForSelector('h1:has-text("Stream Profiles")', { timeout: 10000 });
+    await seedAccounts(page, twitch);
+    await page.reload();
+    await expect(page.locator('text=MockBroadcaster')).toBeVisible();
+  });
+
+  test('should list the linked accounts and switch between them', async ({ page }) => {
+    await page.click('[data-testid="account-switcher"]');
+    const accounts = page.locator('[data-testid="linked-account"]');
+    await expect(accounts).toHaveCount(2);
+    await expect(accounts.first()).toHaveAttribute('aria-checked', 'true');
+
+    await accounts.filter({ hasText: 'MockAlt' }).click();
+    await expect(page.locator('p:text-is("MockAlt")')).toBeVisible();
+    await page.click('[data-testid="account-switcher"]');
+    await expect(accounts.filter({ hasText: 'MockAlt' })).toHaveAttribute('aria-checked', 'true');
+
+    // The choice survives a reload
+    await page.reload();
+    await expect(page.locator('p:text-is("MockAlt")')).toBeVisible();
+  });
+
+  test('should only list profiles for the selected account', async ({ page }) => {
+    await createProfile(page, 'Main Only', 'Main channel stream', 'MockBroadcaster');
+    await createProfile(page, 'Alt Only', 'Alt channel stream', 'MockAlt');
+    await createProfile(page, 'Everyone', 'Shared stream');
+
+    await expect(profileCard(page, 'Main Only')).toBeVisible();
+    await expect(profileCard(page, 'Everyone')).toBeVisible();
+    await expect(profileCard(page, 'Alt Only')).toHaveCount(0);
+
+    await switchToAlt(page);
+    await expect(profileCard(page, 'Alt Only')).toBeVisible();
+    await expect(profileCard(page, 'Everyone')).toBeVisible();
+    await expect(profileCard(page, 'Main Only')).toHaveCount(0);
+  });
+
+  test('should apply to the selected account\'s channel', async ({ page }) => {
+    await createProfile(page, 'Collab Night', 'Collab on the alt');
+    await switchToAlt(page);
+
+    await profileCard(page, 'Collab Night').locator('button:has-text("Apply Profile")').click();
+    await page.locator('[role="dialog"] button:has-text("fields")').click();
+
+    await expect(page.locator('text=Applied "Collab Night" to your stream')).toBeVisible();
+    expect(twitch.channels.get(ALT_USER.id)?.title).toBe('Collab on the alt');
+    expect(twitch.channel.title).toBe('Mock stream');
+    const updates = twitch.requests.filter(request => request.method === 'PATCH');
+    expect(updates.map(request => request.query.broadcaster_id)).toEqual([[ALT_USER.id]]);
+    expect(updates[0].authorization).toBe(`Bearer ${ALT_TOKEN}`);
+  });
+});
@@ -0,0 +1,89 @@
+import { test, expect } from '@playwright/test';
+import { ObsMockServer } from './mocks/obsMockServer';
+
+/**
+ * OBS Integration Tests
+ * Tests OBS connection settings and per-profile OBS actions against a mock obs-websocket server
+ */
+
+test.describe('OBS Integration', () => {
+  let obs: ObsMockServer;
+
+  test.beforeEach(async ({ page }) => {
+    obs = new ObsMockServer({ password: 'hunter2' });
+    await obs.attach(page);
+
+    await page.goto('/settings');
+    await page.waitForSelector('h1:has-text("Settings")', { timeout: 10000 });
+  });
+
+  test('should connect to OBS with the saved password', async ({ page }) => {
+    await page.locator('input[name="obsEnabled"]').check();
+    await expect(page.locator('text=Settings saved')).toBeVisible();
+
+    await page.fill('input[name="obsPassword"]', 'hunter2');
+    await page.click('button:has-text("Save OBS Settings")');
+    await expect(page.locator('text=OBS settings saved')).toBeVisible();
+
+    await page.click('button:has-text("Test Connection")');
+    await expect(page.locator('[data-testid="obs-test-result"]')).toContainText('Connected to OBS 31.0.0');
+    expect(obs.requestTypes).toContain('GetVersion');
+  });
+
+  test('should report a wrong password', async ({ page }) => {
+    await page.fill('input[name="obsPassword"]', 'wrong');
+    await page.click('button:has-text("Test Connection")');
+    await expect(page.locator('[data-testid="obs-test-result"]')).toContainText('OBS rejected the password');
+  });
+
+  test('should reject an address that is not a WebSocket URL', async ({ page }) => {
+    await page.fill('input[name="obsUrl"]', 'http://localhost:4455');
+    await page.click('button:has-text("Save OBS Settings")');
+    await expect(page.locator('text=OBS address must start with ws:// or wss://')).toBeVisible();
+  });
+
+  test('should save OBS actions on a profile', async ({ page }) => {
+    await page.locator('input[name="obsEnabled"]').check();
+    await page.fill('input[name="obsPassword"]', 'hunter2');
+    await page.click('button:has-text("Save OBS Settings")');
+    await expect(page.locator('text=OBS settings saved')).toBeVisible();
+
+    await page.click('a:has-text("New Profile")');
+    await page.fill('input[name="name"]', 'OBS Test');
+    await page.fill('input[name="title"]', 'Coding with OBS');
+
+    // Scene names can be picked from OBS
+    await page.click('button:has-text("Load from OBS")');
+    await expect(page.locator('text=2 collections, 2 scenes loaded')).toBeVisible();
+    await expect(page.locator('#obs-scenes option[value="Just Chatting"]')).toHaveCount(1);
+
+    await page.fill('input[name="obsSceneCollection"]', 'Coding');
+    await page.fill('input[name="obsScene"]', 'Coding');
+    await page.click('button:has-text("+ Add source")');
+    await page.fill('input[aria-label="Source 1 name"]', 'Music');
+    await page.click('button[type="submit"]');
+    await page.waitForURL('/');
+
+    const profileCard = page.locator('article.scandi-card', { hasText: 'OBS Test' });
+    await expect(profileCard).toContainText('Collection "Coding" · Scene "Coding" · 1 source');
+
+    // Actions are loaded back into the edit form
+    await profileCard.hover();
+    await profileCard.locator('a[title*="Edit" i]').click();
+    await expect(page.locator('input[name="obsScene"]')).toHaveValue('Coding');
+    await expect(page.locator('input[aria-label="Source 1 name"]')).toHaveValue('Music');
+  });
+
+  test('should require a scene for each source', async ({ page }) => {
+    await page.click('a:has-text("New Profile")');
+    await page.fill('input[name="name"]', 'OBS Source Test');
+    await page.fill('input[name="title"]', 'Sources need scenes');
+
+    await expect(page.locator("text=OBS is turned off, so these actions won't run")).toBeVisible();
+    await page.click('button:has-text("+ Add source")');
+    await page.fill('input[aria-label="Source 1 name"]', 'Webcam');
+    await page.click('button[type="submit"]');
+
+    await expect(page.locator('text=Choose a scene for each source, or set the profile scene')).toBeVisible();
+  });
+});
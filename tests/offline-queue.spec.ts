@@ -0,0 +1,172 @@
+import { test, expect, type BrowserContext, type Page } from '@playwright/test';
+
+/**
+ * Offline Apply Queue Tests
+ * Tests queueing applies while Twitch is unreachable and sending them once it's back
+ */
+
+const TEST_USER = {
+  id: 'user-queue',
+  login: 'queuetester',
+  display_name: 'QueueTester',
+  profile_image_url: 'https://static-cdn.jtvnw.net/user-default-pictures/queue.png'
+};
+
+/**
+ * Mock Twitch, failing every request like a network outage until `twitch.up` is set.
+ * Returns the state object and the channel updates received.
+ */
+const mockTwitch = async (context: BrowserContext) => {
+  const twitch = { up: false, channelUpdates: [] as Array<Record<string, unknown>> };
+
+  await context.route('https://api.twitch.tv/helix/**', async route => {
+    if (!twitch.up) {
+      return route.abort('internetdisconnected');
+    }
+
+    const request = route.request();
+    const url = new URL(request.url());
+    if (url.pathname.endsWith('/users')) {
+      return route.fulfill({ json: { data: [TEST_USER] } });
+    }
+    if (url.pathname.endsWith('/channels') && request.method() === 'PATCH') {
+      twitch.channelUpdates.push(request.postDataJSON());
+      return route.fulfill({ status: 204, body: '' });
+    }
+    return route.fulfill({ json: { data: [] } });
+  });
+  await context.route('https://id.twitch.tv/oauth2/**', route => route.fulfill({ status: 200, body: '{}' }));
+
+  return twitch;
+};
+
+/**
+ * Put records in an object store
+ */
+const seed = async (page: Page, storeName: string, records: Array<Record<string, unknown>>) => {
+  await page.evaluate(async ({ storeName, records }) => {
+    const request = indexedDB.open('ScratchMyTwitchDB');
+
+    await new Promise<void>((resolve, reject) => {
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const db = request.result;
+        const transaction = db.transaction([storeName], 'readwrite');
+        records.forEach(record => transaction.objectStore(storeName).put(record));
+        transaction.oncomplete = () => {
+          db.close();
+          resolve();
+        };
+      };
+    });
+  }, { storeName, records });
+};
+
+const seedSignedIn = (page: Page) => {
+  const now = new Date();
+  return seed(page, 'auth', [{
+    key: 'token',
+    value: {
+      access_token: 'queue-token',
+      token_type: 'bearer',
+      expires_in: 4 * 3600,
+      obtainedAt: now,
+      expiresAt: new Date(now.getTime() + 4 * 60 * 60 * 1000),
+      userId: TEST_USER.id
+    },
+    updatedAt: now
+  }]);
+};
+
+const createProfile = async (page: Page, name: string, title: string) => {
+  await page.click('a:has-text("New Profile"), a:has-text("Create Profile")');
+  await page.fill('input[name="name"]', name);
+  await page.fill('input[name="title"]', title);
+  await page.click('button[type="submit"]');
+  await page.waitForURL('/');
+};
+
+const applyWithPreview = async (page: Page, name: string) => {
+  await page.locator('article.scandi-card', { hasText: name }).locator('button:has-text("Apply Profile")').click();
+  await page.locator('[role="dialog"] button:has-text("Apply 3 fields")').click();
+};
+
+test.describe('Offline Apply Queue', () => {
+  let twitch: Awaited<ReturnType<typeof mockTwitch>>;
+
+  test.beforeEach(async ({ page, context }) => {
+    twitch = await mockTwitch(context);
+    await page.goto('/');
+    await page.waitForSelector('h1:has-text("Stream Profiles")', { timeout: 10000 });
+    await seedSignedIn(page);
+    await page.reload();
+    await expect(page.locator('text=Unable to connect to Twitch services')).toBeVisible();
+  });
+
+  test('should queue applies while Twitch is unreachable', async ({ page }) => {
+    await createProfile(page, 'Queued Profile', 'Sent when we are back');
+    await applyWithPreview(page, 'Queued Profile');
+
+    const queue = page.locator('[data-testid="apply-queue"]');
+    await expect(queue).toBeVisible();
+    await expect(queue.locator('[data-testid="queued-apply"]')).toContainText('Apply "Queued Profile"');
+
+    // Survives a reload
+    await page.reload();
+    await expect(page.locator('[data-testid="queued-apply"]')).toContainText('Queued Profile');
+  });
+
+  test('should keep only the last queued apply by default', async ({ page }) => {
+    await createProfile(page, 'First Choice', 'First');
+    await createProfile(page, 'Second Choice', 'Second');
+    await applyWithPreview(page, 'First Choice');
+    await applyWithPreview(page, 'Second Choice');
+
+    const queued = page.locator('[data-testid="queued-apply"]');
+    await expect(queued).toHaveCount(1);
+    await expect(queued).toContainText('Second Choice');
+  });
+
+  test('should send the queue when the connection comes back', async ({ page, context }) => {
+    await createProfile(page, 'Back Online', 'Title sent after reconnecting');
+    await applyWithPreview(page, 'Back Online');
+    await expect(page.locator('[data-testid="queued-apply"]')).toHaveCount(1);
+
+    // The online event flushes the queue (Background Sync isn't available to the dev server)
+    twitch.up = true;
+    await context.setOffline(true);
+    await context.setOffline(false);
+
+    await expect(page.locator('text=Sent queued apply "Back Online"')).toBeVisible();
+    await expect(page.locator('[data-testid="apply-queue"]')).toHaveCount(0);
+    expect(twitch.channelUpdates).toEqual([expect.objectContaining({ title: 'Title sent after reconnecting' })]);
+  });
+
+  test('should drop queued applies that waited too long', async ({ page }) => {
+    twitch.up = true;
+    await seed(page, 'applyQueue', [{
+      id: 'stale-intent',
+      profileId: 'missing-profile',
+      profileName: 'Stale Profile',
+      queuedAt: new Date(Date.now() - 2 * 60 * 60 * 1000),
+      attempts: 3
+    }]);
+    await page.reload();
+
+    await expect(page.locator('text=Dropped queued apply "Stale Profile"')).toBeVisible();
+    await expect(page.locator('text=Waited more than 30 minutes')).toBeVisible();
+    expect(twitch.channelUpdates).toEqual([]);
+  });
+
+  test('should save the queue settings', async ({ page }) => {
+    await page.goto('/settings');
+    await page.locator('label:has-text("Apply all")').click();
+    await page.fill('input[name="applyQueueMaxAge"]', '45');
+    await page.click('button:has-text("Save Offline Apply Settings")');
+    await expect(page.locator('text=Offline apply settings saved')).toBeVisible();
+
+    await page.reload();
+    await expect(page.locator('input[name="applyQueueConflictRule"][value="apply-all"]')).toBeChecked();
+    await expect(page.locator('input[name="applyQueueMaxAge"]')).toHaveValue('45');
+  });
+});
@@ -0,0 +1,141 @@
+import { test, expect, type Page } from '@playwright/test';
+import { TwitchAuthMockServer, codeChallengeFor } from './mocks/twitchAuthMockServer';
+
+/**
+ * PKCE Sign-in Tests
+ * Tests the authorization code + PKCE strategy and token refresh against a mock token exchange server
+ */
+
+const CODE_VERIFIER = 'mock-verifier-0123456789-abcdefghijklmnopqrstuvwxyz-ABCDEFGHIJKL';
+
+/**
+ * Put a record in the auth store, as the app does when a flow starts or a token is saved
+ */
+const putAuthRecord = async (page: Page, key: string, value: Record<string, unknown>) => {
+  await page.evaluate(async ({ key, value }) => {
+    const request = indexedDB.open('ScratchMyTwitchDB');
+
+    await new Promise<void>((resolve, reject) => {
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const db = request.result;
+        const transaction = db.transaction(['auth'], 'readwrite');
+        transaction.objectStore('auth').put({ key, value, updatedAt: new Date() });
+        transaction.oncomplete = () => {
+          db.close();
+          resolve();
+        };
+      };
+    });
+  }, { key, value });
+};
+
+const readStoredToken = (page: Page, userId: string) =>
+  page.evaluate(async userId => {
+    const request = indexedDB.open('ScratchMyTwitchDB');
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    const record = await new Promise<{ value?: { token: { access_token: string; refresh_token?: string } | null } } | undefined>(resolve => {
+      const get = db.transaction(['auth']).objectStore('auth').get(`account:${userId}`);
+      get.onsuccess = () => resolve(get.result);
+    });
+    db.close();
+    return record?.value?.token ?? null;
+  }, userId);
+
+/**
+ * Come back from Twitch with an authorization code, as if the user had approved the app
+ */
+const returnWithCode = async (page: Page, server: TwitchAuthMockServer, code: string) => {
+  server.registerCode(code, codeChallengeFor(CODE_VERIFIER));
+  await putAuthRecord(page, 'oauth_state', {
+    state: `state-${code}`,
+    redirectUri: new URL('/auth/callback', page.url()).toString(),
+    createdAt: new Date(),
+    strategy: 'pkce',
+    codeVerifier: CODE_VERIFIER
+  });
+  await page.goto(`/auth/callback?code=${code}&state=state-${code}`);
+};
+
+test.describe('PKCE Sign-in', () => {
+  let server: TwitchAuthMockServer;
+
+  test.beforeEach(async ({ page, context }) => {
+    server = new TwitchAuthMockServer();
+    await server.attach(context);
+
+    await page.goto('/settings');
+    await page.waitForSelector('h1:has-text("Settings")', { timeout: 10000 });
+    await page.locator('label:has-text("PKCE with refresh")').click();
+    await page.fill('input[name="tokenExchangeUrl"]', server.tokenUrl);
+    await page.click('button:has-text("Save Sign-in Settings")');
+    await expect(page.locator('text=Sign-in settings saved')).toBeVisible();
+  });
+
+  test('should keep the chosen sign-in method', async ({ page }) => {
+    await page.reload();
+    await expect(page.locator('input[name="authStrategy"][value="pkce"]')).toBeChecked();
+    await expect(page.locator('input[name="tokenExchangeUrl"]')).toHaveValue(server.tokenUrl);
+  });
+
+  test('should exchange the authorization code through the token server', async ({ page }) => {
+    await returnWithCode(page, server, 'code-1');
+
+    await page.waitForURL('/');
+    await expect(page.locator('text=MockStreamer')).toBeVisible();
+
+    expect(server.tokenRequests[0]).toMatchObject({
+      grant_type: 'authorization_code',
+      code: 'code-1',
+      code_verifier: CODE_VERIFIER
+    });
+    expect(await readStoredToken(page, server.user.id)).toMatchObject({ access_token: 'mock-access-1', refresh_token: 'mock-refresh-1' });
+  });
+
+  test('should refresh the token before it expires', async ({ page }) => {
+    // Tokens that expire within the refresh window are refreshed on next use
+    server.registerRefreshToken('seeded-refresh');
+    const now = Date.now();
+    await putAuthRecord(page, 'token', {
+      access_token: 'expiring-access',
+      token_type: 'bearer',
+      expires_in: 3600,
+      refresh_token: 'seeded-refresh',
+      obtainedAt: new Date(now - 53 * 60 * 1000),
+      expiresAt: new Date(now + 7 * 60 * 1000),
+      userId: server.user.id,
+      strategy: 'pkce'
+    });
+
+    await page.goto('/');
+    await expect(page.locator('text=MockStreamer')).toBeVisible();
+    await expect.poll(() => readStoredToken(page, server.user.id)).toMatchObject({
+      access_token: 'mock-access-1',
+      refresh_token: 'mock-refresh-1'
+    });
+    expect(server.tokenRequests).toEqual([{ grant_type: 'refresh_token', refresh_token: 'seeded-refresh', client_id: expect.any(String) }]);
+  });
+
+  test('should sign out when the refresh token is rejected', async ({ page }) => {
+    server.rejectRefresh = true;
+    const expiredAt = new Date(Date.now() - 60 * 1000);
+    await putAuthRecord(page, 'token', {
+      access_token: 'expired-access',
+      token_type: 'bearer',
+      expires_in: 3600,
+      refresh_token: 'revoked-refresh',
+      obtainedAt: new Date(expiredAt.getTime() - 3600 * 1000),
+      expiresAt: expiredAt,
+      userId: server.user.id,
+      strategy: 'pkce'
+    });
+
+    await page.goto('/');
+    await expect(page.locator('text=Connect Twitch').first()).toBeVisible();
+    await expect.poll(() => readStoredToken(page, server.user.id)).toBeNull();
+    expect(server.grantTypes).toEqual(['refresh_token']);
+  });
+});
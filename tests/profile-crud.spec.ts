@@ -2,7 +2,7 @@ import { test, expect } from '@playwright/test';
 
 /**
  * Profile CRUD Operations Tests
- * Tests profile creation, listing, editing, and deletion
+ * Tests profile creation, listing, editing, deletion and tag entry
  */
 
 test.describe('Profile Management', () => {
@@ -145,6 +145,68 @@ test.describe('Profile Management', () => {
     expect(finalCount < initialCount || showsEmptyState).toBeTruthy();
   });
 
+  test('should save optional channel settings', async ({ page }) => {
+    await page.click('a:has-text("New Profile")');
+    await page.fill('input[name="name"]', 'Channel Settings Profile');
+    await page.fill('input[name="title"]', 'Late Night Horror');
+
+    const categoryInput = page.locator('input[placeholder*="Search for a category" i]');
+    await categoryInput.fill('Just Chatting');
+    await page.waitForTimeout(500);
+    await page.locator('button[role="option"]:has-text("Just Chatting")').first().click();
+
+    // Language, labels and branded content default to "Don't change"
+    await expect(page.locator('select[name="language"]')).toHaveValue('');
+    await expect(page.locator('input[name="ccl-ViolentGraphic"]')).toHaveCount(0);
+
+    await page.selectOption('select[name="language"]', 'de');
+    await page.check('input[name="manageContentClassificationLabels"]');
+    await page.check('input[name="ccl-ViolentGraphic"]');
+    await page.selectOption('select[name="isBrandedContent"]', 'no');
+
+    await page.click('button:has-text("Create Profile")');
+    await expect(page).toHaveURL('/', { timeout: 5000 });
+
+    const profileCard = page.locator('article.scandi-card', { hasText: 'Channel Settings Profile' });
+    await expect(profileCard.locator('text=Deutsch')).toBeVisible();
+    await expect(profileCard.locator('text=Violent and Graphic Depictions')).toBeVisible();
+    await expect(profileCard.locator('text=Branded content:')).toBeVisible();
+  });
+
+  test('should enter tags as chips and suggest tags from other profiles', async ({ page }) => {
+    const createWithTags = async (name: string, typeTags: () => Promise<void>) => {
+      await page.click('a:has-text("New Profile"), a:has-text("Create Profile")');
+      await page.fill('input[name="name"]', name);
+      await page.fill('input[name="title"]', 'Tagged stream');
+      await page.locator('input[placeholder*="Search for a category" i]').fill('Just Chatting');
+      await page.waitForTimeout(500);
+      await page.locator('button[role="option"]:has-text("Just Chatting")').first().click();
+      await typeTags();
+    };
+
+    await createWithTags('First Tagged', async () => {
+      // Spaces are removed, and a tag that differs only in case is dropped
+      await page.fill('input[name="tags"]', '#Speed Run, Español, speedrun,');
+      await expect(page.locator('[data-testid="tag-chip"]')).toHaveText(['SpeedRun×', 'Español×']);
+    });
+    await page.click('button:has-text("Create Profile")');
+    await expect(page).toHaveURL('/', { timeout: 5000 });
+
+    await createWithTags('Second Tagged', async () => {
+      await page.fill('input[name="tags"]', 'spe');
+      await page.locator('[data-testid="tag-suggestion"]', { hasText: 'SpeedRun' }).click();
+      await page.fill('input[name="tags"]', 'c++');
+      await page.keyboard.press('Enter');
+      await expect(page.locator('[data-testid="tag-chip"][data-invalid="true"]')).toHaveText('c++×');
+    });
+    await page.click('button:has-text("Create Profile")');
+    await expect(page.locator('text=Tag "c++" contains invalid characters')).toBeVisible();
+
+    await page.click('button[aria-label="Remove tag c++"]');
+    await page.click('button:has-text("Create Profile")');
+    await expect(page).toHaveURL('/', { timeout: 5000 });
+  });
+
   test('should show profile count', async ({ page }) => {
     // The dashboard should show profile count
     const countText = page.locator('text=/\\d+ profile/i, text=No profiles yet');
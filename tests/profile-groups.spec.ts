@@ -0,0 +1,140 @@
+import { test, expect, type Page } from '@playwright/test';
+
+/**
+ * Profile Groups Tests
+ * Tests favorites, groups, collapsible sections, the group filter and drag-and-drop
+ */
+
+const seedProfiles = async (page: Page) => {
+  await page.evaluate(async () => {
+    const request = indexedDB.open('ScratchMyTwitchDB');
+
+    await new Promise<void>((resolve, reject) => {
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const db = request.result;
+        const transaction = db.transaction(['profiles', 'profileGroups'], 'readwrite');
+        const profiles = transaction.objectStore('profiles');
+        const groups = transaction.objectStore('profileGroups');
+        const now = new Date();
+
+        groups.put({ id: 'group-coding', name: 'Coding', createdAt: now, updatedAt: now });
+
+        const profile = (id: string, name: string, extra: Record<string, unknown> = {}) => ({
+          id,
+          name,
+          title: `${name} stream`,
+          category: { id: '509658', name: 'Just Chatting' },
+          tags: [],
+          createdAt: now,
+          updatedAt: now,
+          ...extra
+        });
+
+        profiles.put(profile('profile-rust', 'Rust Session', { groupId: 'group-coding' }));
+        profiles.put(profile('profile-web', 'Web Session', { groupId: 'group-coding' }));
+        profiles.put(profile('profile-chat', 'Morning Chat'));
+        transaction.oncomplete = () => {
+          db.close();
+          resolve();
+        };
+      };
+    });
+  });
+
+  await page.reload();
+  await page.waitForSelector('h1:has-text("Stream Profiles")', { timeout: 10000 });
+};
+
+const section = (page: Page, title: string) =>
+  page.locator(`[data-testid="profile-section"][aria-label="${title}"]`);
+
+test.describe('Profile Groups', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/');
+    await page.waitForSelector('h1:has-text("Stream Profiles")', { timeout: 10000 });
+    await seedProfiles(page);
+  });
+
+  test('should list profiles under their group', async ({ page }) => {
+    await expect(section(page, 'Coding').locator('[data-testid="profile-card"]')).toHaveCount(2);
+    await expect(section(page, 'Ungrouped')).toContainText('Morning Chat');
+  });
+
+  test('should pin favorites to the top', async ({ page }) => {
+    await section(page, 'Ungrouped')
+      .locator('article', { hasText: 'Morning Chat' })
+      .locator('button[aria-label="Add to favorites"]')
+      .click();
+
+    const favorites = section(page, 'Favorites');
+    await expect(favorites).toContainText('Morning Chat');
+    await expect(page.locator('[data-testid="profile-section"]').first()).toHaveAttribute('aria-label', 'Favorites');
+
+    // Favorites stay pinned after a reload
+    await page.reload();
+    await expect(section(page, 'Favorites')).toContainText('Morning Chat');
+  });
+
+  test('should create, rename and delete a group', async ({ page }) => {
+    await page.click('button:has-text("New Group")');
+    await page.fill('input[aria-label="Group name"]', 'Music');
+    await page.click('button:has-text("Create Group")');
+    await expect(section(page, 'Music')).toContainText('Drag profiles here');
+
+    page.once('dialog', dialog => dialog.accept('Music Nights'));
+    await section(page, 'Music').locator('button:has-text("Rename")').click();
+    await expect(section(page, 'Music Nights')).toBeVisible();
+
+    // Deleting a group keeps its profiles as ungrouped
+    page.once('dialog', dialog => dialog.accept());
+    await section(page, 'Coding').locator('button:has-text("Delete")').click();
+    await expect(section(page, 'Coding')).toHaveCount(0);
+    await expect(section(page, 'Ungrouped').locator('[data-testid="profile-card"]')).toHaveCount(3);
+  });
+
+  test('should reject duplicate group names', async ({ page }) => {
+    await page.click('button:has-text("New Group")');
+    await page.fill('input[aria-label="Group name"]', 'coding');
+    await page.click('button:has-text("Create Group")');
+    await expect(page.locator('text=A group with this name already exists')).toBeVisible();
+  });
+
+  test('should collapse sections and remember it', async ({ page }) => {
+    await section(page, 'Coding').locator('button[aria-expanded]').click();
+    await expect(section(page, 'Coding').locator('[data-testid="profile-card"]')).toHaveCount(0);
+
+    await page.reload();
+    await expect(section(page, 'Coding').locator('button[aria-expanded="false"]')).toBeVisible();
+    await expect(section(page, 'Ungrouped').locator('[data-testid="profile-card"]')).toHaveCount(1);
+  });
+
+  test('should filter by group', async ({ page }) => {
+    await page.selectOption('#group-filter', { label: 'Coding' });
+    await expect(page).toHaveURL(/group=group-coding/);
+    await expect(section(page, 'Ungrouped')).toHaveCount(0);
+    await expect(page.locator('[data-testid="profile-card"]')).toHaveCount(2);
+  });
+
+  test('should move profiles between groups by dragging', async ({ page }) => {
+    const chat = section(page, 'Ungrouped').locator('article', { hasText: 'Morning Chat' });
+    await chat.dragTo(section(page, 'Coding').locator('article', { hasText: 'Rust Session' }));
+
+    const coding = section(page, 'Coding').locator('[data-testid="profile-card"]');
+    await expect(coding).toHaveCount(3);
+    // Dropped on a card, so it lands before that card
+    await expect(coding.first()).toContainText('Morning Chat');
+
+    await page.reload();
+    await expect(section(page, 'Coding').locator('[data-testid="profile-card"]').first()).toContainText('Morning Chat');
+  });
+
+  test('should file a profile under a group from the edit form', async ({ page }) => {
+    await page.goto('/profile/profile-chat/edit');
+    await page.selectOption('#groupId', { label: 'Coding' });
+    await page.click('button:has-text("Save Changes")');
+
+    await expect(page).toHaveURL('/');
+    await expect(section(page, 'Coding')).toContainText('Morning Chat');
+  });
+});
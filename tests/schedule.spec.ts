@@ -0,0 +1,75 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Stream Schedule Tests
+ * Tests the weekly calendar, auto-apply settings and missed slot logging
+ */
+
+test.describe('Stream Schedule', () => {
+  test.beforeEach(async ({ page }) => {
+    // Monday 19 October 2026, 06:00 local time
+    await page.clock.install({ time: new Date(2026, 9, 19, 6, 0) });
+    await page.goto('/');
+    await page.waitForSelector('h1:has-text("Stream Profiles")', { timeout: 10000 });
+
+    await page.click('a:has-text("New Profile"), a:has-text("Create Profile")');
+    await page.fill('input[name="name"]', 'Morning Pages');
+    await page.fill('input[name="title"]', 'Morning Pages - {DAY}');
+    await page.click('button[type="submit"]');
+    await page.waitForURL('/');
+  });
+
+  test('should add a slot to the weekly calendar', async ({ page }) => {
+    await page.click('nav a:has-text("Schedule")');
+    await expect(page).toHaveURL('/schedule');
+
+    await page.selectOption('select[name="dayOfWeek"]', { label: 'Wednesday' });
+    await page.fill('input[name="startTime"]', '07:00');
+    await page.selectOption('select[name="profileId"]', { label: 'Morning Pages' });
+    await page.click('button:has-text("Add Slot")');
+
+    const wednesday = page.locator('[data-testid="schedule-day-3"]');
+    await expect(wednesday.locator('[data-testid="schedule-slot"]', { hasText: '07:00' })).toBeVisible();
+    await expect(wednesday.locator('text=Morning Pages')).toBeVisible();
+    await expect(page.locator('[data-testid="next-slot"]')).toContainText('Wednesday at 07:00');
+  });
+
+  test('should reject two slots at the same time', async ({ page }) => {
+    await page.goto('/schedule');
+
+    for (let i = 0; i < 2; i++) {
+      await page.selectOption('select[name="dayOfWeek"]', { label: 'Friday' });
+      await page.fill('input[name="startTime"]', '18:00');
+      await page.selectOption('select[name="profileId"]', { label: 'Morning Pages' });
+      await page.click('button:has-text("Add Slot")');
+    }
+
+    await expect(page.locator('text=Another slot already starts at this time')).toBeVisible();
+    await expect(page.locator('[data-testid="schedule-day-5"] [data-testid="schedule-slot"]')).toHaveCount(1);
+  });
+
+  test('should persist the auto-apply setting', async ({ page }) => {
+    await page.goto('/schedule');
+    await page.check('input[name="autoApply"]');
+
+    await page.reload();
+    await expect(page.locator('input[name="autoApply"]')).toBeChecked();
+  });
+
+  test('should log slots that start while the app is asleep as missed', async ({ page }) => {
+    await page.goto('/schedule');
+    await page.check('input[name="autoApply"]');
+
+    await page.selectOption('select[name="dayOfWeek"]', { label: 'Monday' });
+    await page.fill('input[name="startTime"]', '07:00');
+    await page.selectOption('select[name="profileId"]', { label: 'Morning Pages' });
+    await page.click('button:has-text("Add Slot")');
+
+    // Let the scheduler record a checkpoint, then jump past the slot's grace period
+    await page.clock.runFor(60 * 1000);
+    await page.clock.fastForward('02:00:00');
+
+    const run = page.locator('[data-testid="schedule-run"]', { hasText: 'Morning Pages' });
+    await expect(run).toContainText('missed');
+  });
+});
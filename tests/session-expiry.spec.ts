@@ -0,0 +1,160 @@
+import { test, expect, type BrowserContext, type Page } from '@playwright/test';
+
+/**
+ * Session Expiry Tests
+ * Tests the expiry countdown and warnings, and signing in again in a popup to finish an apply
+ */
+
+const TEST_USER = {
+  id: 'user-expiry',
+  login: 'expirytester',
+  display_name: 'ExpiryTester',
+  profile_image_url: 'https://static-cdn.jtvnw.net/user-default-pictures/expiry.png'
+};
+
+const RENEWED_TOKEN = 'renewed-token';
+
+/**
+ * Store a Twitch token that expires in the given number of minutes
+ */
+const seedToken = async (page: Page, expiresInMinutes: number) => {
+  await page.evaluate(async ({ userId, expiresInMinutes }) => {
+    const request = indexedDB.open('ScratchMyTwitchDB');
+
+    await new Promise<void>((resolve, reject) => {
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const db = request.result;
+        const transaction = db.transaction(['auth'], 'readwrite');
+        const now = new Date();
+
+        transaction.objectStore('auth').put({
+          key: 'token',
+          value: {
+            access_token: 'expiring-token',
+            token_type: 'bearer',
+            expires_in: 3600,
+            obtainedAt: new Date(now.getTime() - 60 * 60 * 1000),
+            expiresAt: new Date(now.getTime() + expiresInMinutes * 60 * 1000),
+            userId
+          },
+          updatedAt: now
+        });
+        transaction.oncomplete = () => {
+          db.close();
+          resolve();
+        };
+      };
+    });
+  }, { userId: TEST_USER.id, expiresInMinutes });
+};
+
+/**
+ * Mock Twitch: the seeded token can read but no longer update the channel;
+ * the token issued by signing in again can. Returns the channel updates received.
+ */
+const mockTwitch = async (context: BrowserContext) => {
+  const channelUpdates: string[] = [];
+
+  await context.route('https://api.twitch.tv/helix/**', async route => {
+    const request = route.request();
+    const url = new URL(request.url());
+
+    if (url.pathname.endsWith('/users')) {
+      return route.fulfill({ json: { data: [TEST_USER] } });
+    }
+    if (url.pathname.endsWith('/channels') && request.method() === 'PATCH') {
+      const authorization = request.headers()['authorization'];
+      channelUpdates.push(authorization);
+      return authorization === `Bearer ${RENEWED_TOKEN}`
+        ? route.fulfill({ status: 204, body: '' })
+        : route.fulfill({ status: 401, json: { status: 401, message: 'Invalid OAuth token' } });
+    }
+    return route.fulfill({ json: { data: [] } });
+  });
+  await context.route('https://id.twitch.tv/oauth2/validate', route =>
+    route.fulfill({ json: { client_id: 'mock-client', user_id: TEST_USER.id, expires_in: 3600 } })
+  );
+
+  // Approve straight away, handing back an implicit grant token
+  await context.route('https://id.twitch.tv/oauth2/authorize**', route => {
+    const params = new URL(route.request().url()).searchParams;
+    const callback = `${params.get('redirect_uri')}#access_token=${RENEWED_TOKEN}&token_type=bearer&expires_in=14400&state=${params.get('state')}`;
+    return route.fulfill({ status: 302, headers: { location: callback } });
+  });
+
+  return channelUpdates;
+};
+
+test.describe('Session Expiry', () => {
+  let channelUpdates: string[];
+
+  test.beforeEach(async ({ page, context }) => {
+    channelUpdates = await mockTwitch(context);
+    await page.goto('/');
+    await page.waitForSelector('h1:has-text("Stream Profiles")', { timeout: 10000 });
+  });
+
+  test('should count down to the end of the session', async ({ page }) => {
+    await seedToken(page, 120);
+    await page.reload();
+
+    await expect(page.locator('[data-testid="session-remaining"]')).toHaveText(/Session 1h \d\dm/);
+    await expect(page.locator('text=Your Twitch session expires in')).toHaveCount(0);
+  });
+
+  test('should warn once the session passes a warning threshold', async ({ page }) => {
+    // Tokens stop being used five minutes before they expire
+    await seedToken(page, 9);
+    await page.reload();
+
+    await expect(page.locator('text=Your Twitch session expires in')).toBeVisible();
+    await expect(page.locator('[data-testid="session-countdown"]')).toHaveText(/^[0-4]:\d\d$/);
+    await expect(page.locator('button:has-text("Renew now")')).toBeVisible();
+  });
+
+  test('should save the warning thresholds', async ({ page }) => {
+    await page.goto('/settings');
+    await page.fill('input[name="tokenExpiryWarnings"]', '30, 10, 2');
+    await page.click('button:has-text("Save Sign-in Settings")');
+    await expect(page.locator('text=Sign-in settings saved')).toBeVisible();
+
+    await page.reload();
+    await expect(page.locator('input[name="tokenExpiryWarnings"]')).toHaveValue('30, 10, 2');
+
+    await page.fill('input[name="tokenExpiryWarnings"]', '0');
+    await page.click('button:has-text("Save Sign-in Settings")');
+    await expect(page.locator('text=Expiry warnings must be')).toBeVisible();
+  });
+
+  test('should finish the apply after signing in again in a popup', async ({ page, context }) => {
+    test.skip(!process.env.VITE_TWITCH_CLIENT_ID, 'Signing in needs VITE_TWITCH_CLIENT_ID');
+
+    await seedToken(page, 60);
+    await page.reload();
+    await expect(page.locator('text=ExpiryTester')).toBeVisible();
+
+    await page.click('a:has-text("New Profile"), a:has-text("Create Profile")');
+    await page.fill('input[name="name"]', 'Resume Me');
+    await page.fill('input[name="title"]', 'Picking up where we left off');
+    await page.click('button[type="submit"]');
+    await page.waitForURL('/');
+
+    await page.locator('article.scandi-card', { hasText: 'Resume Me' }).locator('button:has-text("Apply Profile")').click();
+    await page.locator('[role="dialog"] button:has-text("Apply 3 fields")').click();
+
+    const prompt = page.locator('text=Sign in again to finish: Apply "Resume Me"');
+    await expect(prompt).toBeVisible();
+
+    const popupPromise = context.waitForEvent('page');
+    await page.click('button:has-text("Sign in again")');
+    const popup = await popupPromise;
+
+    // The popup closes itself and the apply runs with the new token, without reloading the app
+    await popup.waitForEvent('close');
+    await expect(prompt).toHaveCount(0);
+    await expect.poll(() => channelUpdates).toEqual(['Bearer expiring-token', `Bearer ${RENEWED_TOKEN}`]);
+    await expect(page).toHaveURL('/');
+    await expect(page.locator('article.scandi-card', { hasText: 'Resume Me' })).toBeVisible();
+  });
+});
@@ -0,0 +1,84 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Settings Tests
+ * Tests the settings page and preferences used across the app
+ */
+
+test.describe('Settings', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/settings');
+    await page.waitForSelector('h1:has-text("Settings")', { timeout: 10000 });
+  });
+
+  test('should apply the chosen theme across the app', async ({ page }) => {
+    await page.locator('label:has-text("Dark")').click();
+    await expect(page.locator('html')).toHaveClass(/dark/);
+
+    // Persists across navigation and reloads
+    await page.click('a:has-text("Profiles")');
+    await expect(page.locator('html')).toHaveClass(/dark/);
+    await page.reload();
+    await expect(page.locator('html')).toHaveClass(/dark/);
+
+    await page.goto('/settings');
+    await page.locator('label:has-text("Light")').click();
+    await expect(page.locator('html')).not.toHaveClass(/dark/);
+  });
+
+  test('should follow the system theme', async ({ page }) => {
+    await page.emulateMedia({ colorScheme: 'dark' });
+    await page.locator('label:has-text("System")').click();
+    await expect(page.locator('html')).toHaveClass(/dark/);
+
+    await page.emulateMedia({ colorScheme: 'light' });
+    await expect(page.locator('html')).not.toHaveClass(/dark/);
+  });
+
+  test('should skip the apply preview when previews are turned off', async ({ page }) => {
+    await page.locator('input[name="confirmActions"]').uncheck();
+    await expect(page.locator('text=Settings saved')).toBeVisible();
+
+    await page.click('a:has-text("New Profile")');
+    await page.fill('input[name="name"]', 'Settings Test');
+    await page.fill('input[name="title"]', 'No preview');
+    await page.click('button[type="submit"]');
+    await page.waitForURL('/');
+
+    const profileCard = page.locator('article.scandi-card', { hasText: 'Settings Test' });
+    await profileCard.locator('button:has-text("Apply Profile")').click();
+    await expect(page.locator('[role="dialog"]')).toHaveCount(0);
+  });
+
+  test('should save valid API settings', async ({ page }) => {
+    await page.fill('input[name="apiTimeout"]', '15000');
+    await page.fill('input[name="apiRetryAttempts"]', '2');
+    await page.click('button:has-text("Save API Settings")');
+    await expect(page.locator('text=API settings saved')).toBeVisible();
+
+    await page.reload();
+    await expect(page.locator('input[name="apiTimeout"]')).toHaveValue('15000');
+    await expect(page.locator('input[name="apiRetryAttempts"]')).toHaveValue('2');
+  });
+
+  test('should reject out-of-range API settings', async ({ page }) => {
+    // Bypass the browser's min/max check to exercise repository validation
+    await page.locator('form:has-text("Twitch API")').evaluate(form => form.setAttribute('novalidate', ''));
+    await page.fill('input[name="apiRetryAttempts"]', '50');
+    await page.click('button:has-text("Save API Settings")');
+
+    await expect(page.locator('text=Retry attempts must be a whole number between 0 and 5')).toBeVisible();
+  });
+
+  test('should restore defaults', async ({ page }) => {
+    await page.locator('input[name="debugLogging"]').check();
+    await page.locator('input[name="autoApply"]').check();
+
+    page.once('dialog', dialog => dialog.accept());
+    await page.click('button:has-text("Restore Defaults")');
+
+    await expect(page.locator('text=Settings restored to defaults')).toBeVisible();
+    await expect(page.locator('input[name="autoApply"]')).not.toBeChecked();
+    await expect(page.locator('input[name="apiTimeout"]')).toHaveValue('10000');
+  });
+});
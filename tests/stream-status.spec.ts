@@ -0,0 +1,79 @@
+import { test, expect } from '@playwright/test';
+
+/**
+ * Stream Status Tests
+ * Tests the go-live log and the settings that control applying a profile on stream start
+ */
+
+test.describe('Stream Status', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/');
+    await page.waitForSelector('h1:has-text("Stream Profiles")', { timeout: 10000 });
+  });
+
+  test('should show an empty go-live log', async ({ page }) => {
+    await page.goto('/schedule');
+    await expect(page.locator('h2:has-text("Stream Starts")')).toBeVisible();
+    await expect(page.locator('text=No stream starts have been seen yet')).toBeVisible();
+  });
+
+  test('should list recorded stream starts and ends', async ({ page }) => {
+    // Seed a go-live that applied the default profile, and the end of that stream
+    await page.evaluate(async () => {
+      const request = indexedDB.open('ScratchMyTwitchDB');
+
+      await new Promise<void>((resolve, reject) => {
+        request.onerror = () => reject(request.error);
+        request.onsuccess = () => {
+          const db = request.result;
+          const transaction = db.transaction(['streamEvents'], 'readwrite');
+          const store = transaction.objectStore('streamEvents');
+          const startedAt = new Date(Date.now() - 2 * 60 * 60 * 1000);
+
+          store.put({
+            id: 'stream-event-online',
+            type: 'online',
+            streamId: 'stream-1',
+            startedAt,
+            detectedAt: new Date(startedAt.getTime() + 30 * 1000),
+            profileId: 'profile-1',
+            profileName: 'Seeded Go-Live Profile',
+            profileSource: 'default',
+            applyStatus: 'applied'
+          });
+          store.put({
+            id: 'stream-event-offline',
+            type: 'offline',
+            streamId: 'stream-1',
+            startedAt,
+            detectedAt: new Date()
+          });
+          transaction.oncomplete = () => {
+            db.close();
+            resolve();
+          };
+        };
+      });
+    });
+
+    await page.goto('/schedule');
+
+    const events = page.locator('[data-testid="stream-event"]');
+    await expect(events).toHaveCount(2);
+    await expect(events.first()).toContainText('Went offline');
+
+    const online = events.filter({ hasText: 'Went live' });
+    await expect(online).toContainText('Seeded Go-Live Profile');
+    await expect(online).toContainText('(default)');
+    await expect(online.locator('text=applied')).toBeVisible();
+
+    await page.click('button:has-text("Clear log") >> nth=-1');
+    await expect(page.locator('text=No stream starts have been seen yet')).toBeVisible();
+  });
+
+  test('should describe the default profile as the go-live fallback', async ({ page }) => {
+    await page.goto('/settings');
+    await expect(page.locator('text=Applied when you go live outside a scheduled slot')).toBeVisible();
+    await expect(page.locator('text=Auto-apply profiles')).toBeVisible();
+  });
+});
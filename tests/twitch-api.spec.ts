@@ -0,0 +1,161 @@
+import { test, expect, type Page } from '@playwright/test';
+import { HelixMockServer } from './mocks/helixMockServer';
+
+/**
+ * Twitch API Tests
+ * Tests applies and category search against the mock Helix server, including retries,
+ * rate limits and expired sessions
+ */
+
+const ACCESS_TOKEN = 'mock-e2e-token';
+
+/**
+ * Store the access token the mock accepts
+ */
+const seedToken = async (page: Page, userId: string) => {
+  await page.evaluate(async ({ token, userId }) => {
+    const request = indexedDB.open('ScratchMyTwitchDB');
+
+    await new Promise<void>((resolve, reject) => {
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const db = request.result;
+        const transaction = db.transaction(['auth'], 'readwrite');
+        const now = new Date();
+
+        transaction.objectStore('auth').put({
+          key: 'token',
+          value: {
+            access_token: token,
+            token_type: 'bearer',
+            expires_in: 4 * 3600,
+            obtainedAt: now,
+            expiresAt: new Date(now.getTime() + 4 * 60 * 60 * 1000),
+            userId
+          },
+          updatedAt: now
+        });
+        transaction.oncomplete = () => {
+          db.close();
+          resolve();
+        };
+      };
+    });
+  }, { token: ACCESS_TOKEN, userId });
+};
+
+/**
+ * Create a profile in the Minecraft category, found through the mock's catalog
+ */
+const createProfile = async (page: Page, name: string, title: string) => {
+  await page.click('a:has-text("New Profile"), a:has-text("Create Profile")');
+  await page.fill('input[name="name"]', name);
+  await page.fill('input[name="title"]', title);
+
+  await page.locator('input[placeholder*="Search for a category" i]').fill('Minecraft');
+  await page.locator('button[role="option"]:has-text("Minecraft")').first().click();
+
+  await page.click('button[type="submit"]');
+  await page.waitForURL('/');
+};
+
+const applyProfile = async (page: Page, name: string) => {
+  await page.locator('article.scandi-card', { hasText: name }).locator('button:has-text("Apply Profile")').click();
+  await page.locator('[role="dialog"] button:has-text("fields")').click();
+};
+
+test.describe('Twitch API', () => {
+  let twitch: HelixMockServer;
+
+  test.beforeEach(async ({ page, context }) => {
+    twitch = new HelixMockServer();
+    twitch.registerToken(ACCESS_TOKEN);
+    await twitch.attach(context);
+
+    await page.goto('/');
+    await page.waitForSelector('h1:has-text("Stream Profiles")', { timeout: 10000 });
+    await seedToken(page, twitch.users[0].id);
+    await page.reload();
+    await expect(page.locator('text=MockBroadcaster')).toBeVisible();
+  });
+
+  test('should apply a profile to the channel', async ({ page }) => {
+    await createProfile(page, 'Block Building', 'Building a castle');
+    await applyProfile(page, 'Block Building');
+
+    await expect(page.locator('text=Applied "Block Building" to your stream')).toBeVisible();
+    expect(twitch.channel.title).toBe('Building a castle');
+    expect(twitch.channel.game_name).toBe('Minecraft');
+    expect(twitch.requests.every(request => request.authorization?.endsWith(ACCESS_TOKEN) ?? true)).toBe(true);
+  });
+
+  test('should retry server errors', async ({ page }) => {
+    await createProfile(page, 'Flaky Twitch', 'Third time lucky');
+    twitch.injectFault({ status: 503, path: '/helix/channels', method: 'PATCH', times: 2 });
+    await applyProfile(page, 'Flaky Twitch');
+
+    await expect(page.locator('text=Applied "Flaky Twitch" to your stream')).toBeVisible();
+    expect(twitch.channelUpdates).toHaveLength(3);
+    expect(twitch.channel.title).toBe('Third time lucky');
+  });
+
+  test('should wait for the rate limit to reset', async ({ page }) => {
+    await createProfile(page, 'Busy Channel', 'After the rate limit');
+    twitch.injectFault({ status: 429, path: '/helix/channels', method: 'PATCH', resetIn: 2 });
+    await applyProfile(page, 'Busy Channel');
+
+    await expect(page.locator('text=Applied "Busy Channel" to your stream')).toBeVisible({ timeout: 10000 });
+    expect(twitch.channelUpdates).toHaveLength(2);
+    expect(twitch.channel.title).toBe('After the rate limit');
+  });
+
+  test('should report invalid channel updates without retrying', async ({ page }) => {
+    await createProfile(page, 'Rejected Update', 'Twitch says no');
+    twitch.injectFault({ status: 400, path: '/helix/channels', method: 'PATCH' });
+    await applyProfile(page, 'Rejected Update');
+
+    await expect(page.locator('text=Injected failure')).toBeVisible();
+    expect(twitch.channelUpdates).toHaveLength(1);
+    expect(twitch.channel.title).toBe('Mock stream');
+  });
+
+  test('should ask to sign in again when Twitch rejects the token', async ({ page }) => {
+    await createProfile(page, 'Expired Session', 'Never sent');
+    twitch.expireToken(ACCESS_TOKEN);
+    await applyProfile(page, 'Expired Session');
+
+    await expect(page.locator('text=Sign in again to finish: Apply "Expired Session"')).toBeVisible();
+    expect(twitch.channel.title).toBe('Mock stream');
+  });
+
+  test('should pick up renamed categories', async ({ page }) => {
+    await createProfile(page, 'Renamed Game', 'Still building');
+    twitch.games.find(game => game.id === '27471')!.name = 'Minecraft: Java Edition';
+
+    // Categories are checked again when the app starts
+    await page.reload();
+
+    const card = page.locator('article.scandi-card', { hasText: 'Renamed Game' });
+    await expect(card.locator('text=Minecraft: Java Edition')).toBeVisible();
+    expect(twitch.requests.some(request => request.path === '/helix/games' && request.query.id?.includes('27471'))).toBe(true);
+  });
+
+  test('should flag removed categories and pick a replacement', async ({ page }) => {
+    await createProfile(page, 'Gone Game', 'Nothing to see');
+    twitch.games.splice(twitch.games.findIndex(game => game.id === '27471'), 1);
+    await page.reload();
+
+    const card = page.locator('article.scandi-card', { hasText: 'Gone Game' });
+    await expect(card.locator('[data-testid="category-missing"]')).toBeVisible();
+
+    await card.locator('button:has-text("Pick replacement")').click();
+    const dialog = page.locator('[data-testid="category-replacement-dialog"]');
+    await dialog.locator('input[placeholder*="Search for a category" i]').fill('Fortnite');
+    await dialog.locator('button[role="option"]:has-text("Fortnite")').first().click();
+    await dialog.locator('button:has-text("Use this category")').click();
+
+    await expect(dialog).not.toBeVisible();
+    await expect(card.locator('text=Fortnite')).toBeVisible();
+    await expect(card.locator('[data-testid="category-missing"]')).toHaveCount(0);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ApplyQueue } from '@/lib/sync/applyQueue';
+import { getTwitchAPI } from '@/lib/api/twitchAPI';
+import { getTwitchAuth } from '@/lib/auth/twitchAuth';
+import { getObsClient } from '@/lib/api/obsWebSocket';
+import { getPreferencesRepository } from '@/repositories/PreferencesRepository';
+import { getProfileRepository } from '@/repositories/ProfileRepository';
+import { getApplyQueueRepository } from '@/repositories/ApplyQueueRepository';
+import type { APIResult } from '@/lib/api/twitchAPI';
+import type { CreateProfileInput } from '@/types/Profile';
+
+/**
+ * Offline apply queue tests
+ */
+
+const input: CreateProfileInput = {
+  name: 'Co-stream',
+  category: { id: '27471', name: 'Minecraft' },
+  title: 'Building with friends',
+  tags: []
+};
+
+describe('ApplyQueue', () => {
+  it('sends a queued apply to the account it was queued for', async () => {
+    const profile = (await getProfileRepository().create(input)).data!;
+    const applyProfile = vi.fn(async (): Promise<APIResult<boolean>> => ({ success: true, data: true }));
+    const queue = new ApplyQueue({ applyProfile });
+
+    const queued = await queue.enqueue(profile, ['title'], 'alt-account');
+    expect(queued.data?.accountId).toBe('alt-account');
+
+    const outcomes = await queue.flush();
+
+    expect(outcomes).toMatchObject([{ status: 'applied' }]);
+    expect(applyProfile).toHaveBeenCalledWith(
+      expect.objectContaining({ id: profile.id }),
+      { fields: ['title'], accountId: 'alt-account' }
+    );
+    expect((await getApplyQueueRepository().getAll()).data).toEqual([]);
+  });
+
+  it('runs the profile\'s OBS actions when a queued apply is sent', async () => {
+    await getPreferencesRepository().update({ obsEnabled: true });
+    const profile = (await getProfileRepository().create({ ...input, obsActions: { scene: 'Gameplay' } })).data!;
+    const applyProfile = vi.spyOn(getTwitchAPI(), 'applyProfile').mockResolvedValue({ success: true, data: true });
+    const runActions = vi.spyOn(getObsClient(), 'runActions').mockResolvedValue({ success: true });
+    const queue = new ApplyQueue();
+
+    await queue.enqueue(profile);
+    await queue.flush();
+
+    expect(applyProfile).toHaveBeenCalledTimes(1);
+    expect(runActions).toHaveBeenCalledWith({ scene: 'Gameplay' });
+  });
+
+  it('pins the account an apply would go to when it is queued', async () => {
+    const profile = (await getProfileRepository().create(input)).data!;
+    vi.spyOn(getTwitchAuth(), 'getAccounts').mockResolvedValue([]);
+    const active = vi.spyOn(getTwitchAuth(), 'getActiveAccountId').mockResolvedValue('main');
+    const applyProfile = vi.fn(async (): Promise<APIResult<boolean>> => ({ success: true, data: true }));
+    const queue = new ApplyQueue({ applyProfile });
+
+    const queued = await queue.enqueue(profile);
+    // Switching accounts while offline doesn't redirect the apply
+    active.mockResolvedValue('alt');
+    await queue.flush();
+
+    expect(queued.data?.accountId).toBe('main');
+    expect(applyProfile).toHaveBeenCalledWith(expect.anything(), { fields: undefined, accountId: 'main' });
+  });
+
+  it('resolves conflicts only between applies for the same account', async () => {
+    const profiles = getProfileRepository();
+    const [first, second, third] = await Promise.all(['One', 'Two', 'Three'].map(async name =>
+      (await profiles.create({ ...input, name })).data!));
+    const queue = new ApplyQueue({ resolveAccountId: async (_profile, accountId) => accountId ?? 'main' });
+    const waiting = async () => ((await getApplyQueueRepository().getAll()).data ?? [])
+      .map(intent => `${intent.accountId}:${intent.profileName}`)
+      .sort();
+
+    await queue.enqueue(first);
+    await queue.enqueue(second, undefined, 'alt');
+    expect(await waiting()).toEqual(['alt:Two', 'main:One']);
+
+    // Last wins within the main channel only
+    await queue.enqueue(third);
+    expect(await waiting()).toEqual(['alt:Two', 'main:Three']);
+
+    // First wins refuses another main apply but still takes one for a new account
+    await getPreferencesRepository().update({ applyQueueConflictRule: 'first-wins' });
+    expect((await queue.enqueue(first)).error?.code).toBe('APPLY_ALREADY_QUEUED');
+    expect((await queue.enqueue(first, undefined, 'third')).success).toBe(true);
+    expect(await waiting()).toEqual(['alt:Two', 'main:Three', 'third:One']);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { CURRENT_BACKUP_VERSION, migrateBackup } from '@/lib/backup/backupMigrations';
+import { exportProfiles, parseProfileBackup } from '@/types/ProfileUtils';
+
+/**
+ * Backup format migration tests
+ */
+
+const profile = (overrides: Record<string, unknown> = {}) => ({
+  id: 'profile-1',
+  name: 'Evening',
+  category: { id: '509658', name: 'Just Chatting' },
+  title: 'Evening stream',
+  tags: ['cozy'],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides
+});
+
+describe('backupMigrations', () => {
+  it('exports in the current format', () => {
+    expect(JSON.parse(exportProfiles([])).version).toBe(CURRENT_BACKUP_VERSION);
+  });
+
+  it('takes a 1.0 backup through every step', () => {
+    const { backup, applied } = migrateBackup({ version: '1.0', profiles: [profile({ title: 'Stream {DAY}' })] });
+
+    expect(backup).toMatchObject({ version: '1.2', groups: [], profiles: [{ title: 'Stream {date:dddd}' }] });
+    expect(applied.map(step => step.split(':')[0])).toEqual(['1.0 → 1.1', '1.1 → 1.2']);
+  });
+
+  it('keeps groups, OBS actions and owners already in a 1.1 backup', () => {
+    const parsed = parseProfileBackup(JSON.stringify({
+      version: '1.1',
+      profiles: [profile({ groupId: 'group-1', ownerId: 'alt', obsActions: { scene: 'Gameplay' } })],
+      groups: [{ id: 'group-1', name: 'Games', sortOrder: 0, createdAt: '2025-01-01T00:00:00.000Z' }]
+    }));
+
+    expect(parsed.migrations).toHaveLength(1);
+    expect(parsed.groups).toMatchObject([{ id: 'group-1', name: 'Games' }]);
+    expect(parsed.profiles[0]).toMatchObject({ groupId: 'group-1', ownerId: 'alt', obsActions: { scene: 'Gameplay' } });
+  });
+});
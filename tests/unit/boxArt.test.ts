@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import { BOX_ART_CACHE, boxArtSources, boxArtUrlForScreen, cacheBoxArt, resolveBoxArtUrl } from '@/lib/categories/boxArt';
+
+/**
+ * Box art helper tests
+ */
+
+const TEMPLATE = 'https://static-cdn.jtvnw.net/ttv-boxart/27471_IGDB-{width}x{height}.jpg';
+const SIZED = 'https://static-cdn.jtvnw.net/ttv-boxart/509658-52x72.jpg';
+
+describe('boxArt', () => {
+  it('fills in templates and resizes already sized URLs', () => {
+    expect(resolveBoxArtUrl(TEMPLATE, 40, 56)).toBe('https://static-cdn.jtvnw.net/ttv-boxart/27471_IGDB-40x56.jpg');
+    expect(resolveBoxArtUrl(SIZED, 96, 128)).toBe('https://static-cdn.jtvnw.net/ttv-boxart/509658-96x128.jpg');
+    expect(resolveBoxArtUrl(undefined, 40, 56)).toBeUndefined();
+    expect(resolveBoxArtUrl('https://example.com/art.jpg', 40, 56)).toBeUndefined();
+  });
+
+  it('offers 1x, 2x and 3x sources and picks the one for the screen', () => {
+    expect(boxArtSources(TEMPLATE, { width: 40, height: 56 })).toEqual({
+      src: 'https://static-cdn.jtvnw.net/ttv-boxart/27471_IGDB-40x56.jpg',
+      srcSet: [
+        'https://static-cdn.jtvnw.net/ttv-boxart/27471_IGDB-40x56.jpg 1x',
+        'https://static-cdn.jtvnw.net/ttv-boxart/27471_IGDB-80x112.jpg 2x',
+        'https://static-cdn.jtvnw.net/ttv-boxart/27471_IGDB-120x168.jpg 3x'
+      ].join(', ')
+    });
+    expect(boxArtUrlForScreen(SIZED, { width: 48, height: 64 }, 1.5)).toBe('https://static-cdn.jtvnw.net/ttv-boxart/509658-96x128.jpg');
+    expect(boxArtUrlForScreen(SIZED, { width: 48, height: 64 }, 4)).toBe('https://static-cdn.jtvnw.net/ttv-boxart/509658-144x192.jpg');
+  });
+
+  it('stores box art that is not cached yet, once per image', async () => {
+    const stored = new Map<string, Response>([['https://static-cdn.jtvnw.net/ttv-boxart/509658-48x64.jpg', new Response('old')]]);
+    const cache = {
+      match: vi.fn(async (url: string) => stored.get(url)),
+      put: vi.fn(async (url: string, response: Response) => { stored.set(url, response); })
+    };
+    const open = vi.fn(async () => cache);
+    const fetchMock = vi.fn(async () => new Response('image'));
+    vi.stubGlobal('caches', { open });
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('devicePixelRatio', 1);
+
+    const added = await cacheBoxArt([
+      { id: '509658', name: 'Just Chatting', boxArtUrl: SIZED },
+      { id: '27471', name: 'Minecraft', boxArtUrl: TEMPLATE },
+      { id: '27471', name: 'Minecraft', boxArtUrl: TEMPLATE },
+      { id: 'manual', name: 'Manual entry' }
+    ], { width: 48, height: 64 });
+
+    expect(added).toBe(1);
+    expect(open).toHaveBeenCalledWith(BOX_ART_CACHE);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(fetchMock).toHaveBeenCalledWith('https://static-cdn.jtvnw.net/ttv-boxart/27471_IGDB-48x64.jpg', { mode: 'no-cors' });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getCategoryRepository } from '@/repositories/CategoryRepository';
+import { getProfileRepository } from '@/repositories/ProfileRepository';
+import { getHistoryRepository } from '@/repositories/HistoryRepository';
+import { getDB } from '@/lib/db/indexedDB';
+import { CACHE_SETTINGS, STORAGE_KEYS } from '@/types/constants';
+
+/**
+ * Category repository tests
+ */
+
+const addProfileFor = (category: { id: string; name: string }) => getProfileRepository().create({
+  name: `Playing ${category.name}`,
+  category,
+  title: category.name,
+  tags: []
+});
+
+const CATEGORIES = [
+  { id: '509658', name: 'Just Chatting' },
+  { id: '27471', name: 'Minecraft', boxArtUrl: 'https://static-cdn.jtvnw.net/ttv-boxart/27471-{width}x{height}.jpg' },
+  { id: '26936', name: 'Music' }
+];
+
+describe('CategoryRepository', () => {
+  it('caches categories and reads them back', async () => {
+    const repository = getCategoryRepository();
+    await repository.cacheCategories(CATEGORIES);
+
+    expect((await repository.getAll()).data).toHaveLength(3);
+    expect((await repository.getById('27471')).data).toEqual(CATEGORIES[1]);
+    expect((await repository.getById('missing')).error?.code).toBe('CATEGORY_NOT_FOUND');
+  });
+
+  it('searches the cache by name', async () => {
+    const repository = getCategoryRepository();
+    await repository.cacheCategories(CATEGORIES);
+
+    expect((await repository.searchCached('MU')).data?.map(category => category.name)).toEqual(['Music']);
+    expect((await repository.searchCached('i', 1)).data).toHaveLength(1);
+  });
+
+  it('searches fuzzily when signed out, including defaults, favouring recent applies', async () => {
+    const repository = getCategoryRepository();
+    await repository.cacheCategories([...CATEGORIES, { id: '1', name: 'Minecraft Dungeons' }]);
+
+    expect((await repository.search('GTA')).data?.map(category => category.name)).toEqual(['Grand Theft Auto V']);
+    expect((await repository.search('minecrfat')).data?.map(category => category.id)).toEqual(['27471', '1']);
+
+    await getHistoryRepository().record({
+      action: 'apply',
+      profileName: 'Dungeon night',
+      category: { id: '1', name: 'Minecraft Dungeons' },
+      title: 'Dungeon night',
+      tags: [],
+      request: { game_id: '1' },
+      success: true
+    });
+    expect((await repository.search('minecra')).data?.map(category => category.id)).toEqual(['1', '27471']);
+  });
+
+  it('needs a refresh when empty or older than the TTL', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-01T12:00:00Z'));
+    const repository = getCategoryRepository();
+
+    expect(await repository.needsRefresh()).toBe(true);
+
+    await repository.cache(CATEGORIES[0]);
+    expect(await repository.needsRefresh()).toBe(false);
+
+    vi.setSystemTime(Date.now() + CACHE_SETTINGS.CATEGORIES_TTL + 1);
+    expect(await repository.needsRefresh()).toBe(true);
+  });
+
+  it('reports cache statistics and clears the cache', async () => {
+    const repository = getCategoryRepository();
+    await repository.cacheCategories(CATEGORIES);
+
+    expect((await repository.getCacheStats()).data).toMatchObject({ totalCategories: 3, needsRefresh: false });
+
+    await repository.clearCache();
+    expect((await repository.getCacheStats()).data).toMatchObject({ totalCategories: 0, oldestCache: null });
+  });
+
+  it('expires entries one by one, keeping the ones profiles use', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-01T12:00:00Z'));
+    const repository = getCategoryRepository();
+    await addProfileFor(CATEGORIES[0]);
+    await repository.cacheCategories(CATEGORIES.slice(0, 2));
+
+    vi.setSystemTime(Date.now() + CACHE_SETTINGS.CATEGORIES_TTL / 2);
+    await repository.cache(CATEGORIES[2]);
+
+    vi.setSystemTime(Date.now() + CACHE_SETTINGS.CATEGORIES_TTL / 2 + 1);
+    expect(await repository.needsRefresh()).toBe(true);
+    expect((await repository.runMaintenance()).data).toEqual({ expired: 1, evicted: 0 });
+    expect((await repository.getAll()).data?.map(category => category.id)).toEqual(['26936', '509658']);
+    // The kept entry is the revalidator's to refresh, not a reason to refetch
+    expect(await repository.needsRefresh()).toBe(false);
+    expect((await repository.getCacheStats()).data).toMatchObject({ expiredCategories: 1, needsRefresh: false });
+  });
+
+  it('only counts picks as uses, not lookups', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-01T12:00:00Z'));
+    const repository = getCategoryRepository();
+    await repository.cache(CATEGORIES[0]);
+    const lastUsedAt = async () => (await (await getDB()).get<{ lastUsedAt: Date }>(STORAGE_KEYS.CATEGORIES_STORE, CATEGORIES[0].id))?.lastUsedAt;
+    const cachedAt = await lastUsedAt();
+
+    vi.setSystemTime(Date.now() + 1000);
+    await repository.getById(CATEGORIES[0].id);
+    expect(await lastUsedAt()).toEqual(cachedAt);
+
+    await repository.markUsed(CATEGORIES[0].id);
+    expect(await lastUsedAt()).toEqual(new Date('2025-03-01T12:00:01Z'));
+  });
+
+  it('evicts the least recently used entries past the cap', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2025-03-01T12:00:00Z'));
+    const repository = getCategoryRepository();
+    const filler = Array.from({ length: CACHE_SETTINGS.CATEGORIES_MAX_ENTRIES - 2 }, (_, i) => ({ id: `f${i}`, name: `Filler ${i}` }));
+
+    await addProfileFor(CATEGORIES[0]);
+    await repository.cacheCategories([CATEGORIES[0], CATEGORIES[1]]);
+    vi.setSystemTime(Date.now() + 1000);
+    await repository.cacheCategories(filler);
+    vi.setSystemTime(Date.now() + 1000);
+    await repository.markUsed('f0');
+    await repository.cacheCategories([CATEGORIES[2], { id: 'new', name: 'New Game' }]);
+
+    const ids = (await repository.getAll()).data?.map(category => category.id) ?? [];
+    expect(ids).toHaveLength(CACHE_SETTINGS.CATEGORIES_MAX_ENTRIES);
+    // Just Chatting is older but used by a profile; f0 was just picked
+    expect(ids).toEqual(expect.arrayContaining(['509658', 'f0', '26936', 'new']));
+    expect(ids).not.toContain('27471');
+  });
+
+  it('reads entries cached before expiry tracking', async () => {
+    const cachedAt = new Date(Date.now() - CACHE_SETTINGS.CATEGORIES_TTL - 1);
+    const db = await getDB();
+    await db.put(STORAGE_KEYS.CATEGORIES_STORE, { id: '21548', name: 'World of Warcraft', cachedAt, lastFetched: cachedAt });
+    const repository = getCategoryRepository();
+
+    expect((await repository.getById('21548')).data).toEqual({ id: '21548', name: 'World of Warcraft' });
+    expect(await repository.needsRefresh()).toBe(true);
+    expect((await repository.runMaintenance()).data).toEqual({ expired: 1, evicted: 0 });
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { CategoryRevalidator } from '@/lib/categories/categoryRevalidator';
+import { getProfileRepository } from '@/repositories/ProfileRepository';
+import { getCategoryRepository } from '@/repositories/CategoryRepository';
+import type { APIResult } from '@/lib/api/twitchAPI';
+import type { CreateProfileInput, StreamCategory } from '@/types/Profile';
+import type { TwitchGameResponse } from '@/types/TwitchAPI';
+
+/**
+ * Category revalidation tests, with the Twitch lookup stubbed
+ */
+
+const input = (name: string, category: StreamCategory): CreateProfileInput => ({
+  name,
+  category,
+  title: name,
+  tags: []
+});
+
+const game = (id: string, name: string, boxArt = ''): TwitchGameResponse => ({ id, name, box_art_url: boxArt, igdb_id: '' });
+
+const lookupReturning = (games: TwitchGameResponse[]) =>
+  vi.fn(async (): Promise<APIResult<TwitchGameResponse[]>> => ({ success: true, data: games }));
+
+const noSearchResults = lookupReturning([]);
+
+describe('CategoryRevalidator', () => {
+  it('copies renamed categories into profiles and the cache, and flags missing ones', async () => {
+    const profiles = getProfileRepository();
+    const renamed = await profiles.create(input('Blocks', { id: '27471', name: 'Minecraft' }));
+    const gone = await profiles.create(input('Retired', { id: '999', name: 'Old Game' }));
+    const manual = await profiles.create(input('Manual', { id: 'speedrunning', name: 'Speedrunning' }));
+    const lookupCategories = lookupReturning([game('27471', 'Minecraft: Java Edition', 'https://static-cdn.jtvnw.net/ttv-boxart/27471-{width}x{height}.jpg')]);
+
+    const result = await new CategoryRevalidator({ lookupCategories, searchCategories: noSearchResults }).revalidate();
+
+    // Hand-typed categories aren't Twitch IDs and are left alone
+    expect(lookupCategories).toHaveBeenCalledWith(expect.arrayContaining(['27471', '999']));
+    expect(result.data).toMatchObject({ checked: 2, missing: ['999'], updated: [{ id: '27471', name: 'Minecraft: Java Edition' }] });
+
+    const updated = (await profiles.getById(renamed.data!.id)).data!;
+    expect(updated.category).toMatchObject({ name: 'Minecraft: Java Edition', boxArtUrl: expect.stringContaining('27471') });
+    expect(updated.updatedAt).toEqual(renamed.data!.updatedAt);
+    expect((await profiles.getById(gone.data!.id)).data?.categoryMissing).toBe(true);
+    expect((await profiles.getById(manual.data!.id)).data?.categoryMissing).toBeUndefined();
+    expect((await getCategoryRepository().getById('27471')).data?.name).toBe('Minecraft: Java Edition');
+  });
+
+  it('offers the category Twitch now lists under a missing category\'s name', async () => {
+    const profiles = getProfileRepository();
+    const merged = await profiles.create(input('Monsters', { id: '1001', name: 'Monster Hunter' }));
+    const searchCategories = lookupReturning([game('1001', 'Monster Hunter'), game('2002', 'Monster Hunter Rise'), game('3003', 'monster hunter')]);
+
+    const result = await new CategoryRevalidator({ lookupCategories: lookupReturning([]), searchCategories }).revalidate();
+
+    expect(searchCategories).toHaveBeenCalledWith('Monster Hunter');
+    expect(result.data).toMatchObject({ missing: ['1001'], replacements: { '1001': { id: '3003', name: 'monster hunter' } } });
+    expect((await profiles.getById(merged.data!.id)).data).toMatchObject({
+      categoryMissing: true,
+      categoryReplacement: { id: '3003' }
+    });
+    expect((await getCategoryRepository().getById('3003')).success).toBe(true);
+
+    // Picking the offered category settles both
+    const replaced = await profiles.update(merged.data!.id, { id: merged.data!.id, category: { id: '3003', name: 'monster hunter' } });
+    expect(replaced.data).toMatchObject({ categoryMissing: undefined, categoryReplacement: undefined });
+  });
+
+  it('notifies subscribers only when profiles changed', async () => {
+    await getProfileRepository().create(input('Blocks', { id: '27471', name: 'Minecraft' }));
+    const revalidator = new CategoryRevalidator({ lookupCategories: lookupReturning([game('27471', 'Minecraft')]) });
+    const listener = vi.fn();
+    revalidator.subscribe(listener);
+
+    await revalidator.revalidate();
+    expect(listener).not.toHaveBeenCalled();
+
+    const flagging = new CategoryRevalidator({ lookupCategories: lookupReturning([]), searchCategories: noSearchResults });
+    flagging.subscribe(listener);
+    await flagging.revalidate();
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ missing: ['27471'] }));
+  });
+
+  it('leaves the lookups to the tab already revalidating', async () => {
+    await getProfileRepository().create(input('Blocks', { id: '27471', name: 'Minecraft' }));
+    vi.stubGlobal('navigator', { locks: { request: vi.fn(async (_name: string, _options: LockOptions, callback: (lock: Lock | null) => unknown) => callback(null)) } });
+    const lookupCategories = lookupReturning([]);
+
+    const result = await new CategoryRevalidator({ lookupCategories }).revalidate();
+
+    expect(lookupCategories).not.toHaveBeenCalled();
+    expect(result.data).toMatchObject({ checked: 0, profiles: [] });
+  });
+
+  it('leaves profiles untouched when Twitch cannot be reached', async () => {
+    const created = await getProfileRepository().create(input('Blocks', { id: '27471', name: 'Minecraft' }));
+    const lookupCategories = vi.fn(async (): Promise<APIResult<TwitchGameResponse[]>> => ({
+      success: false,
+      error: { code: 'AUTH_REQUIRED', message: 'Authentication required to look up categories' }
+    }));
+
+    const result = await new CategoryRevalidator({ lookupCategories }).revalidate();
+
+    expect(result.error?.code).toBe('AUTH_REQUIRED');
+    expect((await getProfileRepository().getById(created.data!.id)).data).toEqual(created.data);
+  });
+
+  it('clears the flag when a replacement category is picked', async () => {
+    const profiles = getProfileRepository();
+    const created = await profiles.create(input('Retired', { id: '999', name: 'Old Game' }));
+    await profiles.syncCategories(new Map([['999', null]]));
+
+    const replaced = await profiles.update(created.data!.id, { id: created.data!.id, category: { id: '33214', name: 'Fortnite' } });
+
+    expect(replaced.data).toMatchObject({ category: { id: '33214' }, categoryMissing: undefined });
+  });
+});
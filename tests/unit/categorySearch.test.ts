@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { buildCategoryIndex, buildCategoryUsage, searchCategoryIndex } from '@/lib/categories/categorySearch';
+
+/**
+ * Offline category search tests
+ */
+
+const CATEGORIES = [
+  { id: '509658', name: 'Just Chatting' },
+  { id: '27471', name: 'Minecraft' },
+  { id: '32982', name: 'Grand Theft Auto V' },
+  { id: '21779', name: 'League of Legends' },
+  { id: '511224', name: 'Apex Legends' },
+  { id: '1469308723', name: 'Software and Game Development' },
+  { id: '490100', name: 'Pokémon Legends: Arceus' }
+];
+
+const index = buildCategoryIndex(CATEGORIES);
+const names = (query: string, options = {}) => searchCategoryIndex(index, query, options).map(category => category.name);
+
+describe('categorySearch', () => {
+  it('matches unfinished names and word prefixes in any order', () => {
+    expect(names('minecra')).toEqual(['Minecraft']);
+    expect(names('leg lea')).toEqual(['League of Legends']);
+    expect(names('game dev')).toEqual(['Software and Game Development']);
+  });
+
+  it('ranks whole-name and prefix matches first, then shorter names', () => {
+    expect(names('legends')).toEqual(['Apex Legends', 'League of Legends', 'Pokémon Legends: Arceus']);
+    expect(names('apex')[0]).toBe('Apex Legends');
+  });
+
+  it('tolerates typos and ignores accents', () => {
+    expect(names('minecrfat')).toEqual(['Minecraft']);
+    expect(names('leauge')).toEqual(['League of Legends']);
+    expect(names('pokemon')).toEqual(['Pokémon Legends: Arceus']);
+    expect(names('xyzzy')).toEqual([]);
+  });
+
+  it('finds categories by nickname and initials', () => {
+    expect(names('GTA')).toEqual(['Grand Theft Auto V']);
+    expect(names('lol')).toEqual(['League of Legends']);
+    expect(names('jc')).toEqual(['Just Chatting']);
+  });
+
+  it('lifts categories the user applied recently', () => {
+    const now = new Date('2025-03-01T12:00:00Z').getTime();
+    const usage = buildCategoryUsage([
+      { category: CATEGORIES[4], appliedAt: new Date(now - 60 * 60 * 1000) },
+      { category: CATEGORIES[4], appliedAt: new Date(now - 2 * 24 * 60 * 60 * 1000) }
+    ]);
+
+    expect(usage.get('511224')).toEqual({ count: 2, lastUsedAt: new Date(now - 60 * 60 * 1000) });
+    expect(names('legends', { usage, now })[0]).toBe('Apex Legends');
+  });
+
+  it('keeps results matched elsewhere and respects the limit', () => {
+    expect(names('speedrun', { keep: new Set(['27471']) })).toEqual(['Minecraft']);
+    expect(names('e', { limit: 2 })).toHaveLength(2);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HelixClient, HelixError, errorCodeForStatus } from '@/lib/api/helixClient';
+import { ERROR_CODES } from '@/types/constants';
+
+/**
+ * Helix HTTP client tests, with an injected fetch and a fake clock
+ */
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers });
+
+/**
+ * Client answering each request with the next response, on a clock that
+ * only moves when the client sleeps
+ */
+const createClient = (responses: Array<Response | Error>, requestsPerMinute = 50) => {
+  let clock = Date.UTC(2025, 2, 1);
+  const sleeps: number[] = [];
+  const fetchMock = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error('Unexpected request');
+    if (next instanceof Error) throw next;
+    return next;
+  });
+
+  const client = new HelixClient({
+    fetch: fetchMock,
+    baseUrl: 'https://helix.test',
+    clientId: 'client-1',
+    requestsPerMinute,
+    now: () => clock,
+    sleep: async ms => {
+      sleeps.push(ms);
+      clock += ms;
+    },
+    random: () => 0.5
+  });
+
+  return { client, fetchMock, sleeps, now: () => clock };
+};
+
+describe('HelixClient', () => {
+  it('sends the Client-Id, token and query', async () => {
+    const { client, fetchMock } = createClient([json({ data: [] })]);
+
+    await client.get('/games', { token: 'access-1', query: { id: ['1', '2'], name: undefined } });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://helix.test/games?id=1&id=2');
+    expect(init.headers).toEqual({ 'Client-Id': 'client-1', Authorization: 'Bearer access-1' });
+  });
+
+  it('returns the body, status and rate limit', async () => {
+    const { client } = createClient([
+      json({ data: [1] }, 200, { 'Ratelimit-Limit': '800', 'Ratelimit-Remaining': '10', 'Ratelimit-Reset': '1740787200' })
+    ]);
+
+    await expect(client.get('/users')).resolves.toEqual({
+      status: 200,
+      data: { data: [1] },
+      rateLimit: { limit: 800, remaining: 10, reset: 1740787200 }
+    });
+  });
+
+  it('retries 5xx and network errors with growing, jittered delays', async () => {
+    const { client, fetchMock, sleeps } = createClient([
+      json({}, 502),
+      new TypeError('Failed to fetch'),
+      json({ data: [] })
+    ]);
+
+    await client.get('/streams', { retries: 3 });
+
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    // 1s then 2s backoff, halfway between half and the full delay
+    expect(sleeps).toEqual([750, 1500]);
+  });
+
+  it('gives up after the configured retries', async () => {
+    const { client, fetchMock } = createClient([json({}, 500), json({}, 500), json({ message: 'Still down' }, 500)]);
+
+    await expect(client.get('/streams', { retries: 2 })).rejects.toMatchObject({
+      code: ERROR_CODES.API_ERROR,
+      status: 500,
+      message: 'Still down'
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits for Ratelimit-Reset after a 429', async () => {
+    const start = Date.UTC(2025, 2, 1);
+    const reset = start / 1000 + 3;
+    const { client, sleeps } = createClient([
+      json({ message: 'Too Many Requests' }, 429, { 'Ratelimit-Limit': '800', 'Ratelimit-Remaining': '0', 'Ratelimit-Reset': String(reset) }),
+      new Response(null, { status: 204 })
+    ]);
+
+    const result = await client.patch('/channels', { title: 'Hi' }, { retries: 1 });
+
+    expect(result.status).toBe(204);
+    expect(sleeps).toEqual([3000]);
+  });
+
+  it('does not retry client errors', async () => {
+    const { client, fetchMock } = createClient([json({ message: 'Invalid OAuth token' }, 401)]);
+
+    const error = await client.get('/users', { retries: 3 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(HelixError);
+    expect(error).toMatchObject({ code: ERROR_CODES.AUTH_FAILED, status: 401, isRetryable: false });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('maps timeouts to TIMEOUT_ERROR', async () => {
+    const timeout = new DOMException('The operation timed out.', 'TimeoutError');
+    const { client } = createClient([timeout]);
+
+    await expect(client.get('/users', { retries: 0 })).rejects.toMatchObject({ code: ERROR_CODES.TIMEOUT_ERROR });
+  });
+
+  it('paces requests with a token bucket', async () => {
+    const { client, sleeps } = createClient([json({}), json({}), json({})], 2);
+
+    await client.get('/a');
+    await client.get('/b');
+    expect(sleeps).toEqual([]);
+
+    await client.get('/c');
+    expect(sleeps).toEqual([30000]);
+  });
+
+  it('maps statuses into ERROR_CODES', () => {
+    expect(errorCodeForStatus(400)).toBe(ERROR_CODES.VALIDATION_ERROR);
+    expect(errorCodeForStatus(401)).toBe(ERROR_CODES.AUTH_FAILED);
+    expect(errorCodeForStatus(403)).toBe(ERROR_CODES.INSUFFICIENT_SCOPES);
+    expect(errorCodeForStatus(429)).toBe(ERROR_CODES.RATE_LIMITED);
+    expect(errorCodeForStatus(503)).toBe(ERROR_CODES.API_ERROR);
+  });
+});
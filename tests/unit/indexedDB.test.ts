@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { IndexedDBWrapper, getDB } from '@/lib/db/indexedDB';
+import { STORAGE_KEYS } from '@/types/constants';
+
+/**
+ * IndexedDB wrapper tests
+ */
+
+const PROFILES = STORAGE_KEYS.PROFILES_STORE;
+
+const profileRecord = (id: string, name = `Profile ${id}`) => ({
+  id,
+  name,
+  category: { id: '509658', name: 'Just Chatting' },
+  title: name,
+  tags: [],
+  createdAt: new Date(),
+  updatedAt: new Date()
+});
+
+describe('IndexedDBWrapper', () => {
+  it('refuses to read before init()', async () => {
+    const db = new IndexedDBWrapper();
+
+    expect(db.isReady()).toBe(false);
+    await expect(db.getAll(PROFILES)).rejects.toThrow('Database not initialized');
+  });
+
+  it('creates every store of the latest schema', async () => {
+    const db = new IndexedDBWrapper();
+    await db.init();
+
+    const stores = Object.entries(STORAGE_KEYS)
+      .filter(([key]) => key.endsWith('_STORE'))
+      .map(([, name]) => name);
+
+    for (const store of stores) {
+      await expect(db.getAll(store)).resolves.toEqual([]);
+    }
+    db.close();
+  });
+
+  it('adds, reads, replaces and deletes records', async () => {
+    const db = new IndexedDBWrapper();
+    await db.init();
+
+    await db.add(PROFILES, profileRecord('a'));
+    await db.add(PROFILES, profileRecord('b'));
+    expect(await db.get(PROFILES, 'a')).toMatchObject({ name: 'Profile a' });
+    expect(await db.getAll(PROFILES)).toHaveLength(2);
+
+    await db.put(PROFILES, profileRecord('a', 'Renamed'));
+    expect(await db.get(PROFILES, 'a')).toMatchObject({ name: 'Renamed' });
+
+    await db.delete(PROFILES, 'a');
+    expect(await db.get(PROFILES, 'a')).toBeUndefined();
+
+    await db.clear(PROFILES);
+    expect(await db.getAll(PROFILES)).toEqual([]);
+    db.close();
+  });
+
+  it('rejects adding a record whose key exists', async () => {
+    const db = new IndexedDBWrapper();
+    await db.init();
+
+    await db.add(PROFILES, profileRecord('a'));
+    await expect(db.add(PROFILES, profileRecord('a'))).rejects.toMatchObject({ name: 'ConstraintError' });
+    db.close();
+  });
+
+  it('reads records by index', async () => {
+    const db = new IndexedDBWrapper();
+    await db.init();
+
+    await db.add(PROFILES, profileRecord('a', 'Coding'));
+    await db.add(PROFILES, profileRecord('b', 'Art'));
+
+    const matches = await db.getAllByIndex<{ id: string }>(PROFILES, 'name', 'Art');
+    expect(matches.map(profile => profile.id)).toEqual(['b']);
+    db.close();
+  });
+});
+
+describe('getDB', () => {
+  it('shares one connection', async () => {
+    const [first, second] = await Promise.all([getDB(), getDB()]);
+
+    expect(first).toBe(second);
+    expect(first.isReady()).toBe(true);
+  });
+});
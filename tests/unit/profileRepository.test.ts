@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { getProfileRepository } from '@/repositories/ProfileRepository';
+import { ERROR_CODES } from '@/types/constants';
+import type { CreateProfileInput } from '@/types/Profile';
+
+/**
+ * Profile repository tests
+ */
+
+const input = (overrides: Partial<CreateProfileInput> = {}): CreateProfileInput => ({
+  name: 'Morning Pages',
+  description: 'Daily journaling',
+  category: { id: '509658', name: 'Just Chatting' },
+  title: 'Morning Pages - {DAY}',
+  tags: ['journaling', 'morning'],
+  ...overrides
+});
+
+describe('ProfileRepository', () => {
+  it('creates and reads back a profile', async () => {
+    const repository = getProfileRepository();
+
+    const created = await repository.create(input());
+    expect(created.success).toBe(true);
+
+    const loaded = await repository.getById(created.data!.id);
+    expect(loaded.data).toMatchObject({ name: 'Morning Pages', tags: ['journaling', 'morning'] });
+    expect(loaded.data!.createdAt).toBeInstanceOf(Date);
+  });
+
+  it('rejects invalid profiles with the validation errors', async () => {
+    const result = await getProfileRepository().create(input({ name: ' ', tags: ['no!'] }));
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ERROR_CODES.VALIDATION_ERROR);
+    expect(result.error?.message).toContain('Profile name is required');
+    expect(result.error?.message).toContain('Tag "no!" contains invalid characters');
+  });
+
+  it('stores tags cleaned up to Twitch\'s rules', async () => {
+    const repository = getProfileRepository();
+
+    const created = await repository.create(input({ tags: ['#Speed Run', 'speedrun', ' Español '] }));
+    expect(created.data?.tags).toEqual(['SpeedRun', 'Español']);
+
+    const updated = await repository.update(created.data!.id, { tags: ['late night', 'co-op'] });
+    expect(updated.data?.tags).toEqual(['latenight', 'coop']);
+  });
+
+  it('rejects duplicate names, ignoring case', async () => {
+    const repository = getProfileRepository();
+    await repository.create(input());
+
+    const result = await repository.create(input({ name: 'morning pages ' }));
+    expect(result.error?.code).toBe('DUPLICATE_NAME');
+  });
+
+  it('updates only the given fields', async () => {
+    const repository = getProfileRepository();
+    const created = await repository.create(input());
+
+    const updated = await repository.update(created.data!.id, { title: 'Evening Pages' });
+    expect(updated.data).toMatchObject({ name: 'Morning Pages', title: 'Evening Pages' });
+
+    const renamed = await repository.create(input({ name: 'Coding' }));
+    const clash = await repository.update(renamed.data!.id, { name: 'Morning Pages' });
+    expect(clash.error?.code).toBe('DUPLICATE_NAME');
+  });
+
+  it('clears channel settings given as undefined and keeps ones left out', async () => {
+    const repository = getProfileRepository();
+    const created = await repository.create(input({
+      language: 'en',
+      contentClassificationLabels: ['ViolentGraphic'],
+      isBrandedContent: true
+    }));
+    const id = created.data!.id;
+
+    const retitled = await repository.update(id, { id, title: 'Evening Pages' });
+    expect(retitled.data).toMatchObject({ language: 'en', contentClassificationLabels: ['ViolentGraphic'], isBrandedContent: true });
+
+    const cleared = await repository.update(id, {
+      id,
+      language: undefined,
+      contentClassificationLabels: undefined,
+      isBrandedContent: undefined
+    });
+    expect(cleared.success).toBe(true);
+    expect((await repository.getById(id)).data).toMatchObject({
+      language: undefined,
+      contentClassificationLabels: undefined,
+      isBrandedContent: undefined
+    });
+  });
+
+  it('keeps required fields given as undefined', async () => {
+    const repository = getProfileRepository();
+    const created = await repository.create(input());
+    const id = created.data!.id;
+
+    const updated = await repository.update(id, { id, name: undefined, title: undefined, category: undefined, tags: undefined });
+
+    expect(updated.success).toBe(true);
+    expect((await repository.getById(id)).data).toMatchObject({
+      name: 'Morning Pages',
+      title: 'Morning Pages - {DAY}',
+      category: { id: '509658', name: 'Just Chatting' },
+      tags: ['journaling', 'morning']
+    });
+  });
+
+  it('deletes profiles and reports missing ones', async () => {
+    const repository = getProfileRepository();
+    const created = await repository.create(input());
+
+    expect((await repository.delete(created.data!.id)).success).toBe(true);
+    expect((await repository.getById(created.data!.id)).error?.code).toBe('PROFILE_NOT_FOUND');
+    expect((await repository.delete(created.data!.id)).error?.code).toBe('PROFILE_NOT_FOUND');
+  });
+
+  it('searches, filters by category and counts', async () => {
+    const repository = getProfileRepository();
+    await repository.create(input());
+    await repository.create(input({ name: 'Coding', description: 'Building things', category: { id: '1469308723', name: 'Software and Game Development' } }));
+
+    expect((await repository.search('build')).data?.map(profile => profile.name)).toEqual(['Coding']);
+    expect((await repository.getByCategory('509658')).data?.map(profile => profile.name)).toEqual(['Morning Pages']);
+    expect((await repository.getCount()).data).toBe(2);
+  });
+
+  it('advances title counters without touching updatedAt', async () => {
+    const repository = getProfileRepository();
+    const created = await repository.create(input({ title: 'Devlog #{episode}', counters: { episode: 4 } }));
+
+    const result = await repository.incrementCounters(created.data!.id, ['episode', 'bugs']);
+    expect(result.data?.counters).toEqual({ episode: 5, bugs: 2 });
+    expect(result.data?.updatedAt).toEqual(created.data!.updatedAt);
+  });
+});
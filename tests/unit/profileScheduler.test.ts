@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ProfileScheduler, type SchedulerClock } from '@/lib/scheduler/profileScheduler';
+import { getProfileRepository } from '@/repositories/ProfileRepository';
+import { getScheduleRepository } from '@/repositories/ScheduleRepository';
+import type { APIResult } from '@/lib/api/twitchAPI';
+import type { DayOfWeek } from '@/types/Schedule';
+
+/**
+ * Profile scheduler tests, on a frozen clock
+ */
+
+const SLOT_START = new Date(2026, 9, 19, 18, 0);
+
+const clockAt = (now: Date): SchedulerClock => ({
+  now: () => now,
+  setInterval: () => null,
+  clearInterval: () => undefined
+});
+
+/**
+ * Web Locks stand-in where the lock is either free or held by another tab
+ */
+const stubLocks = (heldElsewhere: boolean) => {
+  const request = vi.fn(async (name: string, _options: LockOptions, callback: (lock: Lock | null) => unknown) =>
+    callback(heldElsewhere ? null : { name, mode: 'exclusive' } as Lock));
+  vi.stubGlobal('navigator', { locks: { request } });
+  return request;
+};
+
+/**
+ * A profile with a slot starting at SLOT_START, auto-apply on and last checked just before
+ */
+const scheduleSlot = async () => {
+  const profile = (await getProfileRepository().create({
+    name: 'Evening',
+    category: { id: '509658', name: 'Just Chatting' },
+    title: 'Evening stream',
+    tags: []
+  })).data!;
+  const schedule = getScheduleRepository();
+  await schedule.createSlot({ dayOfWeek: SLOT_START.getDay() as DayOfWeek, startTime: '18:00', profileId: profile.id });
+  await schedule.saveAutoApplySettings({ autoApply: true });
+  await schedule.setLastCheckedAt(new Date(SLOT_START.getTime() - 60 * 1000));
+  return profile;
+};
+
+describe('ProfileScheduler', () => {
+  it('applies a due slot while holding the check lock', async () => {
+    const profile = await scheduleSlot();
+    const request = stubLocks(false);
+    const applyProfile = vi.fn(async (): Promise<APIResult<boolean>> => ({ success: true, data: true }));
+    const scheduler = new ProfileScheduler({ clock: clockAt(new Date(SLOT_START.getTime() + 30 * 1000)), applyProfile });
+
+    const runs = await scheduler.check();
+
+    expect(request).toHaveBeenCalledWith('profile-scheduler-check', { ifAvailable: true }, expect.any(Function));
+    expect(runs).toMatchObject([{ profileId: profile.id, status: 'applied' }]);
+    expect(applyProfile).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves due slots to the tab already checking', async () => {
+    await scheduleSlot();
+    stubLocks(true);
+    const applyProfile = vi.fn(async (): Promise<APIResult<boolean>> => ({ success: true, data: true }));
+    const scheduler = new ProfileScheduler({ clock: clockAt(new Date(SLOT_START.getTime() + 30 * 1000)), applyProfile });
+
+    const runs = await scheduler.check();
+
+    expect(runs).toEqual([]);
+    expect(applyProfile).not.toHaveBeenCalled();
+    expect((await getScheduleRepository().getRuns()).data).toEqual([]);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { validateProfile, processTitle, processProfileTitle } from '@/types/ProfileUtils';
+import { PROFILE_VALIDATION_ERRORS, type CreateProfileInput } from '@/types/Profile';
+
+/**
+ * Profile validation and title processing tests
+ */
+
+const input = (overrides: Partial<CreateProfileInput> = {}): CreateProfileInput => ({
+  name: 'Coding',
+  category: { id: '1469308723', name: 'Software and Game Development' },
+  title: 'Building things',
+  tags: ['coding'],
+  ...overrides
+});
+
+const errorCodes = (overrides: Partial<CreateProfileInput>) =>
+  validateProfile(input(overrides)).errors.map(error => error.code);
+
+describe('validateProfile', () => {
+  it('accepts a complete profile', () => {
+    expect(validateProfile(input())).toEqual({ isValid: true, errors: [] });
+  });
+
+  it('requires a name, title and category', () => {
+    expect(errorCodes({ name: '', title: '  ', category: { id: '', name: '' } })).toEqual([
+      PROFILE_VALIDATION_ERRORS.NAME_REQUIRED,
+      PROFILE_VALIDATION_ERRORS.TITLE_REQUIRED,
+      PROFILE_VALIDATION_ERRORS.CATEGORY_REQUIRED
+    ]);
+  });
+
+  it('enforces Twitch length limits', () => {
+    expect(errorCodes({ name: 'n'.repeat(101) })).toEqual([PROFILE_VALIDATION_ERRORS.NAME_TOO_LONG]);
+    expect(errorCodes({ title: 't'.repeat(141) })).toEqual([PROFILE_VALIDATION_ERRORS.TITLE_TOO_LONG]);
+    expect(errorCodes({ title: 't'.repeat(140) })).toEqual([]);
+  });
+
+  it('checks tag count, length and characters', () => {
+    expect(errorCodes({ tags: Array.from({ length: 11 }, (_, i) => `tag${i}`) })).toEqual([PROFILE_VALIDATION_ERRORS.TAGS_TOO_MANY]);
+    expect(errorCodes({ tags: ['t'.repeat(26)] })).toEqual([PROFILE_VALIDATION_ERRORS.TAG_TOO_LONG]);
+    expect(errorCodes({ tags: ['c++'] })).toEqual([PROFILE_VALIDATION_ERRORS.TAG_INVALID_CHARS]);
+  });
+
+  it('reports broken title templates', () => {
+    const result = validateProfile(input({ title: 'Day {if weekend}off' }));
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors[0].code).toBe(PROFILE_VALIDATION_ERRORS.TITLE_TEMPLATE_INVALID);
+  });
+
+  it('checks languages, labels, variables and counters', () => {
+    expect(errorCodes({ language: 'xx' })).toEqual([PROFILE_VALIDATION_ERRORS.LANGUAGE_INVALID]);
+    expect(errorCodes({ contentClassificationLabels: ['MatureGame' as never] })).toEqual([PROFILE_VALIDATION_ERRORS.CLASSIFICATION_LABEL_INVALID]);
+    expect(errorCodes({ variables: { 'guest name': 'Sam' } })).toEqual([PROFILE_VALIDATION_ERRORS.VARIABLE_NAME_INVALID]);
+    expect(errorCodes({ counters: { episode: -1 } })).toEqual([PROFILE_VALIDATION_ERRORS.COUNTER_INVALID]);
+  });
+});
+
+describe('processTitle', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // A Saturday
+    vi.setSystemTime(new Date('2025-03-01T18:30:00Z'));
+  });
+
+  it('fills in the legacy date placeholders from the current time', () => {
+    const result = processTitle('{DAY} stream {YYYY-MM-DD}', { timeZone: 'UTC' });
+
+    expect(result.processed).toBe('Saturday stream 2025-03-01');
+    expect(result.replacements).toEqual({ '{DAY}': 'Saturday', '{YYYY-MM-DD}': '2025-03-01' });
+  });
+
+  it('formats dates in the requested time zone', () => {
+    expect(processTitle('{date:dddd HH:mm@Asia/Tokyo}').processed).toBe('Sunday 03:30');
+  });
+
+  it('renders conditions against the current time', () => {
+    expect(processTitle('{if weekend}Weekend{else}Weekday{/if} vibes', { timeZone: 'UTC' }).processed).toBe('Weekend vibes');
+
+    vi.setSystemTime(new Date('2025-03-03T18:30:00Z'));
+    expect(processTitle('{if weekend}Weekend{else}Weekday{/if} vibes', { timeZone: 'UTC' }).processed).toBe('Weekday vibes');
+  });
+
+  it('uses the profile variables and counters', () => {
+    const result = processProfileTitle({
+      title: 'Devlog #{episode} with {var:guest}',
+      variables: { guest: 'Sam' },
+      counters: { episode: 12 }
+    });
+
+    expect(result.processed).toBe('Devlog #12 with Sam');
+    expect(result.counters).toEqual(['episode']);
+  });
+
+  it('names the other channels of a co-stream', () => {
+    expect(processTitle('Collab with {partner}', { partners: ['Alt', 'Guest'] }).processed).toBe('Collab with Alt & Guest');
+    expect(processTitle('Collab with {partner}').processed).toBe('Collab with {partner}');
+  });
+
+  it('leaves titles without placeholders alone', () => {
+    expect(processTitle('Just coding')).toMatchObject({ processed: 'Just coding', replacements: {}, counters: [] });
+  });
+});
@@ -0,0 +1,19 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { afterEach, vi } from 'vitest';
+import { resetDB } from '@/lib/db/indexedDB';
+import { resetAllRepositories } from '@/repositories';
+import { resetChangeBus } from '@/lib/sync/changeBus';
+
+/**
+ * Every test starts with an empty database and fresh repository instances
+ */
+afterEach(() => {
+  resetDB();
+  resetAllRepositories();
+  resetChangeBus();
+  globalThis.indexedDB = new IDBFactory();
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import { StreamStatusPoller, type PollerClock } from '@/lib/stream/streamStatusPoller';
+import { getProfileRepository } from '@/repositories/ProfileRepository';
+import { getPreferencesRepository, resetPreferencesRepository } from '@/repositories/PreferencesRepository';
+import { getStreamEventRepository } from '@/repositories/StreamEventRepository';
+import type { APIResult } from '@/lib/api/twitchAPI';
+import type { TwitchStreamResponse } from '@/types/TwitchAPI';
+
+/**
+ * Stream status poller tests, on a frozen clock with the stream stubbed
+ */
+
+const NOW = new Date(2026, 9, 19, 18, 5);
+
+const clock: PollerClock = {
+  now: () => NOW,
+  setTimeout: () => null,
+  clearTimeout: () => undefined
+};
+
+const STREAM = {
+  id: 'stream-1',
+  title: 'Evening stream',
+  game_name: 'Just Chatting',
+  viewer_count: 3,
+  started_at: new Date(NOW.getTime() - 60 * 1000).toISOString()
+} as TwitchStreamResponse;
+
+const getStream = async (): Promise<APIResult<TwitchStreamResponse | null>> => ({ success: true, data: STREAM });
+
+/**
+ * Web Locks stand-in that runs holders of the same lock one after another
+ */
+const stubLocks = () => {
+  const held = new Map<string, Promise<unknown>>();
+  const request = vi.fn((name: string, callback: () => Promise<unknown>) => {
+    const result = (held.get(name) ?? Promise.resolve()).then(callback);
+    held.set(name, result.catch(() => undefined));
+    return result;
+  });
+  vi.stubGlobal('navigator', { locks: { request } });
+};
+
+/**
+ * Save auto-apply with a default profile
+ */
+const enableAutoApply = async () => {
+  const profile = (await getProfileRepository().create({
+    name: 'Evening',
+    category: { id: '509658', name: 'Just Chatting' },
+    title: 'Evening stream',
+    tags: []
+  })).data!;
+  await getPreferencesRepository().update({ autoApply: true, defaultProfileId: profile.id });
+  return profile;
+};
+
+describe('StreamStatusPoller', () => {
+  it('reads auto-apply from storage rather than the not yet loaded preferences', async () => {
+    const profile = await enableAutoApply();
+    // A freshly opened app only has the defaults in memory
+    resetPreferencesRepository();
+    const applyProfile = vi.fn(async (): Promise<APIResult<boolean>> => ({ success: true, data: true }));
+
+    await new StreamStatusPoller({ clock, getStream, applyProfile }).check();
+
+    expect(applyProfile).toHaveBeenCalledWith(expect.objectContaining({ id: profile.id }));
+    expect((await getStreamEventRepository().getLastOnlineEvent()).data).toMatchObject({
+      streamId: 'stream-1',
+      applyStatus: 'applied',
+      profileSource: 'default'
+    });
+  });
+
+  it('applies a new stream once when several tabs see it go live', async () => {
+    await enableAutoApply();
+    stubLocks();
+    const applyProfile = vi.fn(async (): Promise<APIResult<boolean>> => ({ success: true, data: true }));
+
+    await Promise.all([
+      new StreamStatusPoller({ clock, getStream, applyProfile }).check(),
+      new StreamStatusPoller({ clock, getStream, applyProfile }).check()
+    ]);
+
+    expect(applyProfile).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,320 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getTwitchAPI, isAuthError, isNetworkError } from '@/lib/api/twitchAPI';
+import { getTwitchAuth } from '@/lib/auth/twitchAuth';
+import { getHistoryRepository } from '@/repositories/HistoryRepository';
+import { getPreferencesRepository } from '@/repositories/PreferencesRepository';
+import { getCategoryRepository } from '@/repositories/CategoryRepository';
+import { ERROR_CODES } from '@/types/constants';
+import type { StoredAuthToken, TwitchUserResponse, LinkedAccount } from '@/types/TwitchAPI';
+import type { StreamProfile } from '@/types/Profile';
+
+/**
+ * Twitch API client tests, with fetch mocked
+ */
+
+const USER = {
+  id: 'broadcaster-1',
+  login: 'streamer',
+  display_name: 'Streamer',
+  profile_image_url: ''
+} as TwitchUserResponse;
+
+const TOKEN = {
+  access_token: 'access-1',
+  token_type: 'bearer',
+  expires_in: 3600,
+  obtainedAt: new Date(),
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  userId: USER.id
+} as StoredAuthToken;
+
+const CHANNEL = {
+  broadcaster_id: USER.id,
+  broadcaster_login: USER.login,
+  broadcaster_name: USER.display_name,
+  broadcaster_language: 'en',
+  game_id: '509658',
+  game_name: 'Just Chatting',
+  title: 'Before',
+  delay: 0,
+  tags: ['old'],
+  content_classification_labels: [],
+  is_branded_content: false
+};
+
+const PROFILE: StreamProfile = {
+  id: 'profile-1',
+  name: 'Minecraft',
+  category: { id: '27471', name: 'Minecraft' },
+  title: 'Building a castle',
+  tags: ['survival'],
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+/**
+ * Mock fetch answering each request with the next response
+ */
+const mockFetch = (...responses: Array<Response | Error>) => {
+  const fetchMock = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error('Unexpected request');
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const requestAt = (fetchMock: ReturnType<typeof mockFetch>, index: number) => {
+  const [url, init] = fetchMock.mock.calls[index] as unknown as [string, RequestInit];
+  return { url, init, headers: init.headers as Record<string, string> };
+};
+
+describe('TwitchAPIClient', () => {
+  beforeEach(async () => {
+    await getPreferencesRepository().update({ apiRetryDelay: 0, apiRetryAttempts: 2 });
+    vi.spyOn(getTwitchAuth(), 'getValidToken').mockResolvedValue(TOKEN);
+    vi.spyOn(getTwitchAuth(), 'getCurrentUser').mockResolvedValue(USER);
+  });
+
+  it('applies a profile and records it with the previous channel state', async () => {
+    const fetchMock = mockFetch(
+      json({ data: [CHANNEL] }),
+      new Response(null, { status: 204, headers: { 'Ratelimit-Limit': '800', 'Ratelimit-Remaining': '799', 'Ratelimit-Reset': '1740000000' } })
+    );
+
+    const result = await getTwitchAPI().applyProfile(PROFILE);
+
+    expect(result).toMatchObject({ success: true, rateLimit: { limit: 800, remaining: 799 } });
+
+    const patch = requestAt(fetchMock, 1);
+    expect(patch.url).toBe(`https://api.twitch.tv/helix/channels?broadcaster_id=${USER.id}`);
+    expect(patch.init.method).toBe('PATCH');
+    expect(patch.headers).toMatchObject({ Authorization: 'Bearer access-1', 'Content-Type': 'application/json' });
+    expect(JSON.parse(patch.init.body as string)).toEqual({ game_id: '27471', title: 'Building a castle', tags: ['survival'] });
+
+    const history = await getHistoryRepository().getAll();
+    expect(history.data?.[0]).toMatchObject({
+      action: 'apply',
+      profileName: 'Minecraft',
+      success: true,
+      previousState: { title: 'Before', category: { id: '509658' } }
+    });
+  });
+
+  it('only sends the chosen fields', async () => {
+    const fetchMock = mockFetch(json({ data: [CHANNEL] }), new Response(null, { status: 204 }));
+
+    await getTwitchAPI().applyProfile(PROFILE, { fields: ['title'] });
+
+    expect(JSON.parse(requestAt(fetchMock, 1).init.body as string)).toEqual({ title: 'Building a castle' });
+  });
+
+  it('cleans up tags saved before the tag rules were checked', async () => {
+    const fetchMock = mockFetch(json({ data: [CHANNEL] }), new Response(null, { status: 204 }));
+
+    await getTwitchAPI().applyProfile({ ...PROFILE, tags: ['speed run', '#Chill', 'chill', 'c++', 'a'.repeat(26)] }, { fields: ['tags'] });
+
+    expect(JSON.parse(requestAt(fetchMock, 1).init.body as string)).toEqual({ tags: ['speedrun', 'Chill'] });
+  });
+
+  it('refuses a title that runs past Twitch\'s limit once filled in', async () => {
+    const fetchMock = mockFetch();
+
+    const result = await getTwitchAPI().applyProfile({ ...PROFILE, title: 'Today: {var:plan}', variables: { plan: 'x'.repeat(140) } });
+
+    expect(result.error).toMatchObject({ code: ERROR_CODES.VALIDATION_ERROR, message: expect.stringContaining('147 characters') });
+    expect(fetchMock).not.toHaveBeenCalled();
+
+    // Not sending the title leaves nothing to check
+    mockFetch(json({ data: [CHANNEL] }), new Response(null, { status: 204 }));
+    const tagsOnly = await getTwitchAPI().applyProfile({ ...PROFILE, title: 'Today: {var:plan}', variables: { plan: 'x'.repeat(140) } }, { fields: ['tags'] });
+    expect(tagsOnly.success).toBe(true);
+  });
+
+  it('needs a signed-in user', async () => {
+    vi.mocked(getTwitchAuth().getValidToken).mockResolvedValue(null);
+    const fetchMock = mockFetch();
+
+    const result = await getTwitchAPI().applyProfile(PROFILE);
+
+    expect(result.error?.code).toBe('AUTH_REQUIRED');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('retries server errors', async () => {
+    const fetchMock = mockFetch(
+      json({ data: [CHANNEL] }),
+      json({ message: 'Internal Server Error' }, 503),
+      json({ message: 'Internal Server Error' }, 500),
+      new Response(null, { status: 204 })
+    );
+
+    const result = await getTwitchAPI().applyProfile(PROFILE);
+
+    expect(result.success).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('reports rejected tokens as auth errors without retrying', async () => {
+    const fetchMock = mockFetch(
+      json({ data: [CHANNEL] }),
+      json({ error: 'Unauthorized', status: 401, message: 'Invalid OAuth token' }, 401)
+    );
+
+    const result = await getTwitchAPI().applyProfile(PROFILE);
+
+    expect(result.error).toMatchObject({ code: ERROR_CODES.AUTH_FAILED, status: 401, message: 'Invalid OAuth token' });
+    expect(isAuthError(result.error)).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+
+    const history = await getHistoryRepository().getAll();
+    expect(history.data?.[0]).toMatchObject({ success: false, error: { code: ERROR_CODES.AUTH_FAILED } });
+  });
+
+  it('reports network failures once retries run out', async () => {
+    const offline = () => new TypeError('Failed to fetch');
+    mockFetch(offline(), offline(), offline(), offline(), offline(), offline());
+
+    const result = await getTwitchAPI().applyProfile(PROFILE);
+
+    expect(result.error?.code).toBe(ERROR_CODES.NETWORK_ERROR);
+    expect(isNetworkError(result.error)).toBe(true);
+  });
+
+  it('searches categories and caches the results', async () => {
+    const fetchMock = mockFetch(json({ data: [{ id: '27471', name: 'Minecraft', box_art_url: 'art.jpg', igdb_id: '121' }] }));
+
+    const result = await getTwitchAPI().searchCategories('Minecraft ');
+
+    expect(requestAt(fetchMock, 0).url).toBe('https://api.twitch.tv/helix/search/categories?query=Minecraft&first=20');
+    expect(result.data?.map(game => game.name)).toEqual(['Minecraft']);
+    expect((await getCategoryRepository().getById('27471')).data).toMatchObject({ name: 'Minecraft', boxArtUrl: 'art.jpg' });
+  });
+
+  it('follows the search cursor until the limit is reached', async () => {
+    const fetchMock = mockFetch(
+      json({ data: [{ id: '1', name: 'Minecraft' }, { id: '2', name: 'Minecraft Dungeons' }], pagination: { cursor: 'page-2' } }),
+      json({ data: [{ id: '3', name: 'Minecraft Legends' }], pagination: { cursor: 'page-3' } })
+    );
+
+    const result = await getTwitchAPI().searchCategories('minecra', 3);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(requestAt(fetchMock, 1).url).toBe('https://api.twitch.tv/helix/search/categories?query=minecra&first=1&after=page-2');
+    expect(result.data?.map(game => game.id)).toEqual(['1', '2', '3']);
+  });
+
+  it('looks categories up by ID, 100 per request', async () => {
+    const ids = Array.from({ length: 150 }, (_, i) => String(i + 1));
+    const fetchMock = mockFetch(
+      json({ data: [{ id: '1', name: 'One', box_art_url: '', igdb_id: '' }] }),
+      json({ data: [{ id: '150', name: 'Last', box_art_url: '', igdb_id: '' }] })
+    );
+
+    const result = await getTwitchAPI().getCategoriesByIds([...ids, '1']);
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(new URL(requestAt(fetchMock, 0).url).searchParams.getAll('id')).toHaveLength(100);
+    expect(new URL(requestAt(fetchMock, 1).url).searchParams.getAll('id')).toEqual(ids.slice(100));
+    expect(result.data?.map(game => game.id)).toEqual(['1', '150']);
+  });
+
+  it('falls back to cached categories when Twitch fails', async () => {
+    await getCategoryRepository().cache({ id: '27471', name: 'Minecraft' });
+    mockFetch(json({ message: 'Bad Request' }, 400));
+
+    const result = await getTwitchAPI().searchCategories('mine');
+
+    expect(result).toMatchObject({ success: true, data: [{ id: '27471', name: 'Minecraft' }] });
+  });
+
+  it('reads the live stream, or null when offline', async () => {
+    mockFetch(
+      json({ data: [{ id: 'stream-1', user_id: USER.id, type: 'live', title: 'Live now' }] }),
+      json({ data: [] })
+    );
+
+    expect((await getTwitchAPI().getStreamStatus()).data).toMatchObject({ id: 'stream-1' });
+    expect((await getTwitchAPI().getStreamStatus()).data).toBeNull();
+  });
+
+  it('checks health with a single request', async () => {
+    const fetchMock = mockFetch(json({ message: 'Service Unavailable' }, 503));
+
+    const health = await getTwitchAPI().checkAPIHealth();
+
+    expect(health).toMatchObject({ isAvailable: false, error: 'API returned 503: Service Unavailable' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  describe('co-stream applies', () => {
+    const account = (id: string, displayName: string): LinkedAccount => ({
+      id, login: id, displayName, profileImageUrl: '', linkedAt: new Date(), signedIn: true
+    });
+    const TARGETS = [
+      { broadcasterId: 'main', name: 'Main' },
+      { broadcasterId: 'alt', name: 'Alt', title: 'Alt view with {partner}' },
+      { broadcasterId: 'guest', name: 'Guest' }
+    ];
+
+    /**
+     * Answer channel reads, and PATCHes with the status set for each broadcaster
+     */
+    const mockChannels = (patchStatus: Record<string, number>) => {
+      const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+        const broadcasterId = new URL(url).searchParams.get('broadcaster_id')!;
+        if (init?.method !== 'PATCH') return json({ data: [{ ...CHANNEL, broadcaster_id: broadcasterId }] });
+        const status = patchStatus[broadcasterId] ?? 204;
+        return status === 204 ? new Response(null, { status }) : json({ message: 'Rejected' }, status);
+      });
+      vi.stubGlobal('fetch', fetchMock);
+      return fetchMock;
+    };
+
+    const patches = (fetchMock: ReturnType<typeof mockChannels>) => fetchMock.mock.calls
+      .filter(([, init]) => init?.method === 'PATCH')
+      .map(([url, init]) => ({
+        broadcasterId: new URL(url).searchParams.get('broadcaster_id'),
+        authorization: (init!.headers as Record<string, string>).Authorization,
+        title: JSON.parse(init!.body as string).title
+      }));
+
+    beforeEach(() => {
+      vi.spyOn(getTwitchAuth(), 'getAccounts').mockResolvedValue([account('main', 'Main'), account('alt', 'Alt')]);
+      vi.mocked(getTwitchAuth().getValidToken).mockImplementation(async accountId =>
+        ({ ...TOKEN, userId: accountId!, access_token: `${accountId}-access` }));
+    });
+
+    it('applies to each linked channel with its own title and reports each one', async () => {
+      const fetchMock = mockChannels({ alt: 400 });
+
+      const results = await getTwitchAPI().applyProfileToChannels({ ...PROFILE, title: 'Co-op with {partner}' }, TARGETS);
+
+      expect(results).toEqual([
+        { broadcasterId: 'main', name: 'Main', title: 'Co-op with Alt & Guest', success: true, error: undefined },
+        { broadcasterId: 'alt', name: 'Alt', title: 'Alt view with Main & Guest', success: false, error: { code: ERROR_CODES.VALIDATION_ERROR, message: 'Rejected' } },
+        { broadcasterId: 'guest', name: 'Guest', title: 'Co-op with Main & Alt', success: false, error: { code: ERROR_CODES.AUTH_FAILED, message: 'Link this account to update its channel' } }
+      ]);
+      expect(patches(fetchMock)).toEqual([
+        { broadcasterId: 'main', authorization: 'Bearer main-access', title: 'Co-op with Alt & Guest' },
+        { broadcasterId: 'alt', authorization: 'Bearer alt-access', title: 'Alt view with Main & Guest' }
+      ]);
+    });
+
+    it('retries only the chosen channels, keeping the others as partners', async () => {
+      const fetchMock = mockChannels({});
+
+      const results = await getTwitchAPI().applyProfileToChannels({ ...PROFILE, title: 'Co-op with {partner}' }, TARGETS, { broadcasterIds: ['alt'] });
+
+      expect(results.map(result => result.broadcasterId)).toEqual(['alt']);
+      expect(patches(fetchMock)).toEqual([
+        { broadcasterId: 'alt', authorization: 'Bearer alt-access', title: 'Alt view with Main & Guest' }
+      ]);
+    });
+  });
+});
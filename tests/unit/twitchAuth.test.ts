@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getTwitchAuth } from '@/lib/auth/twitchAuth';
+import { getDB } from '@/lib/db/indexedDB';
+import { STORAGE_KEYS } from '@/types/constants';
+import type { StoredAuthToken } from '@/types/TwitchAPI';
+
+/**
+ * Linked account storage tests
+ */
+
+const tokenFor = (userId: string, accessToken: string): StoredAuthToken => ({
+  access_token: accessToken,
+  token_type: 'bearer',
+  expires_in: 3600,
+  obtainedAt: new Date(),
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  userId
+});
+
+const putAuthRecord = async (key: string, value: unknown) => {
+  const db = await getDB();
+  await db.put(STORAGE_KEYS.AUTH_STORE, { key, value, updatedAt: new Date() });
+};
+
+const linkAccount = (id: string, accessToken: string, linkedAt: Date) =>
+  putAuthRecord(`account:${id}`, {
+    id,
+    login: id,
+    displayName: id.toUpperCase(),
+    profileImageUrl: '',
+    linkedAt,
+    token: tokenFor(id, accessToken)
+  });
+
+describe('TwitchAuth accounts', () => {
+  beforeEach(() => {
+    getTwitchAuth().invalidateCache();
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 200 })));
+  });
+
+  it('adopts a token stored before accounts were linked', async () => {
+    await putAuthRecord('token', tokenFor('main', 'legacy-access'));
+    const auth = getTwitchAuth();
+
+    expect(await auth.getActiveAccountId()).toBe('main');
+    expect((await auth.getValidToken())?.access_token).toBe('legacy-access');
+
+    const db = await getDB();
+    expect(await db.get(STORAGE_KEYS.AUTH_STORE, 'token')).toBeUndefined();
+    expect(await db.get(STORAGE_KEYS.AUTH_STORE, 'account:main')).toBeDefined();
+  });
+
+  it('switches between linked accounts and reads tokens by account', async () => {
+    await linkAccount('main', 'main-access', new Date('2025-01-01'));
+    await linkAccount('alt', 'alt-access', new Date('2025-02-01'));
+    await putAuthRecord('active_account', 'main');
+    const auth = getTwitchAuth();
+
+    expect((await auth.getAccounts()).map(account => account.id)).toEqual(['main', 'alt']);
+    expect((await auth.getValidToken('alt'))?.access_token).toBe('alt-access');
+
+    await auth.switchAccount('alt');
+    auth.invalidateCache();
+    expect(await auth.getActiveAccountId()).toBe('alt');
+    expect((await auth.getValidToken())?.access_token).toBe('alt-access');
+
+    await expect(auth.switchAccount('stranger')).rejects.toThrow('That account is not linked');
+  });
+
+  it('selects the oldest remaining account after removing the selected one', async () => {
+    await linkAccount('main', 'main-access', new Date('2025-01-01'));
+    await linkAccount('alt', 'alt-access', new Date('2025-02-01'));
+    await linkAccount('collab', 'collab-access', new Date('2025-03-01'));
+    await putAuthRecord('active_account', 'main');
+    const auth = getTwitchAuth();
+
+    await auth.removeAccount('main');
+
+    expect(await auth.getActiveAccountId()).toBe('alt');
+    expect((await auth.getAccounts()).map(account => account.id)).toEqual(['alt', 'collab']);
+    expect(fetch).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeTag,
+  normalizeTags,
+  parseTagInput,
+  sendableTags,
+  validateTag,
+  validateTags,
+  countTagUsage,
+  suggestTags
+} from '@/lib/tags/twitchTags';
+import { PROFILE_VALIDATION_ERRORS } from '@/types/Profile';
+
+/**
+ * Twitch tag rule tests
+ */
+
+const codes = (tags: string[]) => validateTags(tags).map(problem => problem.code);
+
+describe('twitchTags', () => {
+  it('accepts letters and numbers from any script', () => {
+    ['Español', 'Français', 'Русский', '日本語', 'हिन्दी', 'Speedrun2025'].forEach(tag => {
+      expect(validateTag(tag)).toBeNull();
+    });
+  });
+
+  it('rejects spaces, punctuation and long tags', () => {
+    expect(validateTag('speed run')?.code).toBe(PROFILE_VALIDATION_ERRORS.TAG_INVALID_CHARS);
+    expect(validateTag('co-op')?.code).toBe(PROFILE_VALIDATION_ERRORS.TAG_INVALID_CHARS);
+    expect(validateTag('c++')?.code).toBe(PROFILE_VALIDATION_ERRORS.TAG_INVALID_CHARS);
+    expect(validateTag('a'.repeat(26))?.code).toBe(PROFILE_VALIDATION_ERRORS.TAG_TOO_LONG);
+    expect(validateTag('é'.repeat(25))).toBeNull();
+  });
+
+  it('reports duplicates regardless of case, and too many tags', () => {
+    expect(codes(['FPS', 'fps'])).toEqual([PROFILE_VALIDATION_ERRORS.TAG_DUPLICATE]);
+    expect(codes(Array.from({ length: 11 }, (_, i) => `tag${i}`))).toEqual([PROFILE_VALIDATION_ERRORS.TAGS_TOO_MANY]);
+  });
+
+  it('normalizes typed tags', () => {
+    expect(normalizeTag('  #Speed Run ')).toBe('SpeedRun');
+    expect(normalizeTag('co-op_games')).toBe('coopgames');
+    expect(normalizeTags([' English', '', 'english', 'Chill ', '#chill'])).toEqual(['English', 'Chill']);
+    expect(parseTagInput('cozy, ,  late night,Cozy')).toEqual(['cozy', 'latenight']);
+  });
+
+  it('drops tags Twitch would reject and keeps at most ten', () => {
+    expect(sendableTags(['#Speed Run', 'c++', 'a'.repeat(26), 'Cozy'])).toEqual(['SpeedRun', 'Cozy']);
+    expect(sendableTags(Array.from({ length: 12 }, (_, i) => `tag${i}`))).toHaveLength(10);
+  });
+
+  it('counts tag usage across profiles without regard to case', () => {
+    expect(countTagUsage([['English', 'Chill'], ['english'], ['Chill', 'Coding']])).toEqual([
+      { tag: 'Chill', count: 2 },
+      { tag: 'English', count: 2 },
+      { tag: 'Coding', count: 1 }
+    ]);
+  });
+
+  it('suggests matching tags, live ones and prefixes first, without chosen ones', () => {
+    const sources = {
+      used: [{ tag: 'Minecraft', count: 4 }, { tag: 'Modded', count: 2 }, { tag: 'HardcoreMode', count: 1 }],
+      live: ['Mods', 'English']
+    };
+
+    expect(suggestTags('mo', sources).map(suggestion => suggestion.tag)).toEqual(['Mods', 'Modded', 'HardcoreMode']);
+    expect(suggestTags('', sources, ['english']).map(suggestion => suggestion.tag)).toEqual(['Mods', 'Minecraft', 'Modded', 'HardcoreMode']);
+    expect(suggestTags('mine', sources)[0]).toEqual({ tag: 'Minecraft', source: 'profiles', count: 4 });
+  });
+});
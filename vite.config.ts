@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import { VitePWA } from "vite-plugin-pwa";
@@ -14,6 +15,8 @@ export default defineConfig({
             workbox: {
                 globPatterns: ["**/*.{js,css,html,ico,png,svg}"],
                 cleanupOutdatedCaches: true,
+                // Background Sync for the offline apply queue
+                importScripts: ["apply-queue-sw.js"],
                 skipWaiting: true,
                 clientsClaim: true,
                 runtimeCaching: [
@@ -28,6 +31,21 @@ export default defineConfig({
                             },
                         },
                     },
+                    {
+                        // Box art, also filled in by the app for the categories profiles use
+                        urlPattern: /^https:\/\/static-cdn\.jtvnw\.net\/ttv-boxart\/.*/i,
+                        handler: "CacheFirst",
+                        options: {
+                            cacheName: "twitch-box-art",
+                            cacheableResponse: {
+                                statuses: [0, 200],
+                            },
+                            expiration: {
+                                maxEntries: 200,
+                                maxAgeSeconds: 60 * 60 * 24 * 30, // 30 days
+                            },
+                        },
+                    },
                     {
                         urlPattern: /^https:\/\/static-cdn\.jtvnw\.net\/.*/i,
                         handler: "CacheFirst",
@@ -101,4 +119,10 @@ export default defineConfig({
             "@": resolve(__dirname, "./src"),
         },
     },
+    // Unit tests (the Playwright specs in tests/ run separately)
+    test: {
+        include: ["tests/unit/**/*.test.ts"],
+        environment: "node",
+        setupFiles: ["tests/unit/setup.ts"],
+    },
 });
\ No newline at end of file